@@ -0,0 +1,127 @@
+/**
+ * JSON Schema Validator
+ * Validates parsed JSON against the JSON Schema subset used for structured output
+ */
+
+import { JsonSchema, SchemaValidationError } from '@shared/interfaces/ai-provider';
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+function typeOf(value: unknown): JsonType | undefined {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  switch (typeof value) {
+    case 'object':
+      return 'object';
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'number':
+      return Number.isInteger(value) ? 'integer' : 'number';
+    default:
+      return undefined;
+  }
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function validateAt(value: unknown, schema: JsonSchema, path: string, errors: SchemaValidationError[]): void {
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`Expected ${types.join(' or ')} but got ${typeOf(value) ?? typeof value}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    fail(`Expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(value, option))) {
+    fail(`Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`Must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`Must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) fail(`Must be greater than ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) fail(`Must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) fail(`Must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && length > schema.maxLength) fail(`Must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) fail(`Must match pattern ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`Must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`Must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => isEqual(item, other)) !== index)) {
+      fail('Items must be unique');
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateAt(item, schema.items!, pointer(path, index), errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object)) errors.push({ path: pointer(path, key), message: 'Required property is missing' });
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateAt(item, propertySchema, pointer(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: pointer(path, key), message: 'Property is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateAt(item, schema.additionalProperties, pointer(path, key), errors);
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf || []) {
+    validateAt(value, subschema, path, errors);
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => validateSchema(value, subschema).length === 0)) {
+    fail('Must match at least one of the allowed schemas');
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(subschema => validateSchema(value, subschema).length === 0).length;
+    if (matches !== 1) fail(`Must match exactly one of the allowed schemas, but matched ${matches}`);
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * @returns Every violation found, empty when the value is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateAt(value, schema, '', errors);
+  return errors;
+}
@@ -5,6 +5,7 @@
  */
 
 import { MemoryService, MemoryEntry, MemoryMetadata, MemorySearchParams, MemorySearchResult, CollectionOptions, MemoryType } from '@shared/interfaces/memory-engine';
+import { SnapshotExportOptions, parseSnapshot, serializeSnapshot } from '@backend/services/memory/memory-snapshot';
 
 export class LocalMemoryService implements MemoryService {
   private collections: Map<string, Map<string, MemoryEntry>> = new Map();
@@ -183,16 +184,20 @@ export class LocalMemoryService implements MemoryService {
     return cleared;
   }
 
-  async exportMemories(collection: string): Promise<string> {
-    const coll = this.collections.get(collection);
-    if (!coll) return '[]';
-    
-    const entries = Array.from(coll.values());
-    return JSON.stringify(entries, null, 2);
+  async exportMemories(collection: string, options: SnapshotExportOptions = {}): Promise<string> {
+    const entries = Array.from(this.collections.get(collection)?.values() || [])
+      .filter(entry => options.since === undefined || entry.updatedAt > options.since);
+
+    // Entries carry no embeddings, so the snapshot names no embedding model
+    return serializeSnapshot({
+      collection,
+      ...(options.since !== undefined && { since: options.since }),
+      createdAt: Date.now()
+    }, entries);
   }
 
   async importMemories(collection: string, data: string): Promise<number> {
-    const entries = JSON.parse(data) as MemoryEntry[];
+    const { entries } = parseSnapshot<MemoryEntry>(data, collection);
     
     if (!this.collections.has(collection)) {
       await this.createCollection({ name: collection });
@@ -0,0 +1,221 @@
+import { createTestRouter } from '@backend/test/fixtures';
+import { ModelRouterOptions, isRetryableError } from './model-router';
+import { RoutingPreference } from './route-selector';
+import { CircuitState, ProviderHealthTracker } from './provider-health';
+import { MockProvider } from './providers/mock-provider';
+
+const createRouter = (providers: Record<string, MockProvider>, chain: string[], options: ModelRouterOptions = {}) =>
+  createTestRouter(providers, {
+    activeProvider: chain[0],
+    fallbackChain: chain.slice(1),
+    retry: { baseDelayMs: 1, maxRetries: 2 },
+    health: { failureThreshold: 3 },
+    ...options
+  });
+
+const failing = (status: number, onCalls: number[]) =>
+  new MockProvider({ defaultResponse: 'primary', failures: { onCalls, message: `Mock API error: ${status} - unavailable` } });
+
+describe('ModelRouter', () => {
+  it('retries rate limits with backoff before succeeding', async () => {
+    const primary = failing(429, [1, 2]);
+    const router = createRouter({ primary }, ['primary']);
+
+    const result = await router.sendMessage('hi');
+
+    expect(result).toMatchObject({ content: 'primary', provider: 'primary' });
+    expect(primary.getCallCount()).toBe(3);
+    expect(router.getProviderHealth('primary')).toMatchObject({ requests: 3, consecutiveFailures: 0 });
+  });
+
+  it('falls back along the chain without retrying client errors', async () => {
+    const primary = failing(401, [1]);
+    const secondary = failing(503, [1, 2, 3]);
+    const tertiary = new MockProvider({ defaultResponse: 'tertiary' });
+    const router = createRouter({ primary, secondary, tertiary }, ['primary', 'secondary', 'tertiary']);
+
+    const result = await router.sendMessage('hi');
+
+    expect(result).toMatchObject({ content: 'tertiary', provider: 'tertiary' });
+    expect(primary.getCallCount()).toBe(1);
+    expect(secondary.getCallCount()).toBe(3);
+    expect(router.getProviderHealth('secondary').circuitState).toBe(CircuitState.OPEN);
+  });
+
+  it('skips providers whose circuit is open', async () => {
+    const primary = failing(500, [1, 2, 3]);
+    const secondary = new MockProvider({ defaultResponse: 'secondary' });
+    const router = createRouter({ primary, secondary }, ['primary', 'secondary']);
+
+    await router.sendMessage('first');
+    const result = await router.sendMessage('second');
+
+    expect(result.provider).toBe('secondary');
+    expect(primary.getCallCount()).toBe(3);
+    expect(router.getProviderHealth().map(health => health.provider)).toEqual(['primary', 'secondary']);
+  });
+
+  it('throws when every provider fails', async () => {
+    const router = createRouter({ primary: failing(400, [1]) }, ['primary', 'missing']);
+
+    await expect(router.sendMessage('hi')).rejects.toThrow(/All providers failed: primary: Mock API error: 400.*missing: Provider 'missing' not found/);
+  });
+
+  it('holds requests to a provider back to its rate limit', async () => {
+    const primary = new MockProvider({ defaultResponse: 'primary', latencyMs: 10 });
+    const router = createRouter({ primary }, ['primary']);
+    router.setRateLimit('primary', { maxConcurrent: 1 });
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const generate = primary.generateResponse.bind(primary);
+    vi.spyOn(primary, 'generateResponse').mockImplementation(async (prompt, options) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        return await generate(prompt, options);
+      } finally {
+        inFlight--;
+      }
+    });
+
+    const results = await Promise.all(['a', 'b', 'c'].map(message => router.sendMessage(message)));
+
+    expect(results.map(result => result.content)).toEqual(['primary', 'primary', 'primary']);
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('admits another trial when a half-open trial is cancelled before it is sent', async () => {
+    const primary = failing(500, [1]);
+    const router = createRouter({ primary }, ['primary'], { retry: { maxRetries: 0 }, health: { failureThreshold: 1, cooldownMs: 0 } });
+    await expect(router.sendMessage('fails')).rejects.toThrow(/500/);
+
+    // The trial waits for a rate limit slot and is cancelled there
+    router.setRateLimit('primary', { maxConcurrent: 0 });
+    const controller = new AbortController();
+    const cancelled = router.sendMessage('cancelled', { signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(/cancelled while waiting/);
+    router.setRateLimit('primary');
+
+    expect(await router.sendMessage('trial')).toMatchObject({ content: 'primary', provider: 'primary' });
+    expect(router.getProviderHealth('primary').circuitState).toBe(CircuitState.CLOSED);
+  });
+
+  it('logs exchanges to the conversation manager when enabled', async () => {
+    const addTurn = vi.fn().mockResolvedValue({});
+    const router = createTestRouter({ primary: new MockProvider({ defaultResponse: 'Use `const`.' }) }, {}, { conversationManager: { addTurn } });
+
+    await router.sendMessage('not logged');
+    router.setConversationLoggingEnabled(true);
+    await router.sendMessage('logged');
+
+    expect(addTurn).toHaveBeenCalledTimes(1);
+    expect(addTurn).toHaveBeenCalledWith(
+      { content: 'logged' },
+      expect.objectContaining({ rawResponse: 'Use `const`.', meta: expect.objectContaining({ provider: 'primary' }) }),
+      'primary',
+      expect.any(String)
+    );
+  });
+
+  it('only retries 429 and 5xx errors', () => {
+    expect(isRetryableError('OpenAI API error: 429 - Rate limit')).toBe(true);
+    expect(isRetryableError('Claude API error: 529 - Overloaded')).toBe(true);
+    expect(isRetryableError('Gemini API error: 403 - Forbidden')).toBe(false);
+    expect(isRetryableError('Failed to generate response: TypeError')).toBe(false);
+  });
+});
+
+describe('ProviderHealthTracker', () => {
+  it('admits a single trial after the cooldown and closes on success', () => {
+    let now = 0;
+    const tracker = new ProviderHealthTracker({ failureThreshold: 2, cooldownMs: 1000 }, () => now);
+
+    tracker.recordFailure('claude', 100, 'Claude API error: 500 - boom');
+    tracker.recordFailure('claude', 100, 'Claude API error: 500 - boom');
+    expect(tracker.canRequest('claude')).toBe(false);
+
+    now = 1000;
+    expect(tracker.canRequest('claude')).toBe(true);
+    expect(tracker.getHealth('claude').circuitState).toBe(CircuitState.HALF_OPEN);
+    expect(tracker.canRequest('claude')).toBe(false);
+
+    tracker.recordSuccess('claude', 100);
+    const health = tracker.getHealth('claude');
+    expect(health.circuitState).toBe(CircuitState.CLOSED);
+    expect(health.errorRate).toBeCloseTo(2 / 3);
+    expect(health.averageLatencyMs).toBe(100);
+    expect(health.score).toBeGreaterThan(0);
+    expect(health.score).toBeLessThan(0.5);
+  });
+});
+
+describe('ModelRouter routing', () => {
+  const provider = (response: string, overrides: { contextLength?: number; cost?: number; embeddings?: boolean; latencyMs?: number }) =>
+    Object.assign(new MockProvider({ defaultResponse: response, latencyMs: overrides.latencyMs }), {
+      getMaxContextLength: () => overrides.contextLength ?? 8192,
+      supportsEmbeddings: () => overrides.embeddings ?? false,
+      estimateCost: async () => ({ inputCost: 0, outputCost: 0, totalCost: overrides.cost ?? 0, currency: 'USD' })
+    });
+
+  const createRoutingRouter = () => createRouter({
+    small: provider('small', { cost: 0.001, latencyMs: 30 }),
+    large: provider('large', { contextLength: 200000, cost: 0.05, embeddings: true }),
+    mid: provider('mid', { contextLength: 128000, cost: 0.02 })
+  }, ['small', 'large', 'mid']);
+
+  it('routes to the cheapest eligible model and explains why', async () => {
+    const router = createRoutingRouter();
+
+    const result = await router.routeMessage('hi', { minContextLength: 100000, maxCost: 0.03, providers: ['small', 'large', 'mid'] });
+
+    expect(result).toMatchObject({ content: 'mid', provider: 'mid', model: 'mock-model' });
+    expect(result.routing.rationale).toContain('mid/mock-model: cheapest of 1 eligible candidate');
+    expect(result.routing.rationale).toContain('small/mock-model (context 8192 < 100000)');
+    expect(result.routing.rationale).toContain('large/mock-model (cost $0.0500 > $0.0300)');
+    expect(router.getRoutingHistory()).toEqual([result.routing]);
+  });
+
+  it('checks capabilities and falls back to the next eligible candidate', async () => {
+    const router = createRoutingRouter();
+
+    const decision = await router.selectRoute({ content: 'embed me' }, { needsEmbeddings: true, providers: ['small', 'large'] });
+
+    expect(decision.provider).toBe('large');
+    expect(decision.candidates.find(candidate => candidate.provider === 'small')?.rejectedBecause).toEqual(['no embeddings']);
+  });
+
+  it('prefers the fastest provider once latency has been observed', async () => {
+    const router = createRoutingRouter();
+    await router.sendMessage('warm up');
+    router.setActiveProvider('large');
+    await router.sendMessage('warm up');
+
+    const decision = await router.selectRoute({ content: 'hi' }, { prefer: RoutingPreference.FASTEST, providers: ['small', 'large'] });
+
+    expect(decision.provider).toBe('large');
+    expect(decision.candidates[1].averageLatencyMs).toBeGreaterThanOrEqual(25);
+  });
+
+  it('rejects requests no provider can serve', async () => {
+    const router = createRoutingRouter();
+
+    await expect(router.selectRoute({ content: 'hi' }, { maxCost: 0.0001, providers: ['small'] }))
+      .rejects.toThrow('No provider meets the routing requirements: small/mock-model (cost $0.0010 > $0.0001)');
+  });
+
+  it('discovers models again after an empty or failed listing', async () => {
+    const local = provider('local', {});
+    const listModels = vi.spyOn(local, 'listAvailableModels')
+      .mockRejectedValueOnce(new Error('connection refused'))
+      .mockResolvedValueOnce([]);
+    const router = createRouter({ local }, ['local']);
+
+    await expect(router.selectRoute({ content: 'hi' }, { providers: ['local'] })).rejects.toThrow('No provider meets');
+    await expect(router.selectRoute({ content: 'hi' }, { providers: ['local'] })).rejects.toThrow('No provider meets');
+    expect((await router.selectRoute({ content: 'hi' }, { providers: ['local'] })).model).toBe('mock-model');
+    await router.selectRoute({ content: 'hi' }, { providers: ['local'] });
+
+    expect(listModels).toHaveBeenCalledTimes(3);
+  });
+});
@@ -4,16 +4,95 @@
  * Routes AI requests to appropriate providers with fallback and load balancing
  */
 
-import { AIProvider } from '@shared/interfaces/ai-provider';
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse } from '@shared/interfaces/ai-provider';
 import { ServiceLocator } from './service-locator';
+import { providerImplementations } from './providers';
+import { CircuitState, ProviderHealth, ProviderHealthOptions, ProviderHealthTracker } from './provider-health';
+import { RateLimit, RateLimiter } from './rate-limiter';
+import {
+  RoutingCandidate,
+  RoutingDecision,
+  RoutingPreference,
+  RoutingRequirements,
+  checkRequirements,
+  describeDecision,
+  rankCandidates
+} from './route-selector';
 import { SettingsManager } from '@shared/interfaces/settings-manager';
+import { MemoryService, MemoryType } from '@shared/interfaces/memory-engine';
+import { ProviderError } from '@backend/services/error/error-handler';
+import { Logger } from '@backend/services/logging/logger';
+import { parseResponse } from '@backend/services/response-handler';
+import type { ConversationManager } from '@backend/services/conversation/conversation-manager';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
+import { StructuredOutputOptions, generateStructured } from './structured-output';
+import { ToolCallingOptions, ToolCallingResponse, generateWithTools } from './tool-calling';
+
+export interface RetryOptions {
+  maxRetries: number;   // Retries per provider for 429/5xx errors
+  baseDelayMs: number;  // Delay before the first retry; doubles on each retry
+  maxDelayMs: number;
+}
 
 export interface ModelRouterOptions {
   activeProvider?: string;
   fallbackProvider?: string;
+  fallbackChain?: string[];
   memoryEnabled?: boolean;
   conversationLoggingEnabled?: boolean;
   fallbackEnabled?: boolean;
+  retry?: Partial<RetryOptions>;
+  health?: Partial<ProviderHealthOptions>;
+  rateLimits?: Record<string, RateLimit>;  // Per provider; requests over the limit wait their turn
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+/**
+ * Options for sending a full prompt: where to send it and what it may use
+ */
+export interface PromptRequestOptions extends Partial<Omit<AIProviderOptions, 'tools'>> {
+  provider?: string;                // Tried first; the active provider by default
+  model?: string;                   // Model for the first provider tried
+  tools?: ToolCallingOptions;       // Lets the model call tool plugins
+}
+
+// Number of routing decisions kept for inspection
+const MAX_ROUTING_HISTORY = 50;
+
+interface RouteTarget {
+  provider: string;
+  model?: string;
+}
+
+// Collection that exchanges are stored in when memory is enabled
+const MEMORY_COLLECTION = 'conversations';
+
+// How long a provider's model list is reused before it is discovered again
+const MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Extract the HTTP status from a provider error such as "OpenAI API error: 429 - Rate limited"
+ */
+export function getErrorStatus(error: string): number | undefined {
+  const match = error.match(/API error: (\d{3})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Rate limits and server errors are worth retrying; other failures are not
+ */
+export function isRetryableError(error: string): boolean {
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 /**
@@ -21,59 +100,301 @@ export interface ModelRouterOptions {
  */
 export class ModelRouter {
   private activeProvider: string = 'claude';
-  private fallbackProvider?: string;
+  private fallbackChain: string[] = [];
   private memoryEnabled: boolean = false;
   private conversationLoggingEnabled: boolean = false;
   private fallbackEnabled: boolean = false;
   private serviceLocator?: ServiceLocator;
+  private retryOptions: RetryOptions;
+  private health: ProviderHealthTracker;
+  private rateLimiter: RateLimiter;
+  private routingHistory: RoutingDecision[] = [];
+  private modelCache = new Map<string, { models: string[]; cachedAt: number }>();
+  private logger = new Logger('ModelRouter');
 
-  constructor(serviceLocator?: ServiceLocator) {
+  constructor(serviceLocator?: ServiceLocator, options: ModelRouterOptions = {}) {
     this.serviceLocator = serviceLocator;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.health = new ProviderHealthTracker(options.health);
+    this.rateLimiter = new RateLimiter(options.rateLimits);
+
+    if (options.activeProvider) this.activeProvider = options.activeProvider;
+    if (options.fallbackProvider) this.fallbackChain = [options.fallbackProvider];
+    if (options.fallbackChain) this.fallbackChain = [...options.fallbackChain];
+    this.memoryEnabled = options.memoryEnabled ?? false;
+    this.conversationLoggingEnabled = options.conversationLoggingEnabled ?? false;
+    this.fallbackEnabled = options.fallbackEnabled ?? this.fallbackChain.length > 0;
   }
 
   /**
-   * Send a message to the active provider
+   * Send a message through the provider chain.
+   * Each provider is retried with exponential backoff on 429/5xx errors; when it keeps failing,
+   * or its circuit is open, the next provider in the fallback chain is tried.
+   * @throws ProviderError when every provider in the chain fails
    */
-  async sendMessage(message: string, options?: any): Promise<any> {
-    try {
-      const provider = this.getActiveProviderInstance();
-      const result = await provider.generateResponse(
-        { content: message },
-        { apiKey: this.getApiKey(this.activeProvider), ...options }
-      );
-
-      // Store in memory if enabled
-      if (this.memoryEnabled && this.serviceLocator) {
-        try {
-          const memoryService = this.serviceLocator.get('memoryEngine');
-          // Store user message and response
-        } catch (error) {
-          console.warn('Memory service not available', error);
-        }
+  async sendMessage(message: string, options?: Partial<AIProviderOptions>): Promise<AIResponse & { provider: string }> {
+    return this.sendThroughChain(this.getProviderChain().map(provider => ({ provider })), { content: message }, options);
+  }
+
+  /**
+   * Send a message and get back JSON matching a schema, in `structured`.
+   * Each provider gets the repair attempts in `format` before the next in the chain is tried.
+   * @throws ProviderError when no provider in the chain produces valid output
+   */
+  async sendStructured<T = unknown>(
+    message: string,
+    format: StructuredOutputOptions,
+    options?: Partial<AIProviderOptions>
+  ): Promise<AIResponse<T> & { provider: string; model?: string }> {
+    const result = await this.sendThroughChain(this.getProviderChain().map(provider => ({ provider })), { content: message }, options, format);
+    return result as AIResponse<T> & { provider: string; model?: string };
+  }
+
+  /**
+   * Send a message and let the model call tool plugins before it answers.
+   * A provider without tool calling, or whose model keeps calling tools past `maxDepth`, counts
+   * as failed and the next in the chain is tried.
+   * @throws ValidationError when a requested tool doesn't exist or is disabled
+   * @throws ProviderError when every provider in the chain fails
+   */
+  async sendWithTools(
+    message: string,
+    tools: ToolCallingOptions = {},
+    options?: Partial<AIProviderOptions>
+  ): Promise<ToolCallingResponse & { provider: string; model?: string }> {
+    const result = await this.sendThroughChain(this.getProviderChain().map(provider => ({ provider })), { content: message }, options, undefined, tools);
+    return result as ToolCallingResponse & { provider: string; model?: string };
+  }
+
+  /**
+   * Send a full prompt, system prompt included, to a chosen provider and model.
+   * When fallback is enabled the rest of the chain is tried after it, with each provider's
+   * own default model. Tools are offered when `tools` is given.
+   * @throws ValidationError when a requested tool doesn't exist or is disabled
+   * @throws ProviderError when every provider tried fails
+   */
+  async sendPrompt(
+    prompt: AIPrompt,
+    options: PromptRequestOptions = {}
+  ): Promise<AIResponse & { provider: string; model?: string; toolExchanges?: ToolCallingResponse['toolExchanges'] }> {
+    const { provider, model, tools, ...providerOptions } = options;
+    const chain = this.getProviderChain();
+    const first = provider ?? chain[0];
+    const rest = provider && !this.fallbackEnabled ? [] : chain.filter(name => name !== first);
+    const targets: RouteTarget[] = [{ provider: first, model }, ...rest.map(name => ({ provider: name }))];
+
+    return this.sendThroughChain(targets, prompt, providerOptions, undefined, tools);
+  }
+
+  /**
+   * Pick a provider and model for a request from its requirements, then send it.
+   * The other eligible candidates, in preference order, act as the fallback chain.
+   * @throws ProviderError when no candidate meets the requirements or every candidate fails
+   */
+  async routeMessage(
+    message: string,
+    requirements: RoutingRequirements = {},
+    options?: Partial<AIProviderOptions>
+  ): Promise<AIResponse & { provider: string; model?: string; routing: RoutingDecision }> {
+    const routing = await this.selectRoute({ content: message }, requirements, options);
+    const eligible = routing.candidates.filter(candidate => !candidate.rejectedBecause);
+    const result = await this.sendThroughChain(eligible, { content: message }, options);
+    return { ...result, routing };
+  }
+
+  /**
+   * Choose the provider and model that best meet the requirements.
+   * Uses each provider's context length, capabilities and cost estimate, plus observed latency.
+   * @throws ProviderError when no candidate meets the requirements
+   */
+  async selectRoute(
+    prompt: AIPrompt,
+    requirements: RoutingRequirements = {},
+    options?: Partial<AIProviderOptions>
+  ): Promise<RoutingDecision> {
+    const prefer = requirements.prefer ?? RoutingPreference.CHEAPEST;
+    const promptText = [prompt.systemPrompt, prompt.context, prompt.content].filter(Boolean).join('\n\n');
+    const requiredContext = Math.max(
+      requirements.minContextLength ?? 0,
+      tokenEstimatorRegistry.countTokens(promptText) + (options?.maxTokens ?? 1000)
+    );
+
+    const eligible: RoutingCandidate[] = [];
+    const rejected: RoutingCandidate[] = [];
+
+    for (const name of requirements.providers ?? this.getRoutableProviders()) {
+      let provider: AIProvider;
+      let providerOptions: AIProviderOptions;
+      try {
+        provider = this.getProviderInstance(name);
+        providerOptions = { ...this.getProviderOptions(name, provider), ...options };
+      } catch {
+        rejected.push({
+          provider: name,
+          model: '*',
+          contextLength: 0,
+          estimatedCost: 0,
+          healthScore: 0,
+          rejectedBecause: ['not configured']
+        });
+        continue;
       }
 
-      // Log conversation if enabled
-      if (this.conversationLoggingEnabled && this.serviceLocator) {
-        try {
-          const conversationService = this.serviceLocator.get('conversationManager');
-          // Log conversation
-        } catch (error) {
-          console.warn('Conversation service not available', error);
+      const health = this.health.getHealth(name);
+      for (const model of await this.getModels(name, provider, providerOptions)) {
+        const cost = await provider.estimateCost(prompt, { ...providerOptions, model });
+        const candidate: RoutingCandidate = {
+          provider: name,
+          model,
+          contextLength: provider.getMaxContextLength(model),
+          estimatedCost: cost.totalCost,
+          averageLatencyMs: health.requests > 0 ? health.averageLatencyMs : undefined,
+          healthScore: health.score
+        };
+
+        const reasons = checkRequirements(candidate, requirements, requiredContext, {
+          embeddings: provider.supportsEmbeddings(model),
+          streaming: provider.supportsStreaming(model),
+          language: !requirements.language || provider.supportsLanguage(requirements.language),
+          circuitOpen: health.circuitState === CircuitState.OPEN
+        });
+        if (reasons.length > 0) {
+          rejected.push({ ...candidate, rejectedBecause: reasons });
+        } else {
+          eligible.push(candidate);
         }
       }
+    }
 
-      return result;
-    } catch (error) {
-      if (this.fallbackEnabled && this.fallbackProvider) {
-        console.warn(`Primary provider failed, using fallback: ${this.fallbackProvider}`);
-        const fallbackProviderInstance = this.getProviderInstance(this.fallbackProvider);
-        return await fallbackProviderInstance.generateResponse(
-          { content: message },
-          { apiKey: this.getApiKey(this.fallbackProvider), ...options }
-        );
+    if (eligible.length === 0) {
+      const reasons = rejected.map(candidate => `${candidate.provider}/${candidate.model} (${candidate.rejectedBecause!.join(', ')})`);
+      this.logger.warn('No provider meets the routing requirements', { requirements, rejected: reasons });
+      throw new ProviderError(`No provider meets the routing requirements: ${reasons.join(', ')}`, undefined, { requirements });
+    }
+
+    const ranked = rankCandidates(eligible, prefer);
+    const decision: RoutingDecision = {
+      provider: ranked[0].provider,
+      model: ranked[0].model,
+      rationale: describeDecision(ranked[0], ranked, rejected, prefer),
+      requirements,
+      candidates: [...ranked, ...rejected],
+      timestamp: Date.now()
+    };
+
+    this.routingHistory.push(decision);
+    if (this.routingHistory.length > MAX_ROUTING_HISTORY) {
+      this.routingHistory.shift();
+    }
+    this.logger.info(`Routing decision: ${decision.rationale}`, { provider: decision.provider, model: decision.model, requirements });
+
+    return decision;
+  }
+
+  /**
+   * Get the most recent routing decisions, oldest first
+   */
+  getRoutingHistory(): RoutingDecision[] {
+    return [...this.routingHistory];
+  }
+
+  /**
+   * Send to each target in turn until one succeeds
+   */
+  private async sendThroughChain(
+    targets: RouteTarget[],
+    prompt: AIPrompt,
+    options?: Partial<AIProviderOptions>,
+    structured?: StructuredOutputOptions,
+    tools?: ToolCallingOptions
+  ): Promise<AIResponse & { provider: string; model?: string }> {
+    const failures: string[] = [];
+
+    for (const target of targets) {
+      const name = target.provider;
+      if (options?.signal?.aborted) {
+        break;
+      }
+
+      let provider: AIProvider;
+      let providerOptions: AIProviderOptions;
+      try {
+        provider = this.getProviderInstance(name);
+        providerOptions = {
+          ...this.getProviderOptions(name, provider),
+          ...(target.model && { model: target.model }),
+          ...options
+        };
+      } catch (error) {
+        // Misconfiguration (unknown provider, missing key) says nothing about the provider's health
+        failures.push(`${name}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      if (!this.health.canRequest(name)) {
+        failures.push(`${name}: circuit open`);
+        continue;
+      }
+
+      const send = (prompt: AIPrompt, sendOptions: AIProviderOptions) =>
+        this.sendWithRetries(name, provider, prompt, sendOptions);
+      let result: AIResponse;
+      try {
+        if (structured) {
+          result = await generateStructured(
+            { generateResponse: send, supportsJsonMode: model => provider.supportsJsonMode?.(model) ?? false },
+            prompt,
+            providerOptions,
+            structured
+          );
+        } else if (tools) {
+          result = await generateWithTools(
+            { generateResponse: send, supportsTools: model => provider.supportsTools?.(model) ?? false },
+            prompt,
+            providerOptions,
+            tools
+          );
+        } else {
+          result = await send(prompt, providerOptions);
+        }
+      } finally {
+        // A trial that was cancelled or never sent has no outcome to record
+        this.health.endTrial(name);
+      }
+      if (!result.error) {
+        await this.recordExchange(name, providerOptions.model, prompt.content, result);
+        return { ...result, provider: name, ...(providerOptions.model && { model: providerOptions.model }) };
       }
-      throw error;
+
+      failures.push(`${name}: ${result.error}`);
+      this.logger.warn(`Provider ${name} failed`, { error: result.error });
     }
+
+    throw new ProviderError(`All providers failed: ${failures.join('; ')}`, undefined, { failures });
+  }
+
+  /**
+   * Get health (rolling latency, error rate, circuit state) for every provider that has been used,
+   * or for a single provider
+   */
+  getProviderHealth(): ProviderHealth[];
+  getProviderHealth(provider: string): ProviderHealth;
+  getProviderHealth(provider?: string): ProviderHealth[] | ProviderHealth {
+    return provider ? this.health.getHealth(provider) : this.health.getAllHealth();
+  }
+
+  /**
+   * Clear health history and close circuits
+   */
+  resetProviderHealth(provider?: string): void {
+    this.health.reset(provider);
+  }
+
+  /**
+   * Limit the requests sent to a provider, or remove its limit
+   */
+  setRateLimit(provider: string, limit?: RateLimit): void {
+    this.rateLimiter.setLimit(provider, limit);
   }
 
   /**
@@ -84,10 +405,32 @@ export class ModelRouter {
   }
 
   /**
-   * Set the fallback provider
+   * Get the names of all providers that can be selected
+   */
+  getAvailableProviders(): string[] {
+    return Object.keys(providerImplementations);
+  }
+
+  /**
+   * Set a single fallback provider
    */
   setFallbackProvider(provider: string): void {
-    this.fallbackProvider = provider;
+    this.fallbackChain = [provider];
+  }
+
+  /**
+   * Set the ordered list of providers tried after the active provider
+   */
+  setFallbackChain(providers: string[]): void {
+    this.fallbackChain = [...providers];
+  }
+
+  /**
+   * Get the providers a request will try, in order
+   */
+  getProviderChain(): string[] {
+    const chain = this.fallbackEnabled ? [this.activeProvider, ...this.fallbackChain] : [this.activeProvider];
+    return chain.filter((name, index) => chain.indexOf(name) === index);
   }
 
   /**
@@ -112,14 +455,118 @@ export class ModelRouter {
   }
 
   /**
-   * Get the active provider instance
+   * Providers considered for routing: the configured chain first, then every built-in provider
+   */
+  private getRoutableProviders(): string[] {
+    const names = [this.activeProvider, ...this.fallbackChain, ...this.getAvailableProviders()];
+    return names.filter((name, index) => names.indexOf(name) === index);
+  }
+
+  /**
+   * List a provider's models, cached for MODEL_CACHE_TTL_MS since discovery may hit the network.
+   * Failed or empty discoveries aren't cached, so a server that comes up later is picked up.
+   */
+  private async getModels(name: string, provider: AIProvider, options: AIProviderOptions): Promise<string[]> {
+    const key = `${name}@${options.baseUrl ?? ''}`;
+    const cached = this.modelCache.get(key);
+    if (cached && Date.now() - cached.cachedAt < MODEL_CACHE_TTL_MS) {
+      return cached.models;
+    }
+
+    let models: string[];
+    try {
+      models = await provider.listAvailableModels(options);
+    } catch (error) {
+      this.logger.warn(`Could not list models for ${name}`, { error });
+      return [];
+    }
+    if (models.length > 0) {
+      this.modelCache.set(key, { models, cachedAt: Date.now() });
+    }
+    return models;
+  }
+
+  /**
+   * Send to one provider, within its rate limit, retrying retryable errors with exponential backoff
    */
-  private getActiveProviderInstance(): AIProvider {
-    return this.getProviderInstance(this.activeProvider);
+  private async sendWithRetries(
+    name: string,
+    provider: AIProvider,
+    prompt: AIPrompt,
+    options: AIProviderOptions
+  ): Promise<AIResponse> {
+    for (let attempt = 0; ; attempt++) {
+      let release: () => void;
+      try {
+        release = await this.rateLimiter.acquire(name, options.signal);
+      } catch (error) {
+        return { content: '', error: error instanceof Error ? error.message : String(error) };
+      }
+
+      const start = Date.now();
+      let result: AIResponse;
+      try {
+        result = await provider.generateResponse(prompt, options);
+      } catch (error) {
+        result = { content: '', error: error instanceof Error ? error.message : String(error) };
+      } finally {
+        release();
+      }
+      const latency = Date.now() - start;
+
+      if (!result.error) {
+        this.health.recordSuccess(name, latency);
+        return result;
+      }
+
+      this.health.recordFailure(name, latency, result.error);
+      const canRetry = attempt < this.retryOptions.maxRetries
+        && isRetryableError(result.error)
+        && !options.signal?.aborted
+        && this.health.canRequest(name);
+      if (!canRetry) {
+        return result;
+      }
+
+      await sleep(Math.min(this.retryOptions.baseDelayMs * 2 ** attempt, this.retryOptions.maxDelayMs));
+    }
   }
 
   /**
-   * Get a provider instance by name
+   * Store the exchange in memory, and as a turn of the registered `conversationManager`, when enabled
+   */
+  private async recordExchange(provider: string, model: string | undefined, message: string, result: AIResponse): Promise<void> {
+    if (this.memoryEnabled && this.serviceLocator?.has('memoryEngine')) {
+      try {
+        const memoryService = this.serviceLocator.get<MemoryService>('memoryEngine');
+        await memoryService.addMemories(MEMORY_COLLECTION, [
+          { content: message, metadata: { type: MemoryType.USER_INPUT, source: 'model-router' } },
+          { content: result.content, metadata: { type: MemoryType.RESPONSE, source: provider } }
+        ]);
+      } catch (error) {
+        this.logger.warn('Could not store the exchange in memory', { error });
+      }
+    }
+
+    if (this.conversationLoggingEnabled && this.serviceLocator?.has('conversationManager')) {
+      try {
+        const conversations = this.serviceLocator.get<Pick<ConversationManager, 'addTurn'>>('conversationManager');
+        const usage = result.usage;
+        const response = parseResponse({ code: result.content }, {
+          provider,
+          model,
+          ...(usage && { tokens: { input: usage.inputTokens, output: usage.outputTokens, total: usage.totalTokens } })
+        });
+        await conversations.addTurn({ content: message }, response, provider, model ?? 'unknown');
+      } catch (error) {
+        this.logger.warn('Could not log the exchange to the conversation', { error });
+      }
+    }
+  }
+
+  /**
+   * Get a provider instance by name.
+   * Providers registered with the service locator take precedence over the built-in implementations.
    */
   private getProviderInstance(name: string): AIProvider {
     if (!this.serviceLocator) {
@@ -127,11 +574,29 @@ export class ModelRouter {
     }
 
     const providerServiceName = `${name.toLowerCase()}Provider`;
-    try {
+    if (this.serviceLocator.has(providerServiceName)) {
       return this.serviceLocator.get<AIProvider>(providerServiceName);
-    } catch (error) {
+    }
+
+    const createProvider = providerImplementations[name.toLowerCase()];
+    if (!createProvider) {
       throw new Error(`Provider '${name}' not found or not registered`);
     }
+    return createProvider();
+  }
+
+  /**
+   * Build request options for a provider from the stored settings
+   */
+  private getProviderOptions(name: string, provider: AIProvider): AIProviderOptions {
+    const settingsManager = this.serviceLocator!.get<SettingsManager>('settingsManager');
+    const baseUrl = settingsManager.getCustomEndpoint(name);
+
+    return {
+      // Self-hosted providers usually run without a key
+      apiKey: provider.requiresApiKey?.() === false ? settingsManager.getApiKey(name) || '' : this.getApiKey(name),
+      ...(baseUrl && { baseUrl })
+    };
   }
 
   /**
@@ -0,0 +1,181 @@
+/**
+ * Provider Health
+ * Tracks rolling latency and error rates per provider, with a circuit breaker
+ * that stops routing to a provider after repeated failures
+ */
+
+export enum CircuitState {
+  CLOSED = 'closed',       // Requests flow normally
+  OPEN = 'open',           // Requests are rejected until the cooldown passes
+  HALF_OPEN = 'half_open'  // A single trial request decides whether to close again
+}
+
+export interface ProviderHealthOptions {
+  windowSize: number;        // Number of recent requests the score is based on
+  failureThreshold: number;  // Consecutive failures that open the circuit
+  cooldownMs: number;        // How long an open circuit rejects requests
+  latencyTargetMs: number;   // Latency at which the latency factor of the score drops to 0.5
+}
+
+export interface ProviderHealth {
+  provider: string;
+  score: number;             // 0 (unusable) to 1 (healthy)
+  errorRate: number;
+  averageLatencyMs: number;
+  requests: number;          // Requests in the rolling window
+  consecutiveFailures: number;
+  circuitState: CircuitState;
+  lastError?: string;
+  openUntil?: number;        // When an open circuit allows a trial request
+}
+
+interface RequestOutcome {
+  success: boolean;
+  latencyMs: number;
+}
+
+interface ProviderState {
+  outcomes: RequestOutcome[];
+  consecutiveFailures: number;
+  circuitState: CircuitState;
+  openUntil?: number;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+const DEFAULT_OPTIONS: ProviderHealthOptions = {
+  windowSize: 20,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  latencyTargetMs: 5000
+};
+
+export class ProviderHealthTracker {
+  private options: ProviderHealthOptions;
+  private states = new Map<string, ProviderState>();
+  private now: () => number;
+
+  constructor(options: Partial<ProviderHealthOptions> = {}, now: () => number = Date.now) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.now = now;
+  }
+
+  /**
+   * Check whether a request may be sent to a provider.
+   * An open circuit whose cooldown has passed moves to half-open and admits one trial request.
+   */
+  canRequest(provider: string): boolean {
+    const state = this.getState(provider);
+
+    switch (state.circuitState) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.OPEN:
+        if (this.now() < state.openUntil!) {
+          return false;
+        }
+        state.circuitState = CircuitState.HALF_OPEN;
+        state.trialInFlight = true;
+        return true;
+      case CircuitState.HALF_OPEN:
+        if (state.trialInFlight) {
+          return false;
+        }
+        state.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(provider: string, latencyMs: number): void {
+    const state = this.getState(provider);
+    this.pushOutcome(state, { success: true, latencyMs });
+    state.consecutiveFailures = 0;
+    state.circuitState = CircuitState.CLOSED;
+    state.openUntil = undefined;
+    state.trialInFlight = false;
+  }
+
+  recordFailure(provider: string, latencyMs: number, error: string): void {
+    const state = this.getState(provider);
+    this.pushOutcome(state, { success: false, latencyMs });
+    state.consecutiveFailures++;
+    state.lastError = error;
+    state.trialInFlight = false;
+
+    // A failed trial reopens immediately; otherwise wait for the threshold
+    if (state.circuitState === CircuitState.HALF_OPEN || state.consecutiveFailures >= this.options.failureThreshold) {
+      state.circuitState = CircuitState.OPEN;
+      state.openUntil = this.now() + this.options.cooldownMs;
+    }
+  }
+
+  /**
+   * Let a half-open circuit admit another trial. Call once a request admitted by `canRequest`
+   * has finished, including when it was cancelled or rejected before reaching the provider.
+   */
+  endTrial(provider: string): void {
+    this.getState(provider).trialInFlight = false;
+  }
+
+  /**
+   * Get the health of a provider. Providers without any requests are reported healthy.
+   */
+  getHealth(provider: string): ProviderHealth {
+    const state = this.getState(provider);
+    const requests = state.outcomes.length;
+    const failures = state.outcomes.filter(outcome => !outcome.success).length;
+    const errorRate = requests > 0 ? failures / requests : 0;
+    const averageLatencyMs = requests > 0
+      ? state.outcomes.reduce((sum, outcome) => sum + outcome.latencyMs, 0) / requests
+      : 0;
+
+    const latencyFactor = this.options.latencyTargetMs / (this.options.latencyTargetMs + averageLatencyMs);
+    const score = state.circuitState === CircuitState.OPEN ? 0 : (1 - errorRate) * latencyFactor;
+
+    return {
+      provider,
+      score,
+      errorRate,
+      averageLatencyMs,
+      requests,
+      consecutiveFailures: state.consecutiveFailures,
+      circuitState: state.circuitState,
+      ...(state.lastError && { lastError: state.lastError }),
+      ...(state.openUntil !== undefined && { openUntil: state.openUntil })
+    };
+  }
+
+  /**
+   * Get the health of every provider that has been used
+   */
+  getAllHealth(): ProviderHealth[] {
+    return Array.from(this.states.keys()).map(provider => this.getHealth(provider));
+  }
+
+  /**
+   * Forget the history of one provider, or of all providers
+   */
+  reset(provider?: string): void {
+    if (provider) {
+      this.states.delete(provider);
+    } else {
+      this.states.clear();
+    }
+  }
+
+  private getState(provider: string): ProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { outcomes: [], consecutiveFailures: 0, circuitState: CircuitState.CLOSED, trialInFlight: false };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+
+  private pushOutcome(state: ProviderState, outcome: RequestOutcome): void {
+    state.outcomes.push(outcome);
+    if (state.outcomes.length > this.options.windowSize) {
+      state.outcomes.shift();
+    }
+  }
+}
@@ -3,33 +3,22 @@
  * Claude AI Provider Implementation
  */
 
-import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult } from '@shared/interfaces/ai-provider';
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult, ToolCall } from '@shared/interfaces/ai-provider';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
+import { SSEEvent, StreamDelta, streamCompletion } from './sse-stream';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
 
 export class ClaudeProvider implements AIProvider {
   name = 'Claude';
 
   async generateResponse(prompt: AIPrompt, options: AIProviderOptions): Promise<AIResponse> {
     try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': options.apiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: options.model || 'claude-3-sonnet-20240229',
-          max_tokens: options.maxTokens || 4000,
-          temperature: options.temperature || 0.7,
-          messages: [
-            {
-              role: 'user',
-              content: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
-            }
-          ],
-          system: prompt.systemPrompt
-        })
-      });
+      const response = await this.sendMessages(prompt, options, false);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -40,8 +29,22 @@ export class ClaudeProvider implements AIProvider {
       }
 
       const data = await response.json();
+      const blocks: ContentBlock[] = data.content || [];
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
       return {
-        content: data.content?.[0]?.text || '',
+        // Text may come before or between tool_use blocks
+        content: blocks.map(block => block.type === 'text' ? block.text : '').join(''),
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(data.usage && {
+          usage: {
+            inputTokens: data.usage.input_tokens,
+            outputTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens
+          }
+        }),
+        finishReason: data.stop_reason,
         raw: data
       };
     } catch (error) {
@@ -57,14 +60,91 @@ export class ClaudeProvider implements AIProvider {
     options: AIProviderOptions, 
     onChunk: (chunk: StreamingResponseChunk) => void
   ): Promise<AIResponse> {
-    // Simplified implementation - would need proper streaming
-    const response = await this.generateResponse(prompt, options);
-    onChunk({
-      content: response.content,
-      isComplete: true,
-      error: response.error
+    return streamCompletion(
+      'Claude',
+      () => this.sendMessages(prompt, options, true),
+      event => this.parseStreamEvent(event),
+      onChunk
+    );
+  }
+
+  /**
+   * Map a Messages API stream event to a delta
+   */
+  private parseStreamEvent(event: SSEEvent): StreamDelta | undefined {
+    const data = JSON.parse(event.data);
+
+    switch (data.type) {
+      case 'message_start':
+        return { usage: { inputTokens: data.message?.usage?.input_tokens ?? 0 } };
+      case 'content_block_delta':
+        return data.delta?.type === 'text_delta' ? { content: data.delta.text } : undefined;
+      case 'message_delta':
+        return {
+          usage: { outputTokens: data.usage?.output_tokens ?? 0 },
+          finishReason: data.delta?.stop_reason ?? undefined
+        };
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        return { error: data.error?.message || 'Unknown error' };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Build the Messages API conversation: the prompt, then each round of tool use as an
+   * assistant turn of tool_use blocks and a user turn of tool_result blocks
+   */
+  private buildMessages(prompt: AIPrompt) {
+    return [
+      {
+        role: 'user',
+        content: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
+      },
+      ...(prompt.toolExchanges || []).flatMap(exchange => [
+        {
+          role: 'assistant',
+          content: [
+            ...(exchange.content ? [{ type: 'text', text: exchange.content }] : []),
+            ...exchange.calls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+          ]
+        },
+        {
+          role: 'user',
+          content: exchange.results.map(result => ({
+            type: 'tool_result',
+            tool_use_id: result.callId,
+            content: result.content,
+            ...(result.isError && { is_error: true })
+          }))
+        }
+      ])
+    ];
+  }
+
+  private sendMessages(prompt: AIPrompt, options: AIProviderOptions, stream: boolean): Promise<Response> {
+    return fetch(`${options.baseUrl || DEFAULT_BASE_URL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': options.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: options.model || 'claude-3-sonnet-20240229',
+        max_tokens: options.maxTokens || 4000,
+        temperature: options.temperature || 0.7,
+        messages: this.buildMessages(prompt),
+        system: prompt.systemPrompt,
+        ...(options.tools?.length && {
+          tools: options.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.inputSchema }))
+        }),
+        ...(stream && { stream: true })
+      }),
+      signal: options.signal
     });
-    return response;
   }
 
   async generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult> {
@@ -106,7 +186,8 @@ export class ClaudeProvider implements AIProvider {
   }
 
   async estimateCost(prompt: AIPrompt, options: AIProviderOptions): Promise<CostEstimate> {
-    const inputTokens = Math.ceil(prompt.content.length / 4);
+    const inputText = [prompt.systemPrompt, prompt.context, prompt.content].filter(Boolean).join('\n\n');
+    const inputTokens = tokenEstimatorRegistry.countTokens(inputText, 'claude', options.model);
     const outputTokens = options.maxTokens || 1000;
     
     return {
@@ -136,6 +217,10 @@ export class ClaudeProvider implements AIProvider {
     return false;
   }
 
+  supportsTools(model?: string): boolean {
+    return true;
+  }
+
   supportsLanguage(language: string): boolean {
     return true; // Claude supports most languages
   }
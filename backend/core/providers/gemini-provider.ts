@@ -3,36 +3,48 @@
  * Google Gemini Provider Implementation
  */
 
-import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult } from '@shared/interfaces/ai-provider';
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult, JsonSchema, ToolCall } from '@shared/interfaces/ai-provider';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
+import { SSEEvent, StreamDelta, streamCompletion } from './sse-stream';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Models that can be told to answer in JSON
+const JSON_MODE_MODEL_PATTERN = /^gemini-(1\.5|[2-9])/;
+
+// Schema keywords Gemini accepts in function declarations, an OpenAPI subset
+const FUNCTION_SCHEMA_KEYWORDS = ['type', 'description', 'properties', 'required', 'items', 'enum', 'minItems', 'maxItems', 'minimum', 'maximum', 'anyOf'];
+
+/**
+ * Reduce a JSON Schema to the keywords Gemini accepts; it rejects the whole request otherwise
+ */
+function toFunctionSchema(schema: JsonSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const keyword of FUNCTION_SCHEMA_KEYWORDS) {
+    const value = schema[keyword as keyof JsonSchema];
+    if (value === undefined) continue;
+
+    if (keyword === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, property]) => [name, toFunctionSchema(property)])
+      );
+    } else if (keyword === 'items') {
+      result.items = toFunctionSchema(value as JsonSchema);
+    } else if (keyword === 'anyOf') {
+      result.anyOf = (value as JsonSchema[]).map(toFunctionSchema);
+    } else {
+      result[keyword] = value;
+    }
+  }
+  return result;
+}
 
 export class GeminiProvider implements AIProvider {
   name = 'Gemini';
 
   async generateResponse(prompt: AIPrompt, options: AIProviderOptions): Promise<AIResponse> {
     try {
-      const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${options.model || 'gemini-pro'}/generateContent?key=${options.apiKey}`;
-      
-      let response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: options.temperature || 0.7,
-            maxOutputTokens: options.maxTokens || 4000,
-          }
-        })
-      });
+      let response = await this.sendGenerateContent(prompt, options, false);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -43,10 +55,23 @@ export class GeminiProvider implements AIProvider {
       }
 
       let data = await response.json();
-      const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      const parts: Array<{ text?: string; functionCall?: { id?: string; name: string; args?: Record<string, unknown> } }> =
+        data.candidates?.[0]?.content?.parts || [];
+      const content = parts.map(part => part.text || '').join('');
+      // Gemini only sometimes assigns call IDs; results are matched to calls by name
+      const toolCalls: ToolCall[] = parts
+        .filter(part => part.functionCall)
+        .map((part, index) => ({
+          id: part.functionCall!.id || `${part.functionCall!.name}_${index}`,
+          name: part.functionCall!.name,
+          arguments: part.functionCall!.args || {}
+        }));
       
       return {
         content,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(data.usageMetadata && { usage: this.toUsage(data.usageMetadata) }),
+        finishReason: data.candidates?.[0]?.finishReason,
         raw: data
       };
     } catch (error) {
@@ -62,13 +87,99 @@ export class GeminiProvider implements AIProvider {
     options: AIProviderOptions, 
     onChunk: (chunk: StreamingResponseChunk) => void
   ): Promise<AIResponse> {
-    let response = await this.generateResponse(prompt, options);
-    onChunk({
-      content: response.content,
-      isComplete: true,
-      error: response.error
+    return streamCompletion(
+      'Gemini',
+      () => this.sendGenerateContent(prompt, options, true),
+      event => this.parseStreamEvent(event),
+      onChunk
+    );
+  }
+
+  /**
+   * Map a streamGenerateContent event to a delta.
+   * Each event is a partial GenerateContentResponse; usage is cumulative.
+   */
+  private parseStreamEvent(event: SSEEvent): StreamDelta | undefined {
+    const data = JSON.parse(event.data);
+    if (data.error) {
+      return { error: data.error.message || 'Unknown error' };
+    }
+
+    const candidate = data.candidates?.[0];
+    const text = (candidate?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || '')
+      .join('');
+
+    return {
+      content: text || undefined,
+      finishReason: candidate?.finishReason || undefined,
+      ...(data.usageMetadata && { usage: this.toUsage(data.usageMetadata) })
+    };
+  }
+
+  private toUsage(usage: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }) {
+    const inputTokens = usage.promptTokenCount ?? 0;
+    const outputTokens = usage.candidatesTokenCount ?? 0;
+    return { inputTokens, outputTokens, totalTokens: usage.totalTokenCount ?? inputTokens + outputTokens };
+  }
+
+  private sendGenerateContent(prompt: AIPrompt, options: AIProviderOptions, stream: boolean): Promise<Response> {
+    const model = options.model || 'gemini-pro';
+    const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+    const apiUrl = `${options.baseUrl || DEFAULT_BASE_URL}/models/${model}:${method}key=${options.apiKey}`;
+
+    return fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                text: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
+              }
+            ]
+          },
+          ...(prompt.toolExchanges || []).flatMap(exchange => [
+            {
+              role: 'model',
+              parts: [
+                ...(exchange.content ? [{ text: exchange.content }] : []),
+                ...exchange.calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+              ]
+            },
+            {
+              role: 'user',
+              parts: exchange.results.map(result => ({
+                functionResponse: {
+                  name: result.name,
+                  response: result.isError ? { error: result.content } : { content: result.content }
+                }
+              }))
+            }
+          ])
+        ],
+        ...(options.tools?.length && {
+          tools: [{
+            functionDeclarations: options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: toFunctionSchema(tool.inputSchema)
+            }))
+          }]
+        }),
+        generationConfig: {
+          temperature: options.temperature || 0.7,
+          maxOutputTokens: options.maxTokens || 4000,
+          // The schema itself stays in the prompt: Gemini accepts only an OpenAPI subset of it
+          ...(options.responseFormat && this.supportsJsonMode(model) && { responseMimeType: 'application/json' })
+        }
+      }),
+      signal: options.signal
     });
-    return response;
   }
 
   async generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult> {
@@ -96,7 +207,8 @@ export class GeminiProvider implements AIProvider {
   }
 
   async estimateCost(prompt: AIPrompt, options: AIProviderOptions): Promise<CostEstimate> {
-    const inputTokens = Math.ceil(prompt.content.length / 4);
+    const inputText = [prompt.systemPrompt, prompt.context, prompt.content].filter(Boolean).join('\n\n');
+    const inputTokens = tokenEstimatorRegistry.countTokens(inputText, 'gemini', options.model);
     const outputTokens = options.maxTokens || 1000;
     
     return {
@@ -119,13 +231,21 @@ export class GeminiProvider implements AIProvider {
   }
 
   supportsStreaming(model?: string): boolean {
-    return false;
+    return true;
   }
 
   supportsEmbeddings(model?: string): boolean {
     return false;
   }
 
+  supportsJsonMode(model?: string): boolean {
+    return JSON_MODE_MODEL_PATTERN.test(model || 'gemini-pro');
+  }
+
+  supportsTools(model?: string): boolean {
+    return true;
+  }
+
   supportsLanguage(language: string): boolean {
     return true;
   }
@@ -8,21 +8,26 @@
 export * from './claude-provider';
 export * from './openai-provider';
 export * from './gemini-provider';
+export * from './local-openai-compatible-provider';
+export * from './mock-provider';
 
 // Export a default map of provider implementations
 import { ClaudeProvider } from './claude-provider';
 import { OpenAIProvider } from './openai-provider';
 import { GeminiProvider } from './gemini-provider';
+import { LocalOpenAICompatibleProvider } from './local-openai-compatible-provider';
 import { AIProvider } from '@shared/interfaces/ai-provider';
 
 // Create provider instances
 const createClaudeProvider = () => new ClaudeProvider();
 const createOpenAIProvider = () => new OpenAIProvider();
 const createGeminiProvider = () => new GeminiProvider();
+const createLocalProvider = () => new LocalOpenAICompatibleProvider();
 
 // Provider registration map
 export const providerImplementations: Record<string, () => AIProvider> = {
   'claude': createClaudeProvider,
   'openai': createOpenAIProvider,
-  'gemini': createGeminiProvider
+  'gemini': createGeminiProvider,
+  'local': createLocalProvider
 };
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { StreamingResponseChunk } from '@shared/interfaces/ai-provider';
+import { LocalOpenAICompatibleProvider } from './local-openai-compatible-provider';
+
+type RecordedRequest = { url?: string; headers: IncomingMessage['headers']; body: Record<string, unknown> };
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+
+const routes: Record<string, (res: ServerResponse) => void> = {
+  'GET /v1/models': res => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3' }, { id: 'qwen2.5-coder' }] }));
+  },
+  'POST /v1/chat/completions': res => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write('data: {"choices":[{"delta":{"content":"local "}}]}\n\n');
+    res.write('data: {"choices":[{"delta":{"content":"reply"},"finish_reason":"stop"}]}\n\n');
+    res.end('data: [DONE]\n\n');
+  },
+  'POST /v1/embeddings': res => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: [{ embedding: [0.1, 0.2, 0.3] }], usage: { prompt_tokens: 3, total_tokens: 3 } }));
+  }
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ url: req.url, headers: req.headers, body });
+      const route = routes[`${req.method} ${req.url}`];
+      if (route) {
+        route(res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('LocalOpenAICompatibleProvider', () => {
+  it('discovers models from /v1/models', async () => {
+    const provider = new LocalOpenAICompatibleProvider({ baseUrl });
+
+    expect(await provider.listAvailableModels()).toEqual(['llama3', 'qwen2.5-coder']);
+    expect(await provider.isApiKeyValid('')).toBe(true);
+  });
+
+  it('discovers models from the endpoint passed in the options', async () => {
+    const provider = new LocalOpenAICompatibleProvider({ baseUrl: 'http://127.0.0.1:1/v1' });
+
+    expect(await provider.listAvailableModels({ baseUrl })).toEqual(['llama3', 'qwen2.5-coder']);
+    expect(await provider.isApiKeyValid('', { baseUrl })).toBe(true);
+    expect(await provider.isApiKeyValid('')).toBe(false);
+    expect(requests.map(request => request.url)).toEqual(['/v1/models', '/v1/models']);
+  });
+
+  it('falls back to the configured model when the server is unreachable', async () => {
+    const provider = new LocalOpenAICompatibleProvider({ baseUrl: 'http://127.0.0.1:1/v1', defaultModel: 'mistral' });
+
+    expect(await provider.listAvailableModels()).toEqual(['mistral']);
+  });
+
+  it('streams chat completions without sending an API key', async () => {
+    const provider = new LocalOpenAICompatibleProvider({ defaultModel: 'llama3' });
+    const chunks: StreamingResponseChunk[] = [];
+
+    const response = await provider.generateStreamingResponse(
+      { content: 'hi', systemPrompt: 'Be brief.' }, { apiKey: '', baseUrl }, chunk => chunks.push(chunk)
+    );
+
+    expect(response).toEqual({ content: 'local reply', finishReason: 'stop' });
+    expect(chunks.at(-1)).toMatchObject({ isComplete: true });
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toMatchObject({
+      model: 'llama3',
+      stream: true,
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'hi' }]
+    });
+  });
+
+  it('generates embeddings with the embedding model', async () => {
+    const provider = new LocalOpenAICompatibleProvider({ baseUrl, embeddingModel: 'nomic-embed-text' });
+
+    const result = await provider.generateEmbedding('hello', { apiKey: 'secret' });
+
+    expect(result).toEqual({ embedding: [0.1, 0.2, 0.3], tokenCount: 3 });
+    expect(requests[0].body.model).toBe('nomic-embed-text');
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('estimates zero cost', async () => {
+    const cost = await new LocalOpenAICompatibleProvider().estimateCost({ content: 'hi' }, { apiKey: '' });
+
+    expect(cost.totalCost).toBe(0);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Local OpenAI-Compatible Provider Implementation
+ * Talks to self-hosted servers that expose the OpenAI API (Ollama, llama.cpp, vLLM, LM Studio)
+ */
+
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult } from '@shared/interfaces/ai-provider';
+import { streamCompletion, readErrorMessage } from './sse-stream';
+import { parseChatCompletionEvent, parseChatToolCalls, toChatMessages, toChatResponseFormat, toChatTools } from './openai-provider';
+
+export interface LocalProviderConfig {
+  baseUrl?: string;        // Server base URL including the /v1 prefix
+  defaultModel?: string;   // Used when a request doesn't name a model
+  embeddingModel?: string; // Model for embeddings, defaults to the request model
+  contextLength?: number;  // Context window of the served model
+  jsonMode?: boolean;      // Whether the server accepts a JSON Schema response_format; true by default
+  toolCalling?: boolean;   // Whether the served model accepts chat completion tools; true by default
+}
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+export class LocalOpenAICompatibleProvider implements AIProvider {
+  name = 'Local';
+  private config: LocalProviderConfig;
+  private cachedModels?: { baseUrl: string; models: string[] };
+
+  constructor(config: LocalProviderConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Update the server configuration
+   */
+  configure(config: Partial<LocalProviderConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.cachedModels = undefined;
+  }
+
+  async generateResponse(prompt: AIPrompt, options: AIProviderOptions): Promise<AIResponse> {
+    try {
+      const response = await this.sendChatCompletion(prompt, options, false);
+
+      if (!response.ok) {
+        return {
+          content: '',
+          error: `Local API error: ${response.status} - ${await readErrorMessage(response)}`
+        };
+      }
+
+      const data = await response.json();
+      const toolCalls = parseChatToolCalls(data.choices?.[0]?.message);
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        ...(toolCalls && { toolCalls }),
+        ...(data.usage && {
+          usage: {
+            inputTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens
+          }
+        }),
+        finishReason: data.choices?.[0]?.finish_reason,
+        raw: data
+      };
+    } catch (error) {
+      return {
+        content: '',
+        error: `Failed to generate response: ${error}`
+      };
+    }
+  }
+
+  async generateStreamingResponse(
+    prompt: AIPrompt,
+    options: AIProviderOptions,
+    onChunk: (chunk: StreamingResponseChunk) => void
+  ): Promise<AIResponse> {
+    return streamCompletion(
+      'Local',
+      () => this.sendChatCompletion(prompt, options, true),
+      parseChatCompletionEvent,
+      onChunk
+    );
+  }
+
+  async generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult> {
+    const response = await fetch(`${this.getBaseUrl(options)}/embeddings`, {
+      method: 'POST',
+      headers: this.getHeaders(options.apiKey),
+      body: JSON.stringify({
+        model: this.config.embeddingModel || this.getModel(options),
+        input: text
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local API error: ${response.status} - ${await readErrorMessage(response)}`);
+    }
+
+    const data = await response.json();
+    return {
+      embedding: data.data[0].embedding,
+      tokenCount: data.usage?.total_tokens ?? data.usage?.prompt_tokens ?? 0
+    };
+  }
+
+  /**
+   * List the models the server reports via /v1/models
+   * @param options May carry the endpoint and key configured for the provider
+   */
+  async listAvailableModels(options?: Partial<AIProviderOptions>): Promise<string[]> {
+    const baseUrl = this.getBaseUrl(options);
+    if (this.cachedModels?.baseUrl === baseUrl) {
+      return this.cachedModels.models;
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: this.getHeaders(options?.apiKey)
+      });
+      if (!response.ok) {
+        return this.config.defaultModel ? [this.config.defaultModel] : [];
+      }
+
+      const data = await response.json();
+      const models: string[] = (data.data || []).map((model: { id: string }) => model.id);
+      this.cachedModels = { baseUrl, models };
+      return models;
+    } catch {
+      // Server not reachable; report the configured model so it can still be selected
+      return this.config.defaultModel ? [this.config.defaultModel] : [];
+    }
+  }
+
+  async isApiKeyValid(apiKey: string, options?: Partial<AIProviderOptions>): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.getBaseUrl(options)}/models`, {
+        headers: this.getHeaders(apiKey)
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.getBaseUrl();
+  }
+
+  requiresApiKey(): boolean {
+    return false;
+  }
+
+  async estimateCost(prompt: AIPrompt, options: AIProviderOptions): Promise<CostEstimate> {
+    // Self-hosted models have no per-token cost
+    return {
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      currency: 'USD'
+    };
+  }
+
+  async optimizePrompt(prompt: AIPrompt, language?: string): Promise<PromptOptimizationResult> {
+    return {
+      optimizedPrompt: prompt,
+      rationale: 'No optimization needed for local models'
+    };
+  }
+
+  getMaxContextLength(model?: string): number {
+    return this.config.contextLength || 8192;
+  }
+
+  supportsStreaming(model?: string): boolean {
+    return true;
+  }
+
+  supportsEmbeddings(model?: string): boolean {
+    return true;
+  }
+
+  supportsJsonMode(model?: string): boolean {
+    return this.config.jsonMode !== false;
+  }
+
+  supportsTools(model?: string): boolean {
+    return this.config.toolCalling !== false;
+  }
+
+  supportsLanguage(language: string): boolean {
+    return true;
+  }
+
+  getProviderSpecificPrompt(prompt: AIPrompt, language?: string): AIPrompt {
+    return prompt;
+  }
+
+  private getBaseUrl(options?: Partial<AIProviderOptions>): string {
+    return (options?.baseUrl || this.config.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+  }
+
+  private getModel(options: AIProviderOptions): string {
+    return options.model || this.config.defaultModel || 'llama3';
+  }
+
+  private getHeaders(apiKey?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      // Most local servers ignore auth, but some (e.g. vLLM with --api-key) require it
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
+    };
+  }
+
+  private sendChatCompletion(prompt: AIPrompt, options: AIProviderOptions, stream: boolean): Promise<Response> {
+    return fetch(`${this.getBaseUrl(options)}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(options.apiKey),
+      body: JSON.stringify({
+        model: this.getModel(options),
+        messages: toChatMessages(prompt),
+        max_tokens: options.maxTokens || 4000,
+        temperature: options.temperature ?? 0.7,
+        ...(options.responseFormat && this.supportsJsonMode() && { response_format: toChatResponseFormat(options.responseFormat) }),
+        ...(options.tools?.length && this.supportsTools() && { tools: toChatTools(options.tools) }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      }),
+      signal: options.signal
+    });
+  }
+}
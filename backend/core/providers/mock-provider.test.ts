@@ -0,0 +1,87 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StreamingResponseChunk } from '@shared/interfaces/ai-provider';
+import { createTestRouter } from '@backend/test/fixtures';
+import { MockProvider, MockProviderMode } from './mock-provider';
+
+const options = { apiKey: '' };
+
+describe('MockProvider', () => {
+  it('answers from the first matching script entry', async () => {
+    const provider = new MockProvider({
+      script: [
+        { match: /refactor (\w+)/, response: (prompt, match) => `Refactored ${match[1]}`, times: 1 },
+        { match: 'refactor', response: 'Already refactored' }
+      ]
+    });
+
+    expect((await provider.generateResponse({ content: 'Please refactor parseArgs' }, options)).content).toBe('Refactored parseArgs');
+    expect((await provider.generateResponse({ content: 'Please refactor parseArgs' }, options)).content).toBe('Already refactored');
+    expect((await provider.generateResponse({ content: 'Something else' }, options)).error).toContain('No scripted response');
+  });
+
+  it('streams the response in chunks and can fail mid-stream', async () => {
+    const provider = new MockProvider({
+      defaultResponse: 'abcdefghij',
+      chunkSize: 4,
+      failures: { onCalls: [2], midStream: true, message: 'connection reset' }
+    });
+    const first: StreamingResponseChunk[] = [];
+    const second: StreamingResponseChunk[] = [];
+
+    const ok = await provider.generateStreamingResponse({ content: 'hi' }, options, chunk => first.push(chunk));
+    const failed = await provider.generateStreamingResponse({ content: 'hi' }, options, chunk => second.push(chunk));
+
+    expect(first.map(chunk => chunk.content)).toEqual(['abcd', 'efgh', 'ij', '']);
+    expect(ok.content).toBe('abcdefghij');
+    expect(second.map(chunk => chunk.content)).toEqual(['abcd', '']);
+    expect(failed).toEqual({ content: 'abcd', error: 'connection reset' });
+  });
+
+  it('injects the same probabilistic failures for the same seed', async () => {
+    const run = async () => {
+      const provider = new MockProvider({ defaultResponse: 'ok', seed: 42, failures: { probability: 0.5 } });
+      const results: boolean[] = [];
+      for (let i = 0; i < 10; i++) {
+        results.push(!(await provider.generateResponse({ content: 'hi' }, options)).error);
+      }
+      return results;
+    };
+
+    const results = await run();
+    expect(results).toEqual(await run());
+    expect(results).toContain(true);
+    expect(results).toContain(false);
+  });
+
+  it('replays interactions recorded to a fixture file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mock-provider-'));
+    const file = join(dir, 'fixture.json');
+    try {
+      const real = new MockProvider({ script: [{ match: /count/, response: 'one two three' }] });
+      const recorder = new MockProvider({ mode: MockProviderMode.RECORD, delegate: real });
+      await recorder.generateStreamingResponse({ content: 'count to three' }, options, () => undefined);
+      await recorder.generateEmbedding('hello world', options);
+      await recorder.saveFixtureFile(file);
+
+      const replay = await MockProvider.fromFixtureFile(file);
+      const chunks: StreamingResponseChunk[] = [];
+      const response = await replay.generateStreamingResponse({ content: 'count to three' }, options, chunk => chunks.push(chunk));
+
+      expect(response.content).toBe('one two three');
+      expect(chunks.map(chunk => chunk.content).join('')).toBe('one two three');
+      expect(await replay.generateEmbedding('hello world', options)).toEqual(await real.generateEmbedding('hello world', options));
+      await expect(replay.generateResponse({ content: 'not recorded' }, options)).rejects.toThrow('No recorded generate interaction');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lets ModelRouter run without API keys', async () => {
+    const router = createTestRouter({ mock: new MockProvider({ defaultResponse: 'routed' }) });
+
+    expect((await router.sendMessage('hello')).content).toBe('routed');
+  });
+});
@@ -0,0 +1,483 @@
+/**
+ * Mock Provider Implementation
+ * Deterministic provider for tests, CI and demos. Serves scripted responses,
+ * records real interactions to a fixture, or replays a recorded fixture.
+ */
+
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult } from '@shared/interfaces/ai-provider';
+import { ProviderError } from '@backend/services/error/error-handler';
+
+export enum MockProviderMode {
+  SCRIPTED = 'scripted', // Responses come from the script
+  RECORD = 'record',     // Requests go to a real provider and are captured
+  REPLAY = 'replay'      // Responses come from a recorded fixture
+}
+
+/**
+ * A scripted response, used when its pattern matches the prompt
+ */
+export interface MockScriptEntry {
+  match: RegExp | string; // Tested against the system prompt, context and content joined together
+  response?: string | ((prompt: AIPrompt, match: RegExpMatchArray) => string);
+  error?: string;         // Fail with this error instead of responding
+  times?: number;         // How many requests this entry may answer; unlimited by default
+}
+
+/**
+ * Injected failures, applied before any response is produced
+ */
+export interface MockFailureConfig {
+  onCalls?: number[];    // 1-based request numbers that fail
+  probability?: number;  // Chance (0-1) that any request fails, drawn from the seeded generator
+  message?: string;
+  midStream?: boolean;   // Streaming requests emit half their chunks before failing
+}
+
+export interface MockProviderConfig {
+  mode?: MockProviderMode;
+  script?: MockScriptEntry[];
+  defaultResponse?: string;             // Used when no script entry matches; unmatched prompts fail otherwise
+  delegate?: AIProvider;                // The real provider used in record mode
+  fixture?: MockFixture;                // The fixture served in replay mode
+  latencyMs?: number | { min: number; max: number };
+  chunkSize?: number;                   // Characters per streamed chunk
+  chunkDelayMs?: number;
+  failures?: MockFailureConfig;
+  seed?: number;                        // Seed for latency jitter and failure probability
+  embeddingDimension?: number;
+}
+
+export const MOCK_FIXTURE_FORMAT_VERSION = 1;
+
+/**
+ * One captured request/response pair
+ */
+export interface RecordedInteraction {
+  kind: 'generate' | 'embedding';
+  request: {
+    prompt?: AIPrompt;
+    text?: string;
+    model?: string;
+  };
+  response?: AIResponse;
+  chunks?: string[];           // Streamed chunk contents, when the request was streamed
+  embedding?: EmbeddingResult;
+}
+
+export interface MockFixture {
+  formatVersion: number;
+  provider: string;            // Name of the provider that was recorded
+  recordedAt: string;
+  interactions: RecordedInteraction[];
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so latency and failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function abortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function promptText(prompt: AIPrompt): string {
+  return [prompt.systemPrompt, prompt.context, prompt.content].filter(Boolean).join('\n\n');
+}
+
+function interactionKey(kind: RecordedInteraction['kind'], request: RecordedInteraction['request']): string {
+  return JSON.stringify([
+    kind,
+    request.prompt?.systemPrompt ?? null,
+    request.prompt?.context ?? null,
+    request.prompt?.content ?? null,
+    request.text ?? null
+  ]);
+}
+
+export class MockProvider implements AIProvider {
+  name = 'Mock';
+  private config: MockProviderConfig;
+  private random: () => number;
+  private callCount = 0;
+  private scriptUses = new Map<MockScriptEntry, number>();
+  private recordings: RecordedInteraction[] = [];
+  private replayQueues = new Map<string, RecordedInteraction[]>();
+
+  constructor(config: MockProviderConfig = {}) {
+    this.config = { mode: MockProviderMode.SCRIPTED, chunkSize: 8, embeddingDimension: 64, ...config };
+    this.random = createRandom(config.seed ?? 1);
+
+    if (this.config.mode === MockProviderMode.RECORD && !this.config.delegate) {
+      throw new ProviderError('Record mode requires a delegate provider');
+    }
+    if (this.config.mode === MockProviderMode.REPLAY) {
+      if (!this.config.fixture) {
+        throw new ProviderError('Replay mode requires a fixture');
+      }
+      this.loadFixture(this.config.fixture);
+    }
+  }
+
+  /**
+   * Create a replaying provider from a fixture file. Node only; `fs` loads on first use so the
+   * provider still bundles for the browser.
+   * @param filePath Path of a fixture written by saveFixtureFile
+   * @param config Additional configuration (latency, failures, ...)
+   */
+  static async fromFixtureFile(filePath: string, config: Omit<MockProviderConfig, 'mode' | 'fixture'> = {}): Promise<MockProvider> {
+    const { promises: fs } = await import('fs');
+    const fixture = JSON.parse(await fs.readFile(filePath, 'utf8')) as MockFixture;
+    return new MockProvider({ ...config, mode: MockProviderMode.REPLAY, fixture });
+  }
+
+  /**
+   * Load a fixture for replay, replacing any previously loaded one
+   */
+  loadFixture(fixture: MockFixture): void {
+    if (fixture.formatVersion !== MOCK_FIXTURE_FORMAT_VERSION) {
+      throw new ProviderError(`Unsupported mock fixture version: ${fixture.formatVersion}`);
+    }
+
+    this.replayQueues.clear();
+    for (const interaction of fixture.interactions) {
+      const key = interactionKey(interaction.kind, interaction.request);
+      const queue = this.replayQueues.get(key) || [];
+      queue.push(interaction);
+      this.replayQueues.set(key, queue);
+    }
+  }
+
+  /**
+   * Get the interactions captured in record mode as a fixture
+   */
+  getFixture(): MockFixture {
+    return {
+      formatVersion: MOCK_FIXTURE_FORMAT_VERSION,
+      provider: this.config.delegate?.name || this.name,
+      recordedAt: new Date().toISOString(),
+      interactions: [...this.recordings]
+    };
+  }
+
+  /**
+   * Write the captured interactions to a fixture file. Node only.
+   * @param filePath Destination path
+   */
+  async saveFixtureFile(filePath: string): Promise<void> {
+    const { promises: fs } = await import('fs');
+    await fs.writeFile(filePath, JSON.stringify(this.getFixture(), null, 2));
+  }
+
+  /**
+   * Number of requests made so far
+   */
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  /**
+   * Reset call counts and script usage (recordings are kept)
+   */
+  reset(): void {
+    this.callCount = 0;
+    this.scriptUses.clear();
+    this.random = createRandom(this.config.seed ?? 1);
+    if (this.config.fixture) {
+      this.loadFixture(this.config.fixture);
+    }
+  }
+
+  async generateResponse(prompt: AIPrompt, options: AIProviderOptions): Promise<AIResponse> {
+    const call = ++this.callCount;
+
+    try {
+      await delay(this.nextLatency(), options.signal);
+
+      const failure = this.injectedFailure(call);
+      if (failure) {
+        return { content: '', error: failure };
+      }
+
+      if (this.config.mode === MockProviderMode.RECORD) {
+        const response = await this.config.delegate!.generateResponse(prompt, options);
+        this.record({ kind: 'generate', request: { prompt, model: options.model }, response: this.withoutRaw(response) });
+        return response;
+      }
+
+      return this.resolveResponse(prompt).response;
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      return { content: '', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async generateStreamingResponse(
+    prompt: AIPrompt,
+    options: AIProviderOptions,
+    onChunk: (chunk: StreamingResponseChunk) => void
+  ): Promise<AIResponse> {
+    const call = ++this.callCount;
+
+    if (this.config.mode === MockProviderMode.RECORD) {
+      const chunks: string[] = [];
+      const response = await this.config.delegate!.generateStreamingResponse(prompt, options, chunk => {
+        if (chunk.content) chunks.push(chunk.content);
+        onChunk(chunk);
+      });
+      this.record({ kind: 'generate', request: { prompt, model: options.model }, response: this.withoutRaw(response), chunks });
+      return response;
+    }
+
+    let content = '';
+    const fail = (error: string): AIResponse => {
+      onChunk({ content: '', isComplete: true, error });
+      return { content, error };
+    };
+
+    try {
+      await delay(this.nextLatency(), options.signal);
+
+      const failure = this.injectedFailure(call);
+      if (failure && !this.config.failures?.midStream) {
+        return fail(failure);
+      }
+
+      const { response, chunks } = this.resolveResponse(prompt);
+      if (response.error) {
+        return fail(response.error);
+      }
+
+      const parts = chunks || this.splitIntoChunks(response.content);
+      const failAt = failure ? Math.floor(parts.length / 2) : parts.length;
+      for (let i = 0; i < failAt; i++) {
+        if (i > 0) await delay(this.config.chunkDelayMs || 0, options.signal);
+        content += parts[i];
+        onChunk({ content: parts[i], isComplete: false });
+      }
+      if (failure) {
+        return fail(failure);
+      }
+
+      onChunk({ content: '', isComplete: true, usage: response.usage, finishReason: response.finishReason });
+      return { ...response, content };
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult> {
+    const call = ++this.callCount;
+    await delay(this.nextLatency(), options.signal);
+
+    const failure = this.injectedFailure(call);
+    if (failure) {
+      throw new ProviderError(failure);
+    }
+
+    if (this.config.mode === MockProviderMode.RECORD) {
+      const embedding = await this.config.delegate!.generateEmbedding(text, options);
+      this.record({ kind: 'embedding', request: { text, model: options.model }, embedding });
+      return embedding;
+    }
+
+    if (this.config.mode === MockProviderMode.REPLAY) {
+      return this.nextRecorded('embedding', { text }).embedding!;
+    }
+
+    return {
+      embedding: this.hashEmbedding(text),
+      tokenCount: text.split(/\s+/).filter(Boolean).length
+    };
+  }
+
+  async listAvailableModels(): Promise<string[]> {
+    if (this.config.mode === MockProviderMode.RECORD) {
+      return this.config.delegate!.listAvailableModels();
+    }
+    return ['mock-model'];
+  }
+
+  async isApiKeyValid(apiKey: string): Promise<boolean> {
+    return true;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  requiresApiKey(): boolean {
+    return this.config.mode === MockProviderMode.RECORD ? this.config.delegate!.requiresApiKey?.() ?? true : false;
+  }
+
+  async estimateCost(prompt: AIPrompt, options: AIProviderOptions): Promise<CostEstimate> {
+    return {
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      currency: 'USD'
+    };
+  }
+
+  async optimizePrompt(prompt: AIPrompt, language?: string): Promise<PromptOptimizationResult> {
+    return {
+      optimizedPrompt: prompt,
+      rationale: 'No optimization needed for the mock provider'
+    };
+  }
+
+  getMaxContextLength(model?: string): number {
+    return this.config.delegate?.getMaxContextLength(model) ?? 8192;
+  }
+
+  supportsStreaming(model?: string): boolean {
+    return true;
+  }
+
+  supportsEmbeddings(model?: string): boolean {
+    return true;
+  }
+
+  supportsLanguage(language: string): boolean {
+    return true;
+  }
+
+  getProviderSpecificPrompt(prompt: AIPrompt, language?: string): AIPrompt {
+    return prompt;
+  }
+
+  /**
+   * Produce the response for a scripted or replayed request
+   */
+  private resolveResponse(prompt: AIPrompt): { response: AIResponse; chunks?: string[] } {
+    if (this.config.mode === MockProviderMode.REPLAY) {
+      const interaction = this.nextRecorded('generate', { prompt });
+      return { response: interaction.response!, chunks: interaction.chunks };
+    }
+
+    const text = promptText(prompt);
+    for (const entry of this.config.script || []) {
+      const uses = this.scriptUses.get(entry) || 0;
+      if (entry.times !== undefined && uses >= entry.times) continue;
+
+      const match = typeof entry.match === 'string'
+        ? text.match(new RegExp(entry.match))
+        : text.match(entry.match);
+      if (!match) continue;
+
+      this.scriptUses.set(entry, uses + 1);
+      if (entry.error) {
+        return { response: { content: '', error: entry.error } };
+      }
+      const content = typeof entry.response === 'function' ? entry.response(prompt, match) : entry.response || '';
+      return { response: this.scriptedResponse(text, content) };
+    }
+
+    if (this.config.defaultResponse !== undefined) {
+      return { response: this.scriptedResponse(text, this.config.defaultResponse) };
+    }
+    return { response: { content: '', error: `No scripted response matches prompt: ${text.slice(0, 80)}` } };
+  }
+
+  private scriptedResponse(input: string, content: string): AIResponse {
+    const inputTokens = input.split(/\s+/).filter(Boolean).length;
+    const outputTokens = content.split(/\s+/).filter(Boolean).length;
+    return {
+      content,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      finishReason: 'stop'
+    };
+  }
+
+  /**
+   * Take the next recorded interaction for a request. Repeated identical requests
+   * are served in recorded order; the last one is reused once the queue runs out.
+   */
+  private nextRecorded(kind: RecordedInteraction['kind'], request: RecordedInteraction['request']): RecordedInteraction {
+    const queue = this.replayQueues.get(interactionKey(kind, request));
+    if (!queue || queue.length === 0) {
+      const description = request.prompt ? promptText(request.prompt) : request.text || '';
+      throw new ProviderError(`No recorded ${kind} interaction for: ${description.slice(0, 80)}`);
+    }
+    return queue.length > 1 ? queue.shift()! : queue[0];
+  }
+
+  private record(interaction: RecordedInteraction): void {
+    this.recordings.push(interaction);
+  }
+
+  private withoutRaw(response: AIResponse): AIResponse {
+    const { raw, ...rest } = response;
+    return rest;
+  }
+
+  private injectedFailure(call: number): string | undefined {
+    const failures = this.config.failures;
+    if (!failures) return undefined;
+
+    const scheduled = failures.onCalls?.includes(call);
+    // Always draw so the random sequence doesn't depend on which calls were scheduled to fail
+    const drawn = failures.probability !== undefined && this.random() < failures.probability;
+    return scheduled || drawn ? failures.message || 'Injected mock failure' : undefined;
+  }
+
+  private nextLatency(): number {
+    const latency = this.config.latencyMs;
+    if (latency === undefined) return 0;
+    if (typeof latency === 'number') return latency;
+    return latency.min + Math.floor(this.random() * (latency.max - latency.min + 1));
+  }
+
+  private splitIntoChunks(content: string): string[] {
+    const size = Math.max(1, this.config.chunkSize || 8);
+    const chunks: string[] = [];
+    for (let i = 0; i < content.length; i += size) {
+      chunks.push(content.slice(i, i + size));
+    }
+    return chunks;
+  }
+
+  /**
+   * Deterministic bag-of-words embedding: each word is hashed into a bucket, then the vector is normalized
+   */
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(this.config.embeddingDimension!).fill(0);
+    for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+      let hash = 2166136261;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+      }
+      vector[(hash >>> 0) % vector.length] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
@@ -3,32 +3,120 @@
  * OpenAI Provider Implementation
  */
 
-import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult } from '@shared/interfaces/ai-provider';
+import { AIProvider, AIProviderOptions, AIPrompt, AIResponse, StreamingResponseChunk, CostEstimate, PromptOptimizationResult, EmbeddingResult, ResponseFormat, ToolCall, ToolDefinition } from '@shared/interfaces/ai-provider';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
+import { SSEEvent, StreamDelta, streamCompletion } from './sse-stream';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Models that accept a JSON Schema as response_format
+const JSON_SCHEMA_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|gpt-5|o[1-9])/;
+
+/**
+ * The chat completion `response_format` for a requested schema.
+ * Shared with other providers that speak the same protocol.
+ */
+export function toChatResponseFormat(format: ResponseFormat) {
+  return {
+    type: 'json_schema',
+    json_schema: { name: format.name || 'response', schema: format.schema }
+  };
+}
+
+/**
+ * The chat completion `tools` for a set of tool definitions.
+ * Shared with other providers that speak the same protocol.
+ */
+export function toChatTools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.inputSchema }
+  }));
+}
+
+/**
+ * The chat completion `messages` for a prompt, with earlier rounds of tool use replayed as
+ * assistant tool calls followed by tool results.
+ * Shared with other providers that speak the same protocol.
+ */
+export function toChatMessages(prompt: AIPrompt) {
+  return [
+    ...(prompt.systemPrompt ? [{ role: 'system', content: prompt.systemPrompt }] : []),
+    {
+      role: 'user',
+      content: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
+    },
+    ...(prompt.toolExchanges || []).flatMap(exchange => [
+      {
+        role: 'assistant',
+        content: exchange.content || null,
+        tool_calls: exchange.calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      },
+      ...exchange.results.map(result => ({ role: 'tool', tool_call_id: result.callId, content: result.content }))
+    ])
+  ];
+}
+
+/**
+ * Read the tool calls from a chat completion message. Arguments that aren't valid JSON are
+ * passed on as an empty object so argument validation reports what is missing.
+ * Shared with other providers that speak the same protocol.
+ */
+export function parseChatToolCalls(message: { tool_calls?: Array<{ id: string; function: { name: string; arguments?: string } }> } | undefined): ToolCall[] | undefined {
+  if (!message?.tool_calls?.length) {
+    return undefined;
+  }
+
+  return message.tool_calls.map(call => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      // Leave the arguments empty
+    }
+    return { id: call.id, name: call.function.name, arguments: args };
+  });
+}
+
+/**
+ * Map an OpenAI-style chat completion stream event to a delta.
+ * Shared with other providers that speak the same protocol.
+ */
+export function parseChatCompletionEvent(event: SSEEvent): StreamDelta | undefined {
+  if (event.data === '[DONE]') {
+    return { done: true };
+  }
+
+  const data = JSON.parse(event.data);
+  if (data.error) {
+    return { error: data.error.message || 'Unknown error' };
+  }
+
+  const choice = data.choices?.[0];
+  return {
+    content: choice?.delta?.content || undefined,
+    finishReason: choice?.finish_reason || undefined,
+    // Usage arrives on a final chunk with no choices when include_usage is set
+    ...(data.usage && {
+      usage: {
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+        totalTokens: data.usage.total_tokens
+      }
+    })
+  };
+}
 
 export class OpenAIProvider implements AIProvider {
   name = 'OpenAI';
 
   async generateResponse(prompt: AIPrompt, options: AIProviderOptions): Promise<AIResponse> {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${options.apiKey}`
-        },
-        body: JSON.stringify({
-          model: options.model || 'gpt-4',
-          messages: [
-            ...(prompt.systemPrompt ? [{ role: 'system', content: prompt.systemPrompt }] : []),
-            {
-              role: 'user',
-              content: prompt.context ? `${prompt.context}\n\n${prompt.content}` : prompt.content
-            }
-          ],
-          max_tokens: options.maxTokens || 4000,
-          temperature: options.temperature || 0.7
-        })
-      });
+      const response = await this.sendChatCompletion(prompt, options, false);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -39,8 +127,18 @@ export class OpenAIProvider implements AIProvider {
       }
 
       const data = await response.json();
+      const toolCalls = parseChatToolCalls(data.choices?.[0]?.message);
       return {
         content: data.choices?.[0]?.message?.content || '',
+        ...(toolCalls && { toolCalls }),
+        ...(data.usage && {
+          usage: {
+            inputTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens
+          }
+        }),
+        finishReason: data.choices?.[0]?.finish_reason,
         raw: data
       };
     } catch (error) {
@@ -56,17 +154,36 @@ export class OpenAIProvider implements AIProvider {
     options: AIProviderOptions, 
     onChunk: (chunk: StreamingResponseChunk) => void
   ): Promise<AIResponse> {
-    const response = await this.generateResponse(prompt, options);
-    onChunk({
-      content: response.content,
-      isComplete: true,
-      error: response.error
+    return streamCompletion(
+      'OpenAI',
+      () => this.sendChatCompletion(prompt, options, true),
+      parseChatCompletionEvent,
+      onChunk
+    );
+  }
+
+  private sendChatCompletion(prompt: AIPrompt, options: AIProviderOptions, stream: boolean): Promise<Response> {
+    return fetch(`${options.baseUrl || DEFAULT_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${options.apiKey}`
+      },
+      body: JSON.stringify({
+        model: options.model || 'gpt-4',
+        messages: toChatMessages(prompt),
+        max_tokens: options.maxTokens || 4000,
+        temperature: options.temperature || 0.7,
+        ...(options.responseFormat && { response_format: toChatResponseFormat(options.responseFormat) }),
+        ...(options.tools?.length && { tools: toChatTools(options.tools) }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      }),
+      signal: options.signal
     });
-    return response;
   }
 
   async generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult> {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
+    const response = await fetch(`${options.baseUrl || DEFAULT_BASE_URL}/embeddings`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -111,7 +228,8 @@ export class OpenAIProvider implements AIProvider {
   }
 
   async estimateCost(prompt: AIPrompt, options: AIProviderOptions): Promise<CostEstimate> {
-    const inputTokens = Math.ceil(prompt.content.length / 4);
+    const inputText = [prompt.systemPrompt, prompt.context, prompt.content].filter(Boolean).join('\n\n');
+    const inputTokens = tokenEstimatorRegistry.countTokens(inputText, 'openai', options.model);
     const outputTokens = options.maxTokens || 1000;
     
     return {
@@ -141,6 +259,14 @@ export class OpenAIProvider implements AIProvider {
     return true;
   }
 
+  supportsJsonMode(model?: string): boolean {
+    return JSON_SCHEMA_MODEL_PATTERN.test(model || 'gpt-4');
+  }
+
+  supportsTools(model?: string): boolean {
+    return true;
+  }
+
   supportsLanguage(language: string): boolean {
     return true;
   }
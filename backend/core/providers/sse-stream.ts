@@ -0,0 +1,183 @@
+/**
+ * Server-Sent Events streaming helpers shared by the provider implementations
+ */
+
+import { AIResponse, StreamingResponseChunk, TokenUsage } from '@shared/interfaces/ai-provider';
+
+/**
+ * A single dispatched server-sent event
+ */
+export interface SSEEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * What a provider extracted from one event
+ */
+export interface StreamDelta {
+  content?: string;
+  usage?: Partial<TokenUsage>;
+  finishReason?: string;
+  error?: string;
+  done?: boolean;
+}
+
+/**
+ * Parse a response body as a stream of server-sent events
+ * @param body The response body
+ */
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  let event: string | undefined;
+  let id: string | undefined;
+
+  const dispatch = (): SSEEvent | undefined => {
+    const dispatched = data.length > 0 ? { event, data: data.join('\n'), id } : undefined;
+    data = [];
+    event = undefined;
+    return dispatched;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last line may be incomplete until more data (or the end of the stream) arrives
+      buffer = done ? '' : lines.pop()!;
+
+      for (const line of lines) {
+        if (line === '') {
+          const dispatched = dispatch();
+          if (dispatched) yield dispatched;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        if (field === 'data') data.push(value);
+        else if (field === 'event') event = value;
+        else if (field === 'id') id = value;
+      }
+
+      if (done) {
+        const dispatched = dispatch();
+        if (dispatched) yield dispatched;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read an error message from a failed HTTP response
+ * @param response The failed response
+ */
+export async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error?.message || body.message || 'Unknown error';
+  } catch {
+    return response.statusText || 'Unknown error';
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function mergeUsage(current: TokenUsage | undefined, update: Partial<TokenUsage>): TokenUsage {
+  const inputTokens = update.inputTokens ?? current?.inputTokens ?? 0;
+  const outputTokens = update.outputTokens ?? current?.outputTokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: update.totalTokens ?? inputTokens + outputTokens
+  };
+}
+
+/**
+ * Run a streaming request and translate its events into chunks.
+ * Emits a chunk per content delta and always finishes with a single `isComplete` chunk
+ * carrying usage, or the error if the request failed, was aborted or errored mid-stream.
+ *
+ * @param providerName Provider name used in error messages
+ * @param request Starts the HTTP request
+ * @param parseEvent Maps one provider event to a delta
+ * @param onChunk Receives the chunks
+ * @returns The accumulated response
+ */
+export async function streamCompletion(
+  providerName: string,
+  request: () => Promise<Response>,
+  parseEvent: (event: SSEEvent) => StreamDelta | undefined,
+  onChunk: (chunk: StreamingResponseChunk) => void
+): Promise<AIResponse> {
+  let content = '';
+  let usage: TokenUsage | undefined;
+  let finishReason: string | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await request();
+
+    if (!response.ok) {
+      error = `${providerName} API error: ${response.status} - ${await readErrorMessage(response)}`;
+    } else if (!response.body) {
+      error = `${providerName} API error: response has no body`;
+    } else {
+      for await (const event of readSSEEvents(response.body)) {
+        let delta: StreamDelta | undefined;
+        try {
+          delta = parseEvent(event);
+        } catch (parseError) {
+          delta = { error: `Malformed stream event: ${parseError instanceof Error ? parseError.message : parseError}` };
+        }
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          onChunk({ content: delta.content, isComplete: false });
+        }
+        if (delta.usage) {
+          usage = mergeUsage(usage, delta.usage);
+        }
+        if (delta.finishReason) {
+          finishReason = delta.finishReason;
+        }
+        if (delta.error) {
+          error = `${providerName} stream error: ${delta.error}`;
+          break;
+        }
+        if (delta.done) {
+          break;
+        }
+      }
+    }
+  } catch (streamError) {
+    error = isAbortError(streamError)
+      ? 'Request aborted'
+      : `Failed to stream response: ${streamError instanceof Error ? streamError.message : streamError}`;
+  }
+
+  onChunk({ content: '', isComplete: true, error, usage, finishReason });
+
+  return {
+    content,
+    ...(error && { error }),
+    ...(usage && { usage }),
+    ...(finishReason && { finishReason })
+  };
+}
@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { StreamingResponseChunk } from '@shared/interfaces/ai-provider';
+import { ClaudeProvider } from './claude-provider';
+import { OpenAIProvider } from './openai-provider';
+import { GeminiProvider } from './gemini-provider';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+
+const sse = (res: ServerResponse, events: string[], keepOpen = false) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    res.write(`${event}\n\n`);
+  }
+  if (!keepOpen) res.end();
+};
+
+const collect = () => {
+  const chunks: StreamingResponseChunk[] = [];
+  return { chunks, onChunk: (chunk: StreamingResponseChunk) => chunks.push(chunk) };
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => handler(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('provider streaming', () => {
+  it('streams OpenAI deltas and final usage', async () => {
+    handler = (req, res) => sse(res, [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}',
+      'data: [DONE]'
+    ]);
+    const { chunks, onChunk } = collect();
+
+    const response = await new OpenAIProvider().generateStreamingResponse(
+      { content: 'hi' }, { apiKey: 'test', baseUrl }, onChunk
+    );
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Hel', 'lo', '']);
+    expect(chunks[2]).toMatchObject({ isComplete: true, finishReason: 'stop' });
+    expect(response).toEqual({
+      content: 'Hello',
+      usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 },
+      finishReason: 'stop'
+    });
+  });
+
+  it('streams Claude message events split across network writes', async () => {
+    handler = (req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":12}}}\n\n');
+      res.write('event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_del');
+      res.write('ta","text":"Hi"}}\n\nevent: ping\ndata: {"type":"ping"}\n\n');
+      res.write('event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":3}}\n\n');
+      res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+    };
+    const { chunks, onChunk } = collect();
+
+    const response = await new ClaudeProvider().generateStreamingResponse(
+      { content: 'hi' }, { apiKey: 'test', baseUrl }, onChunk
+    );
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Hi', '']);
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 3, totalTokens: 15 });
+    expect(response.finishReason).toBe('end_turn');
+  });
+
+  it('streams Gemini partial responses', async () => {
+    handler = (req, res) => {
+      expect(req.url).toContain(':streamGenerateContent?alt=sse');
+      sse(res, [
+        'data: {"candidates":[{"content":{"parts":[{"text":"One "}]}}]}',
+        'data: {"candidates":[{"content":{"parts":[{"text":"two"}]},"finishReason":"STOP"}],' +
+          '"usageMetadata":{"promptTokenCount":4,"candidatesTokenCount":2,"totalTokenCount":6}}'
+      ]);
+    };
+    const { chunks, onChunk } = collect();
+
+    const response = await new GeminiProvider().generateStreamingResponse(
+      { content: 'count' }, { apiKey: 'test', baseUrl }, onChunk
+    );
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['One ', 'two', '']);
+    expect(response.content).toBe('One two');
+    expect(response.usage).toEqual({ inputTokens: 4, outputTokens: 2, totalTokens: 6 });
+  });
+
+  it('emits an error chunk when the stream reports an error', async () => {
+    handler = (req, res) => sse(res, [
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Par"}}',
+      'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}'
+    ]);
+    const { chunks, onChunk } = collect();
+
+    const response = await new ClaudeProvider().generateStreamingResponse(
+      { content: 'hi' }, { apiKey: 'test', baseUrl }, onChunk
+    );
+
+    expect(chunks[chunks.length - 1]).toMatchObject({ isComplete: true, error: 'Claude stream error: Overloaded' });
+    expect(response).toMatchObject({ content: 'Par', error: 'Claude stream error: Overloaded' });
+  });
+
+  it('reports HTTP errors before the stream starts', async () => {
+    handler = (req, res) => {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end('{"error":{"message":"Invalid API key"}}');
+    };
+    const { chunks, onChunk } = collect();
+
+    const response = await new OpenAIProvider().generateStreamingResponse(
+      { content: 'hi' }, { apiKey: 'bad', baseUrl }, onChunk
+    );
+
+    expect(response.error).toBe('OpenAI API error: 401 - Invalid API key');
+    expect(chunks).toEqual([expect.objectContaining({ isComplete: true, error: response.error })]);
+  });
+
+  it('stops streaming when aborted', async () => {
+    handler = (req, res) => sse(res, ['data: {"choices":[{"delta":{"content":"partial"}}]}'], true);
+    const controller = new AbortController();
+    const { chunks, onChunk } = collect();
+
+    const response = await new OpenAIProvider().generateStreamingResponse(
+      { content: 'hi' },
+      { apiKey: 'test', baseUrl, signal: controller.signal },
+      chunk => {
+        onChunk(chunk);
+        if (!chunk.isComplete) controller.abort();
+      }
+    );
+
+    expect(response).toMatchObject({ content: 'partial', error: 'Request aborted' });
+    expect(chunks[chunks.length - 1].isComplete).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Rate Limiter
+ * Caps the requests sent to each provider, both in flight at once and within a rolling window
+ */
+
+export interface RateLimit {
+  maxConcurrent?: number;  // Requests allowed in flight at once
+  maxRequests?: number;    // Requests allowed to start within `windowMs`
+  windowMs?: number;       // Length of the rolling window; one minute by default
+}
+
+interface LimiterState {
+  active: number;
+  started: number[];       // Start times of the requests in the current window
+  waiters: Array<() => void>;
+}
+
+const DEFAULT_WINDOW_MS = 60000;
+
+export class RateLimiter {
+  private limits: Record<string, RateLimit>;
+  private states = new Map<string, LimiterState>();
+  private now: () => number;
+
+  constructor(limits: Record<string, RateLimit> = {}, now: () => number = Date.now) {
+    this.limits = { ...limits };
+    this.now = now;
+  }
+
+  /**
+   * Set or clear a provider's limit
+   */
+  setLimit(provider: string, limit?: RateLimit): void {
+    if (limit) {
+      this.limits[provider] = limit;
+    } else {
+      delete this.limits[provider];
+    }
+    this.wake(this.getState(provider));
+  }
+
+  /**
+   * Get a provider's limit, if it has one
+   */
+  getLimit(provider: string): RateLimit | undefined {
+    return this.limits[provider];
+  }
+
+  /**
+   * Wait until a request to a provider is allowed, and claim a slot for it
+   * @returns Releases the slot; call it once the request has finished
+   * @throws Error when the signal aborts while waiting
+   */
+  async acquire(provider: string, signal?: AbortSignal): Promise<() => void> {
+    const state = this.getState(provider);
+
+    for (;;) {
+      if (signal?.aborted) {
+        throw new Error('Request was cancelled while waiting for a rate limit');
+      }
+
+      const limit = this.limits[provider] ?? {};
+      const windowMs = limit.windowMs ?? DEFAULT_WINDOW_MS;
+      const now = this.now();
+      state.started = state.started.filter(time => now - time < windowMs);
+
+      const windowFull = limit.maxRequests !== undefined && state.started.length >= limit.maxRequests;
+      const busy = limit.maxConcurrent !== undefined && state.active >= limit.maxConcurrent;
+      if (!windowFull && !busy) {
+        state.active++;
+        state.started.push(now);
+
+        let released = false;
+        return () => {
+          if (released) return;
+          released = true;
+          state.active--;
+          this.wake(state);
+        };
+      }
+
+      // A full window frees up when its oldest request ages out; a busy provider when a request finishes
+      await this.wait(state, windowFull ? state.started[0] + windowMs - now : undefined, signal);
+    }
+  }
+
+  private wait(state: LimiterState, delayMs: number | undefined, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        state.waiters = state.waiters.filter(waiter => waiter !== done);
+        resolve();
+      };
+      const timer = delayMs !== undefined ? setTimeout(done, Math.max(0, delayMs)) : undefined;
+
+      state.waiters.push(done);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * Let every waiting request check the limit again
+   */
+  private wake(state: LimiterState): void {
+    for (const waiter of [...state.waiters]) {
+      waiter();
+    }
+  }
+
+  private getState(provider: string): LimiterState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { active: 0, started: [], waiters: [] };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+}
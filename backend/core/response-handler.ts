@@ -5,8 +5,10 @@
 
 import {
   AIResponse,
-  StreamingResponseChunk
+  StreamingResponseChunk,
+  StructuredOutputReport
 } from '@shared/interfaces/ai-provider';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
 
 // Supported language types for syntax highlighting
 export type SupportedLanguage = 
@@ -53,6 +55,8 @@ export interface StructuredResponse {
   explanation?: string;
   meta: ResponseMeta;
   rawResponse?: any;
+  structured?: unknown;           // Validated JSON, when the response was requested with a schema
+  validation?: StructuredOutputReport;
 }
 
 // Options for response processing
@@ -105,6 +109,13 @@ export class ResponseHandler {
       result.rawResponse = response.raw;
     }
     
+    // Structured output is JSON, not prose with code fences
+    if (response.validation) {
+      result.structured = response.structured;
+      result.validation = response.validation;
+      return result;
+    }
+    
     // Extract code blocks and explanations if requested
     if (opts.extractCodeBlocks) {
       result.codeBlocks = this.extractCodeBlocks(response.content);
@@ -250,30 +261,31 @@ export class ResponseHandler {
    * Estimate token count from text
    * 
    * @param text Text to estimate tokens for
+   * @param provider Provider whose tokenizer to use
+   * @param model Model whose tokenizer to use
    * @returns Estimated token count
    */
-  public estimateTokenCount(text: string): number {
-    // Simple approximation: ~4 chars per token
-    return Math.ceil(text.length / 4);
+  public estimateTokenCount(text: string, provider?: string, model?: string): number {
+    return tokenEstimatorRegistry.countTokens(text, provider, model);
   }
   
   /**
    * Generate detailed cost estimate for a response
    * 
    * @param content Response content
-   * @param inputLength Input prompt length
+   * @param input Input prompt text
    * @param provider Provider name
    * @param model Model name
    * @returns Cost estimate
    */
   public generateCostEstimate(
     content: string,
-    inputLength: number,
+    input: string,
     provider: string,
     model: string
   ): { cost: number, tokens: { input: number, output: number, total: number } } {
-    const inputTokens = Math.ceil(inputLength / 4);
-    const outputTokens = this.estimateTokenCount(content);
+    const inputTokens = this.estimateTokenCount(input, provider, model);
+    const outputTokens = this.estimateTokenCount(content, provider, model);
     const totalTokens = inputTokens + outputTokens;
     
     // Approximate cost calculation based on provider and model
@@ -0,0 +1,124 @@
+/**
+ * Route Selector
+ * Chooses a provider and model for a request from its declared requirements
+ */
+
+export enum RoutingPreference {
+  CHEAPEST = 'cheapest',
+  FASTEST = 'fastest'
+}
+
+/**
+ * What a request needs from the model it is routed to
+ */
+export interface RoutingRequirements {
+  minContextLength?: number;      // Minimum context window in tokens; the prompt and response must always fit
+  needsEmbeddings?: boolean;
+  needsStreaming?: boolean;
+  language?: string;
+  maxCost?: number;               // Maximum estimated cost of the request in USD
+  prefer?: RoutingPreference;     // How to choose between eligible candidates; cheapest by default
+  providers?: string[];           // Only consider these providers
+}
+
+/**
+ * A provider/model pair considered for a request
+ */
+export interface RoutingCandidate {
+  provider: string;
+  model: string;
+  contextLength: number;
+  estimatedCost: number;
+  averageLatencyMs?: number;      // Undefined until the provider has served requests
+  healthScore: number;
+  rejectedBecause?: string[];     // Why the candidate is not eligible
+}
+
+export interface RoutingDecision {
+  provider: string;
+  model: string;
+  rationale: string;
+  requirements: RoutingRequirements;
+  candidates: RoutingCandidate[]; // Eligible candidates first, in preference order
+  timestamp: number;
+}
+
+/**
+ * Order eligible candidates by preference. Ties go to the healthier provider,
+ * then to the earlier candidate.
+ */
+export function rankCandidates(candidates: RoutingCandidate[], prefer: RoutingPreference = RoutingPreference.CHEAPEST): RoutingCandidate[] {
+  const latency = (candidate: RoutingCandidate) => candidate.averageLatencyMs ?? Number.POSITIVE_INFINITY;
+
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => {
+      const primary = prefer === RoutingPreference.FASTEST
+        ? latency(a.candidate) - latency(b.candidate) || a.candidate.estimatedCost - b.candidate.estimatedCost
+        : a.candidate.estimatedCost - b.candidate.estimatedCost || latency(a.candidate) - latency(b.candidate);
+      return (Number.isNaN(primary) ? 0 : primary)
+        || b.candidate.healthScore - a.candidate.healthScore
+        || a.index - b.index;
+    })
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Check a candidate against the requirements
+ * @param requiredContext Tokens the context window must hold
+ * @returns The reasons the candidate is ineligible; empty when it qualifies
+ */
+export function checkRequirements(
+  candidate: RoutingCandidate,
+  requirements: RoutingRequirements,
+  requiredContext: number,
+  capabilities: { embeddings: boolean; streaming: boolean; language: boolean; circuitOpen: boolean }
+): string[] {
+  const reasons: string[] = [];
+
+  if (capabilities.circuitOpen) {
+    reasons.push('circuit open');
+  }
+  if (candidate.contextLength < requiredContext) {
+    reasons.push(`context ${candidate.contextLength} < ${requiredContext}`);
+  }
+  if (requirements.needsEmbeddings && !capabilities.embeddings) {
+    reasons.push('no embeddings');
+  }
+  if (requirements.needsStreaming && !capabilities.streaming) {
+    reasons.push('no streaming');
+  }
+  if (requirements.language && !capabilities.language) {
+    reasons.push(`no ${requirements.language} support`);
+  }
+  if (requirements.maxCost !== undefined && candidate.estimatedCost > requirements.maxCost) {
+    reasons.push(`cost ${formatCost(candidate.estimatedCost)} > ${formatCost(requirements.maxCost)}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Explain a routing decision in one line
+ */
+export function describeDecision(
+  chosen: RoutingCandidate,
+  eligible: RoutingCandidate[],
+  rejected: RoutingCandidate[],
+  prefer: RoutingPreference
+): string {
+  const latency = chosen.averageLatencyMs !== undefined ? `${Math.round(chosen.averageLatencyMs)}ms avg latency` : 'no latency data';
+  let rationale = `${chosen.provider}/${chosen.model}: ${prefer} of ${eligible.length} eligible candidate${eligible.length === 1 ? '' : 's'}`
+    + ` (est. ${formatCost(chosen.estimatedCost)}, ${latency}, context ${chosen.contextLength})`;
+
+  if (rejected.length > 0) {
+    rationale += `; rejected ${rejected
+      .map(candidate => `${candidate.provider}/${candidate.model} (${candidate.rejectedBecause!.join(', ')})`)
+      .join(', ')}`;
+  }
+  return rationale;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
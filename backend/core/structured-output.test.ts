@@ -0,0 +1,89 @@
+import { AIPrompt, AIProviderOptions, JsonSchema } from '@shared/interfaces/ai-provider';
+import { validateSchema } from './json-schema-validator';
+import { extractJson, generateStructured } from './structured-output';
+import { MockProvider } from './providers/mock-provider';
+import { createTestRouter } from '@backend/test/fixtures';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    priority: { enum: ['low', 'medium', 'high'] },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+  },
+  required: ['title', 'priority'],
+  additionalProperties: false
+};
+
+interface Ticket {
+  title: string;
+  priority: 'low' | 'medium' | 'high';
+  tags?: string[];
+}
+
+const options = { apiKey: '' };
+
+describe('structured output', () => {
+  it('reports every schema violation with its JSON pointer', () => {
+    const errors = validateSchema({ title: '', priority: 'urgent', tags: ['a', 'a', 3], extra: true }, schema);
+
+    expect(errors.map(error => error.path)).toEqual(['/title', '/priority', '/tags', '/tags/2', '/extra']);
+    expect(validateSchema({ title: 'Fix login', priority: 'high' }, schema)).toEqual([]);
+    expect(validateSchema([], schema)).toEqual([{ path: '', message: 'Expected object but got array' }]);
+  });
+
+  it('finds JSON wrapped in prose or a code fence', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```').value).toEqual({ a: 1 });
+    expect(extractJson('Sure! {"a": [1, 2]} Hope that helps.').value).toEqual({ a: [1, 2] });
+    expect(extractJson('no json here').error).toContain('not valid JSON');
+  });
+
+  it('re-prompts with the validation errors until the output matches', async () => {
+    const provider = new MockProvider({
+      script: [
+        { match: 'does not match the schema', response: '{"title": "Fix login", "priority": "high"}' },
+        { match: 'Create a ticket', response: '{"title": "Fix login", "priority": "urgent"}' }
+      ]
+    });
+    const generate = vi.spyOn(provider, 'generateResponse');
+
+    const response = await generateStructured<Ticket>(provider, { content: 'Create a ticket for the login bug' }, options, { schema });
+
+    expect(response.structured).toEqual({ title: 'Fix login', priority: 'high' });
+    expect(response.validation).toEqual({ valid: true, errors: [], attempts: 2, nativeJsonMode: false });
+    expect(generate.mock.calls[0][0].systemPrompt).toContain('"required"');
+    expect(generate.mock.calls[1][0].content).toContain('- /priority: Expected one of "low", "medium", "high"');
+  });
+
+  it('uses native JSON mode and gives up after the repair budget', async () => {
+    const requests: Array<[AIPrompt, AIProviderOptions]> = [];
+    const provider = {
+      supportsJsonMode: () => true,
+      generateResponse: async (prompt: AIPrompt, requestOptions: AIProviderOptions) => {
+        requests.push([prompt, requestOptions]);
+        return { content: '{"title": "Fix login"}', usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } };
+      }
+    };
+
+    const response = await generateStructured(provider, { content: 'Create a ticket' }, options, { schema, name: 'ticket', maxRepairAttempts: 1 });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0][1].responseFormat).toEqual({ schema, name: 'ticket' });
+    expect(response.structured).toBeUndefined();
+    expect(response.error).toContain('after 2 attempts');
+    expect(response.usage).toEqual({ inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+    expect(response.validation).toMatchObject({ valid: false, attempts: 2, nativeJsonMode: true, errors: [{ path: '/priority' }] });
+  });
+
+  it('falls back to the next provider when one cannot produce valid output', async () => {
+    const router = createTestRouter({
+      primary: new MockProvider({ defaultResponse: 'I cannot do JSON' }),
+      secondary: new MockProvider({ defaultResponse: '{"title": "Fix login", "priority": "low"}' })
+    }, { fallbackChain: ['secondary'] });
+
+    const response = await router.sendStructured<Ticket>('Create a ticket', { schema, maxRepairAttempts: 0 });
+
+    expect(response.provider).toBe('secondary');
+    expect(response.structured?.priority).toBe('low');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Structured Output
+ * Asks a provider for JSON matching a schema, validates the result and re-prompts with the
+ * validation errors until it matches or the repair budget runs out
+ */
+
+import {
+  AIPrompt,
+  AIProvider,
+  AIProviderOptions,
+  AIResponse,
+  JsonSchema,
+  SchemaValidationError,
+  TokenUsage
+} from '@shared/interfaces/ai-provider';
+import { validateSchema } from './json-schema-validator';
+
+export interface StructuredOutputOptions {
+  schema: JsonSchema;
+  name?: string;                  // Schema name sent to providers with native JSON mode
+  maxRepairAttempts?: number;     // Re-prompts after invalid output; 2 by default
+}
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Parse the JSON in a reply. Models outside JSON mode often wrap it in a code fence or a
+ * sentence, so the first fenced block, then the outermost object or array, is tried.
+ */
+export function extractJson(content: string): { value?: unknown; error?: string } {
+  const fenced = content.match(/```(?:json)?[^\n]*\n([\s\S]*?)```/);
+  const candidates = [content.trim(), fenced?.[1].trim()];
+
+  const start = content.search(/[[{]/);
+  if (start !== -1) {
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'));
+    if (end > start) candidates.push(content.slice(start, end + 1));
+  }
+
+  let error = 'Reply is empty';
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (parseError) {
+      error = `Reply is not valid JSON: ${parseError instanceof Error ? parseError.message : parseError}`;
+    }
+  }
+  return { error };
+}
+
+/**
+ * Add the schema to a prompt as instructions, for providers without native JSON mode and as a
+ * reminder for those with it
+ */
+export function withSchemaInstructions(prompt: AIPrompt, schema: JsonSchema): AIPrompt {
+  const instructions = [
+    'Respond with only a JSON value that matches this JSON Schema, with no other text:',
+    JSON.stringify(schema, null, 2)
+  ].join('\n');
+
+  return {
+    ...prompt,
+    systemPrompt: prompt.systemPrompt ? `${prompt.systemPrompt}\n\n${instructions}` : instructions
+  };
+}
+
+function withRepairRequest(prompt: AIPrompt, reply: string, errors: SchemaValidationError[]): AIPrompt {
+  return {
+    ...prompt,
+    content: [
+      prompt.content,
+      `Your previous reply was:\n${reply}`,
+      `It does not match the schema:\n${errors.map(error => `- ${error.path || '(root)'}: ${error.message}`).join('\n')}`,
+      'Reply again with only the corrected JSON.'
+    ].join('\n\n')
+  };
+}
+
+/**
+ * Add one request's usage to a running total
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens
+  };
+}
+
+/**
+ * Generate a response whose content is JSON matching a schema.
+ * Native JSON mode is requested when the provider supports it. Invalid output is sent back with
+ * its validation errors up to `maxRepairAttempts` times; if it still doesn't match, the
+ * response carries an error along with the validation report. Usage covers every attempt.
+ */
+export async function generateStructured<T = unknown>(
+  provider: Pick<AIProvider, 'generateResponse' | 'supportsJsonMode'>,
+  prompt: AIPrompt,
+  options: AIProviderOptions,
+  structured: StructuredOutputOptions
+): Promise<AIResponse<T>> {
+  const nativeJsonMode = provider.supportsJsonMode?.(options.model) ?? false;
+  const requestOptions: AIProviderOptions = nativeJsonMode
+    ? { ...options, responseFormat: { schema: structured.schema, name: structured.name } }
+    : options;
+  const basePrompt = withSchemaInstructions(prompt, structured.schema);
+  const maxAttempts = 1 + (structured.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+
+  let request = basePrompt;
+  let usage: TokenUsage | undefined;
+  let response: AIResponse = { content: '' };
+  let errors: SchemaValidationError[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    response = await provider.generateResponse(request, requestOptions);
+    usage = addUsage(usage, response.usage);
+    if (response.error) {
+      return { ...response, usage, validation: { valid: false, errors, attempts: attempt, nativeJsonMode } } as AIResponse<T>;
+    }
+
+    const parsed = extractJson(response.content);
+    errors = parsed.error !== undefined
+      ? [{ path: '', message: parsed.error }]
+      : validateSchema(parsed.value, structured.schema);
+
+    if (errors.length === 0) {
+      return {
+        ...response,
+        usage,
+        structured: parsed.value as T,
+        validation: { valid: true, errors, attempts: attempt, nativeJsonMode }
+      };
+    }
+
+    request = withRepairRequest(basePrompt, response.content, errors);
+  }
+
+  return {
+    ...response,
+    usage,
+    error: `Output did not match the schema after ${maxAttempts} attempts: ${errors.map(error => `${error.path || '(root)'} ${error.message}`).join('; ')}`,
+    validation: { valid: false, errors, attempts: maxAttempts, nativeJsonMode }
+  } as AIResponse<T>;
+}
@@ -0,0 +1,148 @@
+import { AIPrompt, AIProvider, AIProviderOptions, AIResponse, ToolDefinition, ToolExchange } from '@shared/interfaces/ai-provider';
+import { PluginManager } from '@backend/services/plugin-system/plugin-manager';
+import { ValidationError } from '@backend/services/error/error-handler';
+import { generateWithTools, getToolPlugins } from './tool-calling';
+import { MockProvider } from './providers/mock-provider';
+import { ClaudeProvider } from './providers/claude-provider';
+import { OpenAIProvider } from './providers/openai-provider';
+import { GeminiProvider } from './providers/gemini-provider';
+import { createTestRouter } from '@backend/test/fixtures';
+
+const CSS_TOOL = 'built-in-css-optimizer';
+
+const tool: ToolDefinition = {
+  name: 'lookup',
+  description: 'Look up a word',
+  inputSchema: { type: 'object', properties: { word: { type: 'string' } }, required: ['word'], additionalProperties: false }
+};
+
+const exchange: ToolExchange = {
+  calls: [{ id: 'call_1', name: 'lookup', arguments: { word: 'css' } }],
+  results: [{ callId: 'call_1', name: 'lookup', content: 'Cascading Style Sheets' }]
+};
+
+const options = { apiKey: 'key' };
+
+// The parts of a provider request body the assertions read
+interface RequestBody {
+  tools: Array<{ functionDeclarations?: unknown }>;
+  messages: Array<{ content?: unknown; tool_calls?: unknown }>;
+  contents: Array<{ parts?: unknown }>;
+}
+
+/**
+ * A provider that answers each request with the next scripted response
+ */
+const scripted = (...responses: AIResponse[]) => {
+  const requests: Array<[AIPrompt, AIProviderOptions]> = [];
+  return {
+    requests,
+    supportsTools: () => true,
+    generateResponse: async (prompt: AIPrompt, requestOptions: AIProviderOptions) => {
+      requests.push([prompt, requestOptions]);
+      return responses[Math.min(requests.length, responses.length) - 1];
+    }
+  };
+};
+
+describe('tool calling', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    {
+      provider: new ClaudeProvider(),
+      reply: { content: [{ type: 'text', text: 'Checking. ' }, { type: 'tool_use', id: 'toolu_2', name: 'lookup', input: { word: 'dom' } }] },
+      expectTools: (body: RequestBody) => expect(body.tools).toEqual([{ name: 'lookup', description: 'Look up a word', input_schema: tool.inputSchema }]),
+      expectReplay: (body: RequestBody) => {
+        expect(body.messages[1].content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'lookup', input: { word: 'css' } }]);
+        expect(body.messages[2].content).toEqual([{ type: 'tool_result', tool_use_id: 'call_1', content: 'Cascading Style Sheets' }]);
+      },
+      id: 'toolu_2'
+    },
+    {
+      provider: new OpenAIProvider(),
+      reply: { choices: [{ message: { content: 'Checking. ', tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"word":"dom"}' } }] } }] },
+      expectTools: (body: RequestBody) => expect(body.tools).toEqual([{ type: 'function', function: { name: 'lookup', description: 'Look up a word', parameters: tool.inputSchema } }]),
+      expectReplay: (body: RequestBody) => {
+        expect(body.messages[1].tool_calls).toEqual([{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"word":"css"}' } }]);
+        expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'Cascading Style Sheets' });
+      },
+      id: 'call_2'
+    },
+    {
+      provider: new GeminiProvider(),
+      reply: { candidates: [{ content: { parts: [{ text: 'Checking. ' }, { functionCall: { name: 'lookup', args: { word: 'dom' } } }] } }] },
+      expectTools: (body: RequestBody) => expect(body.tools[0].functionDeclarations).toEqual([{
+        name: 'lookup',
+        description: 'Look up a word',
+        // additionalProperties is not accepted by Gemini
+        parameters: { type: 'object', properties: { word: { type: 'string' } }, required: ['word'] }
+      }]),
+      expectReplay: (body: RequestBody) => {
+        expect(body.contents[1]).toEqual({ role: 'model', parts: [{ functionCall: { name: 'lookup', args: { word: 'css' } } }] });
+        expect(body.contents[2].parts).toEqual([{ functionResponse: { name: 'lookup', response: { content: 'Cascading Style Sheets' } } }]);
+      },
+      id: 'lookup_0'
+    }
+  ])('speaks $provider.name tool calling natively', async ({ provider, reply, expectTools, expectReplay, id }) => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(reply), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await provider.generateResponse({ content: 'Define css, then dom', toolExchanges: [exchange] }, { ...options, tools: [tool] });
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expectTools(body);
+    expectReplay(body);
+    expect(response.content).toBe('Checking. ');
+    expect(response.toolCalls).toEqual([{ id, name: 'lookup', arguments: { word: 'dom' } }]);
+  });
+
+  it('validates arguments, runs plugins and sends the results back until the model answers', async () => {
+    const usage = { inputTokens: 10, outputTokens: 2, totalTokens: 12 };
+    const provider = scripted(
+      { content: '', toolCalls: [{ id: 'c1', name: CSS_TOOL, arguments: { minify: true } }], usage },
+      { content: '', toolCalls: [{ id: 'c2', name: CSS_TOOL, arguments: { code: 'a { color : red ; }', minify: true } }], usage },
+      { content: 'Minified to a{color:red;}', usage }
+    );
+    const results: string[] = [];
+
+    const response = await generateWithTools(provider, { content: 'Minify my CSS' }, options, {
+      tools: [CSS_TOOL],
+      pluginManager: new PluginManager(),
+      onToolResult: (call, result, depth) => results.push(`${depth}:${call.id}:${result.isError ? 'error' : 'ok'}`)
+    });
+
+    expect(response.content).toBe('Minified to a{color:red;}');
+    expect(response.usage).toEqual({ inputTokens: 30, outputTokens: 6, totalTokens: 36 });
+    expect(results).toEqual(['1:c1:error', '2:c2:ok']);
+    expect(provider.requests[0][1].tools).toEqual([expect.objectContaining({ name: CSS_TOOL, inputSchema: expect.objectContaining({ required: ['code'] }) })]);
+
+    const [firstRound, secondRound] = provider.requests[2][0].toolExchanges!;
+    expect(firstRound.results[0].content).toBe(`Invalid input for tool ${CSS_TOOL}: /code Required property is missing`);
+    expect(JSON.parse(secondRound.results[0].content).optimizedCode).toBe('a { color:red;}');
+  });
+
+  it('gives up when the model keeps calling tools past the max depth', async () => {
+    const provider = scripted({ content: '', toolCalls: [{ id: 'c', name: 'unknown_tool', arguments: {} }] });
+
+    const response = await generateWithTools(provider, { content: 'Loop' }, options, { maxDepth: 2, pluginManager: new PluginManager() });
+
+    expect(provider.requests).toHaveLength(3);
+    expect(response.error).toBe('Model was still calling tools after 2 rounds');
+    expect(response.toolExchanges.map(round => round.results[0].content)).toEqual(['Unknown tool: unknown_tool', 'Unknown tool: unknown_tool']);
+    expect(() => getToolPlugins(new PluginManager(), ['missing'])).toThrow(ValidationError);
+  });
+
+  it('falls back past providers without tool calling', async () => {
+    const router = createTestRouter({
+      primary: new MockProvider({ defaultResponse: 'no tools here' }),
+      secondary: { ...scripted({ content: 'done' }), requiresApiKey: () => false } as unknown as AIProvider
+    }, { fallbackChain: ['secondary'] });
+
+    const response = await router.sendWithTools('Minify my CSS', { tools: [CSS_TOOL] });
+
+    expect(response).toMatchObject({ provider: 'secondary', content: 'done', toolExchanges: [] });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tool Calling
+ * Offers tool plugins to a provider in its native tool format, runs the calls the model makes
+ * and sends the results back until the model answers without calling a tool
+ */
+
+import {
+  AIPrompt,
+  AIProvider,
+  AIProviderOptions,
+  AIResponse,
+  JsonSchema,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  ToolExchange,
+  ToolResult
+} from '@shared/interfaces/ai-provider';
+import { PluginManager, PluginType, ToolPlugin, pluginManager as defaultPluginManager } from '@backend/services/plugin-system/plugin-manager';
+import { ValidationError } from '@backend/services/error/error-handler';
+import { addUsage } from './structured-output';
+
+export interface ToolCallingOptions {
+  tools?: string[];               // IDs of the tool plugins to offer; every enabled tool by default
+  maxDepth?: number;              // Rounds of tool calls allowed before giving up; 5 by default
+  pluginManager?: PluginManager;  // Where tools are looked up and run; the shared plugin manager by default
+  onToolResult?: (call: ToolCall, result: ToolResult, depth: number) => void;
+}
+
+export const DEFAULT_MAX_TOOL_DEPTH = 5;
+
+export type ToolCallingResponse = AIResponse & { toolExchanges: ToolExchange[] };
+
+/**
+ * Describe a tool plugin to the model. The plugin ID is the tool name, so calls map straight
+ * back to `PluginManager.executeTool`.
+ */
+export function toToolDefinition(plugin: ToolPlugin): ToolDefinition {
+  return {
+    name: plugin.id,
+    description: plugin.description,
+    inputSchema: (plugin.inputSchema || { type: 'object', properties: {} }) as JsonSchema
+  };
+}
+
+/**
+ * Resolve the tool plugins to offer
+ * @throws ValidationError when a requested tool doesn't exist or is disabled
+ */
+export function getToolPlugins(pluginManager: PluginManager, ids?: string[]): ToolPlugin[] {
+  const enabled = (pluginManager.getPluginsByType(PluginType.TOOL) as ToolPlugin[]).filter(plugin => plugin.enabled);
+  if (!ids) {
+    return enabled;
+  }
+
+  const unavailable = ids.filter(id => !enabled.some(plugin => plugin.id === id));
+  if (unavailable.length > 0) {
+    throw new ValidationError(`Tool plugins not available: ${unavailable.join(', ')}`, undefined, { unavailable });
+  }
+  return enabled.filter(plugin => ids.includes(plugin.id));
+}
+
+/**
+ * Run one tool call. Failures, including invalid arguments, become error results so the model
+ * can see what went wrong and try again.
+ */
+export async function runToolCall(call: ToolCall, pluginManager: PluginManager, offered: ToolPlugin[]): Promise<ToolResult> {
+  if (!offered.some(plugin => plugin.id === call.name)) {
+    return { callId: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true };
+  }
+
+  try {
+    const output = await pluginManager.executeTool(call.name, call.arguments);
+    return {
+      callId: call.id,
+      name: call.name,
+      content: typeof output === 'string' ? output : JSON.stringify(output)
+    };
+  } catch (error) {
+    return {
+      callId: call.id,
+      name: call.name,
+      content: error instanceof Error ? error.message : String(error),
+      isError: true
+    };
+  }
+}
+
+/**
+ * Generate a response, letting the model call tools along the way.
+ * Each round's calls run in order and their results go back with the rest of the conversation.
+ * The model gets `maxDepth` rounds; if it still wants tools after that, the response carries an
+ * error. Usage covers every request.
+ * @throws ValidationError when a requested tool doesn't exist or is disabled
+ */
+export async function generateWithTools(
+  provider: Pick<AIProvider, 'generateResponse' | 'supportsTools'>,
+  prompt: AIPrompt,
+  options: AIProviderOptions,
+  toolOptions: ToolCallingOptions = {}
+): Promise<ToolCallingResponse> {
+  const pluginManager = toolOptions.pluginManager ?? defaultPluginManager;
+  const plugins = getToolPlugins(pluginManager, toolOptions.tools);
+  const maxDepth = toolOptions.maxDepth ?? DEFAULT_MAX_TOOL_DEPTH;
+  const exchanges: ToolExchange[] = [];
+
+  if (!(provider.supportsTools?.(options.model) ?? false)) {
+    return { content: '', error: 'Provider does not support tool calling', toolExchanges: exchanges };
+  }
+
+  const requestOptions: AIProviderOptions = { ...options, tools: plugins.map(toToolDefinition) };
+  let usage: TokenUsage | undefined;
+
+  for (let depth = 0; ; depth++) {
+    const response = await provider.generateResponse(
+      { ...prompt, toolExchanges: [...(prompt.toolExchanges || []), ...exchanges] },
+      requestOptions
+    );
+    usage = addUsage(usage, response.usage);
+
+    if (response.error || !response.toolCalls?.length) {
+      return { ...response, usage, toolExchanges: exchanges };
+    }
+    if (depth >= maxDepth) {
+      return {
+        ...response,
+        usage,
+        error: `Model was still calling tools after ${maxDepth} rounds`,
+        toolExchanges: exchanges
+      };
+    }
+
+    const results: ToolResult[] = [];
+    for (const call of response.toolCalls) {
+      const result = await runToolCall(call, pluginManager, plugins);
+      toolOptions.onToolResult?.(call, result, depth + 1);
+      results.push(result);
+    }
+    exchanges.push({ ...(response.content && { content: response.content }), calls: response.toolCalls, results });
+  }
+}
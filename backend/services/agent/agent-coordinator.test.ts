@@ -0,0 +1,79 @@
+import { MockProvider } from '@backend/core/providers/mock-provider';
+import { createTestRouter } from '@backend/test/fixtures';
+import { ValidationError } from '../error/error-handler';
+import { AgentCoordinator, CoordinatorModel, USER } from './agent-coordinator';
+import { DEFAULT_AGENT_ROLES } from './agent-roles';
+
+const createCoordinator = () => {
+  const writer = new MockProvider({
+    script: [
+      { match: 'Write a step-by-step implementation plan', response: '1. Add the function' },
+      { match: 'Revise your implementation', response: 'function add(a: number, b: number) { return a + b; }' },
+      { match: 'Implement the request', response: 'function add(a, b) { return a + b; }' }
+    ]
+  });
+  const critic = new MockProvider({ defaultResponse: 'Add parameter types.' });
+
+  const roles = DEFAULT_AGENT_ROLES.map(role => role.id === 'reviewer' ? { ...role, provider: 'critic', model: 'critic-large' } : role);
+  const coordinator = new AgentCoordinator(createTestRouter({ writer, critic }), roles);
+  return { coordinator, writer: vi.spyOn(writer, 'generateResponse'), critic: vi.spyOn(critic, 'generateResponse') };
+};
+
+describe('AgentCoordinator', () => {
+  it('runs planner, coder, reviewer and revision, each on its own provider, and records every message', async () => {
+    const { coordinator, writer, critic } = createCoordinator();
+
+    const result = await coordinator.run('Write an add function');
+
+    expect(result.output).toBe('function add(a: number, b: number) { return a + b; }');
+    expect(result.transcript.map(message => `${message.from} -> ${message.to}`)).toEqual([
+      `${USER} -> planner`,
+      'planner -> coder',
+      'coder -> reviewer',
+      'reviewer -> coder',
+      `coder -> ${USER}`
+    ]);
+    expect(result.transcript[3]).toMatchObject({ stage: 'review', content: 'Add parameter types.', provider: 'critic', model: 'critic-large' });
+
+    const [reviewPrompt, reviewOptions] = critic.mock.calls[0];
+    expect(reviewOptions.model).toBe('critic-large');
+    expect(reviewPrompt.systemPrompt).toContain('You are a meticulous code reviewer');
+    expect(reviewPrompt.content).toContain('Output of the code stage, from the Coder:\nfunction add(a, b)');
+
+    const revisionPrompt = writer.mock.calls[2][0];
+    expect(revisionPrompt.systemPrompt).toContain('You are an expert software engineer');
+    expect(revisionPrompt.content).toContain('Output of the review stage, from the Reviewer:\nAdd parameter types.');
+  });
+
+  it('checks the pipeline before sending anything and offers roles only their allowed tools', async () => {
+    const sendPrompt = vi.fn(async () => ({ content: 'done', provider: 'writer' }));
+    const coordinator = new AgentCoordinator({ sendPrompt } as unknown as CoordinatorModel);
+    coordinator.setRole({ id: 'stylist', name: 'Stylist', systemPrompt: 'You write CSS.', tools: ['built-in-css-optimizer'] });
+
+    await expect(coordinator.run('Style it', {
+      pipeline: [{ id: 'style', role: 'stylist', instruction: 'Style the page.', inputs: ['plan'] }]
+    })).rejects.toThrow(ValidationError);
+    await expect(coordinator.run('Style it', {
+      pipeline: [{ id: 'style', role: 'designer', instruction: 'Style the page.', inputs: [] }]
+    })).rejects.toThrow('Stage style uses unknown agent role: designer');
+    await expect(coordinator.run('Style it', {
+      pipeline: [
+        { id: 'style', role: 'planner', instruction: 'Plan the styles.', inputs: [] },
+        { id: 'style', role: 'stylist', instruction: 'Style the page.', inputs: ['style'] }
+      ]
+    })).rejects.toThrow('Agent pipeline has more than one stage with id style');
+    expect(sendPrompt).not.toHaveBeenCalled();
+
+    await coordinator.run('Style it', {
+      pipeline: [
+        { id: 'plan', role: 'planner', instruction: 'Plan the styles.', inputs: [] },
+        { id: 'style', role: 'stylist', instruction: 'Style the page.', inputs: ['plan'] }
+      ]
+    });
+
+    expect(sendPrompt.mock.calls.map(call => (call as unknown[])[1])).toEqual([
+      expect.not.objectContaining({ tools: expect.anything() }),
+      expect.objectContaining({ tools: { tools: ['built-in-css-optimizer'] } })
+    ]);
+  });
+});
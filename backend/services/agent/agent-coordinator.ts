@@ -0,0 +1,235 @@
+/**
+ * Agent Coordinator
+ * Runs a pipeline of agent roles, routing each role's output to the roles that build on it,
+ * and keeps a transcript of every message passed between them
+ */
+
+import { AIPrompt } from '@shared/interfaces/ai-provider';
+import type { ModelRouter } from '@backend/core/model-router';
+import { Logger } from '../logging/logger';
+import { errorHandler, TaskError, ValidationError } from '../error/error-handler';
+import { CompositionStrategy } from '../prompt-builder/interfaces/prompt-composition';
+import { ChatMessagesStrategy, toAIPrompt } from '../prompt-builder/strategies/chat-messages-strategy';
+import { SystemPromptLayer } from '../prompt-builder/layers/system-prompt-layer';
+import { TaskInstructionLayer } from '../prompt-builder/layers/task-instruction-layer';
+import { AgentRole, DEFAULT_AGENT_ROLES, DEFAULT_PIPELINE, PipelineStage } from './agent-roles';
+
+/**
+ * The part of the model router the coordinator needs
+ */
+export type CoordinatorModel = Pick<ModelRouter, 'sendPrompt'>;
+
+// Sender of the request and recipient of the final output
+export const USER = 'user';
+
+export interface AgentMessage {
+  id: string;
+  from: string;                     // Role ID, or USER
+  to: string;                       // Role ID, or USER
+  content: string;
+  stage?: string;                   // The stage whose output this is; missing for the request
+  provider?: string;                // Provider and model that wrote the message
+  model?: string;
+  timestamp: number;
+}
+
+export type AgentMessageListener = (message: AgentMessage) => void;
+
+export interface CoordinatorRunOptions {
+  pipeline?: PipelineStage[];       // DEFAULT_PIPELINE when missing
+  signal?: AbortSignal;             // Cancels the run, including an in-flight request
+  onMessage?: AgentMessageListener; // Receives this run's messages in addition to the registered listeners
+}
+
+export interface CoordinatorResult {
+  output: string;                   // The last stage's output
+  outputs: Record<string, string>;  // Every stage's output, by stage ID
+  transcript: AgentMessage[];
+}
+
+/**
+ * Coordinates named agent roles through a pipeline of stages
+ */
+export class AgentCoordinator {
+  private model: CoordinatorModel;
+  private roles: Map<string, AgentRole>;
+  private strategy: CompositionStrategy;
+  private listeners: AgentMessageListener[] = [];
+  private logger: Logger;
+
+  /**
+   * @param model Sends each stage's prompt
+   * @param roles The roles pipelines can use
+   * @param strategy Composes the role and stage layers. A strategy rather than the prompt composer,
+   * whose memory retrieval would pull the Node-only memory backends into the browser bundle.
+   */
+  constructor(
+    model: CoordinatorModel,
+    roles: AgentRole[] = DEFAULT_AGENT_ROLES,
+    strategy: CompositionStrategy = new ChatMessagesStrategy()
+  ) {
+    this.model = model;
+    this.roles = new Map(roles.map(role => [role.id, role]));
+    this.strategy = strategy;
+    this.logger = new Logger('AgentCoordinator');
+  }
+
+  /**
+   * Get every role the coordinator knows
+   */
+  getRoles(): AgentRole[] {
+    return Array.from(this.roles.values());
+  }
+
+  /**
+   * Get a role by ID
+   */
+  getRole(id: string): AgentRole | undefined {
+    return this.roles.get(id);
+  }
+
+  /**
+   * Add a role, or replace the role with the same ID
+   */
+  setRole(role: AgentRole): void {
+    this.roles.set(role.id, role);
+  }
+
+  /**
+   * Register a listener for the messages of every run
+   */
+  addMessageListener(listener: AgentMessageListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove a message listener
+   */
+  removeMessageListener(listener: AgentMessageListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  /**
+   * Run a request through a pipeline. Each stage's role gets the request and the output of
+   * the stages listed in its inputs, and its own output is passed on to the next stage's role.
+   * @param request The user's request
+   * @param options Run options
+   * @returns The final output, every stage's output and the transcript
+   * @throws ValidationError when the pipeline refers to an unknown role or to a stage that hasn't run yet
+   * @throws TaskError when the run is cancelled; provider errors are passed through
+   */
+  async run(request: string, options: CoordinatorRunOptions = {}): Promise<CoordinatorResult> {
+    const pipeline = options.pipeline ?? DEFAULT_PIPELINE;
+    const transcript: AgentMessage[] = [];
+    const outputs: Record<string, string> = {};
+
+    const post = (message: Omit<AgentMessage, 'id' | 'timestamp'>) => {
+      const posted: AgentMessage = { ...message, id: this.generateMessageId(), timestamp: Date.now() };
+      transcript.push(posted);
+      this.emit(posted, options.onMessage);
+    };
+
+    let stage: PipelineStage | undefined;
+    try {
+      this.checkPipeline(pipeline);
+      post({ from: USER, to: pipeline[0].role, content: request });
+
+      for (const [index, current] of pipeline.entries()) {
+        stage = current;
+        if (options.signal?.aborted) {
+          throw new TaskError('Agent pipeline was cancelled');
+        }
+
+        const role = this.roles.get(stage.role)!;
+        const response = await this.model.sendPrompt(this.buildPrompt(role, stage, request, pipeline, outputs), {
+          provider: role.provider,
+          model: role.model,
+          signal: options.signal,
+          ...(role.tools && role.tools.length > 0 && { tools: { tools: role.tools } })
+        });
+
+        outputs[stage.id] = response.content;
+        post({
+          from: role.id,
+          to: pipeline[index + 1]?.role ?? USER,
+          content: response.content,
+          stage: stage.id,
+          provider: response.provider,
+          model: response.model
+        });
+      }
+
+      const output = outputs[pipeline[pipeline.length - 1].id];
+      this.logger.info('Agent pipeline completed', { stages: pipeline.length, messages: transcript.length });
+      return { output, outputs, transcript };
+    } catch (error) {
+      this.logger.error('Agent pipeline failed', { error, stage: stage?.id });
+      throw errorHandler.handleError(error as Error, { stage: stage?.id });
+    }
+  }
+
+  /**
+   * @throws ValidationError when the pipeline is empty, reuses a stage id, names an unknown
+   * role, or takes input from a stage that doesn't run before it
+   */
+  private checkPipeline(pipeline: PipelineStage[]): void {
+    if (pipeline.length === 0) {
+      throw new ValidationError('Agent pipeline has no stages');
+    }
+
+    pipeline.forEach((stage, index) => {
+      if (pipeline.findIndex(s => s.id === stage.id) !== index) {
+        throw new ValidationError(`Agent pipeline has more than one stage with id ${stage.id}`);
+      }
+      if (!this.roles.has(stage.role)) {
+        throw new ValidationError(`Stage ${stage.id} uses unknown agent role: ${stage.role}`);
+      }
+      const earlier = pipeline.slice(0, index).map(s => s.id);
+      const missing = stage.inputs.filter(input => !earlier.includes(input));
+      if (missing.length > 0) {
+        throw new ValidationError(`Stage ${stage.id} takes input from stages that don't run before it: ${missing.join(', ')}`);
+      }
+    });
+  }
+
+  /**
+   * Compose a stage's prompt: the role's system prompt as a system layer, and the request,
+   * the stage's inputs and its instruction as the task
+   */
+  private buildPrompt(
+    role: AgentRole,
+    stage: PipelineStage,
+    request: string,
+    pipeline: PipelineStage[],
+    outputs: Record<string, string>
+  ): AIPrompt {
+    const sections = [`Request:\n${request}`];
+    for (const input of stage.inputs) {
+      const author = this.roles.get(pipeline.find(s => s.id === input)!.role)!;
+      sections.push(`Output of the ${input} stage, from the ${author.name}:\n${outputs[input]}`);
+    }
+    sections.push(`Your task: ${stage.instruction}`);
+
+    return toAIPrompt(this.strategy.compose([
+      new SystemPromptLayer(`role-${role.id}`, role.systemPrompt),
+      new TaskInstructionLayer(`stage-${stage.id}`, sections.join('\n\n'))
+    ]));
+  }
+
+  /**
+   * Send a message to the run's listener and every registered listener
+   */
+  private emit(message: AgentMessage, onMessage?: AgentMessageListener): void {
+    for (const listener of onMessage ? [onMessage, ...this.listeners] : this.listeners) {
+      try {
+        listener(message);
+      } catch (listenerError) {
+        this.logger.error('Error in agent message listener', { listenerError });
+      }
+    }
+  }
+
+  private generateMessageId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Agent Roles
+ * Named agents that take part in a multi-agent pipeline, each with its own system prompt,
+ * provider, model and tools
+ */
+
+export interface AgentRole {
+  id: string;
+  name: string;
+  systemPrompt: string;             // Composed into the role's prompts as a system prompt layer
+  provider?: string;                // The model router's active provider when missing
+  model?: string;                   // The provider's default model when missing
+  tools?: string[];                 // IDs of the tool plugins the role may call; none when missing or empty
+}
+
+/**
+ * One turn of a pipeline: a role handles the request and earlier stages' output
+ */
+export interface PipelineStage {
+  id: string;
+  role: string;                     // ID of the role that handles the stage
+  instruction: string;              // What the role is asked to do
+  inputs: string[];                 // IDs of the earlier stages whose output the role receives
+}
+
+export const DEFAULT_AGENT_ROLES: AgentRole[] = [
+  {
+    id: 'planner',
+    name: 'Planner',
+    systemPrompt: 'You are a software architect. You turn requests into clear, concrete implementation plans. ' +
+      'You do not write the implementation yourself.'
+  },
+  {
+    id: 'coder',
+    name: 'Coder',
+    systemPrompt: 'You are an expert software engineer. You write complete, working code that follows the plan ' +
+      'and best practices, and you take review feedback seriously.'
+  },
+  {
+    id: 'reviewer',
+    name: 'Reviewer',
+    systemPrompt: 'You are a meticulous code reviewer. You look for bugs, missed requirements, security issues ' +
+      'and unclear code, and you give specific, actionable feedback. You do not rewrite the code yourself.'
+  }
+];
+
+// Planner -> coder -> reviewer -> coder revision
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  {
+    id: 'plan',
+    role: 'planner',
+    instruction: 'Write a step-by-step implementation plan for the request.',
+    inputs: []
+  },
+  {
+    id: 'code',
+    role: 'coder',
+    instruction: 'Implement the request following the plan.',
+    inputs: ['plan']
+  },
+  {
+    id: 'review',
+    role: 'reviewer',
+    instruction: 'Review the implementation against the request. List every problem you find and how to fix it.',
+    inputs: ['code']
+  },
+  {
+    id: 'revision',
+    role: 'coder',
+    instruction: 'Revise your implementation to address the review. Reply with the complete revised code.',
+    inputs: ['code', 'review']
+  }
+];
@@ -0,0 +1,222 @@
+import { MockProvider, MockScriptEntry } from '@backend/core/providers/mock-provider';
+import { createMemoryStorage, createTestRouter } from '@backend/test/fixtures';
+import { AgentEvent, AgentEventType, AgentRunner, FailurePolicy } from './agent-runner';
+import { TaskManager, TaskManagerOptions, TaskStatus } from './task-manager';
+
+const PLAN = { match: 'Break the following task', response: '{"steps": ["Write the add function", "Write a test for it"]}' };
+const PASS = { match: 'Check whether the output', response: '{"passed": true, "feedback": "Looks good"}' };
+const STEPS: MockScriptEntry[] = [
+  { match: /Current step \(1 of 2\)/, response: 'function add(a, b) { return a + b; }' },
+  { match: /Current step \(2 of 2\)/, response: 'expect(add(1, 2)).toBe(3);' }
+];
+
+// HTML, CSS and JS need nothing from each other; assembling the page needs all three
+const PAGE_PLAN = {
+  match: 'Break the following task',
+  response: JSON.stringify({
+    steps: [
+      { description: 'Write the HTML', dependsOn: [] },
+      { description: 'Write the CSS', dependsOn: [] },
+      { description: 'Write the JS', dependsOn: [] },
+      { description: 'Assemble the page', dependsOn: [1, 2, 3] }
+    ]
+  })
+};
+const PAGE_STEPS: MockScriptEntry[] = [
+  { match: /Current step \(1 of 4\)/, response: '<main></main>' },
+  { match: /Current step \(2 of 4\)/, response: 'main { color: red; }' },
+  { match: /Current step \(3 of 4\)/, response: 'console.log("hi");' },
+  { match: /Current step \(4 of 4\)/, response: '<html>...</html>' }
+];
+
+const createRunner = (script: MockScriptEntry[], options: TaskManagerOptions = {}, storage = createMemoryStorage()) => {
+  const provider = new MockProvider({ script, latencyMs: 5 });
+
+  const taskManager = new TaskManager({
+    maxIterations: 2,
+    enableTaskBreakdown: true,
+    enableIteration: true,
+    enableContextMemory: true,
+    ...options
+  }, storage);
+  const runner = new AgentRunner(createTestRouter({ mock: provider }), taskManager);
+  const generate = vi.spyOn(provider, 'generateResponse');
+  return { runner, generate, storage };
+};
+
+describe('AgentRunner', () => {
+  it('plans, runs each step with earlier output and retries with the verifier feedback', async () => {
+    const { runner, generate } = createRunner([
+      PLAN,
+      { match: 'Step: Write a test for it', response: '{"passed": false, "feedback": "The test never imports add"}', times: 1 },
+      PASS,
+      ...STEPS
+    ]);
+    const events: AgentEvent[] = [];
+
+    const result = await runner.run('Add two numbers', { onEvent: event => events.push(event) });
+
+    expect(result.success).toBe(true);
+    expect(result.task.completed).toBe(true);
+    expect(result.task.steps.map(step => step.attempts)).toEqual([1, 2]);
+    expect(result.task.output).toContain('function add(a, b)');
+    expect(events.map(event => event.type)).toEqual([
+      AgentEventType.RUN_STARTED,
+      AgentEventType.PLAN_CREATED,
+      AgentEventType.STEP_STARTED, AgentEventType.STEP_OUTPUT, AgentEventType.STEP_VERIFIED, AgentEventType.STEP_COMPLETED,
+      AgentEventType.STEP_STARTED, AgentEventType.STEP_OUTPUT, AgentEventType.STEP_VERIFIED, AgentEventType.STEP_RETRYING,
+      AgentEventType.STEP_OUTPUT, AgentEventType.STEP_VERIFIED, AgentEventType.STEP_COMPLETED,
+      AgentEventType.RUN_COMPLETED
+    ]);
+
+    const retryPrompt = generate.mock.calls.map(([prompt]) => prompt.content).filter(content => content.includes('Current step (2 of 2)'))[1];
+    expect(retryPrompt).toContain('Step 1: Write the add function\nfunction add(a, b)');
+    expect(retryPrompt).toContain('It was rejected because: The test never imports add');
+  });
+
+  it('stops the run when a step keeps failing verification', async () => {
+    const { runner } = createRunner([
+      PLAN,
+      { match: 'Check whether the output', response: '{"passed": false, "feedback": "Wrong operator"}' },
+      ...STEPS
+    ]);
+    const events: AgentEvent[] = [];
+    runner.addEventListener(event => events.push(event));
+
+    const result = await runner.run('Add two numbers');
+
+    expect(result.success).toBe(false);
+    expect(result.task.completed).toBe(false);
+    expect(result.failedStep).toMatchObject({ completed: false, attempts: 2, output: 'function add(a, b) { return a + b; }' });
+    expect(result.failedStep?.error).toBe('Step did not pass verification after 2 attempts: Wrong operator');
+    expect(events.slice(-2).map(event => event.type)).toEqual([AgentEventType.STEP_FAILED, AgentEventType.RUN_FAILED]);
+  });
+
+  it('runs the prompt as a single unchecked step when breakdown and iteration are off', async () => {
+    const { runner, generate } = createRunner(
+      [{ match: /Current step \(1 of 1\): Complete task/, response: 'done' }],
+      { enableTaskBreakdown: false, enableIteration: false }
+    );
+
+    const result = await runner.run('Add two numbers');
+
+    expect(result.success).toBe(true);
+    expect(result.task.output).toBe('done');
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops between requests when cancelled', async () => {
+    const { runner } = createRunner([PLAN, PASS, ...STEPS]);
+    const controller = new AbortController();
+    const events: AgentEvent[] = [];
+
+    const run = runner.run('Add two numbers', {
+      signal: controller.signal,
+      onEvent: event => {
+        events.push(event);
+        if (event.type === AgentEventType.STEP_COMPLETED) controller.abort();
+      }
+    });
+
+    await expect(run).rejects.toThrow('Agent run was cancelled');
+    expect(events.at(-1)).toMatchObject({ type: AgentEventType.RUN_FAILED, error: 'Agent run was cancelled' });
+  });
+
+  it('pauses after the current request and resumes from the last completed step after a restart', async () => {
+    const { runner, storage } = createRunner([PLAN, PASS, ...STEPS]);
+    const events: AgentEvent[] = [];
+
+    const paused = await runner.run('Add two numbers', {
+      onEvent: event => {
+        events.push(event);
+        if (event.type === AgentEventType.STEP_OUTPUT) runner.pause(event.taskId);
+      }
+    });
+
+    expect(paused.success).toBe(false);
+    expect(paused.task.status).toBe(TaskStatus.PAUSED);
+    expect(paused.task.steps.every(step => !step.completed)).toBe(true);
+    expect(events.at(-1)?.type).toBe(AgentEventType.RUN_PAUSED);
+
+    const restarted = createRunner([PASS, ...STEPS], {}, storage);
+    const resumed = await restarted.runner.resume(paused.task.id);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.task).toMatchObject({ status: TaskStatus.DONE, completed: true });
+    expect(restarted.generate.mock.calls.some(([prompt]) => prompt.content.includes('Break the following task'))).toBe(false);
+  });
+
+  it('retries a failed step without repeating the steps before it', async () => {
+    const { runner, generate } = createRunner([
+      PLAN,
+      { match: 'Step: Write a test for it', response: '{"passed": false, "feedback": "Wrong operator"}', times: 2 },
+      PASS,
+      ...STEPS
+    ]);
+
+    const failed = await runner.run('Add two numbers');
+    expect(failed.task).toMatchObject({ status: TaskStatus.FAILED, error: 'Step did not pass verification after 2 attempts: Wrong operator' });
+
+    generate.mockClear();
+    const retried = await runner.retryStep(failed.task.id);
+
+    expect(retried.success).toBe(true);
+    expect(retried.task.status).toBe(TaskStatus.DONE);
+    expect(generate.mock.calls.some(([prompt]) => prompt.content.includes('Current step (1 of 2)'))).toBe(false);
+  });
+
+  it('cancels a run for good', async () => {
+    const { runner } = createRunner([PLAN, PASS, ...STEPS]);
+
+    const result = await runner.run('Add two numbers', {
+      onEvent: event => {
+        if (event.type === AgentEventType.PLAN_CREATED) runner.cancel(event.taskId);
+      }
+    });
+
+    expect(result.task.status).toBe(TaskStatus.CANCELLED);
+    await expect(runner.resume(result.task.id)).rejects.toThrow('cannot go from cancelled to running');
+  });
+
+  it('runs independent steps concurrently and gives each step the output of the steps it depends on', async () => {
+    const { runner, generate } = createRunner([PAGE_PLAN, ...PAGE_STEPS], { enableIteration: false });
+    const events: AgentEvent[] = [];
+
+    const result = await runner.run('Build a page', { concurrency: 2, onEvent: event => events.push(event) });
+
+    expect(result.success).toBe(true);
+    expect(events.find(event => event.type === AgentEventType.PLAN_CREATED)?.dependsOn).toEqual([[], [], [], [0, 1, 2]]);
+
+    const order = events
+      .filter(event => event.type === AgentEventType.STEP_STARTED || event.type === AgentEventType.STEP_COMPLETED)
+      .map(event => `${event.type === AgentEventType.STEP_STARTED ? 'start' : 'done'} ${event.stepIndex! + 1}`);
+    expect(order.slice(0, 3)).toEqual(['start 1', 'start 2', 'done 1']);
+    expect(order.indexOf('start 4')).toBeGreaterThan(order.indexOf('done 3'));
+
+    const prompts = generate.mock.calls.map(([prompt]) => prompt.content);
+    const assemble = prompts.find(content => content.includes('Current step (4 of 4)'))!;
+    expect(assemble).toContain('Step 1: Write the HTML\n<main></main>');
+    expect(assemble).toContain('Step 3: Write the JS\nconsole.log("hi");');
+    expect(prompts.find(content => content.includes('Current step (2 of 4)'))).not.toContain('Completed steps');
+  });
+
+  it('finishes the independent steps after a failure when the policy is continue', async () => {
+    const { runner } = createRunner([
+      PAGE_PLAN,
+      { match: 'Step: Write the HTML', response: '{"passed": false, "feedback": "No doctype"}' },
+      PASS,
+      ...PAGE_STEPS
+    ]);
+    const events: AgentEvent[] = [];
+
+    const result = await runner.run('Build a page', { failurePolicy: FailurePolicy.CONTINUE, onEvent: event => events.push(event) });
+
+    expect(result.success).toBe(false);
+    expect(result.task.status).toBe(TaskStatus.FAILED);
+    expect(result.failedSteps?.map(step => step.description)).toEqual(['Write the HTML']);
+    expect(result.task.steps.map(step => step.completed)).toEqual([false, true, true, false]);
+    expect(events.filter(event => event.type === AgentEventType.STEP_SKIPPED)).toEqual([
+      expect.objectContaining({ stepIndex: 3, error: 'Depends on step 1, which failed' })
+    ]);
+  });
+});
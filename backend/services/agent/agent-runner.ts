@@ -0,0 +1,518 @@
+/**
+ * Agent Runner
+ * Drives TaskManager tasks: asks the model to plan a prompt as a graph of steps, runs each step
+ * once the steps it depends on are done, and checks every output against its step
+ */
+
+import { JsonSchema, ToolCall, ToolResult } from '@shared/interfaces/ai-provider';
+import type { ModelRouter } from '@backend/core/model-router';
+import type { ToolCallingOptions } from '@backend/core/tool-calling';
+import { Logger } from '../logging/logger';
+import { errorHandler, TaskError } from '../error/error-handler';
+import { StepPlan, StepVerification, Task, TaskManager, TaskStatus, TaskStep } from './task-manager';
+
+/**
+ * The part of the model router the runner needs
+ */
+export type AgentModel = Pick<ModelRouter, 'sendMessage' | 'sendStructured' | 'sendWithTools'>;
+
+export enum AgentEventType {
+  RUN_STARTED = 'run_started',
+  RUN_RESUMED = 'run_resumed',
+  PLAN_CREATED = 'plan_created',
+  STEP_STARTED = 'step_started',
+  TOOL_CALLED = 'tool_called',
+  STEP_OUTPUT = 'step_output',
+  STEP_VERIFIED = 'step_verified',
+  STEP_RETRYING = 'step_retrying',
+  STEP_COMPLETED = 'step_completed',
+  STEP_FAILED = 'step_failed',
+  STEP_SKIPPED = 'step_skipped',
+  RUN_COMPLETED = 'run_completed',
+  RUN_PAUSED = 'run_paused',
+  RUN_CANCELLED = 'run_cancelled',
+  RUN_FAILED = 'run_failed'
+}
+
+export interface AgentEvent {
+  type: AgentEventType;
+  taskId: string;
+  timestamp: number;
+  stepId?: string;
+  stepIndex?: number;
+  attempt?: number;
+  steps?: string[];                 // The plan, on PLAN_CREATED
+  dependsOn?: number[][];           // Indexes of the steps each planned step needs, on PLAN_CREATED
+  output?: string;
+  verification?: StepVerification;
+  toolCall?: ToolCall;              // On TOOL_CALLED, with its result
+  toolResult?: ToolResult;
+  error?: string;
+}
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+/**
+ * What happens to the rest of a task when a step fails
+ */
+export enum FailurePolicy {
+  FAIL_FAST = 'fail_fast',          // Abandon steps in flight and start no more
+  CONTINUE = 'continue'             // Finish every step that doesn't depend on the failed one
+}
+
+export interface AgentRunOptions {
+  provider?: string;                // Recorded on the task; the model router picks the actual provider
+  signal?: AbortSignal;             // Cancels the run, including an in-flight request
+  onEvent?: AgentEventListener;     // Receives this run's events in addition to the registered listeners
+  tools?: ToolCallingOptions;       // Lets steps call tool plugins
+  concurrency?: number;             // Independent steps run at once; the task manager's maxConcurrency by default
+  failurePolicy?: FailurePolicy;    // FAIL_FAST by default
+}
+
+export interface AgentRunResult {
+  task: Task;
+  success: boolean;
+  failedStep?: TaskStep;            // The first step that failed
+  failedSteps?: TaskStep[];
+}
+
+const DEFAULT_MAX_ITERATIONS = 3;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_PLAN_STEPS = 8;
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        anyOf: [
+          { type: 'string', minLength: 1 },
+          {
+            type: 'object',
+            properties: {
+              description: { type: 'string', minLength: 1 },
+              dependsOn: { type: 'array', items: { type: 'integer', minimum: 1 } }
+            },
+            required: ['description', 'dependsOn']
+          }
+        ]
+      },
+      minItems: 1,
+      maxItems: MAX_PLAN_STEPS
+    }
+  },
+  required: ['steps']
+};
+
+const VERIFICATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    passed: { type: 'boolean' },
+    feedback: { type: 'string' }
+  },
+  required: ['passed', 'feedback']
+};
+
+/**
+ * Runs tasks end to end: plan, execute, verify
+ */
+export class AgentRunner {
+  private model: AgentModel;
+  private taskManager: TaskManager;
+  private listeners: AgentEventListener[] = [];
+  // Aborts the in-flight request of each task this runner is executing
+  private controllers: Map<string, AbortController> = new Map();
+  private logger: Logger;
+
+  constructor(model: AgentModel, taskManager: TaskManager = new TaskManager()) {
+    this.model = model;
+    this.taskManager = taskManager;
+    this.logger = new Logger('AgentRunner');
+  }
+
+  /**
+   * Get the task manager holding the runner's tasks
+   */
+  getTaskManager(): TaskManager {
+    return this.taskManager;
+  }
+
+  /**
+   * Register a listener for progress events from every run
+   */
+  addEventListener(listener: AgentEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove a progress listener
+   */
+  removeEventListener(listener: AgentEventListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  /**
+   * Plan and run a prompt.
+   * Each step is retried with the verifier's feedback up to `maxIterations` times when
+   * iteration is enabled; a step that still fails fails the task.
+   * @param prompt The user's prompt
+   * @param options Run options
+   * @returns The task and whether every step passed
+   * @throws TaskError when the run is cancelled through its signal; provider errors are passed through
+   */
+  async run(prompt: string, options: AgentRunOptions = {}): Promise<AgentRunResult> {
+    const task = this.taskManager.createTask(prompt, options.provider ?? 'default');
+    return this.execute(task, options, false);
+  }
+
+  /**
+   * Continue a pending or paused task, such as one interrupted by a restart, from its first
+   * incomplete step. A task interrupted before it was planned is planned first.
+   * @param taskId The task ID
+   * @param options Run options
+   */
+  async resume(taskId: string, options: AgentRunOptions = {}): Promise<AgentRunResult> {
+    const task = this.taskManager.getTask(taskId);
+    if (!task) {
+      throw errorHandler.handleError(new TaskError(`Task ${taskId} not found`), { taskId });
+    }
+    return this.execute(task, options, true);
+  }
+
+  /**
+   * Run a failed or paused task's unfinished steps again from scratch, then carry on
+   * @param taskId The task ID
+   * @param options Run options
+   */
+  async retryStep(taskId: string, options: AgentRunOptions = {}): Promise<AgentRunResult> {
+    this.taskManager.retryStep(taskId);
+    return this.resume(taskId, options);
+  }
+
+  /**
+   * Pause a task. A request in flight is abandoned; the run resolves once it stops.
+   * @param taskId The task ID
+   */
+  pause(taskId: string): Task {
+    const task = this.taskManager.pauseTask(taskId);
+    this.controllers.get(taskId)?.abort();
+    return task;
+  }
+
+  /**
+   * Cancel a task for good. A request in flight is abandoned; the run resolves once it stops.
+   * @param taskId The task ID
+   */
+  cancel(taskId: string): Task {
+    const task = this.taskManager.cancelTask(taskId);
+    this.controllers.get(taskId)?.abort();
+    return task;
+  }
+
+  /**
+   * Drive a task from its current state to done, failed, paused or cancelled
+   */
+  private async execute(task: Task, options: AgentRunOptions, resumed: boolean): Promise<AgentRunResult> {
+    const emit = (event: Omit<AgentEvent, 'taskId' | 'timestamp'>) =>
+      this.emit({ ...event, taskId: task.id, timestamp: Date.now() }, options.onEvent);
+
+    this.taskManager.startTask(task.id);
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    this.controllers.set(task.id, controller);
+
+    emit({ type: resumed ? AgentEventType.RUN_RESUMED : AgentEventType.RUN_STARTED });
+
+    try {
+      if (task.steps.length === 0) {
+        const steps = await this.plan(task, options, controller.signal);
+        this.taskManager.breakdownTask(task.id, steps);
+        emit({
+          type: AgentEventType.PLAN_CREATED,
+          steps: task.steps.map(step => step.description),
+          dependsOn: task.steps.map(step => (step.dependsOn || []).map(id => task.steps.findIndex(s => s.id === id)))
+        });
+      }
+
+      const failedSteps = await this.runSteps(task, options, controller, emit);
+
+      if (failedSteps.length > 0) {
+        const [failedStep] = failedSteps;
+        this.taskManager.failTask(task.id, failedStep.error ?? 'Step failed');
+        emit({ type: AgentEventType.RUN_FAILED, stepId: failedStep.id, stepIndex: task.steps.indexOf(failedStep), error: failedStep.error });
+        return { task, success: false, failedStep, failedSteps };
+      }
+
+      emit({ type: AgentEventType.RUN_COMPLETED, output: task.output });
+      return { task, success: true };
+    } catch (error) {
+      // Paused or cancelled through the runner: whatever was in flight was abandoned on purpose
+      if (task.status === TaskStatus.PAUSED || task.status === TaskStatus.CANCELLED) {
+        emit({ type: task.status === TaskStatus.PAUSED ? AgentEventType.RUN_PAUSED : AgentEventType.RUN_CANCELLED });
+        return { task, success: false };
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (options.signal?.aborted) {
+        this.taskManager.cancelTask(task.id);
+      } else {
+        this.taskManager.failTask(task.id, message);
+      }
+      emit({ type: AgentEventType.RUN_FAILED, error: message });
+      this.logger.error(`Agent run failed for task ${task.id}`, { error, taskId: task.id });
+      throw errorHandler.handleError(error as Error, { taskId: task.id });
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+      this.controllers.delete(task.id);
+    }
+  }
+
+  /**
+   * Run every step whose dependencies are met, up to the concurrency limit at a time, until
+   * none are left.
+   * @returns The steps that failed
+   * @throws The first error from a step, once every step in flight has stopped, when the task
+   * is stopped or the failure policy is fail-fast
+   */
+  private async runSteps(
+    task: Task,
+    options: AgentRunOptions,
+    controller: AbortController,
+    emit: (event: Omit<AgentEvent, 'taskId' | 'timestamp'>) => void
+  ): Promise<TaskStep[]> {
+    const concurrency = Math.max(1, options.concurrency ?? this.taskManager.getOptions().maxConcurrency ?? DEFAULT_CONCURRENCY);
+    const failurePolicy = options.failurePolicy ?? FailurePolicy.FAIL_FAST;
+    const running = new Map<string, Promise<void>>();
+    const failedSteps: TaskStep[] = [];
+    let stopError: unknown;
+    let stopping = false;
+
+    const stop = (error?: unknown) => {
+      stopError ??= error;
+      stopping = true;
+      controller.abort();
+    };
+
+    const runOne = async (step: TaskStep): Promise<void> => {
+      const stepIndex = task.steps.indexOf(step);
+      try {
+        if (!await this.runStep(task, step, stepIndex, emit, options, controller.signal)) {
+          failedSteps.push(step);
+          if (failurePolicy === FailurePolicy.FAIL_FAST) stop();
+          return;
+        }
+
+        this.checkStopped(task, options.signal);
+        this.taskManager.addContext(task.id, `Step ${stepIndex + 1}: ${step.description}\n${step.output ?? ''}`);
+        this.taskManager.completeStep(task.id, step.id, step.output ?? '');
+        emit({ type: AgentEventType.STEP_COMPLETED, stepId: step.id, stepIndex, output: step.output });
+      } catch (error) {
+        if (task.status !== TaskStatus.RUNNING || options.signal?.aborted) {
+          stop(error);
+        } else if (stopping) {
+          // Abandoned because another step failed first
+        } else if (failurePolicy === FailurePolicy.FAIL_FAST) {
+          stop(error);
+        } else {
+          const message = error instanceof Error ? error.message : String(error);
+          this.taskManager.failStep(task.id, step.id, message);
+          emit({ type: AgentEventType.STEP_FAILED, stepId: step.id, stepIndex, error: message });
+          failedSteps.push(step);
+        }
+      }
+    };
+
+    for (;;) {
+      if (!stopping) {
+        for (const step of this.taskManager.getReadySteps(task.id)) {
+          if (running.size >= concurrency) break;
+          if (!running.has(step.id)) {
+            running.set(step.id, runOne(step).finally(() => running.delete(step.id)));
+          }
+        }
+      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    if (stopError !== undefined) {
+      throw stopError;
+    }
+
+    if (failurePolicy === FailurePolicy.CONTINUE) {
+      for (const step of task.steps.filter(s => !s.completed && !s.error)) {
+        const failed = this.taskManager.getUpstreamSteps(task.id, step.id).find(upstream => upstream.error);
+        emit({
+          type: AgentEventType.STEP_SKIPPED,
+          stepId: step.id,
+          stepIndex: task.steps.indexOf(step),
+          error: `Depends on step ${task.steps.indexOf(failed!) + 1}, which failed`
+        });
+      }
+    }
+
+    return failedSteps;
+  }
+
+  /**
+   * Ask the model to break a prompt into steps, and which earlier steps each one needs
+   */
+  private async plan(task: Task, options: AgentRunOptions, signal: AbortSignal): Promise<Array<string | StepPlan>> {
+    if (!this.taskManager.getOptions().enableTaskBreakdown) {
+      return [task.prompt];
+    }
+
+    this.checkStopped(task, options.signal);
+    const response = await this.model.sendStructured<{ steps: Array<string | { description: string; dependsOn: number[] }> }>(
+      [
+        'Break the following task into a short, ordered list of concrete steps.',
+        'Each step should produce part of the final result.',
+        'For each step, list in "dependsOn" the numbers of the earlier steps whose output it needs, starting from 1. ' +
+          'Steps that need nothing from each other can run at the same time.',
+        `Task: ${task.prompt}`
+      ].join('\n\n'),
+      { schema: PLAN_SCHEMA, name: 'plan' },
+      { signal }
+    );
+
+    // Plain descriptions build on the step before them
+    return response.structured!.steps.map(step => typeof step === 'string'
+      ? step
+      : { description: step.description, dependsOn: step.dependsOn.map(number => number - 1) });
+  }
+
+  /**
+   * Run a step until its output passes verification or the iterations run out
+   * @returns True if the step passed
+   */
+  private async runStep(
+    task: Task,
+    step: TaskStep,
+    stepIndex: number,
+    emit: (event: Omit<AgentEvent, 'taskId' | 'timestamp'>) => void,
+    runOptions: AgentRunOptions,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const { tools } = runOptions;
+    const options = this.taskManager.getOptions();
+    const maxIterations = options.enableIteration
+      ? Math.max(1, options.maxIterations ?? DEFAULT_MAX_ITERATIONS)
+      : 1;
+
+    emit({ type: AgentEventType.STEP_STARTED, stepId: step.id, stepIndex });
+
+    for (let attempt = 1; attempt <= maxIterations; attempt++) {
+      this.checkStopped(task, runOptions.signal);
+      this.taskManager.updateStep(task.id, step.id, { attempts: attempt });
+
+      const prompt = this.buildStepPrompt(task, step, stepIndex);
+      const response = tools
+        ? await this.model.sendWithTools(prompt, {
+            ...tools,
+            onToolResult: (toolCall, toolResult, depth) => {
+              tools.onToolResult?.(toolCall, toolResult, depth);
+              emit({ type: AgentEventType.TOOL_CALLED, stepId: step.id, stepIndex, attempt, toolCall, toolResult });
+            }
+          }, { signal })
+        : await this.model.sendMessage(prompt, { signal });
+      this.taskManager.updateStep(task.id, step.id, { output: response.content });
+      emit({ type: AgentEventType.STEP_OUTPUT, stepId: step.id, stepIndex, attempt, output: response.content });
+
+      // Without iteration there is nothing to do with a failed check, so skip it
+      if (!options.enableIteration) {
+        return true;
+      }
+
+      this.checkStopped(task, runOptions.signal);
+      this.taskManager.updateStep(task.id, step.id, { verification: await this.verify(task, step, signal) });
+      emit({ type: AgentEventType.STEP_VERIFIED, stepId: step.id, stepIndex, attempt, verification: step.verification });
+
+      if (step.verification.passed) {
+        return true;
+      }
+      if (attempt < maxIterations) {
+        emit({ type: AgentEventType.STEP_RETRYING, stepId: step.id, stepIndex, attempt: attempt + 1 });
+      }
+    }
+
+    const error = `Step did not pass verification after ${maxIterations} attempts: ${step.verification?.feedback}`;
+    this.taskManager.failStep(task.id, step.id, error, step.output);
+    emit({ type: AgentEventType.STEP_FAILED, stepId: step.id, stepIndex, error });
+    return false;
+  }
+
+  /**
+   * Build the prompt for one attempt at a step, including the output of the steps it depends
+   * on and, on retries, what was wrong with the last attempt
+   */
+  private buildStepPrompt(task: Task, step: TaskStep, stepIndex: number): string {
+    const sections = [`Overall task: ${task.prompt}`];
+
+    if (this.taskManager.getOptions().enableContextMemory) {
+      const upstream = this.taskManager.getUpstreamSteps(task.id, step.id)
+        .map(s => `Step ${task.steps.indexOf(s) + 1}: ${s.description}\n${s.output ?? ''}`);
+      if (upstream.length > 0) {
+        sections.push(`Completed steps:\n\n${upstream.join('\n\n')}`);
+      }
+    }
+
+    sections.push(`Current step (${stepIndex + 1} of ${task.steps.length}): ${step.description}`);
+
+    if (step.verification && !step.verification.passed) {
+      sections.push(
+        `Your previous attempt at this step was:\n${step.output}`,
+        `It was rejected because: ${step.verification.feedback}\nAddress this in your new attempt.`
+      );
+    }
+
+    sections.push('Complete only the current step.');
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Ask the model whether a step's output does what the step describes
+   */
+  private async verify(task: Task, step: TaskStep, signal: AbortSignal): Promise<StepVerification> {
+    const response = await this.model.sendStructured<StepVerification>(
+      [
+        'Check whether the output below fully and correctly completes the step.',
+        `Overall task: ${task.prompt}`,
+        `Step: ${step.description}`,
+        `Output:\n${step.output}`,
+        'Set "passed" to false if anything is missing or wrong, and explain what in "feedback".'
+      ].join('\n\n'),
+      { schema: VERIFICATION_SCHEMA, name: 'verification' },
+      { signal }
+    );
+
+    return response.structured!;
+  }
+
+  /**
+   * Stop between requests if the task was paused or cancelled, or the run's signal aborted
+   */
+  private checkStopped(task: Task, signal?: AbortSignal): void {
+    if (task.status !== TaskStatus.RUNNING) {
+      throw new TaskError(`Task ${task.id} is ${task.status}`);
+    }
+    if (signal?.aborted) {
+      throw new TaskError('Agent run was cancelled');
+    }
+  }
+
+  /**
+   * Send an event to the run's listener and every registered listener
+   */
+  private emit(event: AgentEvent, onEvent?: AgentEventListener): void {
+    for (const listener of onEvent ? [onEvent, ...this.listeners] : this.listeners) {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        this.logger.error('Error in agent event listener', { listenerError });
+      }
+    }
+  }
+}
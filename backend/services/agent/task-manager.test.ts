@@ -0,0 +1,105 @@
+import { StorageInterface } from '@shared/services/storage';
+import { createMemoryStorage } from '@backend/test/fixtures';
+import { TaskError } from '../error/error-handler';
+import { TaskManager, TaskStatus } from './task-manager';
+
+describe('TaskManager', () => {
+  let storage: StorageInterface;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+  });
+
+  it('persists tasks and pauses those that were running when it stopped', () => {
+    const manager = new TaskManager({}, storage);
+    const task = manager.createTask('Add two numbers', 'mock');
+    manager.breakdownTask(task.id, ['Write the add function', 'Write a test for it']);
+    manager.startTask(task.id);
+    manager.completeStep(task.id, task.steps[0].id, 'function add(a, b) { return a + b; }');
+    manager.updateStep(task.id, task.steps[1].id, { attempts: 1, output: 'half a test' });
+
+    const restarted = new TaskManager({}, storage);
+    const restored = restarted.getTask(task.id)!;
+
+    expect(restored.status).toBe(TaskStatus.PAUSED);
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.steps.map(step => step.completed)).toEqual([true, false]);
+    expect(restored.steps[1]).toMatchObject({ attempts: 1, output: 'half a test' });
+    expect(restarted.getCurrentStep(task.id)?.description).toBe('Write a test for it');
+    expect(restarted.getResumableTasks().map(resumable => resumable.id)).toEqual([task.id]);
+  });
+
+  it('only allows the transitions of the status state machine', () => {
+    const manager = new TaskManager({}, storage);
+    const task = manager.createTask('Add two numbers', 'mock');
+    manager.breakdownTask(task.id, ['Write the add function']);
+
+    manager.startTask(task.id);
+    manager.pauseTask(task.id);
+    manager.cancelTask(task.id);
+
+    expect(() => manager.startTask(task.id)).toThrow(TaskError);
+    expect(() => manager.completeStep(task.id, task.steps[0].id, 'done')).toThrow(TaskError);
+    expect(manager.getTask(task.id)).toMatchObject({ status: TaskStatus.CANCELLED, completed: false });
+    expect(manager.getResumableTasks()).toEqual([]);
+  });
+
+  it('retries the failed step and leaves completed ones alone', () => {
+    const manager = new TaskManager({}, storage);
+    const task = manager.createTask('Add two numbers', 'mock');
+    manager.breakdownTask(task.id, ['Write the add function', 'Write a test for it']);
+    manager.startTask(task.id);
+    manager.completeStep(task.id, task.steps[0].id, 'function add(a, b) { return a + b; }');
+    manager.failStep(task.id, task.steps[1].id, 'Wrong operator', 'expect(add(1, 2)).toBe(4);');
+    manager.failTask(task.id, 'Wrong operator');
+
+    expect(() => manager.retryStep(task.id, task.steps[0].id)).toThrow(TaskError);
+
+    manager.retryStep(task.id, task.steps[1].id);
+
+    expect(task).toMatchObject({ status: TaskStatus.PENDING, error: undefined, currentStep: 1 });
+    expect(task.steps[0].output).toBe('function add(a, b) { return a + b; }');
+    expect(task.steps[1]).toMatchObject({ output: undefined, error: undefined, attempts: undefined });
+    expect(new TaskManager({}, storage).getTask(task.id)?.status).toBe(TaskStatus.PENDING);
+  });
+
+  it('completes the task after its last step and forgets removed tasks', () => {
+    const manager = new TaskManager({}, storage);
+    const task = manager.createTask('Add two numbers', 'mock');
+    manager.breakdownTask(task.id, ['Write the add function']);
+    manager.startTask(task.id);
+    manager.completeStep(task.id, task.steps[0].id, 'done');
+
+    expect(task).toMatchObject({ status: TaskStatus.DONE, completed: true });
+
+    expect(manager.removeTask(task.id)).toBe(true);
+    expect(storage.keys()).toEqual([]);
+    expect(new TaskManager({}, storage).getAllTasks()).toEqual([]);
+  });
+
+  it('runs planned steps once the steps they depend on are done', () => {
+    const manager = new TaskManager({ enableTaskBreakdown: true }, storage);
+    const task = manager.createTask('Build a page', 'mock');
+
+    expect(() => manager.breakdownTask(task.id, [
+      { description: 'Write the HTML', dependsOn: [1] },
+      { description: 'Write the CSS', dependsOn: [0] }
+    ])).toThrow('Step dependencies form a cycle through step 1');
+    expect(() => manager.breakdownTask(task.id, [{ description: 'Write the HTML', dependsOn: [3] }])).toThrow(TaskError);
+
+    manager.breakdownTask(task.id, [
+      { description: 'Write the HTML' },
+      { description: 'Write the CSS' },
+      { description: 'Style the HTML', dependsOn: [0, 1] },
+      { description: 'Assemble the page', dependsOn: [2] }
+    ]);
+    const [html, css, styled, page] = task.steps;
+
+    expect(manager.getReadySteps(task.id)).toEqual([html, css]);
+    manager.completeStep(task.id, css.id, 'main {}');
+    expect(manager.getReadySteps(task.id)).toEqual([html]);
+    manager.completeStep(task.id, html.id, '<main></main>');
+    expect(manager.getReadySteps(task.id)).toEqual([styled]);
+    expect(manager.getUpstreamSteps(task.id, page.id)).toEqual([html, css, styled]);
+  });
+});
@@ -6,6 +6,32 @@
 import { Logger } from '../logging/logger';
 import { errorHandler, TaskError } from '../error/error-handler';
 import { configService } from '../config/config-service';
+import { getStorage, StorageInterface } from '@shared/services/storage';
+
+/**
+ * Task lifecycle. DONE and CANCELLED are final; a FAILED task can be retried.
+ */
+export enum TaskStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  FAILED = 'failed',
+  DONE = 'done',
+  CANCELLED = 'cancelled'
+}
+
+const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.PENDING]: [TaskStatus.RUNNING, TaskStatus.PAUSED, TaskStatus.DONE, TaskStatus.CANCELLED],
+  [TaskStatus.RUNNING]: [TaskStatus.PAUSED, TaskStatus.FAILED, TaskStatus.DONE, TaskStatus.CANCELLED],
+  [TaskStatus.PAUSED]: [TaskStatus.RUNNING, TaskStatus.PENDING, TaskStatus.CANCELLED],
+  [TaskStatus.FAILED]: [TaskStatus.PENDING, TaskStatus.CANCELLED],
+  [TaskStatus.DONE]: [],
+  [TaskStatus.CANCELLED]: []
+};
+
+// Storage keys are this prefix followed by the task ID
+const TASK_STORAGE_PREFIX = 'agent_task_';
+const TASK_FORMAT_VERSION = 1;
 
 export interface TaskStep {
   id: string;
@@ -13,6 +39,22 @@ export interface TaskStep {
   completed: boolean;
   output?: string;
   error?: string;
+  dependsOn?: string[];             // IDs of the steps whose output this step needs; the step before it when missing
+  attempts?: number;                // Times the step has been run, when iteration is enabled
+  verification?: StepVerification;  // Outcome of the last self-check
+}
+
+/**
+ * A step as planned, before it has an ID
+ */
+export interface StepPlan {
+  description: string;
+  dependsOn?: number[];             // Indexes of the steps in the plan this step needs
+}
+
+export interface StepVerification {
+  passed: boolean;
+  feedback: string;
 }
 
 export interface Task {
@@ -22,26 +64,40 @@ export interface Task {
   context: string[];
   currentStep: number;
   completed: boolean;
+  status: TaskStatus;
+  error?: string;                   // Why the task failed
   output: string;
   provider: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface StoredTask {
+  formatVersion: number;
+  task: Omit<Task, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+}
+
 export interface TaskManagerOptions {
   maxIterations?: number;
   enableTaskBreakdown?: boolean;
   enableIteration?: boolean;
   enableContextMemory?: boolean;
+  maxConcurrency?: number;          // Steps of a task that may run at once
 }
 
 export class TaskManager {
   private tasks: Map<string, Task> = new Map();
   private options: TaskManagerOptions;
+  private storage: StorageInterface;
   private logger: Logger;
 
-  constructor(options: TaskManagerOptions = {}) {
+  /**
+   * @param options Overrides for the agent options in config
+   * @param storage Where tasks are persisted; tasks already stored there are loaded
+   */
+  constructor(options: TaskManagerOptions = {}, storage: StorageInterface = getStorage()) {
     this.logger = new Logger('TaskManager');
+    this.storage = storage;
     
     // Load options from config if available
     try {
@@ -49,7 +105,8 @@ export class TaskManager {
         maxIterations: configService.get<number>('agent', 'max_iterations'),
         enableTaskBreakdown: configService.get<boolean>('agent', 'enable_task_breakdown'),
         enableIteration: configService.get<boolean>('agent', 'enable_iteration'),
-        enableContextMemory: configService.get<boolean>('agent', 'enable_context_memory')
+        enableContextMemory: configService.get<boolean>('agent', 'enable_context_memory'),
+        maxConcurrency: configService.get<number>('agent', 'max_concurrency')
       };
       
       // Merge with provided options, with provided options taking precedence
@@ -66,11 +123,13 @@ export class TaskManager {
         enableTaskBreakdown: true,
         enableIteration: true,
         enableContextMemory: true,
+        maxConcurrency: 3,
         ...options
       };
     }
     
-    this.logger.info('TaskManager initialized', { options: this.options });
+    this.load();
+    this.logger.info('TaskManager initialized', { options: this.options, tasks: this.tasks.size });
   }
 
   /**
@@ -88,6 +147,7 @@ export class TaskManager {
       context: [],
       currentStep: 0,
       completed: false,
+      status: TaskStatus.PENDING,
       output: '',
       provider,
       createdAt: new Date(),
@@ -95,6 +155,7 @@ export class TaskManager {
     };
 
     this.tasks.set(taskId, task);
+    this.save(task);
     return task;
   }
 
@@ -116,11 +177,13 @@ export class TaskManager {
   }
 
   /**
-   * Break down a task into steps
+   * Break down a task into steps. Steps given as plain descriptions each depend on the one
+   * before them; planned steps depend on exactly the steps they list, making the task a DAG.
    * @param taskId The task ID
    * @param steps The steps to break the task into
+   * @throws TaskError when a dependency is out of range or the dependencies form a cycle
    */
-  breakdownTask(taskId: string, steps: string[]): void {
+  breakdownTask(taskId: string, steps: Array<string | StepPlan>): void {
     try {
       const task = this.tasks.get(taskId);
       if (!task) {
@@ -134,16 +197,27 @@ export class TaskManager {
           description: 'Complete task',
           completed: false
         }];
+        task.currentStep = 0;
+        task.updatedAt = new Date();
+        this.save(task);
         this.logger.debug(`Created single step for task ${taskId} (task breakdown disabled)`);
         return;
       }
 
-      task.steps = steps.map(description => ({
-        id: this.generateStepId(),
-        description,
+      const plans = steps.map((step, index): StepPlan =>
+        typeof step === 'string' ? { description: step, dependsOn: index > 0 ? [index - 1] : [] } : step);
+      this.checkDependencies(plans);
+
+      const ids = plans.map(() => this.generateStepId());
+      task.steps = plans.map((plan, index) => ({
+        id: ids[index],
+        description: plan.description,
+        dependsOn: (plan.dependsOn || []).map(dependency => ids[dependency]),
         completed: false
       }));
+      task.currentStep = 0;
       task.updatedAt = new Date();
+      this.save(task);
       
       this.logger.debug(`Task ${taskId} broken down into ${steps.length} steps`, {
         taskId,
@@ -155,6 +229,43 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Get the steps that can run now: incomplete, not failed, and with every step they depend
+   * on completed
+   * @param taskId The task ID
+   */
+  getReadySteps(taskId: string): TaskStep[] {
+    const task = this.getTaskOrThrow(taskId);
+    return task.steps.filter(step =>
+      !step.completed && !step.error && this.getDependencies(task, step).every(dependency => dependency.completed));
+  }
+
+  /**
+   * Get every step a step depends on, directly or through other steps, in plan order
+   * @param taskId The task ID
+   * @param stepId The step ID
+   */
+  getUpstreamSteps(taskId: string, stepId: string): TaskStep[] {
+    const task = this.getTaskOrThrow(taskId);
+    const step = task.steps.find(s => s.id === stepId);
+    if (!step) {
+      throw errorHandler.handleError(new TaskError(`Step ${stepId} not found in task ${taskId}`), { taskId, stepId });
+    }
+
+    const upstream = new Set<TaskStep>();
+    const visit = (current: TaskStep) => {
+      for (const dependency of this.getDependencies(task, current)) {
+        if (!upstream.has(dependency)) {
+          upstream.add(dependency);
+          visit(dependency);
+        }
+      }
+    };
+    visit(step);
+
+    return task.steps.filter(s => upstream.has(s));
+  }
+
   /**
    * Add context to a task
    * @param taskId The task ID
@@ -174,6 +285,7 @@ export class TaskManager {
 
       task.context.push(context);
       task.updatedAt = new Date();
+      this.save(task);
       
       this.logger.debug(`Context added to task ${taskId}`, { taskId, contextLength: context.length });
     } catch (error) {
@@ -225,6 +337,9 @@ export class TaskManager {
       if (!step) {
         throw new TaskError(`Step ${stepId} not found in task ${taskId}`);
       }
+      if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.RUNNING) {
+        throw new TaskError(`Cannot complete a step of task ${taskId} while it is ${task.status}`);
+      }
 
       step.completed = true;
       step.output = output;
@@ -235,6 +350,7 @@ export class TaskManager {
       if (nextStepIndex === -1) {
         // All steps completed
         task.completed = true;
+        this.transition(task, TaskStatus.DONE);
         task.output = task.steps.map(s => s.output).filter(Boolean).join('\n\n');
         this.logger.info(`Task ${taskId} completed`, { taskId, outputLength: task.output.length });
       } else {
@@ -247,6 +363,7 @@ export class TaskManager {
       }
 
       task.updatedAt = new Date();
+      this.save(task);
       return task.completed;
     } catch (error) {
       this.logger.error(`Failed to complete step ${stepId} for task ${taskId}`, {
@@ -258,6 +375,162 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Record a step that could not be completed. The step stays incomplete so the task does
+   * not move on.
+   * @param taskId The task ID
+   * @param stepId The step ID
+   * @param error Why the step failed
+   * @param output The last output produced, if any
+   */
+  failStep(taskId: string, stepId: string, error: string, output?: string): void {
+    try {
+      const task = this.tasks.get(taskId);
+      if (!task) {
+        throw new TaskError(`Task ${taskId} not found`);
+      }
+
+      const step = task.steps.find(s => s.id === stepId);
+      if (!step) {
+        throw new TaskError(`Step ${stepId} not found in task ${taskId}`);
+      }
+
+      step.error = error;
+      if (output !== undefined) {
+        step.output = output;
+      }
+      task.updatedAt = new Date();
+      this.save(task);
+
+      this.logger.warn(`Step ${stepId} failed for task ${taskId}`, { taskId, stepId, error });
+    } catch (error) {
+      this.logger.error(`Failed to record failure of step ${stepId} for task ${taskId}`, {
+        error,
+        taskId,
+        stepId
+      });
+      throw errorHandler.handleError(error as Error, { taskId, stepId });
+    }
+  }
+
+  /**
+   * Record progress on a step without completing it
+   * @param taskId The task ID
+   * @param stepId The step ID
+   * @param changes The step's latest output, attempt count or verification
+   */
+  updateStep(taskId: string, stepId: string, changes: Partial<Pick<TaskStep, 'output' | 'attempts' | 'verification'>>): void {
+    try {
+      const task = this.getTaskOrThrow(taskId);
+      const step = task.steps.find(s => s.id === stepId);
+      if (!step) {
+        throw new TaskError(`Step ${stepId} not found in task ${taskId}`);
+      }
+
+      Object.assign(step, changes);
+      task.updatedAt = new Date();
+      this.save(task);
+    } catch (error) {
+      this.logger.error(`Failed to update step ${stepId} for task ${taskId}`, { error, taskId, stepId });
+      throw errorHandler.handleError(error as Error, { taskId, stepId });
+    }
+  }
+
+  /**
+   * Mark a task as running. Pending and paused tasks can be started.
+   * @param taskId The task ID
+   */
+  startTask(taskId: string): Task {
+    return this.changeStatus(taskId, TaskStatus.RUNNING);
+  }
+
+  /**
+   * Pause a task. It keeps its completed steps and resumes from the first incomplete one.
+   * @param taskId The task ID
+   */
+  pauseTask(taskId: string): Task {
+    return this.changeStatus(taskId, TaskStatus.PAUSED);
+  }
+
+  /**
+   * Cancel a task for good
+   * @param taskId The task ID
+   */
+  cancelTask(taskId: string): Task {
+    return this.changeStatus(taskId, TaskStatus.CANCELLED);
+  }
+
+  /**
+   * Mark a running task as failed
+   * @param taskId The task ID
+   * @param error Why the task failed
+   */
+  failTask(taskId: string, error: string): Task {
+    const task = this.changeStatus(taskId, TaskStatus.FAILED, failed => {
+      failed.error = error;
+    });
+    this.logger.warn(`Task ${taskId} failed`, { taskId, error });
+    return task;
+  }
+
+  /**
+   * Reset a step so it runs again, clearing its output and failure.
+   * The task goes back to pending, ready to be resumed.
+   * @param taskId The task ID
+   * @param stepId The step to retry; every step it depends on must be completed, as it builds
+   * on them. Every incomplete step is reset when omitted.
+   */
+  retryStep(taskId: string, stepId?: string): Task {
+    return this.changeStatus(taskId, TaskStatus.PENDING, task => {
+      task.error = undefined;
+
+      let steps = task.steps.filter(s => !s.completed);
+      if (stepId !== undefined) {
+        const step = task.steps.find(s => s.id === stepId);
+        if (!step) {
+          throw new TaskError(`Step ${stepId} not found in task ${taskId}`);
+        }
+        if (step.completed || !this.getDependencies(task, step).every(dependency => dependency.completed)) {
+          throw new TaskError(`Step ${stepId} of task ${taskId} is not ready to run`);
+        }
+        steps = [step];
+      }
+
+      for (const step of steps) {
+        step.output = undefined;
+        step.error = undefined;
+        step.attempts = undefined;
+        step.verification = undefined;
+      }
+    });
+  }
+
+  /**
+   * Get tasks that can be picked up again: pending and paused ones, including those that
+   * were running when the app last stopped
+   */
+  getResumableTasks(): Task[] {
+    return this.getAllTasks().filter(task => task.status === TaskStatus.PENDING || task.status === TaskStatus.PAUSED);
+  }
+
+  /**
+   * Delete a task and its stored copy
+   * @param taskId The task ID
+   * @returns True if the task existed
+   */
+  removeTask(taskId: string): boolean {
+    this.storage.removeItem(`${TASK_STORAGE_PREFIX}${taskId}`);
+    return this.tasks.delete(taskId);
+  }
+
+  /**
+   * Get the options the task manager is running with
+   * @returns A copy of the options
+   */
+  getOptions(): TaskManagerOptions {
+    return { ...this.options };
+  }
+
   /**
    * Get the current step for a task
    * @param taskId The task ID
@@ -277,6 +550,133 @@ export class TaskManager {
     }
   }
 
+  private getTaskOrThrow(taskId: string): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new TaskError(`Task ${taskId} not found`);
+    }
+    return task;
+  }
+
+  /**
+   * Move a task to a new status, applying `update` first
+   */
+  private changeStatus(taskId: string, status: TaskStatus, update?: (task: Task) => void): Task {
+    try {
+      const task = this.getTaskOrThrow(taskId);
+      this.checkTransition(task, status);
+      update?.(task);
+      this.transition(task, status);
+      task.updatedAt = new Date();
+      this.save(task);
+      return task;
+    } catch (error) {
+      this.logger.error(`Failed to move task ${taskId} to ${status}`, { error, taskId, status });
+      throw errorHandler.handleError(error as Error, { taskId, status });
+    }
+  }
+
+  /**
+   * Get the steps a step depends on directly. Tasks stored before steps had dependencies ran
+   * their steps in order, so each depends on the one before it.
+   */
+  private getDependencies(task: Task, step: TaskStep): TaskStep[] {
+    if (!step.dependsOn) {
+      const index = task.steps.indexOf(step);
+      return index > 0 ? [task.steps[index - 1]] : [];
+    }
+    return task.steps.filter(s => step.dependsOn!.includes(s.id));
+  }
+
+  /**
+   * @throws TaskError when a dependency is out of range or the dependencies form a cycle
+   */
+  private checkDependencies(plans: StepPlan[]): void {
+    plans.forEach((plan, index) => {
+      for (const dependency of plan.dependsOn || []) {
+        if (!Number.isInteger(dependency) || dependency < 0 || dependency >= plans.length || dependency === index) {
+          throw new TaskError(`Step ${index + 1} depends on step ${dependency + 1}, which is not another step in the plan`);
+        }
+      }
+    });
+
+    // Depth-first search; a step reached again while still on the path closes a cycle
+    const state = new Map<number, 'visiting' | 'done'>();
+    const visit = (index: number) => {
+      if (state.get(index) === 'done') return;
+      if (state.get(index) === 'visiting') {
+        throw new TaskError(`Step dependencies form a cycle through step ${index + 1}`);
+      }
+      state.set(index, 'visiting');
+      (plans[index].dependsOn || []).forEach(visit);
+      state.set(index, 'done');
+    };
+    plans.forEach((_, index) => visit(index));
+  }
+
+  /**
+   * @throws TaskError when the state machine doesn't allow the change
+   */
+  private checkTransition(task: Task, status: TaskStatus): void {
+    if (task.status !== status && !TASK_TRANSITIONS[task.status].includes(status)) {
+      throw new TaskError(`Task ${task.id} cannot go from ${task.status} to ${status}`);
+    }
+  }
+
+  private transition(task: Task, status: TaskStatus): void {
+    if (task.status === status) {
+      return;
+    }
+    this.checkTransition(task, status);
+
+    this.logger.debug(`Task ${task.id} ${task.status} -> ${status}`, { taskId: task.id });
+    task.status = status;
+  }
+
+  /**
+   * Load stored tasks. A task that was running when the app stopped is paused, so it can be
+   * resumed from its first incomplete step.
+   */
+  private load(): void {
+    for (const key of this.storage.keys().filter(k => k.startsWith(TASK_STORAGE_PREFIX))) {
+      try {
+        const stored = JSON.parse(this.storage.getItem(key) || 'null') as StoredTask | null;
+        if (!stored) continue;
+        if (stored.formatVersion !== TASK_FORMAT_VERSION) {
+          this.logger.warn(`Skipping stored task ${key}: unsupported format version ${stored.formatVersion}`);
+          continue;
+        }
+
+        const task: Task = {
+          ...stored.task,
+          createdAt: new Date(stored.task.createdAt),
+          updatedAt: new Date(stored.task.updatedAt)
+        };
+        if (task.status === TaskStatus.RUNNING) {
+          task.status = TaskStatus.PAUSED;
+          this.logger.info(`Task ${task.id} was interrupted and is paused`, { taskId: task.id });
+          this.save(task);
+        }
+        this.tasks.set(task.id, task);
+      } catch (error) {
+        this.logger.error(`Failed to load stored task ${key}`, { error });
+      }
+    }
+  }
+
+  private save(task: Task): void {
+    const stored: StoredTask = {
+      formatVersion: TASK_FORMAT_VERSION,
+      task: { ...task, createdAt: task.createdAt.toISOString(), updatedAt: task.updatedAt.toISOString() }
+    };
+
+    try {
+      this.storage.setItem(`${TASK_STORAGE_PREFIX}${task.id}`, JSON.stringify(stored));
+    } catch (error) {
+      this.logger.error(`Failed to save task ${task.id}`, { error, taskId: task.id });
+    }
+  }
+
   /**
    * Generate a unique task ID
    * @returns A unique task ID
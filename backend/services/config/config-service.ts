@@ -293,6 +293,12 @@ const defaultSchema: ConfigSchema = {
         sensitive: true,
         description: 'Gemini API key'
       },
+      {
+        key: 'local_base_url',
+        type: 'string',
+        required: false,
+        description: 'Base URL of a local OpenAI-compatible server (Ollama, llama.cpp, vLLM)'
+      },
       {
         key: 'default_provider',
         type: 'string',
@@ -332,6 +338,13 @@ const defaultSchema: ConfigSchema = {
         required: false,
         default: true,
         description: 'Enable context memory'
+      },
+      {
+        key: 'max_concurrency',
+        type: 'number',
+        required: false,
+        default: 3,
+        description: 'Maximum number of independent steps of an agent task that run at once'
       }
     ]
   },
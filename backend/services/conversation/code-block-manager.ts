@@ -11,6 +11,9 @@ import {
 import { StructuredResponse } from '../response-handler';
 import { getMemoryService } from '../memory/memory-service';
 import { MemoryType } from '../memory/memory-types';
+import { CodeDiff, DiffOptions, MergeOptions, MergeResult, diffCode, formatUnifiedDiff, mergeThreeWay } from './code-diff';
+import { applyPatch } from '../patch/patch-applier';
+import { ParsedPatch, PatchOptions, PatchResult } from '../patch/patch-types';
 
 // Simple internal function to generate IDs
 function generateId(): string {
@@ -75,21 +78,37 @@ export class CodeBlockManager {
   getCodeBlock(blockId: string): CodeBlockContext | undefined {
     return this.codeBlocks.get(blockId);
   }
+
+  /**
+   * Add code blocks saved elsewhere, e.g. with a conversation, keeping any already loaded
+   */
+  restoreCodeBlocks(blocks: CodeBlockContext[]): void {
+    for (const block of blocks) {
+      if (!this.codeBlocks.has(block.id)) {
+        this.codeBlocks.set(block.id, block);
+      }
+    }
+  }
   
   /**
    * Add a new version to an existing code block
+   * @param parentVersionId Version the new one derives from; the current version by default.
+   * Pass it when versions diverge, e.g. when conversation branches edit the same block.
    */
   addVersion(
     blockId: string,
     code: string,
     turnId: string,
-    changeSummary?: string
+    changeSummary?: string,
+    parentVersionId?: string
   ): CodeBlockVersion | null {
     const block = this.codeBlocks.get(blockId);
     if (!block) return null;
     
-    // Get current version as parent
-    const parentVersionId = block.currentVersionId;
+    // Get current version as parent unless told otherwise
+    if (!parentVersionId || !block.versions.some(v => v.id === parentVersionId)) {
+      parentVersionId = block.currentVersionId;
+    }
     const parentVersion = block.versions.find(v => v.id === parentVersionId);
     
     // Create new version
@@ -105,9 +124,7 @@ export class CodeBlockManager {
     
     // Compute diff if parent exists
     if (parentVersion) {
-      // Here you'd calculate a diff between parentVersion.code and code
-      // For now we're just noting there was a change
-      version.diffFromParent = `Changes from previous version`;
+      version.diffFromParent = formatUnifiedDiff(diffCode(parentVersion.code, code));
     }
     
     // Add version and update references
@@ -124,6 +141,29 @@ export class CodeBlockManager {
     return version;
   }
   
+  /**
+   * Apply a patch to a version of a code block, the current one by default.
+   * A new version is added only when every hunk applies.
+   * @returns The per-hunk result and the new version, or null if the block or version doesn't exist
+   */
+  applyPatch(
+    blockId: string,
+    patch: ParsedPatch,
+    turnId: string,
+    versionId?: string,
+    options?: PatchOptions
+  ): { result: PatchResult; version?: CodeBlockVersion } | null {
+    const block = this.codeBlocks.get(blockId);
+    const base = block?.versions.find(v => v.id === (versionId || block.currentVersionId));
+    if (!block || !base) return null;
+    
+    const result = applyPatch(base.code, patch, options);
+    if (!result.success) return { result };
+    
+    const version = this.addVersion(blockId, result.code, turnId, `Patched ${block.language} code`, base.id);
+    return { result, version: version || undefined };
+  }
+  
   /**
    * Extract code blocks from a response and track them
    */
@@ -168,68 +208,14 @@ export class CodeBlockManager {
       // Find existing block with this language
       const existingRef = refs.find(ref => ref.language === targetLanguage);
       
-      if (existingRef) {
-        // Update existing block
-        const newVersion = this.addVersion(
-          existingRef.id,
-          response.codeBlocks[targetLanguage],
-          turnId,
-          `Updated ${targetLanguage} code`
-        );
-        
-        if (newVersion) {
-          updatedRefs.push({
-            ...existingRef,
-            versionId: newVersion.id
-          });
-        }
-      } else {
-        // Create new block
-        const block = this.createCodeBlock(
-          targetLanguage, 
-          response.codeBlocks[targetLanguage],
-          turnId
-        );
-        
-        updatedRefs.push({
-          id: block.id,
-          language: targetLanguage,
-          versionId: block.currentVersionId,
-          contextualName: this.inferContextualName(targetLanguage, response.codeBlocks[targetLanguage])
-        });
-      }
+      updatedRefs.push(this.trackCode(existingRef, targetLanguage, response.codeBlocks[targetLanguage], turnId));
     } else {
       // Process all code blocks
       for (const [language, code] of Object.entries(response.codeBlocks)) {
         // Find existing block with this language
         const existingRef = refs.find(ref => ref.language === language);
         
-        if (existingRef) {
-          // Update existing block
-          const newVersion = this.addVersion(
-            existingRef.id,
-            code,
-            turnId,
-            `Updated ${language} code`
-          );
-          
-          if (newVersion) {
-            updatedRefs.push({
-              ...existingRef,
-              versionId: newVersion.id
-            });
-          }
-        } else {
-          // Create new block
-          const block = this.createCodeBlock(language, code, turnId);
-          
-          updatedRefs.push({
-            id: block.id,
-            language,
-            versionId: block.currentVersionId,
-            contextualName: this.inferContextualName(language, code)
-          });
-        }
+        updatedRefs.push(this.trackCode(existingRef, language, code, turnId));
       }
     }
     
@@ -243,6 +229,25 @@ export class CodeBlockManager {
     return updatedRefs;
   }
   
+  /**
+   * Add code as a new version of the referenced block, or as a new block when there is no
+   * reference or its block is gone
+   */
+  private trackCode(ref: CodeBlockRef | undefined, language: string, code: string, turnId: string): CodeBlockRef {
+    const version = ref && this.addVersion(ref.id, code, turnId, `Updated ${language} code`, ref.versionId);
+    if (ref && version) {
+      return { ...ref, versionId: version.id };
+    }
+
+    const block = this.createCodeBlock(language, code, turnId);
+    return {
+      id: block.id,
+      language,
+      versionId: block.currentVersionId,
+      contextualName: this.inferContextualName(language, code)
+    };
+  }
+
   /**
    * Get current code content for all code blocks in refs
    */
@@ -314,6 +319,72 @@ export class CodeBlockManager {
     return [...block.versions].sort((a, b) => a.createdAt - b.createdAt);
   }
   
+  /**
+   * Diff two versions of a code block
+   * @returns The diff, or null if the block or either version doesn't exist
+   */
+  diffVersions(blockId: string, fromVersionId: string, toVersionId: string, options?: DiffOptions): CodeDiff | null {
+    const from = this.getCodeBlockVersion(blockId, fromVersionId);
+    const to = this.getCodeBlockVersion(blockId, toVersionId);
+    if (!from || !to) return null;
+    
+    return diffCode(from.code, to.code, options);
+  }
+  
+  /**
+   * Find the newest version both versions derive from
+   */
+  findCommonAncestor(blockId: string, versionIdA: string, versionIdB: string): CodeBlockVersion | null {
+    const block = this.codeBlocks.get(blockId);
+    if (!block) return null;
+    
+    const lineage = (versionId: string): string[] => {
+      const ids: string[] = [];
+      let version = block.versions.find(v => v.id === versionId);
+      while (version && !ids.includes(version.id)) {
+        ids.push(version.id);
+        version = block.versions.find(v => v.id === version!.parentVersionId);
+      }
+      return ids;
+    };
+    
+    const ancestorsOfA = new Set(lineage(versionIdA));
+    const commonId = lineage(versionIdB).find(id => ancestorsOfA.has(id));
+    return commonId ? block.versions.find(v => v.id === commonId) || null : null;
+  }
+  
+  /**
+   * Three-way merge two versions of a code block against their common ancestor.
+   * A clean merge is added as a new version derived from `oursVersionId`; with conflicts no
+   * version is added, and the caller resolves them and adds the result with `addVersion`.
+   * @returns The merge, or null if the block or either version doesn't exist
+   */
+  mergeVersions(
+    blockId: string,
+    oursVersionId: string,
+    theirsVersionId: string,
+    turnId: string,
+    options?: MergeOptions
+  ): { result: MergeResult; version?: CodeBlockVersion } | null {
+    const ours = this.getCodeBlockVersion(blockId, oursVersionId);
+    const theirs = this.getCodeBlockVersion(blockId, theirsVersionId);
+    if (!ours || !theirs) return null;
+    
+    const ancestor = this.findCommonAncestor(blockId, oursVersionId, theirsVersionId);
+    const result = mergeThreeWay(ancestor?.code ?? '', ours.code, theirs.code, options);
+    if (!result.clean) return { result };
+    
+    // Nothing to record when one side already contains the other
+    if (result.merged === ours.code && ancestor?.id === theirsVersionId) return { result, version: ours };
+    if (result.merged === theirs.code && ancestor?.id === oursVersionId) return { result, version: theirs };
+    
+    const version = this.addVersion(blockId, result.merged, turnId, 'Merged versions', oursVersionId);
+    if (version) {
+      version.mergedFromVersionIds = [oursVersionId, theirsVersionId];
+    }
+    return { result, version: version || undefined };
+  }
+  
   /**
    * Try to infer a contextual name for a code block
    */
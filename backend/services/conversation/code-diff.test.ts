@@ -0,0 +1,83 @@
+import { applyHunks, diffCode, formatUnifiedDiff, mergeThreeWay, resolveMerge } from './code-diff';
+import { CodeBlockManager } from './code-block-manager';
+
+const lines = (...rows: string[]) => rows.join('\n');
+
+const original = lines(
+  'function login(user) {',
+  '  const token = sign(user.id);',
+  '  return token;',
+  '}',
+  '',
+  '',
+  '',
+  '',
+  '',
+  'function logout() {',
+  '  clear();',
+  '}'
+);
+
+describe('code diff', () => {
+  it('groups changes into hunks with token-level segments and enclosing declarations', () => {
+    const updated = original
+      .replace('sign(user.id)', 'sign(user.id, secret)')
+      .replace('  clear();', '  clear();\n  redirect();');
+
+    const diff = diffCode(original, updated, { context: 1 });
+
+    expect(diff).toMatchObject({ additions: 2, deletions: 1 });
+    expect(diff.hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([[1, 3, 1, 3], [11, 2, 11, 3]]);
+    expect(diff.hunks[1].header).toBe('function logout() {');
+
+    const added = diff.hunks[0].lines.find(line => line.type === 'added')!;
+    expect(added.segments!.filter(segment => segment.type === 'added').map(segment => segment.value).join('')).toBe(', secret');
+    expect(formatUnifiedDiff(diff)).toContain('@@ -11,2 +11,3 @@ function logout() {\n   clear();\n+  redirect();');
+  });
+
+  it('applies only the accepted hunks', () => {
+    const updated = original.replace('return token;', 'return { token };').replace('clear();', 'clearSession();');
+    const diff = diffCode(original, updated, { context: 1 });
+
+    expect(applyHunks(original, diff, () => true)).toBe(updated);
+    expect(applyHunks(original, diff, () => false)).toBe(original);
+    expect(applyHunks(original, diff, hunk => hunk.id === 'hunk-2')).toBe(original.replace('clear();', 'clearSession();'));
+  });
+});
+
+describe('three-way merge', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e', 'f');
+
+  it('combines changes made to different regions', () => {
+    const result = mergeThreeWay(base, lines('A', 'b', 'c', 'd', 'e', 'f'), lines('a', 'b', 'c', 'd', 'e', 'F', 'g'));
+
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(lines('A', 'b', 'c', 'd', 'e', 'F', 'g'));
+  });
+
+  it('surfaces conflicting changes and resolves them per conflict', () => {
+    const result = mergeThreeWay(base, lines('a', 'b', 'ours', 'd', 'e', 'f'), lines('a', 'b', 'theirs', 'd', 'e', 'f'), {
+      oursLabel: 'main',
+      theirsLabel: 'experiment'
+    });
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([{ baseStart: 3, base: ['c'], ours: ['ours'], theirs: ['theirs'] }]);
+    expect(result.merged).toBe(lines('a', 'b', '<<<<<<< main', 'ours', '||||||| base', 'c', '=======', 'theirs', '>>>>>>> experiment', 'd', 'e', 'f'));
+    expect(resolveMerge(result, () => 'both')).toBe(lines('a', 'b', 'ours', 'theirs', 'd', 'e', 'f'));
+  });
+
+  it('merges versions of a code block from their common ancestor', () => {
+    const manager = new CodeBlockManager();
+    const block = manager.createCodeBlock('typescript', base, 'turn-1');
+    const rootId = block.currentVersionId;
+    const left = manager.addVersion(block.id, base.replace('a', 'A'), 'turn-2', undefined, rootId)!;
+    const right = manager.addVersion(block.id, base.replace('f', 'F'), 'turn-3', undefined, rootId)!;
+
+    expect(manager.findCommonAncestor(block.id, left.id, right.id)?.id).toBe(rootId);
+
+    const merge = manager.mergeVersions(block.id, left.id, right.id, 'turn-4')!;
+    expect(merge.result.clean).toBe(true);
+    expect(merge.version).toMatchObject({ code: lines('A', 'b', 'c', 'd', 'e', 'F'), parentVersionId: left.id, mergedFromVersionIds: [left.id, right.id] });
+  });
+});
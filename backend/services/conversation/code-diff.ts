@@ -0,0 +1,397 @@
+/**
+ * Code Diff
+ * Line diffs grouped into hunks, with token-level detail for changed lines, and three-way
+ * merges of code versions against their common ancestor
+ */
+
+import { diffArrays } from 'diff';
+
+/**
+ * A piece of a changed line; `equal` pieces are shared by the removed and added line
+ */
+export interface DiffSegment {
+  value: string;
+  type: 'equal' | 'added' | 'removed';
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  oldLine?: number;               // 1-based line in the original, for context and removed lines
+  newLine?: number;               // 1-based line in the update, for context and added lines
+  segments?: DiffSegment[];       // Token-level changes, when the line replaces a similar line
+}
+
+export interface DiffHunk {
+  id: string;
+  oldStart: number;               // 1-based first original line the hunk covers
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header?: string;                // Enclosing declaration, e.g. "function login(user) {"
+  lines: DiffLine[];
+}
+
+export interface CodeDiff {
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffOptions {
+  context?: number;               // Unchanged lines around each change; 3 by default
+  tokenLevel?: boolean;           // Compute segments for changed lines; true by default
+}
+
+export interface MergeConflict {
+  baseStart: number;              // 1-based first ancestor line of the conflicting region
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export type MergeChunk =
+  | { type: 'resolved'; lines: string[] }
+  | ({ type: 'conflict' } & MergeConflict);
+
+export interface MergeResult {
+  clean: boolean;
+  merged: string;                 // Merged code, with conflict markers around each conflict
+  chunks: MergeChunk[];
+  conflicts: MergeConflict[];
+}
+
+export interface MergeOptions {
+  oursLabel?: string;
+  theirsLabel?: string;
+}
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both' | 'base';
+
+// Strings and line comments stay whole so a change inside them doesn't split into noise
+const TOKEN_PATTERN = /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`|\/\/.*|[A-Za-z_$][\w$]*|\d[\w.]*|\s+|===|!==|=>|==|!=|<=|>=|&&|\|\||\?\?|\.\.\.|[^\s\w]/g;
+
+const DECLARATION_PATTERNS = [
+  /^\s*(export\s+)?(default\s+)?(abstract\s+)?(async\s+)?(function|class|interface|enum|type|def|fn|func|impl|struct|trait)\b/,
+  /^\s*(export\s+)?(const|let|var)\s+[\w$]+\s*=\s*(async\s+)?(function\b|\([^)]*\)\s*(:\s*[^=]+)?=>|[\w$]+\s*=>)/,
+  /^\s*(public|private|protected|static|async)\s+[\w$<>[\], ]*\(/
+];
+
+/**
+ * Split code into lines. A trailing newline yields a final empty line, so joining with
+ * '\n' always restores the original text.
+ */
+function splitLines(code: string): string[] {
+  return code.split('\n');
+}
+
+/**
+ * Split a line into code tokens: identifiers, numbers, strings, comments, operators and whitespace
+ */
+export function tokenizeCode(line: string): string[] {
+  return line.match(TOKEN_PATTERN) || [];
+}
+
+function diffTokens(removed: string, added: string): { removed: DiffSegment[]; added: DiffSegment[] } {
+  const segments = { removed: [] as DiffSegment[], added: [] as DiffSegment[] };
+
+  for (const change of diffArrays(tokenizeCode(removed), tokenizeCode(added))) {
+    const value = change.value.join('');
+    if (change.added) {
+      segments.added.push({ value, type: 'added' });
+    } else if (change.removed) {
+      segments.removed.push({ value, type: 'removed' });
+    } else {
+      segments.removed.push({ value, type: 'equal' });
+      segments.added.push({ value, type: 'equal' });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Pair the removed and added lines of each change and mark which tokens differ
+ */
+function addTokenSegments(lines: DiffLine[]): void {
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type !== 'removed') {
+      index++;
+      continue;
+    }
+
+    const removedStart = index;
+    while (index < lines.length && lines[index].type === 'removed') index++;
+    const addedStart = index;
+    while (index < lines.length && lines[index].type === 'added') index++;
+
+    const pairs = Math.min(addedStart - removedStart, index - addedStart);
+    for (let offset = 0; offset < pairs; offset++) {
+      const removed = lines[removedStart + offset];
+      const added = lines[addedStart + offset];
+      const segments = diffTokens(removed.content, added.content);
+      removed.segments = segments.removed;
+      added.segments = segments.added;
+    }
+  }
+}
+
+/**
+ * Find the declaration enclosing a line, searching upwards from it
+ */
+function findEnclosingDeclaration(lines: string[], before: number): string | undefined {
+  for (let index = before - 1; index >= 0; index--) {
+    if (DECLARATION_PATTERNS.some(pattern => pattern.test(lines[index]))) {
+      return lines[index].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Diff two versions of code. Changes are grouped into hunks with surrounding context, and
+ * each replaced line carries the tokens that changed.
+ */
+export function diffCode(original: string, updated: string, options: DiffOptions = {}): CodeDiff {
+  const context = options.context ?? 3;
+  const oldLines = splitLines(original);
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (const change of diffArrays(oldLines, splitLines(updated))) {
+    for (const content of change.value) {
+      if (change.added) {
+        lines.push({ type: 'added', content, newLine: newLine++ });
+      } else if (change.removed) {
+        lines.push({ type: 'removed', content, oldLine: oldLine++ });
+      } else {
+        lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+      }
+    }
+  }
+
+  if (options.tokenLevel !== false) {
+    addTokenSegments(lines);
+  }
+
+  // Group changes whose context would overlap into one hunk
+  const changed = lines.flatMap((line, index) => line.type === 'context' ? [] : [index]);
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  const hunks = ranges.map(([first, last], number): DiffHunk => {
+    const hunkLines = lines.slice(Math.max(0, first - context), Math.min(lines.length, last + context + 1));
+    const oldBefore = lines.slice(0, Math.max(0, first - context)).filter(line => line.type !== 'added').length;
+    const newBefore = lines.slice(0, Math.max(0, first - context)).filter(line => line.type !== 'removed').length;
+
+    return {
+      id: `hunk-${number + 1}`,
+      oldStart: oldBefore + 1,
+      oldLines: hunkLines.filter(line => line.type !== 'added').length,
+      newStart: newBefore + 1,
+      newLines: hunkLines.filter(line => line.type !== 'removed').length,
+      header: findEnclosingDeclaration(oldLines, oldBefore + 1),
+      lines: hunkLines
+    };
+  });
+
+  return {
+    hunks,
+    additions: lines.filter(line => line.type === 'added').length,
+    deletions: lines.filter(line => line.type === 'removed').length
+  };
+}
+
+/**
+ * Rebuild code from a diff, applying only the hunks `accept` returns true for
+ * @param original The original code the diff was computed from
+ */
+export function applyHunks(original: string, diff: CodeDiff, accept: (hunk: DiffHunk) => boolean): string {
+  const oldLines = splitLines(original);
+  const result: string[] = [];
+  let position = 0;
+
+  for (const hunk of diff.hunks) {
+    const start = hunk.oldStart - 1;
+    result.push(...oldLines.slice(position, start));
+
+    const keep = accept(hunk) ? 'removed' : 'added';
+    result.push(...hunk.lines.filter(line => line.type !== keep).map(line => line.content));
+    position = start + hunk.oldLines;
+  }
+
+  result.push(...oldLines.slice(position));
+  return result.join('\n');
+}
+
+/**
+ * Render a diff in unified diff format
+ */
+export function formatUnifiedDiff(diff: CodeDiff): string {
+  const prefixes = { context: ' ', added: '+', removed: '-' };
+
+  return diff.hunks.map(hunk => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${hunk.header ? ` ${hunk.header}` : ''}`,
+    ...hunk.lines.map(line => `${prefixes[line.type]}${line.content}`)
+  ].join('\n')).join('\n');
+}
+
+/**
+ * A replacement of ancestor lines [baseStart, baseEnd) by `lines`
+ */
+interface LineEdit {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+  side: 'ours' | 'theirs';
+}
+
+function editsFrom(base: string[], version: string[], side: LineEdit['side']): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let position = 0;
+  let open: LineEdit | undefined;
+
+  for (const change of diffArrays(base, version)) {
+    if (!change.added && !change.removed) {
+      open = undefined;
+      position += change.value.length;
+      continue;
+    }
+
+    if (!open) {
+      open = { baseStart: position, baseEnd: position, lines: [], side };
+      edits.push(open);
+    }
+    if (change.removed) {
+      position += change.value.length;
+      open.baseEnd = position;
+    } else {
+      open.lines.push(...change.value);
+    }
+  }
+
+  return edits;
+}
+
+function applyEdits(base: string[], edits: LineEdit[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const edit of edits) {
+    lines.push(...base.slice(position, edit.baseStart), ...edit.lines);
+    position = edit.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+function conflictMarkers(conflict: MergeConflict, options: MergeOptions): string[] {
+  return [
+    `<<<<<<< ${options.oursLabel || 'ours'}`,
+    ...conflict.ours,
+    '||||||| base',
+    ...conflict.base,
+    '=======',
+    ...conflict.theirs,
+    `>>>>>>> ${options.theirsLabel || 'theirs'}`
+  ];
+}
+
+/**
+ * Merge two versions of code that both derive from `base`. Changes made on one side only are
+ * taken; overlapping or adjacent changes that differ become conflicts, marked in `merged` in
+ * diff3 style.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, options: MergeOptions = {}): MergeResult {
+  const baseLines = splitLines(base);
+  const edits = [...editsFrom(baseLines, splitLines(ours), 'ours'), ...editsFrom(baseLines, splitLines(theirs), 'theirs')]
+    .sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const chunks: MergeChunk[] = [];
+  const resolved = (lines: string[]) => {
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'resolved') {
+      last.lines.push(...lines);
+    } else if (lines.length > 0) {
+      chunks.push({ type: 'resolved', lines: [...lines] });
+    }
+  };
+
+  let position = 0;
+  let index = 0;
+  while (index < edits.length) {
+    const group = [edits[index++]];
+    const start = group[0].baseStart;
+    let end = group[0].baseEnd;
+    while (index < edits.length && edits[index].baseStart <= end) {
+      end = Math.max(end, edits[index].baseEnd);
+      group.push(edits[index++]);
+    }
+
+    resolved(baseLines.slice(position, start));
+    position = end;
+
+    const oursEdits = group.filter(edit => edit.side === 'ours');
+    const theirsEdits = group.filter(edit => edit.side === 'theirs');
+    const oursLines = applyEdits(baseLines, oursEdits, start, end);
+    const theirsLines = applyEdits(baseLines, theirsEdits, start, end);
+
+    if (theirsEdits.length === 0 || oursLines.join('\n') === theirsLines.join('\n')) {
+      resolved(oursLines);
+    } else if (oursEdits.length === 0) {
+      resolved(theirsLines);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        baseStart: start + 1,
+        base: baseLines.slice(start, end),
+        ours: oursLines,
+        theirs: theirsLines
+      });
+    }
+  }
+  resolved(baseLines.slice(position));
+
+  const conflicts = chunks.filter((chunk): chunk is MergeChunk & { type: 'conflict' } => chunk.type === 'conflict')
+    .map(({ baseStart, base, ours, theirs }) => ({ baseStart, base, ours, theirs }));
+
+  return {
+    clean: conflicts.length === 0,
+    merged: chunks.flatMap(chunk => chunk.type === 'resolved' ? chunk.lines : conflictMarkers(chunk, options)).join('\n'),
+    chunks,
+    conflicts
+  };
+}
+
+/**
+ * Produce the final code of a merge by choosing a side for each conflict
+ */
+export function resolveMerge(
+  result: MergeResult,
+  choose: (conflict: MergeConflict, index: number) => ConflictResolution
+): string {
+  let conflictIndex = 0;
+
+  return result.chunks.flatMap(chunk => {
+    if (chunk.type === 'resolved') return chunk.lines;
+
+    switch (choose(chunk, conflictIndex++)) {
+      case 'ours':
+        return chunk.ours;
+      case 'theirs':
+        return chunk.theirs;
+      case 'both':
+        return [...chunk.ours, ...chunk.theirs];
+      case 'base':
+        return chunk.base;
+    }
+  }).join('\n');
+}
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageInterface } from '@shared/services/storage';
+import { createMemoryStorage } from '@backend/test/fixtures';
+import { CodeBlockManager } from './code-block-manager';
+import { ConversationManager } from './conversation-manager';
+import { FileMemoryProvider } from '../memory/file-memory-provider';
+import { StructuredResponse } from '../response-handler';
+
+const response = (explanation: string, code?: string): StructuredResponse => ({
+  codeBlocks: code ? { typescript: code } : {},
+  explanation,
+  meta: {
+    provider: 'mock',
+    model: 'mock-model',
+    cost: 0,
+    tokens: { input: 0, output: 0, total: 0 },
+    timestamp: Date.now(),
+    duration: 0
+  }
+});
+
+describe('ConversationManager', () => {
+  let directory: string;
+  let memory: FileMemoryProvider;
+  let storage: StorageInterface;
+  let codeBlocks: CodeBlockManager;
+
+  const createManager = () => new ConversationManager({ storage, codeBlocks, memoryService: memory });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'conversation-manager-'));
+    memory = new FileMemoryProvider({ persistencePath: directory, dimensions: 64 });
+    storage = createMemoryStorage();
+    codeBlocks = new CodeBlockManager();
+  });
+
+  afterEach(async () => {
+    await memory.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists turns and branches and reloads them', async () => {
+    const manager = createManager();
+    const first = await manager.addTurn({ content: 'Write a login form' }, response('Here is a form', 'const form = 1;'), 'mock', 'mock-model');
+    const second = await manager.addTurn({ content: 'Add validation' }, response('Validated', 'const form = 2;'), 'mock', 'mock-model');
+
+    expect(second.parentTurnId).toBe(first.id);
+    expect(second.codeBlockRefs[0].id).toBe(first.codeBlockRefs[0].id);
+    expect(second.memoryIds).toHaveLength(1);
+
+    const reloaded = createManager();
+    expect(reloaded.getActiveBranchTurns().map(turn => turn.id)).toEqual([first.id, second.id]);
+    expect(reloaded.getActiveBranch()).toMatchObject({ name: 'main', rootTurnId: first.id, active: true });
+  });
+
+  it('keeps tracking code blocks after a reload', async () => {
+    const first = await createManager().addTurn({ content: 'Write a login form' }, response('Here is a form', 'const form = 1;'), 'mock', 'mock-model');
+
+    codeBlocks = new CodeBlockManager();
+    const reloaded = createManager();
+    const second = await reloaded.addTurn({ content: 'Add validation' }, response('Validated', 'const form = 2;'), 'mock', 'mock-model');
+
+    expect(second.codeBlockRefs).toHaveLength(1);
+    expect(second.codeBlockRefs[0].id).toBe(first.codeBlockRefs[0].id);
+    expect(codeBlocks.getVersionHistory(first.codeBlockRefs[0].id).map(version => version.code)).toEqual(['const form = 1;', 'const form = 2;']);
+    expect((await reloaded.retrieveContext()).codeBlocks.map(block => block.id)).toEqual([first.codeBlockRefs[0].id]);
+  });
+
+  it('starts a new code block when the referenced one is gone', async () => {
+    await createManager().addTurn({ content: 'Write a login form' }, response('Here is a form', 'const form = 1;'), 'mock', 'mock-model');
+    storage.setItem('conversation_default', JSON.stringify({ ...JSON.parse(storage.getItem('conversation_default')!), codeBlocks: [] }));
+
+    codeBlocks = new CodeBlockManager();
+    const second = await createManager().addTurn({ content: 'Add validation' }, response('Validated', 'const form = 2;'), 'mock', 'mock-model');
+
+    expect(codeBlocks.getCodeContent(second.codeBlockRefs)).toEqual({ typescript: 'const form = 2;' });
+  });
+
+  it('forks a branch when continuing from an earlier turn and switches between branches', async () => {
+    const manager = createManager();
+    const first = await manager.addTurn({ content: 'Start' }, response('Started'), 'mock', 'mock-model');
+    const second = await manager.addTurn({ content: 'Go left' }, response('Went left'), 'mock', 'mock-model');
+    const main = manager.getActiveBranch()!;
+
+    const fork = await manager.addTurn({ content: 'Go right' }, response('Went right'), 'mock', 'mock-model', undefined, undefined, first.id);
+
+    expect(manager.getAllBranches()).toHaveLength(2);
+    expect(manager.getActiveBranchTurns().map(turn => turn.id)).toEqual([first.id, fork.id]);
+    expect(manager.getTurnDescendants(first.id).map(turn => turn.id)).toEqual([second.id, fork.id]);
+
+    expect(manager.setActiveBranch(main.id)).toBe(true);
+    const third = await manager.addTurn({ content: 'Keep going' }, response('Kept going'), 'mock', 'mock-model');
+    expect(third.parentTurnId).toBe(second.id);
+    expect(manager.getAllBranches().find(branch => branch.id === main.id)!.turns).toHaveLength(3);
+  });
+
+  it('keeps retrieved context within maxTokens, preferring the newest turns', async () => {
+    const manager = createManager();
+    for (let index = 0; index < 4; index++) {
+      await manager.addTurn({ content: `Request number ${index} with some extra words` }, response(`Reply ${index}`), 'mock', 'mock-model');
+    }
+
+    const full = await manager.retrieveContext();
+    const limited = await manager.retrieveContext({ maxTokens: Math.floor(full.totalTokenEstimate / 2) });
+
+    expect(full.referencedTurns).toHaveLength(4);
+    expect(limited.totalTokenEstimate).toBeLessThanOrEqual(Math.floor(full.totalTokenEstimate / 2));
+    expect(limited.referencedTurns.length).toBeGreaterThan(0);
+    expect(limited.conversationContext).toContain('Request number 3');
+    expect(limited.conversationContext).not.toContain('Request number 0');
+  });
+
+  it('finds related turns through the memory service', async () => {
+    const manager = createManager();
+    await manager.addTurn({ content: 'Set up the PostgreSQL connection pool' }, response('Pool configured'), 'mock', 'mock-model');
+    const styling = await manager.addTurn({ content: 'Style the navigation bar with flexbox' }, response('Styled'), 'mock', 'mock-model');
+
+    const related = await manager.findRelatedTurns('navigation bar flexbox', 1);
+
+    expect(related.map(turn => turn.id)).toEqual([styling.id]);
+  });
+});
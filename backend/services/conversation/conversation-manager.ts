@@ -0,0 +1,594 @@
+/**
+ * Conversation Manager
+ * Keeps conversation turns as a tree with named branches and persists them, tracks the code in
+ * each response with the CodeBlockManager, and indexes turns in the memory service for recall
+ */
+
+import { getStorage, StorageInterface } from '@shared/services/storage';
+import type { ConversationManager as ConversationManagerContract } from '@/core/interfaces/conversation-manager';
+import { AIPrompt } from '../providers/index';
+import { StructuredResponse } from '../response-handler';
+import { EditAction, EditTarget, describeEditAction, sessionManager, shouldRequestPatch } from '../session-manager';
+import { SEARCH_REPLACE_INSTRUCTIONS } from '../patch/patch-parser';
+import { MemoryService, getMemoryService } from '../memory/memory-service';
+import { MemoryEntry, MemoryType } from '../memory/memory-types';
+import { Bm25Index } from '../memory/hybrid-search';
+import { ValidationError } from '../error/error-handler';
+import { Logger } from '../logging/logger';
+import { tokenEstimatorRegistry } from '../tokenization/token-estimator-registry';
+import { CodeBlockManager, codeBlockManager } from './code-block-manager';
+import { MergeResult } from './code-diff';
+import {
+  CodeBlockContext,
+  CodeBlockRef,
+  CodeBlockVersion,
+  ContextBundle,
+  ContextRetrievalOptions,
+  ConversationBranch,
+  ConversationTurn
+} from './conversation-types';
+
+// Simple internal function to generate IDs
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+export const CONVERSATION_TURNS_COLLECTION = 'conversation-turns';
+const CONVERSATION_FORMAT_VERSION = 1;
+
+/**
+ * A branch as stored: a name for the path from the first turn to `headTurnId`
+ */
+interface BranchRecord {
+  id: string;
+  name: string;
+  rootTurnId: string;             // Turn the branch forked from, or the first turn for the main branch
+  headTurnId: string;             // Newest turn on the branch
+  createdAt: number;
+  description?: string;
+}
+
+interface StoredConversation {
+  formatVersion: number;
+  turns: ConversationTurn[];
+  branches: BranchRecord[];
+  activeBranchId?: string;
+  codeBlocks?: CodeBlockContext[];  // The blocks the turns refer to, with their versions
+}
+
+export interface ConversationManagerOptions {
+  conversationId?: string;        // Separates conversations in storage; 'default' by default
+  sessionId?: string;             // Recorded on the memories of each turn
+  storage?: StorageInterface;
+  codeBlocks?: CodeBlockManager;
+  memoryService?: MemoryService | (() => Promise<MemoryService>);
+}
+
+/**
+ * The outcome of merging one code block that two branches both changed
+ */
+export interface BranchCodeMerge {
+  blockId: string;
+  language: string;
+  result: MergeResult;
+  version?: CodeBlockVersion;     // The merged version, when the merge was clean
+}
+
+/**
+ * Manages a branching conversation
+ */
+export class ConversationManager implements ConversationManagerContract {
+  private turns: Map<string, ConversationTurn> = new Map();
+  private children: Map<string, string[]> = new Map();
+  private branches: Map<string, BranchRecord> = new Map();
+  private activeBranchId?: string;
+  private conversationId: string;
+  private sessionId?: string;
+  private storage: StorageInterface;
+  private codeBlocks: CodeBlockManager;
+  private memoryService: MemoryService | (() => Promise<MemoryService>);
+  private logger = new Logger('ConversationManager');
+
+  constructor(options: ConversationManagerOptions = {}) {
+    this.conversationId = options.conversationId || 'default';
+    this.sessionId = options.sessionId;
+    this.storage = options.storage || getStorage();
+    this.codeBlocks = options.codeBlocks || codeBlockManager;
+    this.memoryService = options.memoryService || getMemoryService;
+    this.load();
+  }
+
+  /**
+   * Add a turn. It follows `parentTurnId`, or the head of the active branch when omitted.
+   * Continuing from a turn that is no branch's head forks a new branch, which becomes active.
+   */
+  async addTurn(
+    prompt: AIPrompt,
+    response: StructuredResponse,
+    provider: string,
+    model: string,
+    editAction?: EditAction,
+    editTarget?: EditTarget,
+    parentTurnId?: string
+  ): Promise<ConversationTurn> {
+    if (parentTurnId && !this.turns.has(parentTurnId)) {
+      throw new ValidationError(`Unknown parent turn: ${parentTurnId}`);
+    }
+
+    const parentId = parentTurnId ?? this.getActiveBranchRecord()?.headTurnId;
+    const parent = parentId ? this.turns.get(parentId) : undefined;
+    const id = generateId();
+
+    // Code in the response continues the parent's code blocks where the language matches
+    const codeBlockRefs = parent && parent.codeBlockRefs.length > 0
+      ? this.codeBlocks.updateTrackedCodeBlocks(
+          parent.codeBlockRefs,
+          response,
+          id,
+          editTarget && editTarget !== 'all' ? editTarget : undefined
+        )
+      : this.codeBlocks.extractAndTrackCodeBlocks(response, id);
+
+    const turn: ConversationTurn = {
+      id,
+      timestamp: Date.now(),
+      prompt,
+      response,
+      codeBlockRefs,
+      editAction,
+      editTarget,
+      provider,
+      model,
+      parentTurnId: parent?.id,
+      memoryIds: [],
+      metadata: { tags: [] }
+    };
+
+    this.turns.set(id, turn);
+    if (parent) {
+      this.children.set(parent.id, [...(this.children.get(parent.id) || []), id]);
+    }
+    this.advanceBranch(turn);
+
+    turn.memoryIds = await this.indexTurn(turn);
+    this.save();
+    return turn;
+  }
+
+  getTurn(turnId: string): ConversationTurn | undefined {
+    return this.turns.get(turnId);
+  }
+
+  /**
+   * Get every turn below a turn, on all branches, in breadth-first order
+   */
+  getTurnDescendants(turnId: string): ConversationTurn[] {
+    const descendants: ConversationTurn[] = [];
+    const queue = [...(this.children.get(turnId) || [])];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      descendants.push(this.turns.get(id)!);
+      queue.push(...(this.children.get(id) || []));
+    }
+    return descendants;
+  }
+
+  getActiveBranch(): ConversationBranch | undefined {
+    const record = this.getActiveBranchRecord();
+    return record ? this.toBranch(record) : undefined;
+  }
+
+  setActiveBranch(branchId: string): boolean {
+    if (!this.branches.has(branchId)) return false;
+
+    this.activeBranchId = branchId;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Fork a branch at a turn and make it active; the next turn added continues from there
+   * @returns The branch id, or null if the turn doesn't exist
+   */
+  createBranch(turnId: string, name?: string, description?: string): string | null {
+    if (!this.turns.has(turnId)) return null;
+
+    const record: BranchRecord = {
+      id: generateId(),
+      name: name || `Branch ${this.branches.size + 1}`,
+      rootTurnId: turnId,
+      headTurnId: turnId,
+      createdAt: Date.now(),
+      description
+    };
+    this.branches.set(record.id, record);
+    this.activeBranchId = record.id;
+    this.save();
+    return record.id;
+  }
+
+  /**
+   * Get all branches. Each branch's turns run from the first turn of the conversation to its head.
+   */
+  getAllBranches(): ConversationBranch[] {
+    return Array.from(this.branches.values()).map(record => this.toBranch(record));
+  }
+
+  getActiveBranchTurns(): ConversationTurn[] {
+    const record = this.getActiveBranchRecord();
+    return record ? this.getPath(record.headTurnId) : [];
+  }
+
+  /**
+   * Reconcile the code of two branches that edited the same blocks. Each block at different
+   * versions on the two heads is merged against its common ancestor; clean merges become new
+   * versions, conflicts are returned for the caller to resolve.
+   * @param targetBranchId Branch whose versions count as "ours"; the active branch by default
+   */
+  mergeBranchCode(sourceBranchId: string, targetBranchId?: string): BranchCodeMerge[] {
+    const source = this.branches.get(sourceBranchId);
+    const target = this.branches.get(targetBranchId ?? this.activeBranchId ?? '');
+    if (!source || !target) {
+      throw new ValidationError(`Unknown branch: ${source ? targetBranchId ?? this.activeBranchId : sourceBranchId}`);
+    }
+
+    const sourceRefs = new Map<string, CodeBlockRef>(
+      (this.turns.get(source.headTurnId)?.codeBlockRefs || []).map(ref => [ref.id, ref])
+    );
+    const merges: BranchCodeMerge[] = [];
+
+    for (const ours of this.turns.get(target.headTurnId)?.codeBlockRefs || []) {
+      const theirs = sourceRefs.get(ours.id);
+      if (!theirs || theirs.versionId === ours.versionId) continue;
+
+      const merge = this.codeBlocks.mergeVersions(ours.id, ours.versionId, theirs.versionId, target.headTurnId, {
+        oursLabel: target.name,
+        theirsLabel: source.name
+      });
+      if (merge) {
+        merges.push({ blockId: ours.id, language: ours.language, ...merge });
+      }
+    }
+
+    return merges;
+  }
+
+  /**
+   * Gather context for the next prompt: recent turns up to a reference turn, the code blocks
+   * they touched and, optionally, related memories. With `maxTokens`, items are added newest
+   * turn first, then code, then memories, skipping any that would push the context over budget.
+   * @param referenceTurnId Turn to gather context up to; the active branch head by default
+   */
+  async retrieveContext(options: ContextRetrievalOptions = {}, referenceTurnId?: string): Promise<ContextBundle> {
+    const headId = referenceTurnId ?? this.getActiveBranchRecord()?.headTurnId;
+    const path = headId ? this.getPath(headId) : [];
+    const recentTurns = path.slice(-(options.turnLimit ?? 5)).reverse();
+
+    const codeBlocks: CodeBlockContext[] = [];
+    if (options.includeCodeBlocks !== false) {
+      for (const ref of recentTurns.flatMap(turn => turn.codeBlockRefs)) {
+        const block = this.codeBlocks.getCodeBlock(ref.id);
+        if (block && !codeBlocks.includes(block)) codeBlocks.push(block);
+      }
+      codeBlocks.splice(options.codeBlockLimit ?? 3);
+    }
+
+    const memories = options.includeMemories
+      ? await this.searchContextMemories(options, path)
+      : [];
+
+    const selected: Pick<ContextBundle, 'referencedTurns' | 'codeBlocks' | 'memories'> = {
+      referencedTurns: [],
+      codeBlocks: [],
+      memories: []
+    };
+    const fits = () => options.maxTokens === undefined
+      || tokenEstimatorRegistry.countTokens(this.renderContext(selected)) <= options.maxTokens;
+    const tryAdd = <T>(list: T[], item: T) => {
+      list.push(item);
+      if (!fits()) list.pop();
+    };
+
+    recentTurns.forEach(turn => tryAdd(selected.referencedTurns, turn));
+    selected.referencedTurns.sort((a, b) => a.timestamp - b.timestamp);
+    codeBlocks.forEach(block => tryAdd(selected.codeBlocks, block));
+    memories.forEach(memory => tryAdd(selected.memories, memory));
+
+    const conversationContext = this.renderContext(selected);
+    return {
+      conversationContext,
+      ...selected,
+      totalTokenEstimate: tokenEstimatorRegistry.countTokens(conversationContext)
+    };
+  }
+
+  /**
+   * Build a follow-up prompt for an edit, with the conversation so far as context
+   * @param turnId Turn the follow-up continues from; the active branch head by default
+   */
+  async generateFollowUpPrompt(
+    userPrompt: string,
+    editAction: EditAction,
+    editTarget: EditTarget,
+    turnId?: string
+  ): Promise<AIPrompt> {
+    const headId = turnId ?? this.getActiveBranchRecord()?.headTurnId;
+    if (!headId || !this.turns.has(headId)) {
+      return { content: userPrompt };
+    }
+
+    const { conversationContext, codeBlocks } = await this.retrieveContext({ turnLimit: 3 }, headId);
+    const targetCode = codeBlocks
+      .filter(block => editTarget === 'all' || block.language === editTarget)
+      .map(block => block.versions.find(v => v.id === block.currentVersionId)?.code || '');
+
+    return {
+      content: `${describeEditAction(editAction, editTarget)}: ${userPrompt}`,
+      context: shouldRequestPatch(editAction, targetCode)
+        ? `${conversationContext}\n\n${SEARCH_REPLACE_INSTRUCTIONS}`
+        : conversationContext
+    };
+  }
+
+  analyzePromptIntent(prompt: string): { action: EditAction, target: EditTarget } {
+    return sessionManager.analyzePromptIntent(prompt);
+  }
+
+  async getTurnMemories(turnId: string): Promise<MemoryEntry[]> {
+    const turn = this.turns.get(turnId);
+    const memory = await this.getMemoryService();
+    if (!turn || !memory || turn.memoryIds.length === 0) return [];
+
+    try {
+      return await memory.getMemories(CONVERSATION_TURNS_COLLECTION, turn.memoryIds);
+    } catch (error) {
+      this.logger.error(`Failed to load memories for turn ${turnId}`, { error, turnId });
+      return [];
+    }
+  }
+
+  /**
+   * Find the turns most related to some text through the memory service, falling back to
+   * keyword matching over the turns when the memory service is unavailable
+   */
+  async findRelatedTurns(content: string, limit: number = 5): Promise<ConversationTurn[]> {
+    const memory = await this.getMemoryService();
+    if (memory) {
+      try {
+        const result = await memory.searchMemories(CONVERSATION_TURNS_COLLECTION, { query: content, maxResults: limit * 2 });
+        const related = result.entries
+          .map(entry => this.turns.get(entry.metadata.custom?.turnId))
+          .filter((turn): turn is ConversationTurn => !!turn);
+        return Array.from(new Set(related)).slice(0, limit);
+      } catch (error) {
+        this.logger.error('Failed to search related turns', { error });
+      }
+    }
+
+    const scores = new Bm25Index(
+      Array.from(this.turns.values()).map(turn => ({ id: turn.id, text: this.describeTurn(turn) }))
+    ).score(content);
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id]) => this.turns.get(id)!);
+  }
+
+  /**
+   * Reload the conversation from storage, replacing what is in memory
+   * @returns Whether a stored conversation was found
+   */
+  load(): boolean {
+    const data = this.storage.getItem(this.getStorageKey());
+    if (!data) return false;
+
+    try {
+      const stored = JSON.parse(data) as StoredConversation;
+      if (stored.formatVersion !== CONVERSATION_FORMAT_VERSION) {
+        this.logger.warn(`Skipping conversation ${this.conversationId}: unsupported format version`, {
+          conversationId: this.conversationId,
+          formatVersion: stored.formatVersion
+        });
+        return false;
+      }
+
+      this.turns = new Map(stored.turns.map(turn => [turn.id, turn]));
+      this.children = new Map();
+      for (const turn of stored.turns) {
+        if (turn.parentTurnId) {
+          this.children.set(turn.parentTurnId, [...(this.children.get(turn.parentTurnId) || []), turn.id]);
+        }
+      }
+      this.branches = new Map(stored.branches.map(branch => [branch.id, branch]));
+      this.activeBranchId = stored.activeBranchId;
+      this.codeBlocks.restoreCodeBlocks(stored.codeBlocks || []);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error loading conversation ${this.conversationId}`, { error, conversationId: this.conversationId });
+      return false;
+    }
+  }
+
+  private save(): void {
+    const stored: StoredConversation = {
+      formatVersion: CONVERSATION_FORMAT_VERSION,
+      turns: Array.from(this.turns.values()),
+      branches: Array.from(this.branches.values()),
+      activeBranchId: this.activeBranchId,
+      codeBlocks: this.getReferencedCodeBlocks()
+    };
+
+    try {
+      this.storage.setItem(this.getStorageKey(), JSON.stringify(stored));
+    } catch (error) {
+      this.logger.error(`Error saving conversation ${this.conversationId}`, { error, conversationId: this.conversationId });
+    }
+  }
+
+  private getReferencedCodeBlocks(): CodeBlockContext[] {
+    const ids = new Set(Array.from(this.turns.values()).flatMap(turn => turn.codeBlockRefs.map(ref => ref.id)));
+    return Array.from(ids)
+      .map(id => this.codeBlocks.getCodeBlock(id))
+      .filter((block): block is CodeBlockContext => !!block);
+  }
+
+  private getStorageKey(): string {
+    return `conversation_${this.conversationId}`;
+  }
+
+  private getActiveBranchRecord(): BranchRecord | undefined {
+    return this.activeBranchId ? this.branches.get(this.activeBranchId) : undefined;
+  }
+
+  /**
+   * Move the branch the new turn continues onto it, forking a new branch if none ends at its parent
+   */
+  private advanceBranch(turn: ConversationTurn): void {
+    const active = this.getActiveBranchRecord();
+    const continued = active && active.headTurnId === turn.parentTurnId
+      ? active
+      : Array.from(this.branches.values()).find(branch => branch.headTurnId === turn.parentTurnId);
+
+    if (continued && turn.parentTurnId) {
+      continued.headTurnId = turn.id;
+      this.activeBranchId = continued.id;
+      return;
+    }
+
+    const record: BranchRecord = {
+      id: generateId(),
+      name: this.branches.size === 0 ? 'main' : `Branch ${this.branches.size + 1}`,
+      rootTurnId: turn.parentTurnId ?? turn.id,
+      headTurnId: turn.id,
+      createdAt: turn.timestamp
+    };
+    this.branches.set(record.id, record);
+    this.activeBranchId = record.id;
+  }
+
+  private toBranch(record: BranchRecord): ConversationBranch {
+    return {
+      id: record.id,
+      name: record.name,
+      rootTurnId: record.rootTurnId,
+      createdAt: record.createdAt,
+      active: record.id === this.activeBranchId,
+      description: record.description,
+      turns: this.getPath(record.headTurnId)
+    };
+  }
+
+  /**
+   * Turns from the first turn of the conversation down to a turn
+   */
+  private getPath(turnId: string): ConversationTurn[] {
+    const path: ConversationTurn[] = [];
+    let turn = this.turns.get(turnId);
+    while (turn) {
+      path.unshift(turn);
+      turn = turn.parentTurnId ? this.turns.get(turn.parentTurnId) : undefined;
+    }
+    return path;
+  }
+
+  private describeTurn(turn: ConversationTurn): string {
+    const languages = Object.keys(turn.response.codeBlocks || {});
+    return [
+      `User: ${turn.prompt.content}`,
+      `Assistant: ${turn.response.explanation || ''}${languages.length > 0 ? ` [code: ${languages.join(', ')}]` : ''}`
+    ].join('\n');
+  }
+
+  private renderContext(selected: Pick<ContextBundle, 'referencedTurns' | 'codeBlocks' | 'memories'>): string {
+    const sections: string[] = [];
+
+    if (selected.referencedTurns.length > 0) {
+      sections.push(`Conversation so far:\n\n${selected.referencedTurns.map(turn => this.describeTurn(turn)).join('\n\n')}`);
+    }
+
+    for (const block of selected.codeBlocks) {
+      const version = block.versions.find(v => v.id === block.currentVersionId);
+      if (version) {
+        sections.push(`Current ${block.filename || block.language} code:\n\`\`\`${block.language}\n${version.code}\n\`\`\``);
+      }
+    }
+
+    if (selected.memories.length > 0) {
+      sections.push(`Related memories:\n${selected.memories.map(memory => `- ${memory.content}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Search turn and code memories, leaving out memories of turns already in the path
+   */
+  private async searchContextMemories(options: ContextRetrievalOptions, path: ConversationTurn[]): Promise<MemoryEntry[]> {
+    const query = options.semanticSearchQuery ?? path[path.length - 1]?.prompt.content;
+    const memory = await this.getMemoryService();
+    if (!query || !memory) return [];
+
+    const inPath = new Set(path.flatMap(turn => turn.memoryIds));
+    const found: Array<{ entry: MemoryEntry; score: number }> = [];
+    for (const collection of [CONVERSATION_TURNS_COLLECTION, 'code-blocks']) {
+      try {
+        const result = await memory.searchMemories(collection, {
+          query,
+          maxResults: 5,
+          ...(options.similarityThreshold !== undefined && { threshold: options.similarityThreshold }),
+          ...(options.memoryTypes && { types: options.memoryTypes })
+        });
+        result.entries.forEach((entry, index) => {
+          found.push({ entry, score: result.scores?.[index]?.score ?? 0 });
+        });
+      } catch (error) {
+        this.logger.error(`Failed to search ${collection} for context`, { error, collection });
+      }
+    }
+
+    return found
+      .filter(({ entry }) => !inPath.has(entry.id))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Store a turn in the memory service so it can be recalled by content
+   * @returns The ids of the stored memories; empty when the memory service is unavailable
+   */
+  private async indexTurn(turn: ConversationTurn): Promise<string[]> {
+    const memory = await this.getMemoryService();
+    if (!memory) return [];
+
+    try {
+      const entry = await memory.addMemory(CONVERSATION_TURNS_COLLECTION, this.describeTurn(turn), {
+        type: MemoryType.CHAT,
+        source: 'conversation-manager',
+        sessionId: this.sessionId,
+        tags: [turn.provider],
+        custom: {
+          turnId: turn.id,
+          conversationId: this.conversationId,
+          branchId: this.activeBranchId
+        }
+      });
+      return [entry.id];
+    } catch (error) {
+      this.logger.error(`Failed to store turn ${turn.id} in memory`, { error, turnId: turn.id });
+      return [];
+    }
+  }
+
+  private async getMemoryService(): Promise<MemoryService | undefined> {
+    try {
+      return typeof this.memoryService === 'function' ? await this.memoryService() : this.memoryService;
+    } catch (error) {
+      this.logger.error('Memory service unavailable', { error });
+      return undefined;
+    }
+  }
+}
+
+// Create singleton instance
+export const conversationManager = new ConversationManager();
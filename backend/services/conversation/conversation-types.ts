@@ -74,6 +74,7 @@ export interface CodeBlockVersion {
   turnId: string; // Conversation turn that generated this version
   changeSummary?: string; // Brief description of what changed
   diffFromParent?: string; // Optional stored diff from parent version
+  mergedFromVersionIds?: string[]; // Versions combined by a three-way merge
 }
 
 /**
@@ -151,6 +151,7 @@ export interface AgentConfig {
   // Basic identification
   id?: string;
   name?: string;
+  role?: string;           // ID of the agent role in a multi-agent pipeline
   version: string;
   
   // Model details
@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { ChromaMemoryProvider } from './chroma-memory-provider';
+import { parseSnapshot } from './memory-snapshot';
+import { MemoryType } from './memory-types';
+
+const metadata = { type: MemoryType.CHAT, source: 'user', tags: [] as string[] };
+
+describe('ChromaMemoryProvider', () => {
+  let provider: ChromaMemoryProvider;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    provider = new ChromaMemoryProvider({ dimensions: 32 });
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+    vi.restoreAllMocks();
+  });
+
+  it('pages metadata searches with a cursor, newest first', async () => {
+    await provider.addMemories('notes', Array.from({ length: 5 }, (_, i) => ({ content: `Note ${i}`, metadata })));
+
+    const first = await provider.searchMemories('notes', { maxResults: 3 });
+    const second = await provider.searchMemories('notes', { maxResults: 3, cursor: first.nextCursor });
+
+    expect(first.entries.map(entry => entry.content)).toEqual(['Note 4', 'Note 3', 'Note 2']);
+    expect(second.entries.map(entry => entry.content)).toEqual(['Note 1', 'Note 0']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('pages keyword searches with a cursor', async () => {
+    await provider.addMemories('notes', Array.from({ length: 4 }, (_, i) => ({ content: `Cache entry ${i}`, metadata })));
+
+    const first = await provider.searchMemories('notes', { query: 'cache', maxResults: 3 });
+    const second = await provider.searchMemories('notes', { query: 'cache', maxResults: 3, cursor: first.nextCursor });
+
+    expect(first.entries).toHaveLength(3);
+    expect(second.entries).toHaveLength(1);
+    expect(second.nextCursor).toBeUndefined();
+    expect(new Set([...first.entries, ...second.entries].map(entry => entry.id)).size).toBe(4);
+  });
+
+  it('exports every entry of a collection larger than one page', async () => {
+    await provider.addMemories('notes', Array.from({ length: 1205 }, (_, i) => ({ content: `Note ${i}`, metadata })));
+
+    const { entries } = parseSnapshot(await provider.exportMemories('notes'));
+
+    expect(entries).toHaveLength(1205);
+    expect(new Set(entries.map(entry => entry.id)).size).toBe(1205);
+  });
+});
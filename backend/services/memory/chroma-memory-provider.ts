@@ -11,20 +11,27 @@ import {
   MemoryMetadata, 
   MemorySearchParams, 
   MemorySearchResult,
+  SearchMode,
   CollectionOptions
 } from './memory-types';
 import { BaseMemoryService, MemoryService, MemoryProviderConfig } from './memory-service';
+import { assertEmbeddingCompatible } from './embedding-provider';
+import { decodeCursor, encodeCursor, rankHybrid, searchableText } from './hybrid-search';
 import { sessionManager } from '../session-manager';
 
 // Mock implementation of the ChromaDB client for development
 // In production, this would be replaced with real ChromaDB imports
 // import { ChromaClient, Collection } from 'chromadb';
 
+// Most entries fetched for a keyword or hybrid search
+const HYBRID_CANDIDATE_LIMIT = 1000;
+
 /**
  * Interface matching ChromaDB's expected API shape
  */
 interface ChromaCollection {
   name: string;
+  metadata?: Record<string, unknown>;
   add: (args: {
     ids: string[];
     embeddings?: number[][];
@@ -52,6 +59,7 @@ interface ChromaCollection {
     distances: number[][];
     metadatas: Record<string, any>[][];
     documents: string[][];
+    embeddings?: number[][][];
   }>;
   delete: (args: { ids?: string[]; where?: Record<string, any> }) => Promise<void>;
   update: (args: {
@@ -83,32 +91,21 @@ interface ChromaClient {
   deleteCollection: (name: string) => Promise<void>;
 }
 
-// Placeholder for text embedding function
-// In production, this would use a proper embedding model
-class BasicEmbeddingFunction {
-  private dimensions: number;
-  
-  constructor(dimensions: number = 1536) {
-    this.dimensions = dimensions;
-  }
-  
-  async generate(texts: string[]): Promise<number[][]> {
-    // Simple deterministic hash-based embedding for testing
-    // Not suitable for production use - would use a real embedding model
-    return texts.map(text => {
-      const bytes = new TextEncoder().encode(text);
-      const embedding = new Array(this.dimensions).fill(0);
-      
-      for (let i = 0; i < bytes.length; i++) {
-        const idx = i % this.dimensions;
-        embedding[idx] = (embedding[idx] + bytes[i] / 255) / 2;
-      }
-      
-      // Normalize the vector
-      const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-      return embedding.map(val => val / (magnitude || 1));
-    });
-  }
+/**
+ * Whether metadata matches a where clause: plain values must be equal, and `$in`, `$gte` and
+ * `$lte` compare as in Chroma. `$in` on a list, such as tags, matches when any item is listed.
+ */
+function matchesWhere(metadata: Record<string, unknown>, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = metadata[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+
+    const { $in, $gte, $lte } = condition as { $in?: unknown[]; $gte?: number; $lte?: number };
+    if ($in) {
+      return Array.isArray(value) ? value.some(item => $in.includes(item)) : $in.includes(value);
+    }
+    return ($gte === undefined || (value as number) >= $gte) && ($lte === undefined || (value as number) <= $lte);
+  });
 }
 
 /**
@@ -117,15 +114,10 @@ class BasicEmbeddingFunction {
 export class ChromaMemoryProvider extends BaseMemoryService {
   private client: ChromaClient | null = null;
   private collections: Map<string, ChromaCollection> = new Map();
-  private embedder: BasicEmbeddingFunction;
   private isInitialized: boolean = false;
   
   constructor(config: MemoryProviderConfig = {}) {
     super(config);
-    
-    // Use basic embedder for development
-    // In production, would use a more sophisticated embedding model
-    this.embedder = new BasicEmbeddingFunction(this.config.dimensions);
   }
   
   /**
@@ -156,6 +148,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
           
           const collection: ChromaCollection = {
             name,
+            metadata,
             add: async ({ ids, embeddings = [], metadatas = [], documents = [] }) => {
               for (let i = 0; i < ids.length; i++) {
                 const index = store.ids.indexOf(ids[i]);
@@ -181,12 +174,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
               } else if (where) {
                 filteredIndices = store.metadatas
                   .map((metadata, idx) => ({ metadata, idx }))
-                  .filter(({ metadata }) => {
-                    for (const [key, value] of Object.entries(where)) {
-                      if (metadata[key] !== value) return false;
-                    }
-                    return true;
-                  })
+                  .filter(({ metadata }) => matchesWhere(metadata, where))
                   .map(({ idx }) => idx);
               } else {
                 filteredIndices = store.ids.map((_, idx) => idx);
@@ -210,12 +198,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
               if (where) {
                 filteredIndices = store.metadatas
                   .map((metadata, idx) => ({ metadata, idx }))
-                  .filter(({ metadata }) => {
-                    for (const [key, value] of Object.entries(where)) {
-                      if (metadata[key] !== value) return false;
-                    }
-                    return true;
-                  })
+                  .filter(({ metadata }) => matchesWhere(metadata, where))
                   .map(({ idx }) => idx);
               } else {
                 filteredIndices = store.ids.map((_, idx) => idx);
@@ -247,14 +230,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
                 // Find all items that match the where clause
                 const indicesToDelete: number[] = [];
                 store.metadatas.forEach((metadata, idx) => {
-                  let matches = true;
-                  for (const [key, value] of Object.entries(where)) {
-                    if (metadata[key] !== value) {
-                      matches = false;
-                      break;
-                    }
-                  }
-                  if (matches) {
+                  if (matchesWhere(metadata, where)) {
                     indicesToDelete.push(idx);
                   }
                 });
@@ -301,7 +277,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
           return collection;
         },
         listCollections: async () => {
-          return Array.from(this.collections.entries()).map(([name]) => ({ name }));
+          return Array.from(this.collections.values()).map(({ name, metadata }) => ({ name, metadata }));
         },
         deleteCollection: async (name: string) => {
           this.collections.delete(name);
@@ -340,9 +316,21 @@ export class ChromaMemoryProvider extends BaseMemoryService {
     if (!this.client) throw new Error('ChromaMemoryProvider not initialized');
     
     try {
+      const embeddingInfo = {
+        name: options.name,
+        embeddingModel: options.embeddingModel ?? this.embedder.model,
+        embeddingDimension: options.embeddingDimension ?? this.embedder.dimensions
+      };
+      assertEmbeddingCompatible(embeddingInfo, this.embedder);
+      
+      // Record the embedding model in the collection metadata so Chroma persists it
       let collection = await this.client.createCollection({
         name: options.name,
-        metadata: options.metadata
+        metadata: {
+          ...options.metadata,
+          embeddingModel: embeddingInfo.embeddingModel,
+          embeddingDimension: embeddingInfo.embeddingDimension
+        }
       });
       
       this.collections.set(options.name, collection);
@@ -402,7 +390,9 @@ export class ChromaMemoryProvider extends BaseMemoryService {
       
       return {
         name: collection.name,
-        metadata: collection.metadata
+        metadata: collection.metadata,
+        embeddingModel: collection.metadata?.embeddingModel,
+        embeddingDimension: collection.metadata?.embeddingDimension
       };
     } catch (error) {
       console.error(`Error getting collection info for ${name}:`, error);
@@ -435,6 +425,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
       if (!chromaCollection) {
         throw new Error(`Failed to get or create collection ${collection}`);
       }
+      await this.assertCollectionCompatible(collection);
       
       // Generate embedding for the content
       const embeddings = await this.embedText(content);
@@ -521,6 +512,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
   ): Promise<MemoryEntry | null> {
     if (!this.client) await this.initialize();
     if (!this.client) throw new Error('ChromaMemoryProvider not initialized');
+    if (updates.content) await this.assertCollectionCompatible(collection);
     
     try {
       // Get the collection
@@ -604,7 +596,8 @@ export class ChromaMemoryProvider extends BaseMemoryService {
   }
   
   /**
-   * Search for memories in a collection
+   * Search for memories in a collection. Pass the returned `nextCursor` back as `cursor`
+   * to fetch the next page.
    */
   async searchMemories(
     collection: string, 
@@ -612,6 +605,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
   ): Promise<MemorySearchResult> {
     if (!this.client) await this.initialize();
     if (!this.client) throw new Error('ChromaMemoryProvider not initialized');
+    if (params.query) await this.assertCollectionCompatible(collection);
     
     try {
       // Get the collection
@@ -624,6 +618,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
       }
       
       const nResults = params.maxResults || 10;
+      const offset = decodeCursor(params.cursor);
       const threshold = params.threshold || 0.7;
       
       // Construct where clause from metadata filters
@@ -641,7 +636,14 @@ export class ChromaMemoryProvider extends BaseMemoryService {
         if (params.endDate) where.createdAt.$lte = params.endDate;
       }
       
+      // Chroma has no keyword index, so keyword and hybrid searches rank the filtered entries here
+      if (params.query && params.mode !== SearchMode.VECTOR) {
+        return await this.searchHybrid(chromaCollection, params, where);
+      }
+      
       let results;
+      // One entry past the page tells whether there is a next page
+      let hasMore = false;
       
       // Semantic search
       if (params.query) {
@@ -649,12 +651,20 @@ export class ChromaMemoryProvider extends BaseMemoryService {
           // Convert query to embedding - using let to allow reassignment in error handling
           let queryEmbedding = await this.embedText(params.query);
           
-          // Search by vector similarity
-          results = await chromaCollection.query({
+          // Search by vector similarity. Chroma queries have no offset, so earlier pages are fetched and dropped
+          const queryResults = await chromaCollection.query({
             queryEmbeddings: [queryEmbedding],
-            nResults,
+            nResults: offset + nResults + 1,
             where: Object.keys(where).length > 0 ? where : undefined
           });
+          hasMore = queryResults.ids[0].length > offset + nResults;
+          const onPage = <T>(rows: T[][]) => [rows[0].slice(offset, offset + nResults)];
+          results = {
+            ids: onPage(queryResults.ids),
+            distances: onPage(queryResults.distances),
+            metadatas: onPage(queryResults.metadatas),
+            documents: onPage(queryResults.documents)
+          };
         } catch (error) {
           console.error('Error during semantic search:', error);
           // Fallback to metadata-only search in case of embedding/query errors
@@ -667,18 +677,26 @@ export class ChromaMemoryProvider extends BaseMemoryService {
         }
       } else {
         try {
-          // Metadata-only search - using let to allow reassignment in error handling
-          let getResults = await chromaCollection.get({
+          // Metadata-only search. Chroma returns entries oldest first, so fetch every match and
+          // page through them newest first, the later-added first among equal timestamps
+          const getResults = await chromaCollection.get({
             where: Object.keys(where).length > 0 ? where : undefined,
-            limit: nResults
+            limit: await chromaCollection.count()
           });
+          const order = getResults.ids
+            .map((_, i) => i)
+            .sort((a, b) => (getResults.metadatas[b].createdAt - getResults.metadatas[a].createdAt) || b - a)
+            .slice(offset, offset + nResults + 1);
+          hasMore = order.length > nResults;
+          const onPage = <T>(rows: T[]) => order.slice(0, nResults).map(i => rows[i]);
           
           // Format to match query results
           results = {
-            ids: [getResults.ids],
-            distances: [getResults.ids.map(() => 0)], // No distance for metadata search
-            metadatas: [getResults.metadatas],
-            documents: [getResults.documents]
+            ids: [onPage(getResults.ids)],
+            distances: [onPage(getResults.ids).map(() => 0)], // No distance for metadata search
+            metadatas: [onPage(getResults.metadatas)],
+            documents: [onPage(getResults.documents)],
+            embeddings: [getResults.embeddings && onPage(getResults.embeddings)]
           };
         } catch (error) {
           console.error('Error during metadata search:', error);
@@ -689,6 +707,7 @@ export class ChromaMemoryProvider extends BaseMemoryService {
             metadatas: [[]],
             documents: [[]]
           };
+        }
       }
       
       // Convert to MemoryEntry objects
@@ -702,7 +721,8 @@ export class ChromaMemoryProvider extends BaseMemoryService {
           entries.push({
             id: results.ids[0][i],
             content: results.documents[0][i],
-            embedding: undefined, // Don't include embeddings in results for efficiency
+            // Embeddings are left out unless asked for, and only metadata searches return them
+            embedding: params.includeEmbeddings ? results.embeddings?.[0]?.[i] : undefined,
             metadata: results.metadatas[0][i] as MemoryMetadata,
             createdAt: results.metadatas[0][i].createdAt,
             updatedAt: results.metadatas[0][i].updatedAt
@@ -712,7 +732,8 @@ export class ChromaMemoryProvider extends BaseMemoryService {
       
       return {
         entries,
-        totalCount: await chromaCollection.count()
+        totalCount: await chromaCollection.count(),
+        ...(hasMore && { nextCursor: encodeCursor(offset + nResults) })
       };
     } catch (error) {
       console.error(`Error searching memories in collection ${collection}:`, error);
@@ -721,11 +742,81 @@ export class ChromaMemoryProvider extends BaseMemoryService {
   }
   
   /**
-   * Generate an embedding for text
+   * Store entries verbatim, keeping their ids and timestamps, and embed those without a vector
    */
-  async embedText(text: string): Promise<number[]> {
-    let embeddings = await this.embedder.generate([text]);
-    return embeddings[0];
+  protected async restoreMemories(collection: string, entries: MemoryEntry[]): Promise<number> {
+    if (!this.client) await this.initialize();
+    if (!this.client) throw new Error('ChromaMemoryProvider not initialized');
+    if (!(await this.getCollectionInfo(collection))) {
+      await this.createCollection({ name: collection });
+    }
+    await this.assertCollectionCompatible(collection);
+    const chromaCollection = await this.client.getCollection({ name: collection });
+
+    const missing = entries.filter(entry => !entry.embedding);
+    const embeddings = missing.length > 0 ? await this.embedder.embed(missing.map(entry => entry.content)) : [];
+    const computed = new Map(missing.map((entry, index) => [entry, embeddings[index]]));
+    const toRecords = (batch: MemoryEntry[]) => ({
+      ids: batch.map(entry => entry.id),
+      embeddings: batch.map(entry => entry.embedding ?? computed.get(entry)!),
+      documents: batch.map(entry => entry.content),
+      metadatas: batch.map(entry => ({ ...entry.metadata, createdAt: entry.createdAt, updatedAt: entry.updatedAt }))
+    });
+
+    const existing = new Set((await chromaCollection.get({ ids: entries.map(entry => entry.id) })).ids);
+    const additions = entries.filter(entry => !existing.has(entry.id));
+    const updates = entries.filter(entry => existing.has(entry.id));
+    if (additions.length > 0) await chromaCollection.add(toRecords(additions));
+    if (updates.length > 0) await chromaCollection.update(toRecords(updates));
+
+    return entries.length;
+  }
+  
+  /**
+   * Rank up to HYBRID_CANDIDATE_LIMIT filtered entries by keyword and/or vector score
+   */
+  private async searchHybrid(
+    chromaCollection: ChromaCollection,
+    params: MemorySearchParams,
+    where: Record<string, unknown>
+  ): Promise<MemorySearchResult> {
+    const candidates = await chromaCollection.get({
+      where: Object.keys(where).length > 0 ? where : undefined,
+      limit: HYBRID_CANDIDATE_LIMIT
+    });
+    const queryEmbedding = params.mode === SearchMode.KEYWORD ? undefined : await this.embedText(params.query!);
+
+    const scores = rankHybrid(
+      candidates.ids.map((id, i) => ({
+        id,
+        text: searchableText(candidates.documents[i], candidates.metadatas[i]),
+        embedding: candidates.embeddings?.[i]
+      })),
+      params.query!,
+      queryEmbedding,
+      params
+    );
+    const offset = decodeCursor(params.cursor);
+    const limit = params.maxResults || 10;
+    const page = scores.slice(offset, offset + limit);
+    const positions = new Map(candidates.ids.map((id, i) => [id, i]));
+
+    return {
+      entries: page.map(({ id }) => {
+        const i = positions.get(id)!;
+        return {
+          id,
+          content: candidates.documents[i],
+          embedding: undefined,
+          metadata: candidates.metadatas[i] as MemoryMetadata,
+          createdAt: candidates.metadatas[i].createdAt,
+          updatedAt: candidates.metadatas[i].updatedAt
+        };
+      }),
+      totalCount: scores.length,
+      ...(offset + limit < scores.length && { nextCursor: encodeCursor(offset + limit) }),
+      scores: page
+    };
   }
   
   /**
@@ -763,6 +854,16 @@ export class ChromaMemoryProvider extends BaseMemoryService {
     return this.addMemory(collection, content, metadata);
   }
   
+  /**
+   * Refuse to mix vectors from this provider's embedding model into a collection built with another
+   */
+  private async assertCollectionCompatible(collection: string): Promise<void> {
+    const info = await this.getCollectionInfo(collection);
+    if (info) {
+      assertEmbeddingCompatible(info, this.embedder);
+    }
+  }
+  
   /**
    * Get the appropriate collection name for a memory type
    */
@@ -779,4 +880,4 @@ export class ChromaMemoryProvider extends BaseMemoryService {
     
     return typeToCollection[type] || 'context';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+/**
+ * Embedding Cache
+ * Disk cache for embeddings keyed by a hash of the content, so unchanged text is never
+ * re-embedded. Requires a Node.js runtime for file access.
+ */
+
+import type { EmbeddingProvider } from './embedding-provider';
+import { loadFileSystem } from './node-file-system';
+
+/**
+ * Wraps an embedding provider with a per-model append-only cache file
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private inner: EmbeddingProvider;
+  private directory: string;
+  private cache?: Map<string, number[]>;
+  private loading?: Promise<Map<string, number[]>>;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(inner: EmbeddingProvider, directory: string) {
+    this.inner = inner;
+    this.directory = directory;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const cache = await this.load();
+    const { createHash } = await import('crypto');
+    const hash = (text: string) => createHash('sha256').update(text).digest('hex');
+    const keys = texts.map(hash);
+
+    // Embed each distinct uncached text once
+    const missing = Array.from(new Set(texts.filter((text, i) => !cache.has(keys[i]))));
+    if (missing.length > 0) {
+      const vectors = await this.inner.embed(missing);
+      const lines = missing.map((text, i) => {
+        const key = hash(text);
+        cache.set(key, vectors[i]);
+        return JSON.stringify({ key, embedding: vectors[i] });
+      });
+      const { fs } = await loadFileSystem();
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(await this.getCachePath(), lines.join('\n') + '\n');
+    }
+
+    this.misses += missing.length;
+    this.hits += texts.length - missing.length;
+    return keys.map(key => cache.get(key)!);
+  }
+
+  getStats(): { hits: number; misses: number; size: number } {
+    return { hits: this.hits, misses: this.misses, size: this.cache?.size ?? 0 };
+  }
+
+  private async getCachePath(): Promise<string> {
+    const { path } = await loadFileSystem();
+    return path.join(this.directory, `${encodeURIComponent(this.inner.model)}.jsonl`);
+  }
+
+  private load(): Promise<Map<string, number[]>> {
+    if (this.cache) return Promise.resolve(this.cache);
+    if (!this.loading) {
+      this.loading = this.readCacheFile().then(cache => (this.cache = cache));
+    }
+    return this.loading;
+  }
+
+  private async readCacheFile(): Promise<Map<string, number[]>> {
+    const cache = new Map<string, number[]>();
+    const { fs } = await loadFileSystem();
+    let data: string;
+    try {
+      data = await fs.readFile(await this.getCachePath(), 'utf8');
+    } catch {
+      return cache;
+    }
+
+    for (const line of data.split('\n')) {
+      if (!line) continue;
+      try {
+        const { key, embedding } = JSON.parse(line);
+        // Skip vectors of the wrong size, e.g. from a write cut short
+        if (Array.isArray(embedding) && embedding.length === this.inner.dimensions) {
+          cache.set(key, embedding);
+        }
+      } catch {
+        // Ignore a truncated last line
+      }
+    }
+    return cache;
+  }
+}
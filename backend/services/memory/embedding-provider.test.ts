@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockProvider } from '@backend/core/providers/mock-provider';
+import {
+  AIProviderEmbeddingProvider,
+  EmbeddingMismatchError,
+  HashingEmbeddingProvider,
+  createEmbeddingProvider
+} from './embedding-provider';
+import { CachedEmbeddingProvider } from './embedding-cache';
+import { FileMemoryProvider, cosineSimilarity } from './file-memory-provider';
+import { MemoryType } from './memory-types';
+
+describe('embedding providers', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'embeddings-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('gives texts with shared vocabulary similar hashing vectors', async () => {
+    const embedder = new HashingEmbeddingProvider(256);
+    const [query, related, unrelated] = await embedder.embed([
+      'debounce the search input',
+      'search input should debounce keystrokes',
+      'configure the database connection pool'
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    expect(embedder.model).toBe('hashing-tf-256');
+  });
+
+  it('changes the model name once IDF weights are fitted', () => {
+    const embedder = new HashingEmbeddingProvider(64);
+    embedder.fit(['the cat sat', 'the dog ran', 'a bird flew']);
+
+    expect(embedder.model).toMatch(/^hashing-tfidf-64-/);
+    expect(new HashingEmbeddingProvider(64, embedder.getIdfWeights()).model).toBe(embedder.model);
+  });
+
+  it('embeds through an AI provider and checks the dimension', async () => {
+    const provider = new MockProvider({ embeddingDimension: 32 });
+
+    const embedder = new AIProviderEmbeddingProvider(provider, { apiKey: '', model: 'embed-small' }, 32);
+    const [vector] = await embedder.embed(['hello']);
+
+    expect(embedder.model).toBe('mock:embed-small');
+    expect(vector).toHaveLength(32);
+    await expect(new AIProviderEmbeddingProvider(provider, { apiKey: '' }, 16).embed(['hello']))
+      .rejects.toBeInstanceOf(EmbeddingMismatchError);
+  });
+
+  it('serves repeated content from the disk cache', async () => {
+    const inner = new HashingEmbeddingProvider(32);
+    const embed = vi.spyOn(inner, 'embed');
+
+    const cached = new CachedEmbeddingProvider(inner, directory);
+    const [first] = await cached.embed(['hello world', 'hello world']);
+    const reopened = new CachedEmbeddingProvider(inner, directory);
+    const [second] = await reopened.embed(['hello world']);
+
+    expect(second).toEqual(first);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(reopened.getStats()).toMatchObject({ hits: 1, misses: 0 });
+  });
+
+  it('reads the embedding model from the memory provider config', () => {
+    expect(createEmbeddingProvider({ dimensions: 128 }).model).toBe('hashing-tf-128');
+    expect(createEmbeddingProvider({ embeddingModel: 'openai:text-embedding-3-small' }).model).toBe('openai:text-embedding-3-small');
+    expect(() => createEmbeddingProvider({ embeddingModel: 'claude:any' })).toThrow('does not support embeddings');
+  });
+
+  it('refuses to mix vectors from a different embedding model into a collection', async () => {
+    const metadata = { type: MemoryType.CHAT, source: 'user', tags: [] };
+    const original = new FileMemoryProvider({ persistencePath: directory, dimensions: 64 });
+    await original.addMemory('notes', 'first note', metadata);
+    await original.shutdown();
+
+    const reconfigured = new FileMemoryProvider({ persistencePath: directory, dimensions: 128 });
+
+    expect(await reconfigured.getCollectionInfo('notes')).toMatchObject({ embeddingModel: 'hashing-tf-64', embeddingDimension: 64 });
+    await expect(reconfigured.addMemory('notes', 'second note', metadata)).rejects.toBeInstanceOf(EmbeddingMismatchError);
+    await expect(reconfigured.searchMemories('notes', { query: 'note' })).rejects.toThrow("was embedded with 'hashing-tf-64'");
+    await reconfigured.shutdown();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Embedding Providers
+ * Turn text into vectors for the memory services. Every provider names the vector space it
+ * produces (`model`) so collections can refuse vectors from an incompatible one.
+ */
+
+import { AIProvider, AIProviderOptions } from '@shared/interfaces/ai-provider';
+import { providerImplementations } from '@backend/core/providers';
+import { ValidationError } from '../error/error-handler';
+import { CollectionOptions, MemoryProviderConfig } from './memory-types';
+import { CachedEmbeddingProvider } from './embedding-cache';
+
+export interface EmbeddingProvider {
+  readonly model: string;       // Identifies the vector space; vectors from different models never mix
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Thrown when vectors from one embedding model meet a collection built with another
+ */
+export class EmbeddingMismatchError extends ValidationError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, undefined, context);
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+/**
+ * Refuse to use a collection whose recorded embedding model or dimension differs from the provider's.
+ * Collections created before models were recorded are accepted.
+ */
+export function assertEmbeddingCompatible(collection: CollectionOptions, embedder: EmbeddingProvider): void {
+  if (collection.embeddingModel && collection.embeddingModel !== embedder.model) {
+    throw new EmbeddingMismatchError(
+      `Collection '${collection.name}' was embedded with '${collection.embeddingModel}', not '${embedder.model}'`,
+      { collection: collection.name, expected: collection.embeddingModel, actual: embedder.model }
+    );
+  }
+  if (collection.embeddingDimension && collection.embeddingDimension !== embedder.dimensions) {
+    throw new EmbeddingMismatchError(
+      `Collection '${collection.name}' stores ${collection.embeddingDimension}-dimensional vectors, not ${embedder.dimensions}`,
+      { collection: collection.name, expected: collection.embeddingDimension, actual: embedder.dimensions }
+    );
+  }
+}
+
+/**
+ * Embeds text with an AI provider's embedding endpoint (OpenAI, local servers, ...)
+ */
+export class AIProviderEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  private provider: AIProvider;
+  private options: AIProviderOptions;
+
+  constructor(provider: AIProvider, options: AIProviderOptions, dimensions: number) {
+    this.provider = provider;
+    this.options = options;
+    this.dimensions = dimensions;
+    this.model = `${provider.name.toLowerCase()}:${options.model || 'default'}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (const text of texts) {
+      const { embedding } = await this.provider.generateEmbedding(text, this.options);
+      if (embedding.length !== this.dimensions) {
+        throw new EmbeddingMismatchError(
+          `${this.model} returned ${embedding.length}-dimensional vectors; configured for ${this.dimensions}`,
+          { model: this.model }
+        );
+      }
+      vectors.push(embedding);
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Offline embedder using the hashing trick: words and word pairs are hashed into buckets with
+ * sublinear term frequency, optionally weighted by inverse document frequency learned with `fit`.
+ * Texts that share vocabulary get similar vectors without any model or network access.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly dimensions: number;
+  private idfWeights?: number[];
+
+  constructor(dimensions: number = 1536, idfWeights?: number[]) {
+    if (idfWeights && idfWeights.length !== dimensions) {
+      throw new ValidationError(`Expected ${dimensions} IDF weights, got ${idfWeights.length}`);
+    }
+    this.dimensions = dimensions;
+    this.idfWeights = idfWeights;
+  }
+
+  /**
+   * Model name; fitting IDF weights changes the vector space, so the weights are part of it
+   */
+  get model(): string {
+    return this.idfWeights
+      ? `hashing-tfidf-${this.dimensions}-${fnv1a(this.idfWeights.map(weight => weight.toFixed(4)).join(',')).toString(36)}`
+      : `hashing-tf-${this.dimensions}`;
+  }
+
+  /**
+   * Learn inverse document frequencies from a corpus so common terms count for less
+   */
+  fit(documents: string[]): void {
+    const documentFrequency = new Array(this.dimensions).fill(0);
+    for (const document of documents) {
+      for (const bucket of new Set(this.buckets(document))) {
+        documentFrequency[bucket]++;
+      }
+    }
+    this.idfWeights = documentFrequency.map(frequency => Math.log((1 + documents.length) / (1 + frequency)) + 1);
+  }
+
+  getIdfWeights(): number[] | undefined {
+    return this.idfWeights ? [...this.idfWeights] : undefined;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<number, number>();
+    for (const bucket of this.buckets(text)) {
+      counts.set(bucket, (counts.get(bucket) || 0) + 1);
+    }
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [bucket, count] of counts) {
+      vector[bucket] = (1 + Math.log(count)) * (this.idfWeights?.[bucket] ?? 1);
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+  }
+
+  private buckets(text: string): number[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    return features.map(feature => fnv1a(feature) % this.dimensions);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create the embedding provider described by a memory provider config.
+ * `embeddingModel` is either 'default'/'hashing' for the offline embedder, or
+ * '<provider>:<model>' (e.g. 'openai:text-embedding-3-small', 'local:nomic-embed-text')
+ * for a provider's embedding endpoint. Set `embeddingCachePath` to cache vectors on disk.
+ */
+export function createEmbeddingProvider(config: MemoryProviderConfig): EmbeddingProvider {
+  const dimensions = config.dimensions || 1536;
+  const modelSpec = config.embeddingModel || 'default';
+  let embedder: EmbeddingProvider;
+
+  if (modelSpec === 'default' || modelSpec === 'hashing') {
+    embedder = new HashingEmbeddingProvider(dimensions);
+  } else {
+    const separator = modelSpec.indexOf(':');
+    const providerName = separator === -1 ? modelSpec : modelSpec.slice(0, separator);
+    const createProvider = providerImplementations[providerName.toLowerCase()];
+    if (!createProvider) {
+      throw new ValidationError(`Unknown embedding provider: ${providerName}`);
+    }
+
+    const provider = createProvider();
+    if (!provider.supportsEmbeddings()) {
+      throw new ValidationError(`Provider '${providerName}' does not support embeddings`);
+    }
+    embedder = new AIProviderEmbeddingProvider(provider, {
+      apiKey: config.embeddingApiKey || '',
+      ...(separator !== -1 && { model: modelSpec.slice(separator + 1) }),
+      ...(config.embeddingBaseUrl && { baseUrl: config.embeddingBaseUrl })
+    }, dimensions);
+  }
+
+  return config.embeddingCachePath ? new CachedEmbeddingProvider(embedder, config.embeddingCachePath) : embedder;
+}
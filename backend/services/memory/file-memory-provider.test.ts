@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMemoryProvider, cosineSimilarity } from './file-memory-provider';
+import { createMemoryService } from './memory-service';
+import { MemoryType, SearchMode } from './memory-types';
+
+const metadata = { type: MemoryType.CHAT, source: 'user', tags: [] as string[] };
+
+describe('FileMemoryProvider', () => {
+  let directory: string;
+  let provider: FileMemoryProvider;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-memory-'));
+    provider = new FileMemoryProvider({ persistencePath: directory, dimensions: 256 });
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists collections and reloads them in a new instance', async () => {
+    const added = await provider.addMemory('notes', 'Use debounce for search input', metadata);
+    await provider.shutdown();
+
+    const reloaded = new FileMemoryProvider({ persistencePath: directory, dimensions: 256 });
+    expect(await reloaded.listCollections()).toEqual(['notes']);
+    expect(await reloaded.getMemory('notes', added.id)).toMatchObject({ content: 'Use debounce for search input' });
+    expect(readdirSync(directory)).toEqual(['notes.json']);
+  });
+
+  it('defers writing access updates until the next write or shutdown', async () => {
+    const added = await provider.addMemory('notes', 'Use debounce for search input', metadata);
+    await provider.getMemory('notes', added.id);
+    await provider.searchMemories('notes', { query: 'debounce', mode: SearchMode.KEYWORD });
+
+    const beforeShutdown = new FileMemoryProvider({ persistencePath: directory, dimensions: 256 });
+    expect((await beforeShutdown.searchMemories('notes', {})).entries[0].metadata.accessCount).toBeUndefined();
+
+    await provider.shutdown();
+    const afterShutdown = new FileMemoryProvider({ persistencePath: directory, dimensions: 256 });
+    expect((await afterShutdown.searchMemories('notes', {})).entries[0].metadata.accessCount).toBe(2);
+  });
+
+  it('ranks by cosine similarity and honours the threshold', async () => {
+    await provider.addMemories('notes', [
+      { content: 'The login form validates email addresses', metadata },
+      { content: 'Debounce the search input to reduce API calls', metadata },
+      { content: 'Search results are cached for five minutes', metadata }
+    ]);
+
+    const ranked = await provider.searchMemories('notes', { query: 'debounce search input' });
+    const filtered = await provider.searchMemories('notes', { query: 'debounce search input', threshold: 0.3 });
+
+    expect(ranked.entries[0].content).toContain('Debounce the search input');
+    expect(ranked.entries.map(entry => entry.content)).toHaveLength(3);
+    expect(filtered.entries.map(entry => entry.content)).not.toContain('The login form validates email addresses');
+    expect(ranked.entries[0].embedding).toBeUndefined();
+  });
+
+  it('filters by date and paginates with cursors', async () => {
+    const now = vi.spyOn(Date, 'now');
+    for (const n of [1, 2, 3, 4, 5]) {
+      now.mockReturnValue(1000 * n);
+      await provider.addMemory('log', `entry ${n}`, metadata);
+    }
+    now.mockRestore();
+
+    const first = await provider.searchMemories('log', { startDate: 2000, endDate: 5000, maxResults: 2 });
+    const second = await provider.searchMemories('log', { startDate: 2000, endDate: 5000, maxResults: 2, cursor: first.nextCursor });
+
+    expect(first.totalCount).toBe(4);
+    expect(first.entries.map(entry => entry.content)).toEqual(['entry 5', 'entry 4']);
+    expect(second.entries.map(entry => entry.content)).toEqual(['entry 3', 'entry 2']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('is selectable through createMemoryService', async () => {
+    const service = await createMemoryService('file', { persistencePath: directory });
+
+    expect(service).toBeInstanceOf(FileMemoryProvider);
+  });
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * File Memory Provider
+ * Implements the MemoryService interface with collections persisted as JSON files
+ * under `persistencePath`, searched by BM25 keyword scoring and brute-force cosine similarity
+ * over the vectors of the configured embedding provider.
+ * Needs no external service, but requires a Node.js runtime for file access.
+ */
+
+import {
+  MemoryEntry,
+  MemoryMetadata,
+  MemorySearchParams,
+  MemorySearchResult,
+  MemorySearchScore,
+  SearchMode,
+  CollectionOptions
+} from './memory-types';
+import { Logger } from '../logging/logger';
+import { loadFileSystem } from './node-file-system';
+import { BaseMemoryService, MemoryProviderConfig } from './memory-service';
+import { EmbeddingMismatchError, assertEmbeddingCompatible } from './embedding-provider';
+import { decodeCursor, encodeCursor, rankHybrid, searchableText } from './hybrid-search';
+
+export { cosineSimilarity } from './hybrid-search';
+
+export const FILE_MEMORY_FORMAT_VERSION = 1;
+
+// Access counts and times only feed the retention policies, so they are written at most this often
+const ACCESS_FLUSH_DELAY_MS = 5000;
+
+/**
+ * On-disk layout of one collection
+ */
+interface CollectionFile {
+  formatVersion: number;
+  options: CollectionOptions;
+  entries: MemoryEntry[];
+}
+
+interface StoredCollection {
+  options: CollectionOptions;
+  entries: Map<string, MemoryEntry>;
+}
+
+/**
+ * File-backed implementation of the Memory Service
+ */
+export class FileMemoryProvider extends BaseMemoryService {
+  private collections: Map<string, StoredCollection> = new Map();
+  private isInitialized: boolean = false;
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+  private accessFlushTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private logger = new Logger('FileMemoryProvider');
+
+  constructor(config: MemoryProviderConfig = {}) {
+    super(config);
+  }
+
+  /**
+   * Create the persistence directory and load every collection file in it
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const { fs, path } = await loadFileSystem();
+    const directory = this.config.persistencePath!;
+    await fs.mkdir(directory, { recursive: true });
+
+    for (const file of await fs.readdir(directory)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(directory, file), 'utf8')) as CollectionFile;
+        if (data.formatVersion !== FILE_MEMORY_FORMAT_VERSION) {
+          this.logger.warn(`Skipping memory collection file ${file}: unsupported format version`, { formatVersion: data.formatVersion });
+          continue;
+        }
+        this.collections.set(data.options.name, {
+          options: data.options,
+          entries: new Map(data.entries.map(entry => [entry.id, entry]))
+        });
+      } catch (error) {
+        this.logger.error(`Error loading memory collection file ${file}`, { error });
+      }
+    }
+
+    this.isInitialized = true;
+    this.logger.info(`File memory provider initialized with ${this.collections.size} collections`, { directory });
+  }
+
+  /**
+   * Write pending access updates, wait for pending writes and release the loaded collections
+   */
+  async shutdown(): Promise<void> {
+    for (const name of Array.from(this.accessFlushTimers.keys())) {
+      this.persist(name).catch(() => undefined); // Failures are logged by persist
+    }
+    await Promise.all(this.pendingWrites.values());
+    this.collections.clear();
+    this.isInitialized = false;
+  }
+
+  async createCollection(options: CollectionOptions): Promise<void> {
+    await this.ensureInitialized();
+    if (this.collections.has(options.name)) return;
+
+    const collectionOptions: CollectionOptions = {
+      ...options,
+      embeddingModel: options.embeddingModel ?? this.embedder.model,
+      embeddingDimension: options.embeddingDimension ?? this.embedder.dimensions
+    };
+    assertEmbeddingCompatible(collectionOptions, this.embedder);
+
+    this.collections.set(options.name, { options: collectionOptions, entries: new Map() });
+    await this.persist(options.name);
+  }
+
+  async deleteCollection(name: string): Promise<boolean> {
+    await this.ensureInitialized();
+    if (!this.collections.delete(name)) return false;
+
+    await this.pendingWrites.get(name);
+    const { fs } = await loadFileSystem();
+    await fs.rm(await this.getCollectionPath(name), { force: true });
+    return true;
+  }
+
+  async listCollections(): Promise<string[]> {
+    await this.ensureInitialized();
+    return Array.from(this.collections.keys());
+  }
+
+  async getCollectionInfo(name: string): Promise<CollectionOptions | null> {
+    await this.ensureInitialized();
+    return this.collections.get(name)?.options ?? null;
+  }
+
+  async addMemory(collection: string, content: string, metadata: MemoryMetadata): Promise<MemoryEntry> {
+    const stored = await this.getOrCreateCollection(collection);
+    const now = Date.now();
+
+    const entry: MemoryEntry = {
+      id: `mem_${now.toString(36)}_${Math.random().toString(36).substring(2, 7)}`,
+      content,
+      embedding: await this.embedText(content),
+      metadata: { ...metadata, tags: metadata.tags || [] },
+      createdAt: now,
+      updatedAt: now
+    };
+
+    stored.entries.set(entry.id, entry);
+    await this.persist(collection);
+    return this.withoutEmbedding(entry);
+  }
+
+  async addMemories(
+    collection: string,
+    entries: Array<{content: string, metadata: MemoryMetadata}>
+  ): Promise<MemoryEntry[]> {
+    const stored = await this.getOrCreateCollection(collection);
+    const results: MemoryEntry[] = [];
+
+    // Embed in one call and write the file once for the whole batch
+    const embeddings = await this.embedder.embed(entries.map(entry => entry.content));
+    for (const [index, { content, metadata }] of entries.entries()) {
+      const now = Date.now();
+      const entry: MemoryEntry = {
+        id: `mem_${now.toString(36)}_${Math.random().toString(36).substring(2, 7)}`,
+        content,
+        embedding: embeddings[index],
+        metadata: { ...metadata, tags: metadata.tags || [] },
+        createdAt: now,
+        updatedAt: now
+      };
+      stored.entries.set(entry.id, entry);
+      results.push(this.withoutEmbedding(entry));
+    }
+
+    await this.persist(collection);
+    return results;
+  }
+
+  async getMemory(collection: string, id: string): Promise<MemoryEntry | null> {
+    await this.ensureInitialized();
+    const entry = this.collections.get(collection)?.entries.get(id);
+    if (!entry) return null;
+
+    const [accessed] = this.recordAccess(collection, [entry]);
+    return this.withoutEmbedding(accessed);
+  }
+
+  async updateMemory(collection: string, id: string, updates: Partial<MemoryEntry>): Promise<MemoryEntry | null> {
+    await this.ensureInitialized();
+    const stored = this.collections.get(collection);
+    const existing = stored?.entries.get(id);
+    if (!stored || !existing) return null;
+
+    assertEmbeddingCompatible(stored.options, this.embedder);
+    if (updates.embedding && updates.embedding.length !== this.embedder.dimensions) {
+      throw new EmbeddingMismatchError(
+        `Embedding has ${updates.embedding.length} dimensions; collection '${collection}' stores ${this.embedder.dimensions}`,
+        { collection }
+      );
+    }
+
+    const content = updates.content ?? existing.content;
+    const updated: MemoryEntry = {
+      ...existing,
+      ...updates,
+      id,
+      content,
+      embedding: updates.embedding
+        ?? (content !== existing.content ? await this.embedText(content) : existing.embedding),
+      metadata: {
+        ...existing.metadata,
+        ...(updates.metadata || {})
+      },
+      createdAt: existing.createdAt,
+      updatedAt: Date.now()
+    };
+
+    stored.entries.set(id, updated);
+    await this.persist(collection);
+    return this.withoutEmbedding(updated);
+  }
+
+  async deleteMemory(collection: string, id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const stored = this.collections.get(collection);
+    if (!stored || !stored.entries.delete(id)) return false;
+
+    await this.persist(collection);
+    return true;
+  }
+
+  /**
+   * Search a collection. With a query, entries are ranked by `mode` (hybrid keyword and vector
+   * by default, see `rankHybrid`) and returned with their scores; without one, the newest
+   * entries come first. Pass the returned `nextCursor` back as `cursor` to fetch the next page.
+   */
+  async searchMemories(collection: string, params: MemorySearchParams): Promise<MemorySearchResult> {
+    await this.ensureInitialized();
+    const stored = this.collections.get(collection);
+    if (!stored) {
+      return { entries: [], totalCount: 0 };
+    }
+
+    const candidates = Array.from(stored.entries.values()).filter(entry => this.matchesFilters(entry, params));
+
+    let ranked: MemoryEntry[];
+    let scores: MemorySearchScore[] | undefined;
+    if (params.query) {
+      let queryEmbedding: number[] | undefined;
+      if (params.mode !== SearchMode.KEYWORD) {
+        assertEmbeddingCompatible(stored.options, this.embedder);
+        queryEmbedding = await this.embedText(params.query);
+      }
+
+      scores = rankHybrid(
+        candidates.map(entry => ({
+          id: entry.id,
+          text: searchableText(entry.content, entry.metadata),
+          embedding: entry.embedding
+        })),
+        params.query,
+        queryEmbedding,
+        params
+      );
+      ranked = scores.map(({ id }) => stored.entries.get(id)!);
+    } else {
+      // Reversed first so that, among equal timestamps, the later-added entry comes first
+      ranked = candidates.reverse().sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    const offset = decodeCursor(params.cursor);
+    const limit = params.maxResults || 10;
+    let page = ranked.slice(offset, offset + limit);
+
+    // Only query results count as accesses; listing a collection doesn't use its memories
+    if (params.query) {
+      page = this.recordAccess(collection, page);
+    }
+
+    return {
+      entries: params.includeEmbeddings ? page : page.map(entry => this.withoutEmbedding(entry)),
+      totalCount: ranked.length,
+      ...(offset + limit < ranked.length && { nextCursor: encodeCursor(offset + limit) }),
+      ...(scores && { scores: scores.slice(offset, offset + limit) })
+    };
+  }
+
+  /**
+   * Store entries verbatim, keeping their ids and timestamps, and embed those without a vector
+   */
+  protected async restoreMemories(collection: string, entries: MemoryEntry[]): Promise<number> {
+    const stored = await this.getOrCreateCollection(collection);
+
+    const missing = entries.filter(entry => !entry.embedding);
+    const embeddings = missing.length > 0 ? await this.embedder.embed(missing.map(entry => entry.content)) : [];
+    const computed = new Map(missing.map((entry, index) => [entry, embeddings[index]]));
+
+    for (const entry of entries) {
+      const embedding = entry.embedding ?? computed.get(entry)!;
+      if (embedding.length !== this.embedder.dimensions) {
+        throw new EmbeddingMismatchError(
+          `Embedding of ${entry.id} has ${embedding.length} dimensions; collection '${collection}' stores ${this.embedder.dimensions}`,
+          { collection }
+        );
+      }
+      stored.entries.set(entry.id, { ...entry, embedding, metadata: { ...entry.metadata, tags: entry.metadata.tags || [] } });
+    }
+
+    await this.persist(collection);
+    return entries.length;
+  }
+
+  private matchesFilters(entry: MemoryEntry, params: MemorySearchParams): boolean {
+    const metadata = entry.metadata;
+
+    if (params.sessionId && metadata.sessionId !== params.sessionId) return false;
+    if (params.types && params.types.length > 0 && !params.types.includes(metadata.type)) return false;
+    if (params.tags && params.tags.length > 0 && !params.tags.some(tag => metadata.tags?.includes(tag))) return false;
+    if (params.source && metadata.source !== params.source) return false;
+    if (params.language && metadata.language !== params.language) return false;
+    if (params.startDate !== undefined && entry.createdAt < params.startDate) return false;
+    if (params.endDate !== undefined && entry.createdAt > params.endDate) return false;
+
+    return true;
+  }
+
+  /**
+   * Bump the access count and time of entries without touching `updatedAt`. Reads are frequent,
+   * so the change is written with the next write of the collection, or after ACCESS_FLUSH_DELAY_MS.
+   */
+  private recordAccess(collection: string, entries: MemoryEntry[]): MemoryEntry[] {
+    const stored = this.collections.get(collection);
+    if (!stored || entries.length === 0) return entries;
+
+    const now = Date.now();
+    const accessed = entries.map(entry => {
+      const updated: MemoryEntry = {
+        ...entry,
+        metadata: {
+          ...entry.metadata,
+          accessCount: (entry.metadata.accessCount || 0) + 1,
+          lastAccessedAt: now
+        }
+      };
+      stored.entries.set(entry.id, updated);
+      return updated;
+    });
+
+    if (!this.accessFlushTimers.has(collection)) {
+      this.accessFlushTimers.set(collection, setTimeout(() => {
+        this.persist(collection).catch(() => undefined); // Failures are logged by persist
+      }, ACCESS_FLUSH_DELAY_MS));
+    }
+    return accessed;
+  }
+
+  private withoutEmbedding(entry: MemoryEntry): MemoryEntry {
+    // Embeddings stay on disk; results don't carry them, matching the Chroma provider
+    const { embedding, ...rest } = entry;
+    return rest;
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) await this.initialize();
+  }
+
+  private async getOrCreateCollection(name: string): Promise<StoredCollection> {
+    await this.ensureInitialized();
+    if (!this.collections.has(name)) {
+      await this.createCollection({ name });
+    }
+
+    const stored = this.collections.get(name)!;
+    assertEmbeddingCompatible(stored.options, this.embedder);
+    return stored;
+  }
+
+  private async getCollectionPath(name: string): Promise<string> {
+    const { path } = await loadFileSystem();
+    // Collection names become file names, so keep them to a safe character set
+    return path.join(this.config.persistencePath!, `${encodeURIComponent(name)}.json`);
+  }
+
+  /**
+   * Write a collection to disk. Writes to the same collection are serialized, and each goes
+   * to a temporary file first so a crash never leaves a half-written collection behind.
+   */
+  private persist(name: string): Promise<void> {
+    // The write includes any access updates still waiting to be flushed
+    clearTimeout(this.accessFlushTimers.get(name));
+    this.accessFlushTimers.delete(name);
+
+    const previous = this.pendingWrites.get(name) || Promise.resolve();
+    const write = previous.then(async () => {
+      const stored = this.collections.get(name);
+      if (!stored) return;
+
+      const data: CollectionFile = {
+        formatVersion: FILE_MEMORY_FORMAT_VERSION,
+        options: stored.options,
+        entries: Array.from(stored.entries.values())
+      };
+      const { fs } = await loadFileSystem();
+      const target = await this.getCollectionPath(name);
+      const temporary = `${target}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(data));
+      await fs.rename(temporary, target);
+    });
+
+    this.pendingWrites.set(name, write.catch(error => {
+      this.logger.error(`Error persisting memory collection ${name}`, { error });
+    }));
+    return write;
+  }
+}
@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Bm25Index, mmrRerank, reciprocalRankFusion, tokenizeForSearch, cosineSimilarity } from './hybrid-search';
+import { FileMemoryProvider } from './file-memory-provider';
+import { MemoryType, SearchMode } from './memory-types';
+
+const metadata = { type: MemoryType.CODE, source: 'ai', tags: [] as string[] };
+
+describe('hybrid search', () => {
+  it('tokenizes identifiers whole and by their parts', () => {
+    expect(tokenizeForSearch('persistToMemory(code_block)')).toEqual([
+      'persisttomemory', 'persist', 'to', 'memory', 'code_block', 'code', 'block'
+    ]);
+  });
+
+  it('scores exact identifier matches with BM25', () => {
+    const index = new Bm25Index([
+      { id: 'a', text: 'function parseHeaders(raw) { return raw.split("\\n"); }' },
+      { id: 'b', text: 'function formatDate(date) { return date.toISOString(); }' },
+      { id: 'c', text: 'Headers are parsed line by line' }
+    ]);
+
+    const scores = index.score('parseHeaders');
+
+    expect(scores.get('a')).toBeGreaterThan(scores.get('c')!);
+    expect(scores.has('b')).toBe(false);
+  });
+
+  it('fuses rankings by reciprocal rank', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'a']], 60);
+
+    expect(fused.get('a')).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(Array.from(fused.entries()).sort((x, y) => y[1] - x[1])[0][0]).toBe('a');
+  });
+
+  it('reranks near-duplicates apart with MMR', () => {
+    const ranking = mmrRerank([
+      { id: 'a', relevance: 1, embedding: [1, 0] },
+      { id: 'a-copy', relevance: 0.95, embedding: [1, 0] },
+      { id: 'b', relevance: 0.8, embedding: [0, 1] }
+    ], 0.5, cosineSimilarity);
+
+    expect(ranking).toEqual(['a', 'b', 'a-copy']);
+  });
+
+  describe('FileMemoryProvider', () => {
+    let directory: string;
+    let provider: FileMemoryProvider;
+
+    beforeEach(async () => {
+      directory = mkdtempSync(join(tmpdir(), 'hybrid-memory-'));
+      provider = new FileMemoryProvider({ persistencePath: directory, dimensions: 256 });
+      await provider.addMemories('code-blocks', [
+        { content: 'Retry failed requests with exponential backoff and jitter', metadata },
+        { content: 'const delay = computeBackoffDelay(attempt, baseDelayMs);', metadata },
+        { content: 'Requests that fail are retried after a growing delay', metadata }
+      ]);
+    });
+
+    afterEach(async () => {
+      await provider.shutdown();
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('finds code by identifier and returns per-result scores', async () => {
+      const vector = await provider.searchMemories('code-blocks', {
+        query: 'computeBackoffDelay', mode: SearchMode.VECTOR, threshold: 0.5
+      });
+      const hybrid = await provider.searchMemories('code-blocks', { query: 'computeBackoffDelay', threshold: 0.5 });
+
+      expect(vector.entries).toHaveLength(0);
+      expect(hybrid.entries[0].content).toContain('computeBackoffDelay');
+      expect(hybrid.scores![0]).toMatchObject({ id: hybrid.entries[0].id, keyword: expect.any(Number) });
+      expect(hybrid.scores).toHaveLength(hybrid.entries.length);
+    });
+
+    it('searches by keyword only', async () => {
+      const result = await provider.searchMemories('code-blocks', { query: 'jitter', mode: SearchMode.KEYWORD });
+
+      expect(result.entries.map(entry => entry.content)).toEqual([
+        'Retry failed requests with exponential backoff and jitter'
+      ]);
+      expect(result.scores![0].vector).toBeUndefined();
+    });
+  });
+});
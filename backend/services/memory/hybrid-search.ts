@@ -0,0 +1,270 @@
+/**
+ * Hybrid Search
+ * BM25 keyword scoring, reciprocal-rank fusion and maximal marginal relevance reranking
+ * used by the memory backends to combine keyword and vector retrieval
+ */
+
+import { MemoryMetadata, MemorySearchScore, SearchMode } from './memory-types';
+
+export interface SearchDocument {
+  id: string;
+  text: string;
+}
+
+/**
+ * A memory considered for a query search
+ */
+export interface HybridCandidate extends SearchDocument {
+  embedding?: number[];
+}
+
+export interface HybridSearchOptions {
+  mode?: SearchMode;
+  threshold?: number;
+  mmrLambda?: number;
+}
+
+// MMR compares every pick with every candidate, so only the head of the ranking is reranked
+export const MMR_POOL_SIZE = 100;
+
+/**
+ * Cosine similarity of two vectors; 0 when either is empty or of different length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Text a memory is keyword-indexed by: its content plus title and tags
+ */
+export function searchableText(content: string, metadata: Partial<MemoryMetadata>): string {
+  return [content, metadata.title, ...(Array.isArray(metadata.tags) ? metadata.tags : [])]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Opaque paging cursor for search results; pass a result's `nextCursor` back as `cursor`
+ */
+export function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }));
+}
+
+/**
+ * Offset a cursor points at; 0 for a missing or malformed cursor
+ */
+export function decodeCursor(cursor?: string): number {
+  if (!cursor) return 0;
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    return Number.isInteger(offset) && offset > 0 ? offset : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Split text into search terms. Identifiers are kept whole and also split into their
+ * camelCase / snake_case parts, so `persistToMemory` matches both that exact name and "memory".
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_$]+/gu) || []) {
+    const lower = word.toLowerCase();
+    terms.push(lower);
+
+    const parts = word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part && part !== lower);
+    terms.push(...parts);
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 index over a fixed set of documents
+ */
+export class Bm25Index {
+  private k1: number;
+  private b: number;
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private documentLengths = new Map<string, number>();
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: SearchDocument[], options: { k1?: number; b?: number } = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+
+    for (const { id, text } of documents) {
+      const frequencies = new Map<string, number>();
+      const terms = tokenizeForSearch(text);
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+      this.termFrequencies.set(id, frequencies);
+      this.documentLengths.set(id, terms.length);
+    }
+
+    const lengths = Array.from(this.documentLengths.values());
+    this.averageLength = lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  }
+
+  /**
+   * Score every document containing at least one query term
+   * @returns Scores by document id; documents without a matching term are absent
+   */
+  score(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.termFrequencies.size;
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+
+    for (const term of queryTerms) {
+      const frequency = this.documentFrequency.get(term);
+      if (!frequency) continue;
+
+      const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+      for (const [id, frequencies] of this.termFrequencies) {
+        const termFrequency = frequencies.get(term);
+        if (!termFrequency) continue;
+
+        const lengthNorm = 1 - this.b + this.b * (this.documentLengths.get(id)! / (this.averageLength || 1));
+        const termScore = idf * (termFrequency * (this.k1 + 1)) / (termFrequency + this.k1 * lengthNorm);
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Fuse several rankings with reciprocal-rank fusion: each list contributes 1 / (k + rank).
+ * @param rankings Document ids, best first, one list per retriever
+ * @param k Damping constant; 60 is the value from the original RRF paper
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return fused;
+}
+
+/**
+ * Rerank with maximal marginal relevance: repeatedly pick the candidate that best balances
+ * relevance against similarity to what has already been picked.
+ * @param candidates Candidates with their relevance and embedding, best first
+ * @param lambda 1 ranks purely by relevance, 0 purely by diversity
+ * @param similarity Similarity of two embeddings
+ * @returns Candidate ids in reranked order
+ */
+export function mmrRerank(
+  candidates: Array<{ id: string; relevance: number; embedding?: number[] }>,
+  lambda: number,
+  similarity: (a: number[], b: number[]) => number
+): string[] {
+  const remaining = [...candidates];
+  const selected: typeof candidates = [];
+
+  // Put relevance on the same 0-1 scale as similarity
+  const maxRelevance = Math.max(...candidates.map(candidate => candidate.relevance), 0) || 1;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = Number.NEGATIVE_INFINITY;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = selected.reduce((max, picked) => {
+        if (!candidate.embedding || !picked.embedding) return max;
+        return Math.max(max, similarity(candidate.embedding, picked.embedding));
+      }, 0);
+      const score = lambda * (candidate.relevance / maxRelevance) - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(candidate => candidate.id);
+}
+
+/**
+ * Rank candidates against a query.
+ * Vector mode keeps candidates whose similarity reaches `threshold`; keyword mode keeps those
+ * containing a query term; hybrid mode keeps either and fuses both rankings by reciprocal rank,
+ * so an exact identifier match survives even when its embedding is far from the query's.
+ * @param queryEmbedding Query vector; not needed in keyword mode
+ * @returns Scores of the matching candidates, best first
+ */
+export function rankHybrid(
+  candidates: HybridCandidate[],
+  query: string,
+  queryEmbedding: number[] | undefined,
+  options: HybridSearchOptions = {}
+): MemorySearchScore[] {
+  const mode = options.mode ?? SearchMode.HYBRID;
+  const threshold = options.threshold ?? 0;
+  const byDescending = (scores: Map<string, number>) => (a: string, b: string) => scores.get(b)! - scores.get(a)!;
+
+  const vectorScores = new Map<string, number>();
+  if (mode !== SearchMode.KEYWORD && queryEmbedding) {
+    for (const candidate of candidates) {
+      vectorScores.set(candidate.id, cosineSimilarity(queryEmbedding, candidate.embedding || []));
+    }
+  }
+  const keywordScores = mode !== SearchMode.VECTOR ? new Bm25Index(candidates).score(query) : new Map<string, number>();
+
+  const vectorRanking = Array.from(vectorScores.keys())
+    .filter(id => vectorScores.get(id)! >= threshold)
+    .sort(byDescending(vectorScores));
+  const keywordRanking = Array.from(keywordScores.keys()).sort(byDescending(keywordScores));
+
+  let scores: Map<string, number>;
+  if (mode === SearchMode.VECTOR) {
+    scores = new Map(vectorRanking.map(id => [id, vectorScores.get(id)!]));
+  } else if (mode === SearchMode.KEYWORD) {
+    scores = keywordScores;
+  } else {
+    scores = reciprocalRankFusion([vectorRanking, keywordRanking]);
+  }
+
+  let ranking = Array.from(scores.keys()).sort(byDescending(scores));
+  if (options.mmrLambda !== undefined) {
+    const embeddings = new Map(candidates.map(candidate => [candidate.id, candidate.embedding]));
+    const pool = ranking.slice(0, MMR_POOL_SIZE).map(id => ({
+      id,
+      relevance: scores.get(id)!,
+      embedding: embeddings.get(id)
+    }));
+    ranking = [...mmrRerank(pool, options.mmrLambda, cosineSimilarity), ...ranking.slice(MMR_POOL_SIZE)];
+  }
+
+  return ranking.map(id => ({
+    id,
+    score: scores.get(id)!,
+    ...(vectorScores.has(id) && { vector: vectorScores.get(id) }),
+    ...(keywordScores.has(id) && { keyword: keywordScores.get(id) })
+  }));
+}
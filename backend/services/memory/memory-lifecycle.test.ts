@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockProvider } from '@backend/core/providers/mock-provider';
+import { ChromaMemoryProvider } from './chroma-memory-provider';
+import { FileMemoryProvider } from './file-memory-provider';
+import { MemoryLifecycleManager, decayedImportance } from './memory-lifecycle';
+import { MemoryEntry, MemoryType } from './memory-types';
+
+const HOUR = 60 * 60 * 1000;
+const chat = { type: MemoryType.CHAT, source: 'user', tags: [] as string[], sessionId: 'session-1' };
+
+describe('MemoryLifecycleManager', () => {
+  let directory: string;
+  let provider: FileMemoryProvider;
+  let now: ReturnType<typeof vi.spyOn>;
+
+  const addAt = async (collection: string, time: number, content: string, metadata = chat) => {
+    now.mockReturnValue(time);
+    return provider.addMemory(collection, content, metadata);
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'memory-lifecycle-'));
+    provider = new FileMemoryProvider({ persistencePath: directory, dimensions: 64 });
+    now = vi.spyOn(Date, 'now');
+  });
+
+  afterEach(async () => {
+    now.mockRestore();
+    await provider.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reports expired and evicted memories in a dry run without removing them', async () => {
+    await provider.createCollection({ name: 'notes', metadata: { retention: { ttlMs: 24 * HOUR, maxEntries: 2 } } });
+    const old = await addAt('notes', 0, 'stale note');
+    const a = await addAt('notes', 30 * HOUR, 'note a');
+    const b = await addAt('notes', 31 * HOUR, 'note b');
+    await addAt('notes', 32 * HOUR, 'note c');
+    now.mockReturnValue(33 * HOUR);
+    await provider.getMemory('notes', a.id);
+
+    const manager = new MemoryLifecycleManager(provider, { now: () => 33 * HOUR });
+    const report = await manager.enforce('notes', { dryRun: true });
+
+    expect(report.expired).toEqual([old.id]);
+    expect(report.evicted).toEqual([b.id]);
+    expect(report).toMatchObject({ entriesBefore: 4, entriesAfter: 2 });
+    expect((await provider.searchMemories('notes', {})).totalCount).toBe(4);
+
+    await manager.enforce('notes');
+    expect((await provider.searchMemories('notes', {})).totalCount).toBe(2);
+  });
+
+  it('summarizes old chat memories into one context memory per session', async () => {
+    const sources: MemoryEntry[] = [];
+    for (const n of [1, 2, 3]) {
+      sources.push(await addAt('chat', n * HOUR, `message ${n}`));
+    }
+    await addAt('chat', 100 * HOUR, 'recent message');
+
+    const manager = new MemoryLifecycleManager(provider, {
+      summarizer: new MockProvider({ defaultResponse: 'The user discussed messages 1 to 3.' }),
+      now: () => 101 * HOUR
+    });
+    const report = await manager.enforce('chat', { policy: { summarize: { olderThanMs: 24 * HOUR, minEntries: 3 } } });
+
+    expect(report.summarized).toHaveLength(1);
+    expect(report.summarized[0].sourceIds).toEqual(sources.map(entry => entry.id));
+
+    const remaining = (await provider.searchMemories('chat', {})).entries;
+    expect(remaining.map(entry => entry.content).sort()).toEqual(['The user discussed messages 1 to 3.', 'recent message']);
+    expect(remaining.find(entry => entry.metadata.type === MemoryType.CONTEXT)!.metadata).toMatchObject({
+      sessionId: 'session-1',
+      custom: { summarizedFrom: sources.map(entry => entry.id) }
+    });
+  });
+
+  it('skips summarization without a summarizer', async () => {
+    for (const n of [1, 2]) {
+      await addAt('chat', n, `message ${n}`);
+    }
+
+    const manager = new MemoryLifecycleManager(provider, { now: () => 10 * HOUR });
+    const report = await manager.enforce('chat', { policy: { summarize: { olderThanMs: HOUR, minEntries: 2 } } });
+
+    expect(report.summarized).toEqual([]);
+    expect(report.skipped).toEqual(['summarize: no summarizer configured']);
+    expect(report.entriesAfter).toBe(2);
+  });
+
+  it('applies policies to every page of a Chroma collection', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const chroma = new ChromaMemoryProvider({ dimensions: 32 });
+    now.mockReturnValue(30 * HOUR);
+    await chroma.addMemories('notes', Array.from({ length: 1000 }, (_, i) => ({ content: `recent ${i}`, metadata: chat })));
+    now.mockReturnValue(0);
+    const stale = await chroma.addMemories('notes', Array.from({ length: 5 }, (_, i) => ({ content: `stale ${i}`, metadata: chat })));
+
+    const manager = new MemoryLifecycleManager(chroma, { now: () => 33 * HOUR });
+    const report = await manager.enforce('notes', { dryRun: true, policy: { ttlMs: 24 * HOUR } });
+
+    expect(report.expired.sort()).toEqual(stale.map(entry => entry.id).sort());
+    expect(report).toMatchObject({ entriesBefore: 1005, entriesAfter: 1000 });
+    await chroma.shutdown();
+    log.mockRestore();
+  });
+
+  it('decays importance more slowly for frequently accessed memories', () => {
+    const entry = (accessCount: number): MemoryEntry => ({
+      id: 'm',
+      content: '',
+      metadata: { ...chat, importance: 8, accessCount },
+      createdAt: 0,
+      updatedAt: 0
+    });
+
+    expect(decayedImportance(entry(0), HOUR, HOUR)).toBeCloseTo(4);
+    expect(decayedImportance(entry(1), HOUR, HOUR)).toBeCloseTo(8 * Math.SQRT1_2);
+  });
+});
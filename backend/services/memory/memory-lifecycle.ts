@@ -0,0 +1,307 @@
+/**
+ * Memory Lifecycle
+ * Applies per-collection retention policies: TTL expiry, summarization of old chat memories,
+ * importance decay and a cap on entries with least-recently-used eviction.
+ * Policies are set as `retention` in a collection's `CollectionOptions.metadata`.
+ */
+
+import { AIProvider, AIProviderOptions } from '@shared/interfaces/ai-provider';
+import { Logger } from '../logging/logger';
+import { CollectionOptions, MemoryEntry, MemoryType } from './memory-types';
+import { MemoryService } from './memory-service';
+
+export interface RetentionPolicy {
+  ttlMs?: number;                 // Remove memories created longer ago than this
+  maxEntries?: number;            // Evict the least recently used memories beyond this many
+  decay?: {
+    halfLifeMs: number;           // Idle time that halves importance; every access adds another half-life
+    minImportance: number;        // Remove memories whose decayed importance falls below this
+  };
+  summarize?: {
+    olderThanMs: number;          // Fold CHAT memories older than this into one CONTEXT memory per session
+    minEntries?: number;          // Only summarize a session with at least this many; 5 by default
+  };
+}
+
+export interface DecayedMemory {
+  id: string;
+  importance: number;
+  decayedImportance: number;
+}
+
+export interface SummarizedGroup {
+  sessionId?: string;
+  sourceIds: string[];
+  summaryId?: string;             // Unset in a dry run
+}
+
+/**
+ * What a policy run removed and created, or would in a dry run
+ */
+export interface LifecycleReport {
+  collection: string;
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  expired: string[];
+  summarized: SummarizedGroup[];
+  decayed: DecayedMemory[];       // Removed for falling below the minimum importance
+  evicted: string[];
+  skipped: string[];              // Policy steps that could not run, and why
+  entriesBefore: number;
+  entriesAfter: number;
+}
+
+export interface MemoryLifecycleOptions {
+  summarizer?: AIProvider;        // Required for summarization
+  summarizerOptions?: AIProviderOptions;
+  now?: () => number;
+}
+
+export const DEFAULT_IMPORTANCE = 5;
+const DEFAULT_SUMMARIZE_MIN_ENTRIES = 5;
+const LIST_PAGE_SIZE = 1000;
+
+const SUMMARY_SYSTEM_PROMPT = 'Summarize these conversation excerpts into one concise context note. '
+  + 'Keep decisions, requirements, names and code identifiers; drop pleasantries.';
+
+/**
+ * Read the retention policy recorded on a collection
+ */
+export function getRetentionPolicy(options: CollectionOptions | null): RetentionPolicy | undefined {
+  return options?.metadata?.retention as RetentionPolicy | undefined;
+}
+
+/**
+ * Importance after exponential decay over the time since the memory was last used.
+ * Each access lengthens the half-life, so memories in regular use fade slowly.
+ */
+export function decayedImportance(entry: MemoryEntry, halfLifeMs: number, now: number): number {
+  const importance = entry.metadata.importance ?? DEFAULT_IMPORTANCE;
+  const idle = Math.max(0, now - (entry.metadata.lastAccessedAt ?? entry.updatedAt));
+  const halfLife = halfLifeMs * (1 + (entry.metadata.accessCount || 0));
+  return importance * Math.pow(0.5, idle / halfLife);
+}
+
+/**
+ * Enforces retention policies on the collections of a memory service
+ */
+export class MemoryLifecycleManager {
+  private memory: MemoryService;
+  private options: MemoryLifecycleOptions;
+  private now: () => number;
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+  private logger: Logger;
+
+  constructor(memory: MemoryService, options: MemoryLifecycleOptions = {}) {
+    this.memory = memory;
+    this.options = options;
+    this.now = options.now || Date.now;
+    this.logger = new Logger('MemoryLifecycle');
+  }
+
+  /**
+   * Apply a collection's retention policy. Steps run in order: TTL expiry, summarization,
+   * decay, then LRU eviction of whatever still exceeds `maxEntries`.
+   * @param options.dryRun Report what would change without changing anything
+   * @param options.policy Use this policy instead of the collection's own
+   */
+  async enforce(
+    collection: string,
+    options: { dryRun?: boolean; policy?: RetentionPolicy } = {}
+  ): Promise<LifecycleReport> {
+    const dryRun = options.dryRun ?? false;
+    const policy = options.policy ?? getRetentionPolicy(await this.memory.getCollectionInfo(collection)) ?? {};
+    const now = this.now();
+
+    const remaining = new Map((await this.listEntries(collection)).map(entry => [entry.id, entry]));
+    const report: LifecycleReport = {
+      collection,
+      dryRun,
+      policy,
+      expired: [],
+      summarized: [],
+      decayed: [],
+      evicted: [],
+      skipped: [],
+      entriesBefore: remaining.size,
+      entriesAfter: 0
+    };
+    const removals: string[] = [];
+    const remove = (id: string) => {
+      remaining.delete(id);
+      removals.push(id);
+    };
+
+    if (policy.ttlMs !== undefined) {
+      for (const entry of remaining.values()) {
+        if (entry.createdAt < now - policy.ttlMs) {
+          report.expired.push(entry.id);
+        }
+      }
+      report.expired.forEach(remove);
+    }
+
+    let summaries = 0;
+    if (policy.summarize) {
+      for (const group of this.findSummaryGroups(Array.from(remaining.values()), policy.summarize, now)) {
+        if (!this.options.summarizer) {
+          report.skipped.push('summarize: no summarizer configured');
+          break;
+        }
+
+        const summarized: SummarizedGroup = { sessionId: group[0].metadata.sessionId, sourceIds: group.map(entry => entry.id) };
+        if (!dryRun) {
+          try {
+            summarized.summaryId = (await this.summarize(collection, group)).id;
+          } catch (error) {
+            report.skipped.push(`summarize: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+          }
+        }
+        report.summarized.push(summarized);
+        summarized.sourceIds.forEach(remove);
+        summaries++;
+      }
+    }
+
+    if (policy.decay) {
+      for (const entry of remaining.values()) {
+        const decayed = decayedImportance(entry, policy.decay.halfLifeMs, now);
+        if (decayed < policy.decay.minImportance) {
+          report.decayed.push({
+            id: entry.id,
+            importance: entry.metadata.importance ?? DEFAULT_IMPORTANCE,
+            decayedImportance: decayed
+          });
+        }
+      }
+      report.decayed.forEach(({ id }) => remove(id));
+    }
+
+    if (policy.maxEntries !== undefined) {
+      const excess = remaining.size + summaries - policy.maxEntries;
+      if (excess > 0) {
+        report.evicted = Array.from(remaining.values())
+          .sort((a, b) => (a.metadata.lastAccessedAt ?? a.updatedAt) - (b.metadata.lastAccessedAt ?? b.updatedAt))
+          .slice(0, excess)
+          .map(entry => entry.id);
+        report.evicted.forEach(remove);
+      }
+    }
+
+    if (!dryRun) {
+      for (const id of removals) {
+        await this.memory.deleteMemory(collection, id);
+      }
+    }
+
+    report.entriesAfter = remaining.size + summaries;
+    if (removals.length > 0) {
+      this.logger.info(`${dryRun ? 'Would remove' : 'Removed'} ${removals.length} memories from ${collection}`, {
+        entriesBefore: report.entriesBefore,
+        entriesAfter: report.entriesAfter
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Apply the retention policy of every collection that has one
+   */
+  async enforceAll(options: { dryRun?: boolean } = {}): Promise<LifecycleReport[]> {
+    const reports: LifecycleReport[] = [];
+    for (const collection of await this.memory.listCollections()) {
+      if (getRetentionPolicy(await this.memory.getCollectionInfo(collection))) {
+        reports.push(await this.enforce(collection, options));
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Enforce policies every `intervalMs`; a run still in progress is never overlapped
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.enforceAll();
+      } catch (error) {
+        this.logger.error('Error enforcing memory retention policies', { error });
+      } finally {
+        this.running = false;
+      }
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async listEntries(collection: string): Promise<MemoryEntry[]> {
+    const entries: MemoryEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.memory.searchMemories(collection, { maxResults: LIST_PAGE_SIZE, cursor });
+      entries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return entries;
+  }
+
+  /**
+   * Old CHAT memories grouped by session, oldest first, keeping sessions with enough of them
+   */
+  private findSummaryGroups(
+    entries: MemoryEntry[],
+    options: NonNullable<RetentionPolicy['summarize']>,
+    now: number
+  ): MemoryEntry[][] {
+    const groups = new Map<string | undefined, MemoryEntry[]>();
+    for (const entry of entries) {
+      if (entry.metadata.type !== MemoryType.CHAT || entry.createdAt >= now - options.olderThanMs) continue;
+      const group = groups.get(entry.metadata.sessionId) || [];
+      group.push(entry);
+      groups.set(entry.metadata.sessionId, group);
+    }
+
+    const minEntries = options.minEntries ?? DEFAULT_SUMMARIZE_MIN_ENTRIES;
+    return Array.from(groups.values())
+      .filter(group => group.length >= minEntries)
+      .map(group => group.sort((a, b) => a.createdAt - b.createdAt));
+  }
+
+  /**
+   * Store an AI-written summary of a group as a CONTEXT memory. The sources are removed
+   * afterwards by the caller, so a failed summary loses nothing.
+   */
+  private async summarize(collection: string, group: MemoryEntry[]): Promise<MemoryEntry> {
+    const response = await this.options.summarizer!.generateResponse({
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      content: group.map(entry => `[${entry.metadata.source}] ${entry.content}`).join('\n\n')
+    }, this.options.summarizerOptions || { apiKey: '' });
+
+    if (response.error || !response.content.trim()) {
+      throw new Error(response.error || 'empty summary');
+    }
+
+    return this.memory.addMemory(collection, response.content.trim(), {
+      type: MemoryType.CONTEXT,
+      source: 'system',
+      sessionId: group[0].metadata.sessionId,
+      tags: ['summary'],
+      title: `Summary of ${group.length} chat memories`,
+      importance: Math.max(...group.map(entry => entry.metadata.importance ?? DEFAULT_IMPORTANCE)),
+      custom: {
+        summarizedFrom: group.map(entry => entry.id),
+        summarizedRange: [group[0].createdAt, group[group.length - 1].createdAt]
+      }
+    });
+  }
+}
@@ -0,0 +1,97 @@
+// @vitest-environment node
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalMemoryService } from '@backend/core/memory-service';
+import { MemoryType as EngineMemoryType } from '@shared/interfaces/memory-engine';
+import { FileMemoryProvider } from './file-memory-provider';
+import { MemoryMigrator, restoreMemoryBackup, writeMemoryBackup } from './memory-migrator';
+import { SnapshotFormatError, parseSnapshot } from './memory-snapshot';
+import { MemoryType } from './memory-types';
+
+const metadata = { type: MemoryType.CHAT, source: 'user', tags: [] as string[] };
+
+describe('MemoryMigrator', () => {
+  let directory: string;
+  const providers: FileMemoryProvider[] = [];
+
+  const fileProvider = (name: string, dimensions: number) => {
+    const provider = new FileMemoryProvider({ persistencePath: join(directory, name), dimensions });
+    providers.push(provider);
+    return provider;
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'memory-migrator-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(providers.splice(0).map(provider => provider.shutdown()));
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('moves the in-memory store to a file store and verifies the copy', async () => {
+    const local = new LocalMemoryService();
+    const first = await local.addMemory('chat', 'Prefer TypeScript strict mode', { type: EngineMemoryType.CHAT, source: 'user' });
+    await local.addMemory('code-blocks', 'export const answer = 42;', { type: EngineMemoryType.CODE, source: 'ai' });
+    const target = fileProvider('target', 64);
+
+    const report = await new MemoryMigrator(local, target).migrate();
+
+    expect(report.verified).toBe(true);
+    expect(report.collections.map(result => [result.collection, result.targetCount])).toEqual([['chat', 1], ['code-blocks', 1]]);
+    const copied = await target.searchMemories('chat', { includeEmbeddings: true });
+    expect(copied.entries[0]).toMatchObject({ id: first.id, content: 'Prefer TypeScript strict mode', createdAt: first.createdAt });
+    expect(copied.entries[0].embedding).toHaveLength(64);
+  });
+
+  it('keeps embeddings within one vector space and re-embeds across dimensions', async () => {
+    const source = fileProvider('source', 64);
+    await source.addMemory('notes', 'Cache search results', metadata);
+    const snapshot = await source.exportMemories('notes');
+    const [original] = parseSnapshot(snapshot).entries;
+
+    const same = fileProvider('same', 64);
+    const wider = fileProvider('wider', 128);
+    await new MemoryMigrator(source, same).migrate();
+    await new MemoryMigrator(source, wider).migrate();
+
+    expect((await same.searchMemories('notes', { includeEmbeddings: true })).entries[0].embedding).toEqual(original.embedding);
+    expect((await wider.searchMemories('notes', { includeEmbeddings: true })).entries[0].embedding).toHaveLength(128);
+    expect(await wider.getCollectionInfo('notes')).toMatchObject({ embeddingDimension: 128 });
+  });
+
+  it('writes incremental backups and restores them in order', async () => {
+    const source = fileProvider('source', 64);
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const note = await source.addMemory('notes', 'first draft', metadata);
+    const full = await writeMemoryBackup(source, join(directory, 'backups'));
+
+    now.mockReturnValue(2000);
+    await source.updateMemory('notes', note.id, { content: 'second draft' });
+    await source.addMemory('notes', 'another note', metadata);
+    now.mockReturnValue(3000);
+    const incremental = await writeMemoryBackup(source, join(directory, 'backups'), { since: full.startedAt });
+    const unchanged = await writeMemoryBackup(source, join(directory, 'backups'), { since: incremental.startedAt });
+    now.mockRestore();
+
+    expect([full.entries, incremental.entries, unchanged.entries]).toEqual([1, 2, 0]);
+    expect(readdirSync(join(directory, 'backups'))).toHaveLength(2);
+
+    const restored = fileProvider('restored', 64);
+    expect(await restoreMemoryBackup(restored, join(directory, 'backups'))).toEqual({ notes: 3 });
+    const contents = (await restored.searchMemories('notes', {})).entries.map(entry => entry.content).sort();
+    expect(contents).toEqual(['another note', 'second draft']);
+  });
+
+  it('rejects truncated and unknown snapshot data', async () => {
+    const source = fileProvider('source', 64);
+    await source.addMemories('notes', [{ content: 'a', metadata }, { content: 'b', metadata }]);
+    const snapshot = await source.exportMemories('notes');
+    const truncated = snapshot.split('\n').slice(0, 2).join('\n');
+
+    expect(() => parseSnapshot(truncated)).toThrow(SnapshotFormatError);
+    expect(() => parseSnapshot('{"hello":"world"}')).toThrow('missing header');
+    await expect(source.importMemories('notes', '{"format":"memory-snapshot","version":99}')).rejects.toThrow('newer than supported');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Memory Migrator
+ * Copies collections between memory services through snapshots and verifies the copy, and
+ * writes and restores incremental snapshot backups on disk.
+ * Backups require a Node.js runtime for file access.
+ */
+
+import { Logger } from '../logging/logger';
+import { SnapshotExportOptions, parseSnapshot } from './memory-snapshot';
+import { loadFileSystem } from './node-file-system';
+
+/**
+ * What migration needs from a memory service. The memory services here and the
+ * LocalMemoryService in backend/core all provide it.
+ */
+export interface MigratableMemoryService {
+  listCollections(): Promise<string[]>;
+  exportMemories(collection: string, options?: SnapshotExportOptions): Promise<string>;
+  importMemories(collection: string, data: string): Promise<number>;
+  getMemoryStats(collection: string): Promise<{ count: number }>;
+}
+
+export interface MigrationOptions {
+  collections?: string[];         // Collections to copy; all by default
+  since?: number;                 // Only copy entries updated after this time
+}
+
+export interface CollectionMigration {
+  collection: string;
+  exported: number;
+  imported: number;
+  sourceCount: number;
+  targetCount: number;
+  missingIds: string[];           // Exported entries the target does not have afterwards
+  verified: boolean;
+}
+
+export interface MigrationReport {
+  collections: CollectionMigration[];
+  since?: number;
+  startedAt: number;              // Pass as `since` to the next incremental run
+  verified: boolean;
+}
+
+export interface BackupReport {
+  files: string[];
+  entries: number;
+  since?: number;
+  startedAt: number;              // Pass as `since` to the next incremental backup
+}
+
+const BACKUP_FILE_PATTERN = /^(.+)\.(\d+)\.jsonl$/;
+
+const logger = new Logger('MemoryMigrator');
+
+/**
+ * Copies every collection from one memory service to another
+ */
+export class MemoryMigrator {
+  private source: MigratableMemoryService;
+  private target: MigratableMemoryService;
+
+  constructor(source: MigratableMemoryService, target: MigratableMemoryService) {
+    this.source = source;
+    this.target = target;
+  }
+
+  /**
+   * Copy collections and verify that the target holds every copied entry and, for a full
+   * migration, at least as many entries as the source. Entries keep their ids, so rerunning
+   * a migration updates the target instead of duplicating entries.
+   */
+  async migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    const startedAt = Date.now();
+    const collections = options.collections ?? await this.source.listCollections();
+    const results: CollectionMigration[] = [];
+
+    for (const collection of collections) {
+      const snapshot = await this.source.exportMemories(collection, { since: options.since });
+      const exportedIds = parseSnapshot(snapshot, collection).entries.map(entry => entry.id);
+      const imported = await this.target.importMemories(collection, snapshot);
+
+      const targetIds = new Set(parseSnapshot(await this.target.exportMemories(collection), collection).entries.map(entry => entry.id));
+      const sourceCount = (await this.source.getMemoryStats(collection)).count;
+      const missingIds = exportedIds.filter(id => !targetIds.has(id));
+      const verified = missingIds.length === 0 && (options.since !== undefined || targetIds.size >= sourceCount);
+
+      if (!verified) {
+        logger.error(`Memory migration of ${collection} failed verification`, {
+          missing: missingIds.length,
+          targetCount: targetIds.size,
+          sourceCount
+        });
+      }
+      results.push({
+        collection,
+        exported: exportedIds.length,
+        imported,
+        sourceCount,
+        targetCount: targetIds.size,
+        missingIds,
+        verified
+      });
+    }
+
+    logger.info(`Migrated ${results.length} memory collections`);
+    return {
+      collections: results,
+      ...(options.since !== undefined && { since: options.since }),
+      startedAt,
+      verified: results.every(result => result.verified)
+    };
+  }
+}
+
+/**
+ * Write a snapshot of each collection to `<directory>/<collection>.<timestamp>.jsonl`.
+ * With `since`, only entries updated after it are written; deletions are not recorded.
+ */
+export async function writeMemoryBackup(
+  service: MigratableMemoryService,
+  directory: string,
+  options: MigrationOptions = {}
+): Promise<BackupReport> {
+  const startedAt = Date.now();
+  const collections = options.collections ?? await service.listCollections();
+  const { fs, path } = await loadFileSystem();
+  await fs.mkdir(directory, { recursive: true });
+
+  const files: string[] = [];
+  let entries = 0;
+  for (const collection of collections) {
+    const snapshot = await service.exportMemories(collection, { since: options.since });
+    const count = parseSnapshot(snapshot, collection).entries.length;
+    if (count === 0 && options.since !== undefined) continue;
+
+    const file = path.join(directory, `${encodeURIComponent(collection)}.${startedAt}.jsonl`);
+    await fs.writeFile(file, snapshot);
+    files.push(file);
+    entries += count;
+  }
+
+  return { files, entries, ...(options.since !== undefined && { since: options.since }), startedAt };
+}
+
+/**
+ * Restore the backups in a directory, oldest first, so later incremental backups win
+ * @returns Entries imported per collection
+ */
+export async function restoreMemoryBackup(
+  service: MigratableMemoryService,
+  directory: string,
+  options: { collections?: string[] } = {}
+): Promise<Record<string, number>> {
+  const { fs, path } = await loadFileSystem();
+  const backups = (await fs.readdir(directory))
+    .map(file => ({ file, match: BACKUP_FILE_PATTERN.exec(file) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => ({ file, collection: decodeURIComponent(match![1]), timestamp: Number(match![2]) }))
+    .filter(({ collection }) => !options.collections || options.collections.includes(collection))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const imported: Record<string, number> = {};
+  for (const { file, collection } of backups) {
+    const data = await fs.readFile(path.join(directory, file), 'utf8');
+    imported[collection] = (imported[collection] || 0) + await service.importMemories(collection, data);
+  }
+  return imported;
+}
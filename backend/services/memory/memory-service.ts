@@ -12,6 +12,8 @@ import {
   MemoryProviderConfig
 } from './memory-types';
 import { getStorage, StorageInterface } from '@shared/services/storage';
+import { EmbeddingProvider, createEmbeddingProvider } from './embedding-provider';
+import { SnapshotExportOptions, parseSnapshot, serializeSnapshot } from './memory-snapshot';
 
 // Re-export these types for consumers
 export type { MemoryProviderConfig };
@@ -42,6 +44,7 @@ export interface MemoryService {
   getMemories(collection: string, ids: string[]): Promise<MemoryEntry[]>;
   
   // Search operations
+  // Without a query, entries come newest first
   searchMemories(collection: string, params: MemorySearchParams): Promise<MemorySearchResult>;
   findSimilar(collection: string, content: string, params?: Partial<MemorySearchParams>): Promise<MemorySearchResult>;
   
@@ -53,7 +56,7 @@ export interface MemoryService {
   clearSessionMemories(sessionId: string): Promise<boolean>;
   
   // Persistence operations
-  exportMemories(collection: string): Promise<string>;
+  exportMemories(collection: string, options?: SnapshotExportOptions): Promise<string>;
   importMemories(collection: string, data: string): Promise<number>;
   
   // Statistics
@@ -71,6 +74,7 @@ export interface MemoryService {
 export abstract class BaseMemoryService implements MemoryService {
   protected config: MemoryProviderConfig;
   protected storage: StorageInterface;
+  protected embedder: EmbeddingProvider;
 
   constructor(config: MemoryProviderConfig = {}) {
     this.config = {
@@ -80,6 +84,7 @@ export abstract class BaseMemoryService implements MemoryService {
       ...config
     };
     this.storage = getStorage();
+    this.embedder = createEmbeddingProvider(this.config);
   }
   
   // Required implementations
@@ -94,7 +99,21 @@ export abstract class BaseMemoryService implements MemoryService {
   abstract updateMemory(collection: string, id: string, updates: Partial<MemoryEntry>): Promise<MemoryEntry | null>;
   abstract deleteMemory(collection: string, id: string): Promise<boolean>;
   abstract searchMemories(collection: string, params: MemorySearchParams): Promise<MemorySearchResult>;
-  abstract embedText(text: string): Promise<number[]>;
+  
+  /**
+   * Generate an embedding for text with the configured embedding provider
+   */
+  async embedText(text: string): Promise<number[]> {
+    const [embedding] = await this.embedder.embed([text]);
+    return embedding;
+  }
+  
+  /**
+   * Get the embedding model and dimension new collections are created with
+   */
+  getEmbeddingInfo(): { model: string; dimensions: number } {
+    return { model: this.embedder.model, dimensions: this.embedder.dimensions };
+  }
   
   /**
    * Default implementation for batch operations that calls single operations
@@ -190,42 +209,70 @@ export abstract class BaseMemoryService implements MemoryService {
   }
   
   /**
-   * Export memories from a collection as a JSON string
+   * Export a collection as a versioned snapshot with embeddings
+   * @param options.since Only export entries updated after this time, for incremental backups
    */
-  async exportMemories(collection: string): Promise<string> {
-    const cached = this.storage.getItem(`memory_${collection}`);
-    if (cached) return cached;
-    const result = await this.searchMemories(collection, {
-      maxResults: 10000
-    });
-    const data = JSON.stringify(result.entries, null, 2);
-    this.storage.setItem(`memory_${collection}`, data);
-    return data;
+  async exportMemories(collection: string, options: SnapshotExportOptions = {}): Promise<string> {
+    const entries: MemoryEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.searchMemories(collection, { maxResults: 1000, cursor, includeEmbeddings: true });
+      entries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const info = await this.getCollectionInfo(collection);
+    const exported = entries
+      .filter(entry => options.since === undefined || entry.updatedAt > options.since)
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    return serializeSnapshot({
+      collection,
+      ...(info?.metadata && { collectionMetadata: info.metadata }),
+      embeddingModel: info?.embeddingModel ?? this.embedder.model,
+      embeddingDimension: info?.embeddingDimension ?? this.embedder.dimensions,
+      ...(options.since !== undefined && { since: options.since }),
+      createdAt: Date.now()
+    }, exported);
   }
   
   /**
-   * Import memories to a collection from a JSON string
+   * Import a snapshot, or a legacy JSON export, into a collection. Entries keep their ids, so
+   * importing overlapping snapshots updates entries instead of duplicating them. Embeddings from
+   * another model or dimension are dropped and recomputed with this service's embedder.
+   * @returns The number of entries imported
    */
   async importMemories(collection: string, data: string): Promise<number> {
-    try {
-      const memories = JSON.parse(data) as MemoryEntry[];
-      let importCount = 0;
-      
-      for (const memory of memories) {
-        if (memory.content && memory.metadata) {
-          await this.addMemory(collection, memory.content, memory.metadata);
-          importCount++;
-        }
-      }
-      
-      return importCount;
-    } catch (error) {
-      console.error('Error importing memories:', error);
-      return 0;
+    const { header, entries } = parseSnapshot(data, collection);
+
+    if (!(await this.getCollectionInfo(collection))) {
+      await this.createCollection({
+        name: collection,
+        ...(header.collectionMetadata && { metadata: header.collectionMetadata })
+      });
     }
-    finally {
-      this.storage.setItem(`memory_${collection}`, data);
+
+    const sameSpace = header.embeddingModel === this.embedder.model
+      && header.embeddingDimension === this.embedder.dimensions;
+    return this.restoreMemories(
+      collection,
+      sameSpace ? entries : entries.map(({ embedding, ...entry }) => entry)
+    );
+  }
+  
+  /**
+   * Store entries as they are, replacing entries with the same id. Entries without an
+   * embedding are embedded. This default goes through add/update, so new entries get fresh
+   * ids and timestamps; providers that can store entries verbatim override it.
+   */
+  protected async restoreMemories(collection: string, entries: MemoryEntry[]): Promise<number> {
+    for (const entry of entries) {
+      const updated = await this.updateMemory(collection, entry.id, entry);
+      if (!updated) {
+        await this.addMemory(collection, entry.content, entry.metadata);
+      }
     }
+    return entries.length;
   }
   
   /**
@@ -238,7 +285,8 @@ export abstract class BaseMemoryService implements MemoryService {
     types: Record<string, number>;
   }> {
     const result = await this.searchMemories(collection, {
-      maxResults: 10000
+      maxResults: 10000,
+      includeEmbeddings: true
     });
     
     const memories = result.entries;
@@ -275,6 +323,10 @@ export async function createMemoryService(type: string, config?: MemoryProviderC
       // Dynamic import to avoid circular dependencies
       const { ChromaMemoryProvider } = await import('./chroma-memory-provider');
       return new ChromaMemoryProvider(config);
+    case 'file': {
+      const { FileMemoryProvider } = await import('./file-memory-provider');
+      return new FileMemoryProvider(config);
+    }
     default:
       throw new Error(`Unknown memory provider type: ${type}`);
   }
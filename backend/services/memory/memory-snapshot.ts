@@ -0,0 +1,139 @@
+/**
+ * Memory Snapshots
+ * Versioned export format for one memory collection: JSON Lines whose first line is a header
+ * describing the collection and its embedding space, followed by one entry per line.
+ * Entries keep their ids, timestamps and embeddings so a snapshot restores losslessly.
+ */
+
+import { ValidationError } from '../error/error-handler';
+import { MemoryEntry } from './memory-types';
+
+export const MEMORY_SNAPSHOT_FORMAT = 'memory-snapshot';
+export const MEMORY_SNAPSHOT_VERSION = 1;
+
+/**
+ * The fields every memory entry shares across memory service implementations
+ */
+export interface SnapshotEntry {
+  id: string;
+  content: string;
+  embedding?: number[];
+  metadata: object;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SnapshotHeader {
+  format: typeof MEMORY_SNAPSHOT_FORMAT;
+  version: number;
+  collection: string;
+  collectionMetadata?: Record<string, unknown>;
+  embeddingModel?: string;        // Vector space of the embeddings; unset when entries carry none
+  embeddingDimension?: number;
+  since?: number;                 // Set for incremental snapshots: only entries updated after this time
+  entryCount: number;
+  createdAt: number;
+}
+
+export interface SnapshotExportOptions {
+  since?: number;                 // Only export entries updated after this time
+}
+
+/**
+ * Thrown for data that is not a readable memory snapshot
+ */
+export class SnapshotFormatError extends ValidationError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, undefined, context);
+    this.name = 'SnapshotFormatError';
+  }
+}
+
+/**
+ * Write a snapshot of a collection
+ */
+export function serializeSnapshot<E extends SnapshotEntry = MemoryEntry>(
+  header: Omit<SnapshotHeader, 'format' | 'version' | 'entryCount'>,
+  entries: E[]
+): string {
+  const fullHeader: SnapshotHeader = {
+    format: MEMORY_SNAPSHOT_FORMAT,
+    version: MEMORY_SNAPSHOT_VERSION,
+    ...header,
+    entryCount: entries.length
+  };
+  return [fullHeader, ...entries].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+/**
+ * Read a snapshot. The plain JSON array written by earlier `exportMemories` versions is also
+ * accepted and gets a header without embedding information.
+ */
+export function parseSnapshot<E extends SnapshotEntry = MemoryEntry>(
+  data: string,
+  collection: string = ''
+): { header: SnapshotHeader; entries: E[] } {
+  const text = data.trim();
+
+  if (text.startsWith('[')) {
+    const entries = parseJson(text, 'legacy export') as E[];
+    if (!Array.isArray(entries)) {
+      throw new SnapshotFormatError('Legacy memory export is not an array');
+    }
+    entries.forEach((entry, index) => validateEntry(entry, index + 1));
+    return {
+      header: {
+        format: MEMORY_SNAPSHOT_FORMAT,
+        version: 0,
+        collection,
+        entryCount: entries.length,
+        createdAt: 0
+      },
+      entries
+    };
+  }
+
+  const lines = text.split('\n').filter(line => line.trim());
+  if (lines.length === 0) {
+    throw new SnapshotFormatError('Memory snapshot is empty');
+  }
+
+  const header = parseJson(lines[0], 'header') as SnapshotHeader;
+  if (header?.format !== MEMORY_SNAPSHOT_FORMAT) {
+    throw new SnapshotFormatError('Not a memory snapshot: missing header');
+  }
+  if (header.version > MEMORY_SNAPSHOT_VERSION) {
+    throw new SnapshotFormatError(
+      `Memory snapshot version ${header.version} is newer than supported version ${MEMORY_SNAPSHOT_VERSION}`,
+      { version: header.version }
+    );
+  }
+
+  const entries = lines.slice(1).map((line, index) => {
+    const entry = parseJson(line, `line ${index + 2}`) as E;
+    validateEntry(entry, index + 2);
+    return entry;
+  });
+  if (entries.length !== header.entryCount) {
+    throw new SnapshotFormatError(
+      `Memory snapshot is truncated: header lists ${header.entryCount} entries, found ${entries.length}`,
+      { expected: header.entryCount, actual: entries.length }
+    );
+  }
+
+  return { header, entries };
+}
+
+function parseJson(text: string, where: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SnapshotFormatError(`Invalid JSON in memory snapshot ${where}`, { where });
+  }
+}
+
+function validateEntry(entry: SnapshotEntry, line: number): void {
+  if (!entry || typeof entry.id !== 'string' || typeof entry.content !== 'string' || !entry.metadata) {
+    throw new SnapshotFormatError(`Memory snapshot entry on line ${line} needs an id, content and metadata`, { line });
+  }
+}
@@ -31,6 +31,8 @@ export interface MemoryMetadata {
   language?: string;       // Programming language if applicable
   title?: string;          // Optional title for the memory
   importance?: number;     // Importance score (0-10)
+  accessCount?: number;    // Times the memory was read or returned by a query search
+  lastAccessedAt?: number; // When it was last read or returned by a query search
   custom?: Record<string, any>; // Additional custom metadata
 }
 
@@ -46,14 +48,26 @@ export enum MemoryType {
   CONTEXT = 'context'
 }
 
+/**
+ * How a text query is matched against memories
+ */
+export enum SearchMode {
+  VECTOR = 'vector',       // Embedding similarity only
+  KEYWORD = 'keyword',     // BM25 over memory content only
+  HYBRID = 'hybrid'        // Both, fused by reciprocal rank
+}
+
 /**
  * Memory search parameters
  */
 export interface MemorySearchParams {
   // Content-based search
-  query?: string;          // Text query for semantic search
-  threshold?: number;      // Similarity threshold (0.0-1.0)
+  query?: string;          // Text query, matched by keywords and/or meaning depending on mode
+  mode?: SearchMode;       // How the query is matched; hybrid by default
+  threshold?: number;      // Vector similarity threshold (0.0-1.0); keyword matches are kept regardless
   maxResults?: number;     // Maximum number of results to return
+  mmrLambda?: number;      // Rerank for diversity with MMR (0 = most diverse, 1 = most relevant); off when unset
+  includeEmbeddings?: boolean; // Return entries with their embeddings
   
   // Metadata-based filters
   tags?: string[];         // Filter by specific tags
@@ -65,6 +79,9 @@ export interface MemorySearchParams {
   // Time-based filters
   startDate?: number;      // Filter by created/updated date
   endDate?: number;        // Filter by created/updated date
+  
+  // Pagination
+  cursor?: string;         // nextCursor from a previous search, to fetch the following page
 }
 
 /**
@@ -74,6 +91,17 @@ export interface MemorySearchResult {
   entries: MemoryEntry[];
   totalCount: number;
   nextCursor?: string;     // Pagination cursor for fetching more results
+  scores?: MemorySearchScore[]; // Parallel to entries; only for query searches
+}
+
+/**
+ * How a search result scored against the query
+ */
+export interface MemorySearchScore {
+  id: string;
+  score: number;           // Score the results are ordered by
+  vector?: number;         // Cosine similarity to the query embedding
+  keyword?: number;        // BM25 score; absent when no query term occurs in the entry
 }
 
 /**
@@ -81,7 +109,8 @@ export interface MemorySearchResult {
  */
 export interface CollectionOptions {
   name: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // Set `retention` to a RetentionPolicy to manage the collection's lifecycle
+  embeddingModel?: string;      // Embedding model the collection's vectors come from
   embeddingDimension?: number;
 }
 
@@ -90,6 +119,9 @@ export interface CollectionOptions {
  */
 export interface MemoryProviderConfig {
   persistencePath?: string; // Path for persistence storage
-  embeddingModel?: string;  // Model to use for embeddings
+  embeddingModel?: string;  // 'default' (offline hashing) or '<provider>:<model>', e.g. 'openai:text-embedding-3-small'
   dimensions?: number;      // Vector dimensions
+  embeddingApiKey?: string; // API key for a provider-backed embedding model
+  embeddingBaseUrl?: string; // Endpoint override for a provider-backed embedding model
+  embeddingCachePath?: string; // Directory for the embedding disk cache; no caching when unset
 }
\ No newline at end of file
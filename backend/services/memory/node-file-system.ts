@@ -0,0 +1,13 @@
+/**
+ * Node File System
+ * Loads the Node.js file modules on first use, so memory modules that can persist to disk
+ * still bundle for the browser, where only their other backends run
+ */
+
+/**
+ * Load the `fs` promises API and `path`. Call it in the code paths that touch the disk.
+ */
+export async function loadFileSystem() {
+  const [{ promises: fs }, path] = await Promise.all([import('fs'), import('path')]);
+  return { fs, path };
+}
@@ -0,0 +1,153 @@
+import { applyPatch } from './patch-applier';
+import { extractPatches, parseSearchReplace, parseUnifiedDiff } from './patch-parser';
+import { HunkStatus, PatchFormat } from './patch-types';
+import { StructuredResponse, updateResponseWithChanges } from '../response-handler';
+
+const lines = (...rows: string[]) => rows.join('\n');
+
+const code = lines(
+  'export function total(items) {',
+  '  let sum = 0;',
+  '  for (const item of items) {',
+  '    sum += item.price;',
+  '  }',
+  '  return sum;',
+  '}',
+  '',
+  'export function count(items) {',
+  '  return items.length;',
+  '}'
+);
+
+const response = (codeBlocks: Record<string, string>, rawResponse?: string): StructuredResponse => ({
+  codeBlocks,
+  rawResponse,
+  meta: {
+    provider: 'mock',
+    model: 'mock-model',
+    cost: 0,
+    tokens: { input: 0, output: 0, total: 0 },
+    timestamp: 0,
+    duration: 0
+  }
+});
+
+describe('patch application', () => {
+  it('applies unified diff hunks whose line numbers are off', () => {
+    const [patch] = parseUnifiedDiff(lines(
+      '--- a/cart.js',
+      '+++ b/cart.js',
+      '@@ -40,3 +40,3 @@',
+      '   for (const item of items) {',
+      '-    sum += item.price;',
+      '+    sum += item.price * item.quantity;',
+      '   }'
+    ));
+
+    const result = applyPatch(code, patch);
+
+    expect(patch).toMatchObject({ format: PatchFormat.UNIFIED_DIFF, target: 'js' });
+    expect(result.success).toBe(true);
+    expect(result.hunks).toEqual([{ hunkId: 'hunk-1', status: HunkStatus.APPLIED, line: 3 }]);
+    expect(result.code).toContain('    sum += item.price * item.quantity;');
+  });
+
+  it('matches drifted search blocks fuzzily and re-indents the replacement', () => {
+    const patch = parseSearchReplace(lines(
+      '<<<<<<< SEARCH',
+      '  export function count(list) {',
+      '    return items.length;',
+      '=======',
+      '  export function count(items) {',
+      '    return items.filter(Boolean).length;',
+      '>>>>>>> REPLACE'
+    ))!;
+
+    const result = applyPatch(code, patch);
+
+    expect(result.hunks[0]).toMatchObject({ status: HunkStatus.APPLIED_FUZZY, line: 9 });
+    expect(result.code.split('\n').slice(8)).toEqual([
+      'export function count(items) {',
+      '  return items.filter(Boolean).length;',
+      '}'
+    ]);
+  });
+
+  it('reports each hunk and skips ones already applied', () => {
+    const patch = parseSearchReplace(lines(
+      '<<<<<<< SEARCH',
+      '  return sum;',
+      '=======',
+      '  return Math.round(sum);',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  throw new Error("unreachable");',
+      '=======',
+      '  return 0;',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  return items.size;',
+      '=======',
+      '  return items.length;',
+      '>>>>>>> REPLACE'
+    ))!;
+
+    const result = applyPatch(code, patch);
+
+    expect(result.success).toBe(false);
+    expect(result.hunks.map(hunk => hunk.status)).toEqual([HunkStatus.APPLIED, HunkStatus.FAILED, HunkStatus.ALREADY_APPLIED]);
+  });
+
+  it('only treats a hunk as applied when its replacement is where the hunk goes', () => {
+    const [patch] = parseUnifiedDiff(lines(
+      '--- a/cart.js',
+      '+++ b/cart.js',
+      '@@ -10,1 +10,1 @@',
+      '-  return items.reduce((n) => n + 1, 0);',
+      '+  return sum;'
+    ));
+
+    const result = applyPatch(code, patch);
+
+    // `return sum;` closes total(), not count()
+    expect(result.success).toBe(false);
+    expect(result.hunks[0]).toMatchObject({ status: HunkStatus.FAILED });
+    expect(result.code).toBe(code);
+  });
+
+  it('patches responses in place and falls back to full replacement when a patch fails', () => {
+    const original = response({ js: code, css: 'body { margin: 0; }' });
+    const patchOutput = lines(
+      'Multiply by quantity:',
+      '```js',
+      '<<<<<<< SEARCH',
+      '    sum += item.price;',
+      '=======',
+      '    sum += item.price * item.quantity;',
+      '>>>>>>> REPLACE',
+      '```'
+    );
+    expect(extractPatches(patchOutput)).toHaveLength(1);
+
+    const patched = updateResponseWithChanges(original, response({ js: patchOutput.split('\n').slice(2, 7).join('\n') }, patchOutput));
+    expect(patched.codeBlocks.js).toContain('sum += item.price * item.quantity;');
+    expect(patched.codeBlocks.css).toBe('body { margin: 0; }');
+    expect(patched.patches).toEqual([expect.objectContaining({ language: 'js', fallback: 'none' })]);
+
+    const failingOutput = lines(
+      '```diff',
+      '--- a/app.js',
+      '+++ b/app.js',
+      '@@ -1,1 +1,1 @@',
+      '-const missing = true;',
+      '+const missing = false;',
+      '```',
+      '```js',
+      'export const rewritten = true;',
+      '```'
+    );
+    const replaced = updateResponseWithChanges(original, response({ js: 'export const rewritten = true;' }, failingOutput));
+    expect(replaced.codeBlocks.js).toBe('export const rewritten = true;');
+    expect(replaced.patches![0]).toMatchObject({ language: 'js', fallback: 'full_replacement', hunks: [{ status: HunkStatus.FAILED }] });
+  });
+});
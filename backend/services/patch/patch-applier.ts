@@ -0,0 +1,189 @@
+/**
+ * Patch Applier
+ * Applies parsed patches to code, tolerating the drift common in model-written edits:
+ * wrong line numbers, changed indentation and slightly misremembered context
+ */
+
+import { HunkResult, HunkStatus, ParsedPatch, PatchHunk, PatchOptions, PatchResult } from './patch-types';
+
+const DEFAULT_FUZZ_THRESHOLD = 0.8;
+// How far from where a hunk would go its replacement may be and still count as already applied
+const NEARBY_LINES = 3;
+
+interface Match {
+  index: number;
+  similarity: number;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let index = 0; index < text.length - 1; index++) {
+    const pair = text.slice(index, index + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice similarity of two lines' character bigrams, ignoring surrounding whitespace
+ */
+export function lineSimilarity(a: string, b: string): number {
+  const left = a.trim();
+  const right = b.trim();
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  let shared = 0;
+  for (const [pair, count] of bigrams(right)) {
+    shared += Math.min(count, leftPairs.get(pair) || 0);
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Find every position where `needle` occurs in `lines` under a line comparison
+ */
+function findAll(lines: string[], needle: string[], equal: (a: string, b: string) => boolean): number[] {
+  const positions: number[] = [];
+  for (let index = 0; index + needle.length <= lines.length; index++) {
+    if (needle.every((line, offset) => equal(lines[index + offset], line))) {
+      positions.push(index);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Pick the position closest to where the hunk expected to be
+ */
+function closest(positions: number[], expected: number): number | undefined {
+  return positions.reduce<number | undefined>(
+    (best, position) => best === undefined || Math.abs(position - expected) < Math.abs(best - expected) ? position : best,
+    undefined
+  );
+}
+
+/**
+ * Find where `needle` most resembles the code, preferring the position closest to `expected` on ties
+ */
+function findMostSimilar(lines: string[], needle: string[], expected: number): Match | undefined {
+  let best: Match | undefined;
+  for (let index = 0; index + needle.length <= lines.length; index++) {
+    const similarity = needle.reduce((sum, line, offset) => sum + lineSimilarity(lines[index + offset], line), 0) / needle.length;
+    const better = !best || similarity > best.similarity ||
+      (similarity === best.similarity && Math.abs(index - expected) < Math.abs(best.index - expected));
+    if (better) best = { index, similarity };
+  }
+  return best;
+}
+
+function findFuzzy(lines: string[], needle: string[], expected: number, threshold: number): Match | undefined {
+  const best = findMostSimilar(lines, needle, expected);
+  return best && best.similarity >= threshold ? best : undefined;
+}
+
+/**
+ * Whether the code already holds the hunk's replacement where the hunk would go: near the line
+ * its header gives, or near the lines most like its search lines. The same lines elsewhere in
+ * the code don't count.
+ */
+function isAlreadyApplied(lines: string[], hunk: PatchHunk, expected: number): boolean {
+  if (hunk.replace.length === 0) return false;
+
+  const anchors = [findMostSimilar(lines, hunk.search, expected)?.index];
+  if (hunk.oldStart !== undefined) anchors.push(expected);
+
+  return findAll(lines, hunk.replace, (a, b) => a === b).some(position =>
+    anchors.some(anchor => anchor !== undefined && Math.abs(position - anchor) <= NEARBY_LINES)
+  );
+}
+
+const indentOf = (line: string) => line.match(/^\s*/)![0];
+
+/**
+ * Re-indent replacement lines by the difference between the code's indentation and the
+ * hunk's, so an edit written at the wrong depth lands at the right one
+ */
+function reindent(replace: string[], search: string[], found: string[]): string[] {
+  const offset = search.findIndex(line => line.trim() !== '');
+  if (offset === -1) return replace;
+
+  const expected = indentOf(search[offset]);
+  const actual = indentOf(found[offset]);
+  if (expected === actual) return replace;
+
+  return replace.map(line => {
+    if (line.trim() === '') return line;
+    return line.startsWith(expected) ? actual + line.slice(expected.length) : line;
+  });
+}
+
+function applyHunk(lines: string[], hunk: PatchHunk, shift: number, threshold: number): { lines: string[]; result: HunkResult } {
+  const expected = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1 + shift) : 0;
+  const replaceAt = (index: number, replacement: string[]) =>
+    [...lines.slice(0, index), ...replacement, ...lines.slice(index + hunk.search.length)];
+
+  // Pure insertion: only a unified diff header says where
+  if (hunk.search.length === 0) {
+    const index = hunk.oldStart !== undefined ? Math.min(lines.length, hunk.oldStart + shift) : lines.length;
+    const base = lines.length === 1 && lines[0] === '' ? [] : lines;
+    return {
+      lines: [...base.slice(0, index), ...hunk.replace, ...base.slice(index)],
+      result: { hunkId: hunk.id, status: HunkStatus.APPLIED, line: index + 1 }
+    };
+  }
+
+  const exact = closest(findAll(lines, hunk.search, (a, b) => a === b), expected);
+  if (exact !== undefined) {
+    return { lines: replaceAt(exact, hunk.replace), result: { hunkId: hunk.id, status: HunkStatus.APPLIED, line: exact + 1 } };
+  }
+
+  if (isAlreadyApplied(lines, hunk, expected)) {
+    return { lines, result: { hunkId: hunk.id, status: HunkStatus.ALREADY_APPLIED } };
+  }
+
+  const loose = closest(findAll(lines, hunk.search, (a, b) => a.trim() === b.trim()), expected);
+  const match = loose !== undefined
+    ? { index: loose, similarity: 1 }
+    : findFuzzy(lines, hunk.search, expected, threshold);
+  if (!match) {
+    return {
+      lines,
+      result: { hunkId: hunk.id, status: HunkStatus.FAILED, reason: 'Search lines not found in the code' }
+    };
+  }
+
+  const found = lines.slice(match.index, match.index + hunk.search.length);
+  return {
+    lines: replaceAt(match.index, reindent(hunk.replace, hunk.search, found)),
+    result: { hunkId: hunk.id, status: HunkStatus.APPLIED_FUZZY, line: match.index + 1, similarity: match.similarity }
+  };
+}
+
+/**
+ * Apply a patch's hunks in order. A hunk that can't be placed is reported as failed and the
+ * rest are still tried; `success` is only true when every hunk applied.
+ */
+export function applyPatch(code: string, patch: ParsedPatch, options: PatchOptions = {}): PatchResult {
+  const threshold = options.fuzzThreshold ?? DEFAULT_FUZZ_THRESHOLD;
+  let lines = code.split('\n');
+  // Lines added by earlier hunks move later hunks' expected positions
+  let shift = 0;
+  const hunks: HunkResult[] = [];
+
+  for (const hunk of patch.hunks) {
+    const applied = applyHunk(lines, hunk, shift, threshold);
+    if (applied.result.status === HunkStatus.APPLIED || applied.result.status === HunkStatus.APPLIED_FUZZY) {
+      shift += applied.lines.length - lines.length;
+    }
+    lines = applied.lines;
+    hunks.push(applied.result);
+  }
+
+  return {
+    code: lines.join('\n'),
+    success: hunks.every(result => result.status !== HunkStatus.FAILED),
+    hunks
+  };
+}
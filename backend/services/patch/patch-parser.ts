@@ -0,0 +1,166 @@
+/**
+ * Patch Parser
+ * Finds unified diffs and search/replace blocks in model output
+ */
+
+import { ParsedPatch, PatchFormat, PatchHunk } from './patch-types';
+
+const FENCE_PATTERN = /```([\w#+.-]+)?[^\n]*\n([\s\S]*?)```/g;
+const SEARCH_REPLACE_PATTERN = /^<{5,9} SEARCH[^\n]*\n([\s\S]*?)^={5,9}[ \t]*\n([\s\S]*?)^>{5,9} REPLACE[^\n]*$/gm;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+const DIFF_LANGUAGES = ['diff', 'patch', 'udiff'];
+
+/**
+ * Tells a model to write edits in the search/replace format this parser reads
+ */
+export const SEARCH_REPLACE_INSTRUCTIONS = [
+  'Reply with only the changes, not the whole code. Write each change as a search/replace block',
+  'inside a code block tagged with the language, where SEARCH holds the exact lines to change,',
+  'with enough surrounding lines to be unique:',
+  '<<<<<<< SEARCH',
+  'lines to find',
+  '=======',
+  'lines to put in their place',
+  '>>>>>>> REPLACE'
+].join('\n');
+
+// File extensions and the language tags used for code blocks
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'js', jsx: 'js', mjs: 'js', cjs: 'js',
+  ts: 'ts', tsx: 'ts',
+  py: 'python',
+  html: 'html', htm: 'html',
+  css: 'css',
+  java: 'java', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', cs: 'c#',
+  go: 'go', rs: 'rust', rb: 'ruby', php: 'php', swift: 'swift', kt: 'kotlin',
+  sh: 'bash', sql: 'sql', json: 'json', yml: 'yaml', yaml: 'yaml', md: 'markdown'
+};
+
+/**
+ * Language of a file name, from its extension
+ */
+export function languageForFile(fileName: string): string | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_LANGUAGES[extension] : undefined;
+}
+
+// A patch's own lines without the trailing newline that would add an empty line
+function toLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Parse search/replace blocks:
+ *
+ *   <<<<<<< SEARCH
+ *   old lines
+ *   =======
+ *   new lines
+ *   >>>>>>> REPLACE
+ */
+export function parseSearchReplace(text: string, target?: string): ParsedPatch | null {
+  const hunks: PatchHunk[] = [];
+  for (const match of text.matchAll(SEARCH_REPLACE_PATTERN)) {
+    hunks.push({ id: `hunk-${hunks.length + 1}`, search: toLines(match[1]), replace: toLines(match[2]) });
+  }
+
+  return hunks.length > 0 ? { format: PatchFormat.SEARCH_REPLACE, target, hunks } : null;
+}
+
+/**
+ * Parse a unified diff, one patch per file. Hunk line counts are not trusted: models often get
+ * them wrong, so a hunk runs until the next header.
+ */
+export function parseUnifiedDiff(text: string, target?: string): ParsedPatch[] {
+  const patches: ParsedPatch[] = [];
+  let patch: ParsedPatch | undefined;
+  let hunk: PatchHunk | undefined;
+
+  const startPatch = (fileTarget?: string) => {
+    patch = { format: PatchFormat.UNIFIED_DIFF, target: fileTarget ?? target, hunks: [] };
+    patches.push(patch);
+  };
+
+  const lines = text.split('\n');
+  for (const [index, line] of lines.entries()) {
+    // A removed line can start with '--- ' too (e.g. a SQL comment); headers come in pairs
+    if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      hunk = undefined;
+      continue;
+    }
+    if (line.startsWith('+++ ') && lines[index - 1]?.startsWith('--- ')) {
+      const fileName = line.slice(4).trim().replace(/^b\//, '').split(/\s/)[0];
+      startPatch(fileName && fileName !== '/dev/null' ? languageForFile(fileName) ?? fileName : undefined);
+      hunk = undefined;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header || line.startsWith('@@')) {
+      if (!patch) startPatch();
+      hunk = { id: `hunk-${patch!.hunks.length + 1}`, search: [], replace: [], oldStart: header ? Number(header[1]) : undefined };
+      patch!.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+
+    if (line.startsWith('+')) {
+      hunk.replace.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      hunk.search.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      // Editors and models often strip the space from empty context lines
+      hunk.search.push(line.slice(1));
+      hunk.replace.push(line.slice(1));
+    }
+  }
+
+  // Drop trailing empty context picked up from the blank line after a hunk
+  for (const parsed of patches) {
+    for (const item of parsed.hunks) {
+      while (item.search.length > 0 && item.replace.length > 0 &&
+        item.search[item.search.length - 1] === '' && item.replace[item.replace.length - 1] === '') {
+        item.search.pop();
+        item.replace.pop();
+      }
+    }
+  }
+
+  return patches.filter(parsed => parsed.hunks.length > 0);
+}
+
+/**
+ * Whether a code block holds a patch rather than code
+ */
+export function isPatchBlock(language: string, code: string): boolean {
+  return DIFF_LANGUAGES.includes(language.toLowerCase()) || /^<{5,9} SEARCH/m.test(code);
+}
+
+/**
+ * Find every patch in model output. Search/replace blocks inside a fenced block target the
+ * fence's language; unified diffs target the file in their `+++` header.
+ */
+export function extractPatches(output: string): ParsedPatch[] {
+  const patches: ParsedPatch[] = [];
+  let outside = '';
+  let lastIndex = 0;
+
+  for (const match of output.matchAll(FENCE_PATTERN)) {
+    outside += output.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const language = (match[1] || '').toLowerCase();
+    if (DIFF_LANGUAGES.includes(language)) {
+      patches.push(...parseUnifiedDiff(match[2]));
+    } else {
+      const patch = parseSearchReplace(match[2], language || undefined);
+      if (patch) patches.push(patch);
+    }
+  }
+  outside += output.slice(lastIndex);
+
+  const unfenced = parseSearchReplace(outside);
+  if (unfenced) patches.push(unfenced);
+
+  return patches;
+}
@@ -0,0 +1,74 @@
+/**
+ * Patch Types
+ * Defines edits returned by models as changes to existing code rather than whole files
+ */
+
+/**
+ * How a model wrote its edit
+ */
+export enum PatchFormat {
+  UNIFIED_DIFF = 'unified_diff',
+  SEARCH_REPLACE = 'search_replace'
+}
+
+/**
+ * One change: the lines to find and the lines to put in their place.
+ * Unified diff hunks become `search` = context and removed lines, `replace` = context and added lines.
+ */
+export interface PatchHunk {
+  id: string;
+  search: string[];
+  replace: string[];
+  oldStart?: number;              // 1-based line the hunk claims to start at, from a unified diff header
+}
+
+/**
+ * The hunks for one code block
+ */
+export interface ParsedPatch {
+  format: PatchFormat;
+  target?: string;                // Language or file name the patch is for, when the model said
+  hunks: PatchHunk[];
+}
+
+export enum HunkStatus {
+  APPLIED = 'applied',                    // Found exactly where the hunk said
+  APPLIED_FUZZY = 'applied_fuzzy',        // Found after ignoring whitespace or small differences
+  ALREADY_APPLIED = 'already_applied',    // The code already contains the replacement
+  FAILED = 'failed'
+}
+
+export interface HunkResult {
+  hunkId: string;
+  status: HunkStatus;
+  line?: number;                  // 1-based line the hunk was applied at
+  similarity?: number;            // 0-1 match quality for fuzzy matches
+  reason?: string;
+}
+
+export interface PatchResult {
+  code: string;
+  success: boolean;               // Whether every hunk applied
+  hunks: HunkResult[];
+}
+
+export interface PatchOptions {
+  /**
+   * Minimum similarity (0-1) for a fuzzy match; 0.8 by default
+   */
+  fuzzThreshold?: number;
+}
+
+/**
+ * What happened to one code block when a response was updated from a follow-up
+ */
+export interface PatchReport {
+  language: string;
+  format: PatchFormat;
+  hunks: HunkResult[];
+  /**
+   * 'none' when the patch applied; otherwise the block was replaced by the full code in the
+   * update, or left unchanged when the update had none
+   */
+  fallback: 'none' | 'full_replacement' | 'unchanged';
+}
@@ -6,6 +6,10 @@
 import { StructuredResponse } from '../response-handler';
 import { Task } from '../agent/task-manager';
 import { Session } from '../session-manager';
+import { TemplateIssueCode, TemplateVariable } from '../prompt-builder/interfaces/prompt-template';
+import { TemplateError, applyVariableDefaults } from '../prompt-builder/prompt-template';
+import { ValidationError } from '../error/error-handler';
+import { validateSchema } from '../../core/json-schema-validator';
 
 // Plugin types
 export enum PluginType {
@@ -62,7 +66,7 @@ export interface PresetPlugin extends Plugin {
 export interface TemplatePlugin extends Plugin {
   type: PluginType.TEMPLATE;
   files: Array<{path: string, content: string}>;
-  variables: Array<{name: string, description: string, default?: string}>;
+  variables: TemplateVariable[];
   applyTemplate: (variables: Record<string, string>) => Promise<Map<string, string>>;
 }
 
@@ -258,15 +262,25 @@ export class PluginManager {
       throw new Error(`Tool plugin with ID ${pluginId} is disabled.`);
     }
     
+    // Validate input before running the tool, so bad arguments never reach it
+    const inputErrors = plugin.inputSchema ? validateSchema(input, plugin.inputSchema) : [];
+    if (inputErrors.length > 0) {
+      throw new ValidationError(
+        `Invalid input for tool ${pluginId}: ${inputErrors.map(error => `${error.path || '(root)'} ${error.message}`).join('; ')}`,
+        undefined,
+        { pluginId, errors: inputErrors }
+      );
+    }
+    
     try {
-      // Validate input
-      // In a real implementation, we would validate against inputSchema
-      
       // Execute the tool
       let result = await plugin.execute(input);
       
-      // Validate output
-      // In a real implementation, we would validate against outputSchema
+      // A tool returning the wrong shape is a bug in the tool, not the caller, so only warn
+      const outputErrors = plugin.outputSchema ? validateSchema(result, plugin.outputSchema) : [];
+      if (outputErrors.length > 0) {
+        console.warn(`Tool plugin ${pluginId} returned output that does not match its schema:`, outputErrors);
+      }
       
       return result;
     } catch (error) {
@@ -364,8 +378,25 @@ export class PluginManager {
       throw new Error(`Template plugin with ID ${pluginId} is disabled.`);
     }
     
+    // Fill in declared defaults and make sure every declared variable has a value
+    const resolved = applyVariableDefaults(plugin.variables, variables) as Record<string, string>;
+    const missing = plugin.variables
+      .filter(variable => resolved[variable.name] === undefined)
+      .map(variable => ({
+        code: TemplateIssueCode.MISSING_VARIABLE,
+        variable: variable.name,
+        message: `Missing template variable: ${variable.name} (${variable.description})`
+      }));
+    
+    if (missing.length > 0) {
+      throw new TemplateError(
+        `Template ${pluginId} is missing variables: ${missing.map(issue => issue.variable).join(', ')}`,
+        missing
+      );
+    }
+    
     try {
-      return await plugin.applyTemplate(variables);
+      return await plugin.applyTemplate(resolved);
     } catch (error) {
       console.error(`Error applying template ${pluginId}:`, error);
       throw new Error(`Failed to apply template: ${error instanceof Error ? error.message : String(error)}`);
@@ -551,7 +582,7 @@ export function MyComponent() {
       ],
       variables: [
         { name: 'projectName', description: 'Name of the project', default: 'react-app' },
-        { name: 'description', description: 'Project description' }
+        { name: 'description', description: 'Project description', default: 'A React application' }
       ],
       applyTemplate: async (variables: Record<string, string>) => {
         // In a real implementation, this would generate all project files
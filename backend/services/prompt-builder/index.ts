@@ -0,0 +1,27 @@
+/**
+ * Prompt Builder
+ * Exports prompt layers, composition interfaces, memory retrieval, the prompt composer and recipe store
+ */
+
+export * from './interfaces/prompt-layer';
+export * from './interfaces/prompt-composition';
+export * from './interfaces/prompt-recipe';
+export * from './interfaces/prompt-template';
+export * from './interfaces/memory-retrieval';
+
+export * from './layers/system-prompt-layer';
+export * from './layers/task-instruction-layer';
+export * from './layers/memory-layer';
+export * from './layers/user-preferences-layer';
+export * from './layers/static-layer';
+
+export * from './strategies/base-strategy';
+export * from './strategies/priority-concatenation-strategy';
+export * from './strategies/xml-sections-strategy';
+export * from './strategies/chat-messages-strategy';
+
+export * from './prompt-template';
+export * from './token-budget';
+export * from './memory-retrieval';
+export * from './prompt-composer';
+export * from './prompt-recipe-store';
@@ -0,0 +1,82 @@
+/**
+ * Interfaces for filling memory layers from the memory service
+ */
+
+/**
+ * Ways of choosing memories for a prompt
+ */
+export enum MemoryQueryStrategy {
+  RECENT_CHAT = 'recent_chat',
+  SIMILAR_TO_TASK = 'similar_to_task',
+  PINNED_REFERENCES = 'pinned_references'
+}
+
+/**
+ * One query run against the memory service when a layer is filled
+ */
+export interface MemoryQuery {
+  strategy: MemoryQueryStrategy;
+
+  /**
+   * Collection to search; defaults to the retrieval config's collection
+   */
+  collection?: string;
+
+  /**
+   * Most memories this query contributes: the last N chats, the top K matches, or the pinned count
+   */
+  limit?: number;
+
+  /**
+   * Minimum similarity, for SIMILAR_TO_TASK
+   */
+  threshold?: number;
+
+  /**
+   * Tag marking a REFERENCE memory as pinned, for PINNED_REFERENCES; 'pinned' by default
+   */
+  pinTag?: string;
+}
+
+/**
+ * How a memory layer is filled
+ */
+export interface MemoryRetrievalConfig {
+  /**
+   * Queries in order of precedence; earlier queries claim the token budget first
+   */
+  queries: MemoryQuery[];
+
+  /**
+   * Default collection for queries that don't name one
+   */
+  collection: string;
+
+  /**
+   * Tokens the retrieved memories may use in total
+   */
+  maxTokens?: number;
+}
+
+/**
+ * What a composition is about, used to run memory queries
+ */
+export interface RetrievalContext {
+  sessionId?: string;
+
+  /**
+   * Text to find similar memories for; usually the task instruction
+   */
+  task?: string;
+}
+
+/**
+ * A memory included in a prompt, so responses can be traced back to it
+ */
+export interface MemoryCitation {
+  memoryId: string;
+  collection: string;
+  strategy: MemoryQueryStrategy;
+  layerId: string;
+  tokens: number;
+}
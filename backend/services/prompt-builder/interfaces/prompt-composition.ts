@@ -3,6 +3,7 @@
  */
 
 import { PromptLayer } from './prompt-layer';
+import { TemplateIssue, TemplateVariable, TemplateVariables } from './prompt-template';
 
 /**
  * Interface for a composed prompt
@@ -42,6 +43,16 @@ export interface ComposedPrompt {
      */
     excludedLayers?: PromptLayer[];
     
+    /**
+     * Why each layer was excluded, trimmed or truncated
+     */
+    exclusions?: LayerExclusion[];
+    
+    /**
+     * Missing and unused template variables, when composed with variables
+     */
+    templateIssues?: TemplateIssue[];
+    
     /**
      * Additional composition metadata
      */
@@ -49,6 +60,47 @@ export interface ComposedPrompt {
   };
 }
 
+/**
+ * Reasons a layer can be left out of, or cut down in, a composition
+ */
+export enum ExclusionReason {
+  DISABLED = 'disabled',
+  EMPTY = 'empty',
+  OVER_BUDGET = 'over_budget',
+  ENTRIES_TRIMMED = 'entries_trimmed',
+  TRUNCATED = 'truncated'
+}
+
+/**
+ * A single exclusion decision made during composition
+ */
+export interface LayerExclusion {
+  /**
+   * ID of the affected layer
+   */
+  layerId: string;
+  
+  /**
+   * Type of the affected layer
+   */
+  layerType: string;
+  
+  /**
+   * Why the layer was excluded or reduced
+   */
+  reason: ExclusionReason;
+  
+  /**
+   * Estimated tokens freed by this decision
+   */
+  tokensFreed?: number;
+  
+  /**
+   * Human-readable detail (e.g. how many entries were trimmed)
+   */
+  detail?: string;
+}
+
 /**
  * Strategy for composing layers into a prompt
  */
@@ -61,9 +113,10 @@ export interface CompositionStrategy {
   /**
    * Compose multiple layers into a single prompt
    * @param layers The layers to compose
+   * @param context Optional formatters and estimators supplied by the composer
    * @returns The composed prompt
    */
-  compose(layers: PromptLayer[]): ComposedPrompt;
+  compose(layers: PromptLayer[], context?: CompositionContext): ComposedPrompt;
 }
 
 /**
@@ -76,6 +129,41 @@ export type LayerFormatter = (layer: PromptLayer) => string;
  */
 export type TokenEstimator = (text: string) => number;
 
+/**
+ * Per-call settings handed from the composer to a strategy
+ */
+export interface CompositionContext {
+  /**
+   * Custom formatters keyed by layer type
+   */
+  formatters?: Map<string, LayerFormatter>;
+  
+  /**
+   * Function to estimate token count of text
+   */
+  tokenEstimator?: TokenEstimator;
+  
+  /**
+   * Break priority ties by layer id instead of input order
+   */
+  deterministicOrder?: boolean;
+  
+  /**
+   * Variables for rendering layer content as templates; templates are left as-is when omitted
+   */
+  variables?: TemplateVariables;
+  
+  /**
+   * Declared variables, whose defaults fill in for missing values
+   */
+  variableDeclarations?: TemplateVariable[];
+  
+  /**
+   * Throw a TemplateError when template variables are missing
+   */
+  strictVariables?: boolean;
+}
+
 /**
  * Configuration for a prompt composition
  */
@@ -104,6 +192,21 @@ export interface CompositionConfig {
    * Should composition be done in a deterministic order
    */
   deterministicOrder?: boolean;
+  
+  /**
+   * Default template variables, merged under the variables passed to compose()
+   */
+  variables?: TemplateVariables;
+  
+  /**
+   * Declared template variables and their defaults
+   */
+  variableDeclarations?: TemplateVariable[];
+  
+  /**
+   * Throw when template variables are missing instead of reporting them
+   */
+  strictVariables?: boolean;
 }
 
 /**
@@ -38,6 +38,12 @@ export interface PromptLayer {
    */
   enabled: boolean;
   
+  /**
+   * Whether the content is a template rendered with the composition variables.
+   * Off unless set, so code or memories containing `{{` pass through as written.
+   */
+  template?: boolean;
+  
   /**
    * Get the content of this layer
    * @returns The layer content string
@@ -82,6 +88,7 @@ export abstract class BasePromptLayer implements MutablePromptLayer {
   type: string;
   priority: number;
   enabled: boolean;
+  template: boolean;
   protected content: string;
   
   constructor(id: string, type: string, content: string = '', priority: number = LayerPriority.MEDIUM) {
@@ -90,12 +97,20 @@ export abstract class BasePromptLayer implements MutablePromptLayer {
     this.content = content;
     this.priority = priority;
     this.enabled = true;
+    this.template = false;
   }
   
   getContent(): string {
     return this.content;
   }
   
+  /**
+   * Get the layer's own content, without anything subclasses add in getContent()
+   */
+  getRawContent(): string {
+    return this.content;
+  }
+  
   setContent(content: string): void {
     this.content = content;
   }
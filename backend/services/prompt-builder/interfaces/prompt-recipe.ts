@@ -0,0 +1,136 @@
+/**
+ * Interfaces for serializable prompt recipes
+ */
+
+import { PromptLayer } from './prompt-layer';
+
+/**
+ * Current version of the recipe file format
+ */
+export const PROMPT_RECIPE_FORMAT_VERSION = 1;
+
+/**
+ * A layer in serializable form
+ */
+export interface SerializedLayer {
+  id: string;
+  type: string;
+  priority: number;
+  enabled: boolean;
+  
+  /**
+   * Set when the content is a template
+   */
+  template?: boolean;
+  
+  /**
+   * The layer's own content, without generated sections (examples, entries, preferences)
+   */
+  content: string;
+  
+  /**
+   * Type-specific state, e.g. memory entries or user preferences
+   */
+  state?: Record<string, unknown>;
+}
+
+/**
+ * A versioned, serializable stack of layers
+ */
+export interface PromptRecipe {
+  /**
+   * Recipe file format version
+   */
+  formatVersion: number;
+  
+  /**
+   * Recipe name, unique within a store
+   */
+  name: string;
+  
+  /**
+   * Version of this recipe, starting at 1
+   */
+  version: number;
+  
+  description?: string;
+  author?: string;
+  tags?: string[];
+  
+  /**
+   * ISO timestamp of when this version was saved
+   */
+  createdAt: string;
+  
+  layers: SerializedLayer[];
+}
+
+/**
+ * Summary of a stored recipe
+ */
+export interface PromptRecipeSummary {
+  name: string;
+  description?: string;
+  latestVersion: number;
+  versionCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Options when saving a recipe version
+ */
+export interface SaveRecipeOptions {
+  description?: string;
+  author?: string;
+  tags?: string[];
+}
+
+/**
+ * A change to a single layer between two recipe versions
+ */
+export interface LayerChange {
+  layerId: string;
+  
+  /**
+   * Names of the fields that differ (e.g. 'content', 'priority', 'state')
+   */
+  fields: string[];
+  
+  before: SerializedLayer;
+  after: SerializedLayer;
+}
+
+/**
+ * Differences between two recipe versions
+ */
+export interface RecipeDiff {
+  name: string;
+  fromVersion: number;
+  toVersion: number;
+  added: SerializedLayer[];
+  removed: SerializedLayer[];
+  changed: LayerChange[];
+  
+  /**
+   * Whether the layers present in both versions appear in a different order
+   */
+  reordered: boolean;
+}
+
+/**
+ * Captures and restores the state a layer factory can't recreate on its own
+ */
+export interface LayerStateCodec<T extends PromptLayer = PromptLayer> {
+  /**
+   * Capture type-specific state
+   * @param layer The layer to capture
+   */
+  capture(layer: T): Record<string, unknown> | undefined;
+  
+  /**
+   * Restore captured state onto a layer created by the factory
+   * @param layer The newly created layer
+   * @param state The captured state
+   */
+  restore(layer: T, state: Record<string, unknown>): void;
+}
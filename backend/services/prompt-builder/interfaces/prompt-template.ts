@@ -0,0 +1,87 @@
+/**
+ * Interfaces for prompt templates
+ */
+
+/**
+ * Variables supplied when rendering a template
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * A declared template variable
+ */
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  
+  /**
+   * Value used when the variable isn't supplied
+   */
+  default?: string;
+}
+
+/**
+ * Kinds of template problems
+ */
+export enum TemplateIssueCode {
+  SYNTAX_ERROR = 'syntax_error',
+  MISSING_VARIABLE = 'missing_variable',
+  UNUSED_VARIABLE = 'unused_variable'
+}
+
+/**
+ * A problem found while parsing or rendering a template
+ */
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  message: string;
+  
+  /**
+   * The variable involved, for missing/unused variables
+   */
+  variable?: string;
+  
+  /**
+   * Character offset in the template source
+   */
+  position?: number;
+  
+  /**
+   * Id of the layer the template came from, when rendered during composition
+   */
+  layerId?: string;
+}
+
+/**
+ * Result of rendering a template
+ */
+export interface TemplateRenderResult {
+  text: string;
+  
+  /**
+   * Top-level variables the template needed but didn't get
+   */
+  missing: string[];
+  
+  /**
+   * Supplied variables the template never referenced
+   */
+  unused: string[];
+  
+  issues: TemplateIssue[];
+}
+
+/**
+ * Options for rendering a template
+ */
+export interface TemplateRenderOptions {
+  /**
+   * Declared variables; their defaults fill in for missing values
+   */
+  declarations?: TemplateVariable[];
+  
+  /**
+   * Throw a TemplateError when variables are missing
+   */
+  strict?: boolean;
+}
@@ -4,6 +4,7 @@
  */
 
 import { BasePromptLayer, LayerPriority, PromptLayer, PromptLayerFactory, MetadataPromptLayer, PromptLayerMetadata } from '../interfaces/prompt-layer';
+import { MemoryCitation, MemoryRetrievalConfig } from '../interfaces/memory-retrieval';
 
 /**
  * Types of memory entries
@@ -44,6 +45,33 @@ export interface MemoryEntry {
    * Source of this memory (conversation, file, etc.)
    */
   source?: string;
+  
+  /**
+   * Where the entry came from, for entries retrieved from the memory service
+   */
+  citation?: Omit<MemoryCitation, 'layerId' | 'tokens'>;
+}
+
+/**
+ * Render an entry the way it appears in the layer's content: a header with its type,
+ * source, memory id and timestamp, then the content
+ */
+export function formatMemoryEntry(entry: MemoryEntry): string {
+  let result = `[${entry.type.toUpperCase()}]`;
+  
+  if (entry.source) {
+    result += ` (from ${entry.source})`;
+  }
+  
+  if (entry.citation) {
+    result += ` [memory ${entry.citation.memoryId}]`;
+  }
+  
+  if (entry.timestamp) {
+    result += ` ${entry.timestamp.toISOString()}`;
+  }
+  
+  return `${result}:\n${entry.content}\n\n`;
 }
 
 /**
@@ -55,6 +83,11 @@ export class MemoryLayer extends BasePromptLayer implements MetadataPromptLayer
    */
   private entries: MemoryEntry[] = [];
   
+  /**
+   * Queries that fill this layer from the memory service, if any
+   */
+  private retrieval?: MemoryRetrievalConfig;
+  
   /**
    * Layer metadata
    */
@@ -74,7 +107,9 @@ export class MemoryLayer extends BasePromptLayer implements MetadataPromptLayer
   clone(): PromptLayer {
     const clone = new MemoryLayer(this.id, this.content, this.priority);
     clone.enabled = this.enabled;
+    clone.template = this.template;
     clone.entries = [...this.entries];
+    clone.retrieval = this.retrieval;
     clone.metadata = { ...this.metadata };
     return clone;
   }
@@ -97,19 +132,7 @@ export class MemoryLayer extends BasePromptLayer implements MetadataPromptLayer
     );
     
     for (const entry of sortedEntries) {
-      result += `[${entry.type.toUpperCase()}]`;
-      
-      if (entry.source) {
-        result += ` (from ${entry.source})`;
-      }
-      
-      if (entry.timestamp) {
-        result += ` ${entry.timestamp.toISOString()}`;
-      }
-      
-      result += ':\n';
-      result += entry.content;
-      result += '\n\n';
+      result += formatMemoryEntry(entry);
     }
     
     return result;
@@ -139,6 +162,53 @@ export class MemoryLayer extends BasePromptLayer implements MetadataPromptLayer
     this.metadata.lastModified = new Date();
   }
   
+  /**
+   * Remove the oldest entry. Entries without a timestamp count as older than any timestamped entry.
+   * @returns The removed entry, or undefined if the layer has no entries
+   */
+  removeOldestEntry(): MemoryEntry | undefined {
+    if (this.entries.length === 0) {
+      return undefined;
+    }
+    
+    let oldestIndex = 0;
+    for (let i = 1; i < this.entries.length; i++) {
+      const current = this.entries[i].timestamp?.getTime() ?? -Infinity;
+      const oldest = this.entries[oldestIndex].timestamp?.getTime() ?? -Infinity;
+      if (current < oldest) {
+        oldestIndex = i;
+      }
+    }
+    
+    const [removed] = this.entries.splice(oldestIndex, 1);
+    this.metadata.lastModified = new Date();
+    return removed;
+  }
+  
+  /**
+   * Fill this layer from the memory service on each composition
+   * @param config The queries to run, or undefined to stop retrieving
+   */
+  setRetrieval(config?: MemoryRetrievalConfig): void {
+    this.retrieval = config;
+  }
+  
+  /**
+   * Get the retrieval configuration, if the layer is filled from the memory service
+   */
+  getRetrieval(): MemoryRetrievalConfig | undefined {
+    return this.retrieval;
+  }
+  
+  /**
+   * Replace previously retrieved entries with new ones; manually added entries are kept
+   * @param entries Entries retrieved from the memory service
+   */
+  setRetrievedEntries(entries: MemoryEntry[]): void {
+    this.entries = [...this.entries.filter(entry => !entry.citation), ...entries];
+    this.metadata.lastModified = new Date();
+  }
+  
   /**
    * Filter entries by type
    * @param type The type to filter by
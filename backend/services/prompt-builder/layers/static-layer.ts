@@ -0,0 +1,24 @@
+/**
+ * Static Layer Implementation
+ * A layer with fixed, final content, used for truncated or pre-rendered layers
+ */
+
+import { BasePromptLayer, PromptLayer } from '../interfaces/prompt-layer';
+
+/**
+ * Static layer - stands in for another layer with already-final content.
+ * Its content is never treated as a template.
+ */
+export class StaticLayer extends BasePromptLayer {
+  constructor(source: PromptLayer, content: string) {
+    super(source.id, source.type, content, source.priority);
+    this.enabled = source.enabled;
+  }
+
+  /**
+   * Create a clone of this layer
+   */
+  clone(): PromptLayer {
+    return new StaticLayer(this, this.content);
+  }
+}
@@ -19,6 +19,7 @@ export class SystemPromptLayer extends BasePromptLayer {
   clone(): PromptLayer {
     const clone = new SystemPromptLayer(this.id, this.content, this.priority);
     clone.enabled = this.enabled;
+    clone.template = this.template;
     return clone;
   }
 
@@ -24,6 +24,7 @@ export class TaskInstructionLayer extends BasePromptLayer {
   clone(): PromptLayer {
     const clone = new TaskInstructionLayer(this.id, this.content, this.priority);
     clone.enabled = this.enabled;
+    clone.template = this.template;
     clone.examples = [...this.examples];
     return clone;
   }
@@ -94,6 +94,7 @@ export class UserPreferencesLayer extends BasePromptLayer {
   clone(): PromptLayer {
     const clone = new UserPreferencesLayer(this.id, this.content, { ...this.preferences }, this.priority);
     clone.enabled = this.enabled;
+    clone.template = this.template;
     return clone;
   }
   
@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PromptComposer } from './prompt-composer';
+import { MemoryLayer, MemoryEntryType } from './layers/memory-layer';
+import { TaskInstructionLayer } from './layers/task-instruction-layer';
+import { LayerPriority } from './interfaces/prompt-layer';
+import { MemoryCitation, MemoryQueryStrategy } from './interfaces/memory-retrieval';
+import { retrieveMemories } from './memory-retrieval';
+import { FileMemoryProvider } from '../memory/file-memory-provider';
+import { ChromaMemoryProvider } from '../memory/chroma-memory-provider';
+import { MemoryType } from '../memory/memory-types';
+
+const words = (text: string) => text.split(/\s+/).length;
+
+describe('memory retrieval', () => {
+  let directory: string;
+  let memory: FileMemoryProvider;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'memory-retrieval-'));
+    memory = new FileMemoryProvider({ persistencePath: directory, dimensions: 128 });
+
+    const now = vi.spyOn(Date, 'now');
+    const add = (time: number, content: string, type: MemoryType, extra: { sessionId?: string; tags?: string[] } = {}) => {
+      now.mockReturnValue(time);
+      return memory.addMemory('project', content, { type, source: 'user', tags: [], ...extra });
+    };
+    await add(1, 'We chose PostgreSQL for the orders service', MemoryType.CHAT, { sessionId: 's1' });
+    await add(2, 'Please keep functions under forty lines', MemoryType.CHAT, { sessionId: 's1' });
+    await add(3, 'An unrelated chat from another session', MemoryType.CHAT, { sessionId: 's2' });
+    await add(4, 'Style guide: prefer named exports', MemoryType.REFERENCE, { tags: ['pinned'] });
+    await add(5, 'function retryWithBackoff(request) { /* exponential backoff */ }', MemoryType.CODE);
+    now.mockRestore();
+  });
+
+  afterEach(async () => {
+    await memory.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('runs queries in order, without duplicates, within the token budget', async () => {
+    const entries = await retrieveMemories(memory, {
+      collection: 'project',
+      queries: [
+        { strategy: MemoryQueryStrategy.PINNED_REFERENCES },
+        { strategy: MemoryQueryStrategy.RECENT_CHAT, limit: 1 },
+        { strategy: MemoryQueryStrategy.RECENT_CHAT }
+      ],
+      maxTokens: 30
+    }, { sessionId: 's1' }, words);
+
+    expect(entries.map(entry => entry.content)).toEqual([
+      'Style guide: prefer named exports',
+      'Please keep functions under forty lines'
+    ]);
+    expect(entries[0]).toMatchObject({
+      type: MemoryEntryType.DOCUMENT,
+      citation: { collection: 'project', strategy: MemoryQueryStrategy.PINNED_REFERENCES }
+    });
+  });
+
+  it('counts each entry as rendered, header included, against the budget', async () => {
+    const config = { collection: 'project', queries: [{ strategy: MemoryQueryStrategy.PINNED_REFERENCES }] };
+
+    // The content is 5 words; the rendered entry adds its type, source, memory id and timestamp
+    expect(await retrieveMemories(memory, { ...config, maxTokens: 11 }, {}, words)).toEqual([]);
+    expect(await retrieveMemories(memory, { ...config, maxTokens: 12 }, {}, words)).toHaveLength(1);
+  });
+
+  it('fills memory layers at compose time and cites the memories used', async () => {
+    const layer = new MemoryLayer('memory', '', LayerPriority.MEDIUM);
+    layer.addEntry({ type: MemoryEntryType.FACT, content: 'Manually added fact' });
+    layer.setRetrieval({
+      collection: 'project',
+      queries: [{ strategy: MemoryQueryStrategy.SIMILAR_TO_TASK, limit: 1 }]
+    });
+    const task = new TaskInstructionLayer('task', 'Add retryWithBackoff to the HTTP client', LayerPriority.HIGH);
+
+    const composed = await new PromptComposer().composeWithMemory([task, layer], { memoryService: memory });
+    const citations = composed.metadata.memoryCitations as MemoryCitation[];
+
+    expect(composed.text).toContain('function retryWithBackoff(request)');
+    expect(composed.text).toContain('Manually added fact');
+    expect(composed.text).toContain(`[memory ${citations[0].memoryId}]`);
+    expect(citations).toEqual([expect.objectContaining({ layerId: 'memory', strategy: MemoryQueryStrategy.SIMILAR_TO_TASK })]);
+    expect(layer.getEntries()).toHaveLength(1);
+  });
+
+  it('composes without retrieved memories when the memory service fails', async () => {
+    const layer = new MemoryLayer('memory', 'Background');
+    layer.setRetrieval({ collection: 'project', queries: [{ strategy: MemoryQueryStrategy.RECENT_CHAT }] });
+    const failing = { searchMemories: vi.fn().mockRejectedValue(new Error('connection refused')) };
+
+    const composed = await new PromptComposer().composeWithMemory([layer], { memoryService: failing });
+
+    expect(composed.text).toContain('Background');
+    expect(composed.metadata.memoryCitations).toEqual([]);
+  });
+
+  it('takes the newest chats from a backend that stores entries oldest first', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const chroma = new ChromaMemoryProvider({ dimensions: 32 });
+    const now = vi.spyOn(Date, 'now');
+    for (const [time, content] of [[1, 'First chat'], [2, 'Second chat'], [3, 'Third chat']] as const) {
+      now.mockReturnValue(time);
+      await chroma.addMemory('project', content, { type: MemoryType.CHAT, source: 'user', tags: [], sessionId: 's1' });
+    }
+    now.mockRestore();
+
+    const entries = await retrieveMemories(chroma, {
+      collection: 'project',
+      queries: [{ strategy: MemoryQueryStrategy.RECENT_CHAT, limit: 2 }]
+    }, { sessionId: 's1' }, words);
+
+    expect(entries.map(entry => entry.content)).toEqual(['Third chat', 'Second chat']);
+    await chroma.shutdown();
+    vi.restoreAllMocks();
+  });
+});
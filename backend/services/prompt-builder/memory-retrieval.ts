@@ -0,0 +1,95 @@
+/**
+ * Memory Retrieval
+ * Runs a memory layer's queries against the memory service and keeps the results within
+ * the layer's token budget
+ */
+
+import { Logger } from '../logging/logger';
+import type { MemoryService } from '../memory/memory-service';
+import { MemoryEntry as StoredMemory, MemorySearchParams, MemoryType } from '../memory/memory-types';
+import { MemoryQuery, MemoryQueryStrategy, MemoryRetrievalConfig, RetrievalContext } from './interfaces/memory-retrieval';
+import { MemoryEntry, MemoryEntryType, formatMemoryEntry } from './layers/memory-layer';
+
+const logger = new Logger('MemoryRetrieval');
+
+const DEFAULT_LIMITS: Record<MemoryQueryStrategy, number> = {
+  [MemoryQueryStrategy.RECENT_CHAT]: 10,
+  [MemoryQueryStrategy.SIMILAR_TO_TASK]: 5,
+  [MemoryQueryStrategy.PINNED_REFERENCES]: 10
+};
+
+const ENTRY_TYPES: Partial<Record<MemoryType, MemoryEntryType>> = {
+  [MemoryType.CHAT]: MemoryEntryType.CONVERSATION,
+  [MemoryType.CODE]: MemoryEntryType.CODE,
+  [MemoryType.SNIPPET]: MemoryEntryType.CODE,
+  [MemoryType.REFERENCE]: MemoryEntryType.DOCUMENT
+};
+
+/**
+ * Run the configured queries in order and convert the results to layer entries.
+ * A memory found by several queries is included once, for the first. Memories whose rendered
+ * entry would take the total past `maxTokens` are skipped, and a failing query is logged and skipped
+ * so an unavailable memory service never blocks composition.
+ */
+export async function retrieveMemories(
+  service: Pick<MemoryService, 'searchMemories'>,
+  config: MemoryRetrievalConfig,
+  context: RetrievalContext,
+  estimate: (text: string) => number
+): Promise<MemoryEntry[]> {
+  const entries: MemoryEntry[] = [];
+  const seen = new Set<string>();
+  let tokens = 0;
+
+  for (const query of config.queries) {
+    const collection = query.collection || config.collection;
+    const params = buildSearchParams(query, context);
+    if (!params) continue;
+
+    let found: StoredMemory[];
+    try {
+      found = (await service.searchMemories(collection, params)).entries;
+    } catch (error) {
+      logger.warn('Memory query failed', { strategy: query.strategy, collection, error: String(error) });
+      continue;
+    }
+
+    for (const memory of found) {
+      const key = `${collection}/${memory.id}`;
+      if (seen.has(key)) continue;
+
+      const entry: MemoryEntry = {
+        type: ENTRY_TYPES[memory.metadata.type] ?? MemoryEntryType.FACT,
+        content: memory.content,
+        timestamp: new Date(memory.createdAt),
+        source: memory.metadata.source,
+        citation: { memoryId: memory.id, collection, strategy: query.strategy }
+      };
+      const cost = estimate(formatMemoryEntry(entry));
+      if (config.maxTokens !== undefined && tokens + cost > config.maxTokens) continue;
+
+      seen.add(key);
+      tokens += cost;
+      entries.push(entry);
+    }
+  }
+
+  // Show memories in query order: the first query's first result ranks highest
+  return entries.map((entry, index) => ({ ...entry, relevance: entries.length - index }));
+}
+
+function buildSearchParams(query: MemoryQuery, context: RetrievalContext): MemorySearchParams | undefined {
+  const maxResults = query.limit ?? DEFAULT_LIMITS[query.strategy];
+
+  switch (query.strategy) {
+    case MemoryQueryStrategy.RECENT_CHAT:
+      // Searches without a query return the newest entries first
+      return { types: [MemoryType.CHAT], ...(context.sessionId && { sessionId: context.sessionId }), maxResults };
+    case MemoryQueryStrategy.SIMILAR_TO_TASK:
+      return context.task?.trim()
+        ? { query: context.task, maxResults, ...(query.threshold !== undefined && { threshold: query.threshold }) }
+        : undefined;
+    case MemoryQueryStrategy.PINNED_REFERENCES:
+      return { types: [MemoryType.REFERENCE], tags: [query.pinTag || 'pinned'], maxResults };
+  }
+}
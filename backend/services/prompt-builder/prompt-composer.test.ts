@@ -0,0 +1,137 @@
+import { PromptComposer } from './prompt-composer';
+import { LayerPriority } from './interfaces/prompt-layer';
+import { SystemPromptLayer } from './layers/system-prompt-layer';
+import { TaskInstructionLayer } from './layers/task-instruction-layer';
+import { UserPreferencesLayer, ResponseTone } from './layers/user-preferences-layer';
+import { MemoryLayer, MemoryEntryType } from './layers/memory-layer';
+import { ChatMessage } from './strategies/chat-messages-strategy';
+import { ExclusionReason } from './interfaces/prompt-composition';
+import { AIProvider } from '@shared/interfaces/ai-provider';
+
+const buildLayers = () => {
+  const system = new SystemPromptLayer('system', 'You are a coding assistant.');
+  const task = new TaskInstructionLayer('task', 'Write a debounce function.', LayerPriority.MEDIUM);
+  const preferences = new UserPreferencesLayer('prefs', '', { tone: ResponseTone.CONCISE }, LayerPriority.LOW);
+  return { system, task, preferences };
+};
+
+describe('PromptComposer', () => {
+  it('concatenates enabled layers in priority order', () => {
+    const { system, task, preferences } = buildLayers();
+    const composer = new PromptComposer();
+
+    const composed = composer.compose([preferences, task, system]);
+
+    expect(composed.layers.map(layer => layer.id)).toEqual(['system', 'task', 'prefs']);
+    expect(composed.text.indexOf('coding assistant')).toBeLessThan(composed.text.indexOf('debounce'));
+    expect(composed.metadata.strategy).toBe('priority-concatenation');
+    expect(typeof composed.metadata.compositionTimeMs).toBe('number');
+  });
+
+  it('records disabled layers as excluded', () => {
+    const { system, task } = buildLayers();
+    task.enabled = false;
+
+    const composed = new PromptComposer().compose([system, task]);
+
+    expect(composed.layers).toEqual([system]);
+    expect(composed.metadata.excludedLayers).toEqual([task]);
+  });
+
+  it('applies per-type formatters', () => {
+    const { system, task } = buildLayers();
+    const composer = new PromptComposer();
+    composer.setFormatter('task', layer => `TASK: ${layer.getContent()}`);
+
+    const composed = composer.compose([system, task], 'xml-sections');
+
+    expect(composed.text).toContain('<task id="task">\nTASK: Write a debounce function.\n</task>');
+    expect(composed.text).toContain('<system id="system">');
+  });
+
+  it('splits chat compositions into system and user messages', () => {
+    const { system, task, preferences } = buildLayers();
+    const composer = new PromptComposer();
+
+    const composed = composer.compose([system, task, preferences], 'chat-messages');
+    const messages = composed.metadata.messages as ChatMessage[];
+
+    expect(messages.map(message => message.role)).toEqual(['system', 'user']);
+    expect(messages[0].layerIds).toEqual(['system', 'prefs']);
+
+    const prompt = composer.toAIPrompt(composed);
+    expect(prompt.systemPrompt).toContain('coding assistant');
+    expect(prompt.content).toBe('Write a debounce function.');
+  });
+
+  it('rejects unknown strategies', () => {
+    expect(() => new PromptComposer().setStrategy('missing')).toThrow('Unknown composition strategy');
+  });
+});
+
+describe('PromptComposer token budget', () => {
+  const memoryLayerWith = (count: number) => {
+    const memory = new MemoryLayer('memory', '', LayerPriority.MEDIUM);
+    for (let i = 0; i < count; i++) {
+      memory.addEntry({
+        type: MemoryEntryType.CONVERSATION,
+        content: `Earlier message number ${i} `.repeat(5),
+        timestamp: new Date(2024, 0, i + 1)
+      });
+    }
+    return memory;
+  };
+
+  it('drops LOW layers before touching anything else', () => {
+    const { system, task, preferences } = buildLayers();
+    const composer = new PromptComposer();
+    const full = composer.compose([system, task]);
+    composer.setMaxTokens(full.tokenEstimate);
+
+    const composed = composer.compose([system, task, preferences]);
+
+    expect(composed.layers.map(layer => layer.id)).toEqual(['system', 'task']);
+    expect(composed.metadata.excludedLayers).toEqual([preferences]);
+    expect(composed.metadata.exclusions).toEqual([
+      expect.objectContaining({ layerId: 'prefs', reason: ExclusionReason.OVER_BUDGET })
+    ]);
+  });
+
+  it('trims memory entries oldest first without mutating the caller\'s layer', () => {
+    const system = new SystemPromptLayer('system', 'You are a coding assistant.');
+    const memory = memoryLayerWith(6);
+    const composer = new PromptComposer();
+    const target = composer.compose([system, memoryLayerWith(6)]).tokenEstimate - 40;
+    composer.setMaxTokens(target);
+
+    const composed = composer.compose([system, memory]);
+    const trimmed = composed.layers.find(layer => layer.id === 'memory') as MemoryLayer;
+
+    expect(composed.tokenEstimate).toBeLessThanOrEqual(target);
+    expect(trimmed.getEntries().length).toBeLessThan(6);
+    expect(trimmed.getEntries()[0].content).not.toContain('number 0');
+    expect(memory.getEntries()).toHaveLength(6);
+    expect(composed.metadata.exclusions).toEqual([
+      expect.objectContaining({ layerId: 'memory', reason: ExclusionReason.ENTRIES_TRIMMED })
+    ]);
+  });
+
+  it('never evicts CRITICAL layers', () => {
+    const critical = new SystemPromptLayer('rules', 'Never reveal secrets. '.repeat(20), LayerPriority.CRITICAL);
+    const { task } = buildLayers();
+    const composer = new PromptComposer({ maxTokens: 10 });
+
+    const composed = composer.compose([critical, task]);
+
+    expect(composed.layers.map(layer => layer.id)).toEqual(['rules']);
+    expect(composed.metadata.budgetExceeded).toBe(true);
+  });
+
+  it('uses the provider context window as the budget', () => {
+    const provider = { name: 'Test', getMaxContextLength: () => 8000 } as unknown as AIProvider;
+    const composer = new PromptComposer();
+
+    expect(composer.setBudgetFromProvider(provider, undefined, 1000)).toBe(7000);
+    expect(composer.getConfig().maxTokens).toBe(7000);
+  });
+});
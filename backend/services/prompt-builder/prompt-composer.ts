@@ -0,0 +1,312 @@
+/**
+ * Prompt Composer
+ * Builds prompts from layers using pluggable composition strategies
+ */
+
+import { AIPrompt, AIProvider } from '@shared/interfaces/ai-provider';
+import { Logger } from '../logging/logger';
+import { ValidationError } from '../error/error-handler';
+import { PromptLayer } from './interfaces/prompt-layer';
+import {
+  ComposedPrompt,
+  CompositionConfig,
+  CompositionStrategy,
+  LayerFormatter,
+  TokenEstimator
+} from './interfaces/prompt-composition';
+import { PriorityConcatenationStrategy } from './strategies/priority-concatenation-strategy';
+import { XmlSectionsStrategy } from './strategies/xml-sections-strategy';
+import { ChatMessagesStrategy, toAIPrompt } from './strategies/chat-messages-strategy';
+import { defaultTokenEstimator } from './strategies/base-strategy';
+import { composeWithinBudget } from './token-budget';
+import { tokenEstimatorRegistry } from '../tokenization/token-estimator-registry';
+import { TemplateVariable, TemplateVariables } from './interfaces/prompt-template';
+import { TemplateResolver, applyVariableDefaults } from './prompt-template';
+import { MemoryLayer, formatMemoryEntry } from './layers/memory-layer';
+import { TaskInstructionLayer } from './layers/task-instruction-layer';
+import { MemoryCitation, RetrievalContext } from './interfaces/memory-retrieval';
+import { retrieveMemories } from './memory-retrieval';
+import type { MemoryService } from '../memory/memory-service';
+
+/**
+ * Composes prompt layers into prompts ready to send to a provider
+ */
+export class PromptComposer {
+  private strategies: Map<string, CompositionStrategy> = new Map();
+  private config: CompositionConfig;
+  private logger: Logger;
+
+  constructor(config: Partial<CompositionConfig> = {}) {
+    this.logger = new Logger('PromptComposer');
+
+    // Register built-in strategies
+    this.registerStrategy(new PriorityConcatenationStrategy());
+    this.registerStrategy(new XmlSectionsStrategy());
+    this.registerStrategy(new ChatMessagesStrategy());
+
+    const strategy = config.strategy || this.strategies.get('priority-concatenation')!;
+    this.registerStrategy(strategy);
+
+    this.config = {
+      deterministicOrder: true,
+      ...config,
+      strategy,
+      formatters: new Map(config.formatters || [])
+    };
+  }
+
+  /**
+   * Register a composition strategy, replacing any strategy with the same name
+   * @param strategy The strategy to register
+   */
+  registerStrategy(strategy: CompositionStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Get a registered strategy by name
+   * @param name The strategy name
+   */
+  getStrategy(name: string): CompositionStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  /**
+   * Get the names of all registered strategies
+   */
+  getStrategyNames(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Set the default strategy used by compose()
+   * @param name Name of a registered strategy
+   */
+  setStrategy(name: string): void {
+    this.config.strategy = this.requireStrategy(name);
+  }
+
+  /**
+   * Set a custom formatter for a layer type
+   * @param layerType The layer type (e.g. 'system', 'memory')
+   * @param formatter The formatter to use
+   */
+  setFormatter(layerType: string, formatter: LayerFormatter): void {
+    this.config.formatters!.set(layerType, formatter);
+  }
+
+  /**
+   * Remove the custom formatter for a layer type
+   * @param layerType The layer type
+   */
+  removeFormatter(layerType: string): boolean {
+    return this.config.formatters!.delete(layerType);
+  }
+
+  /**
+   * Set the token budget enforced by compose()
+   * @param maxTokens Maximum tokens, or undefined to disable the budget
+   */
+  setMaxTokens(maxTokens?: number): void {
+    this.config.maxTokens = maxTokens;
+  }
+
+  /**
+   * Set the token estimator used for token counts and budgets
+   * @param estimator The estimator, or undefined for the default heuristic
+   */
+  setTokenEstimator(estimator?: TokenEstimator): void {
+    this.config.tokenEstimator = estimator;
+  }
+
+  /**
+   * Count tokens with the tokenizer registered for a provider and model
+   * @param providerName The provider name (e.g. 'openai', 'claude')
+   * @param model Optional model name
+   */
+  useProviderTokenizer(providerName: string, model?: string): void {
+    this.config.tokenEstimator = tokenEstimatorRegistry.getEstimator(providerName, model);
+  }
+
+  /**
+   * Use a provider's context window as the token budget, counted with the provider's tokenizer
+   * @param provider The provider the prompt will be sent to
+   * @param model Optional model name, for providers with per-model limits
+   * @param reservedOutputTokens Tokens to leave free for the response
+   * @returns The resulting budget
+   */
+  setBudgetFromProvider(provider: AIProvider, model?: string, reservedOutputTokens: number = 0): number {
+    const maxTokens = Math.max(0, provider.getMaxContextLength(model) - reservedOutputTokens);
+    this.config.maxTokens = maxTokens;
+    this.useProviderTokenizer(provider.name, model);
+    this.logger.debug('Token budget set from provider', { provider: provider.name, model, maxTokens });
+    return maxTokens;
+  }
+
+  /**
+   * Set default template variables and their declarations
+   * @param variables Default variable values
+   * @param declarations Declared variables, whose defaults fill in for missing values
+   */
+  setVariables(variables: TemplateVariables, declarations?: TemplateVariable[]): void {
+    this.config.variables = { ...variables };
+    if (declarations) {
+      this.config.variableDeclarations = [...declarations];
+    }
+  }
+
+  /**
+   * Get the current composition config
+   */
+  getConfig(): CompositionConfig {
+    return { ...this.config, formatters: new Map(this.config.formatters) };
+  }
+
+  /**
+   * Compose layers into a prompt.
+   * When a token budget is configured, layers are evicted or truncated to fit it
+   * and each decision is recorded in `metadata.exclusions`.
+   * When variables are given, the content of layers marked as templates is rendered and
+   * missing or unused variables are recorded in `metadata.templateIssues`.
+   * @param layers The layers to compose
+   * @param strategyName Optional strategy to use instead of the configured default
+   * @param variables Optional template variables, merged over the configured defaults
+   * @returns The composed prompt
+   */
+  compose(layers: PromptLayer[], strategyName?: string, variables?: TemplateVariables): ComposedPrompt {
+    const startTime = Date.now();
+    const strategy = strategyName ? this.requireStrategy(strategyName) : this.config.strategy;
+    const templateVariables = this.config.variables || variables
+      ? { ...this.config.variables, ...variables }
+      : undefined;
+    const context = {
+      formatters: this.config.formatters,
+      tokenEstimator: this.config.tokenEstimator,
+      deterministicOrder: this.config.deterministicOrder,
+      variables: templateVariables,
+      variableDeclarations: this.config.variableDeclarations,
+      strictVariables: this.config.strictVariables
+    };
+
+    // Truncate rendered content so a cut never lands inside a template tag
+    const contentOf = (layer: PromptLayer) => {
+      if (!templateVariables || !layer.template) {
+        return layer.getContent();
+      }
+      const resolved = applyVariableDefaults(this.config.variableDeclarations || [], templateVariables);
+      return new TemplateResolver(resolved).render(layer.getContent());
+    };
+
+    const composed = this.config.maxTokens !== undefined
+      ? composeWithinBudget(
+          layers,
+          this.config.maxTokens,
+          budgetLayers => strategy.compose(budgetLayers, context),
+          this.config.tokenEstimator || defaultTokenEstimator,
+          { contentOf }
+        )
+      : strategy.compose(layers, context);
+
+    composed.metadata.compositionTimeMs = Date.now() - startTime;
+
+    if (composed.metadata.budgetExceeded) {
+      this.logger.warn('Composed prompt exceeds token budget after evicting all non-critical layers', {
+        maxTokens: this.config.maxTokens,
+        tokenEstimate: composed.tokenEstimate
+      });
+    }
+
+    this.logger.debug('Prompt composed', {
+      strategy: strategy.name,
+      layerCount: composed.layers.length,
+      excludedCount: composed.metadata.excludedLayers?.length ?? 0,
+      tokenEstimate: composed.tokenEstimate
+    });
+
+    return composed;
+  }
+
+  /**
+   * Fill memory layers that have a retrieval config from the memory service, then compose.
+   * The caller's layers are not modified. Memories that make it into the prompt, after any
+   * budget trimming, are listed in `metadata.memoryCitations`.
+   * @param layers The layers to compose
+   * @param options.task Text to find similar memories for; defaults to the first task instruction layer
+   * @param options.memoryService Service to query; defaults to getMemoryService()
+   * @returns The composed prompt
+   */
+  async composeWithMemory(
+    layers: PromptLayer[],
+    options: RetrievalContext & {
+      strategyName?: string;
+      variables?: TemplateVariables;
+      memoryService?: Pick<MemoryService, 'searchMemories'>;
+    } = {}
+  ): Promise<ComposedPrompt> {
+    const estimate = this.config.tokenEstimator || defaultTokenEstimator;
+    const retrieving = layers.filter(
+      (layer): layer is MemoryLayer => layer instanceof MemoryLayer && layer.enabled && !!layer.getRetrieval()
+    );
+
+    let filled = layers;
+    if (retrieving.length > 0) {
+      const service = options.memoryService ?? await this.loadMemoryService();
+      const taskLayer = layers.find(layer => layer instanceof TaskInstructionLayer && layer.enabled) as TaskInstructionLayer | undefined;
+      const context: RetrievalContext = {
+        sessionId: options.sessionId,
+        task: options.task ?? taskLayer?.getRawContent()
+      };
+
+      const replacements = new Map<PromptLayer, PromptLayer>();
+      if (service) {
+        for (const layer of retrieving) {
+          const clone = layer.clone() as MemoryLayer;
+          clone.setRetrievedEntries(await retrieveMemories(service, layer.getRetrieval()!, context, estimate));
+          replacements.set(layer, clone);
+        }
+      }
+      filled = layers.map(layer => replacements.get(layer) ?? layer);
+    }
+
+    const composed = this.compose(filled, options.strategyName, options.variables);
+    const citations: MemoryCitation[] = composed.layers
+      .filter((layer): layer is MemoryLayer => layer instanceof MemoryLayer)
+      .flatMap(layer => layer.getEntries()
+        .filter(entry => entry.citation)
+        .map(entry => ({ ...entry.citation!, layerId: layer.id, tokens: estimate(formatMemoryEntry(entry)) })));
+    composed.metadata.memoryCitations = citations;
+
+    return composed;
+  }
+
+  /**
+   * Convert a composed prompt into a provider prompt.
+   * Chat-message compositions map onto systemPrompt/content; anything else becomes content.
+   * @param composed The composed prompt
+   */
+  toAIPrompt(composed: ComposedPrompt): AIPrompt {
+    return toAIPrompt(composed);
+  }
+
+  private async loadMemoryService(): Promise<Pick<MemoryService, 'searchMemories'> | undefined> {
+    try {
+      // Imported lazily so composing without memory never loads the memory backends
+      const { getMemoryService } = await import('../memory/memory-service');
+      return await getMemoryService();
+    } catch (error) {
+      this.logger.warn('Memory service unavailable; composing without retrieved memories', { error: String(error) });
+      return undefined;
+    }
+  }
+
+  private requireStrategy(name: string): CompositionStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new ValidationError(`Unknown composition strategy: ${name}`);
+    }
+    return strategy;
+  }
+}
+
+// Create a singleton instance for use throughout the app
+export const promptComposer = new PromptComposer();
@@ -0,0 +1,82 @@
+import { PromptRecipeStore } from './prompt-recipe-store';
+import { createMemoryStorage } from '@backend/test/fixtures';
+import { LayerPriority } from './interfaces/prompt-layer';
+import { MemoryQueryStrategy } from './interfaces/memory-retrieval';
+import { SystemPromptLayer } from './layers/system-prompt-layer';
+import { TaskInstructionLayer } from './layers/task-instruction-layer';
+import { MemoryLayer, MemoryEntryType } from './layers/memory-layer';
+import { UserPreferencesLayer, ResponseTone } from './layers/user-preferences-layer';
+
+const buildStack = () => {
+  const system = new SystemPromptLayer('system', 'You are a coding assistant for {{language}}.');
+  system.template = true;
+  const task = new TaskInstructionLayer('task', 'Review this code.');
+  task.addExample('Point out unused variables');
+  task.enabled = false;
+  const memory = new MemoryLayer('memory', 'Project notes', LayerPriority.LOW);
+  memory.addEntry({ type: MemoryEntryType.FACT, content: 'Uses vitest', timestamp: new Date('2024-01-01T00:00:00Z') });
+  memory.setRetrieval({ collection: 'project', queries: [{ strategy: MemoryQueryStrategy.RECENT_CHAT, limit: 3 }], maxTokens: 500 });
+  const prefs = new UserPreferencesLayer('prefs', '', { tone: ResponseTone.TECHNICAL, styles: { quotes: 'single' } });
+  return [system, task, memory, prefs];
+};
+
+describe('PromptRecipeStore', () => {
+  it('round-trips every built-in layer type', () => {
+    const store = new PromptRecipeStore(createMemoryStorage());
+    const layers = buildStack();
+
+    store.save('house', layers, { description: 'House stack' });
+    const loaded = store.load('house');
+
+    expect(loaded.map(layer => [layer.id, layer.type, layer.priority, layer.enabled, layer.template]))
+      .toEqual(layers.map(layer => [layer.id, layer.type, layer.priority, layer.enabled, layer.template]));
+    expect(loaded.map(layer => layer.getContent())).toEqual(layers.map(layer => layer.getContent()));
+    expect((loaded[2] as MemoryLayer).getEntries()[0].timestamp).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect((loaded[2] as MemoryLayer).getRetrieval()).toEqual((layers[2] as MemoryLayer).getRetrieval());
+  });
+
+  it('versions saves and diffs them', () => {
+    const store = new PromptRecipeStore(createMemoryStorage());
+    const layers = buildStack();
+    store.save('house', layers);
+
+    layers[0].setContent('You are a senior reviewer.');
+    layers[3].priority = LayerPriority.LOW;
+    store.save('house', [...layers.slice(0, 3), new SystemPromptLayer('rules', 'Be brief.')]);
+
+    const diff = store.diff('house', 1);
+
+    expect(store.list()).toEqual([expect.objectContaining({ name: 'house', latestVersion: 2, versionCount: 2 })]);
+    expect(diff.added.map(layer => layer.id)).toEqual(['rules']);
+    expect(diff.removed.map(layer => layer.id)).toEqual(['prefs']);
+    expect(diff.changed).toEqual([expect.objectContaining({ layerId: 'system', fields: ['content'] })]);
+  });
+
+  it('exports and imports recipes between stores', () => {
+    const source = new PromptRecipeStore(createMemoryStorage());
+    source.save('house', buildStack());
+    const json = source.exportRecipe('house');
+
+    const target = new PromptRecipeStore(createMemoryStorage());
+    const imported = target.importRecipe(json);
+
+    expect(imported.version).toBe(1);
+    expect(target.importRecipe(json)).toBe(imported);
+    expect(target.load('house').map(layer => layer.getContent()))
+      .toEqual(source.load('house').map(layer => layer.getContent()));
+  });
+
+  it('persists recipes to storage', () => {
+    const storage = createMemoryStorage();
+    new PromptRecipeStore(storage).save('house', buildStack());
+
+    expect(new PromptRecipeStore(storage).getRecipe('house')?.layers).toHaveLength(4);
+  });
+
+  it('rejects unknown layer types on import', () => {
+    const recipe = { formatVersion: 1, name: 'bad', version: 1, layers: [{ id: 'x', type: 'mystery' }] };
+
+    expect(() => new PromptRecipeStore(createMemoryStorage()).importRecipe(JSON.stringify(recipe)))
+      .toThrow('Unknown layer type: mystery');
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Prompt Recipe Store
+ * Saves, versions and shares whole layer stacks as JSON recipes
+ */
+
+import { getStorage, StorageInterface } from '@shared/services/storage';
+import { Logger } from '../logging/logger';
+import { ValidationError } from '../error/error-handler';
+import { BasePromptLayer, PromptLayer, PromptLayerFactory } from './interfaces/prompt-layer';
+import {
+  LayerChange,
+  LayerStateCodec,
+  PROMPT_RECIPE_FORMAT_VERSION,
+  PromptRecipe,
+  PromptRecipeSummary,
+  RecipeDiff,
+  SaveRecipeOptions,
+  SerializedLayer
+} from './interfaces/prompt-recipe';
+import { SystemPromptLayerFactory } from './layers/system-prompt-layer';
+import { TaskInstructionLayer, TaskInstructionLayerFactory } from './layers/task-instruction-layer';
+import { MemoryRetrievalConfig } from './interfaces/memory-retrieval';
+import { MemoryEntry, MemoryLayer, MemoryLayerFactory } from './layers/memory-layer';
+import { UserPreferences, UserPreferencesLayer, UserPreferencesLayerFactory } from './layers/user-preferences-layer';
+
+const STORAGE_PREFIX = 'prompt_recipe_';
+
+interface LayerTypeRegistration {
+  factory: PromptLayerFactory;
+  codec?: LayerStateCodec;
+}
+
+const taskCodec: LayerStateCodec<TaskInstructionLayer> = {
+  capture: layer => {
+    const examples = layer.getExamples();
+    return examples.length > 0 ? { examples } : undefined;
+  },
+  restore: (layer, state) => {
+    for (const example of (state.examples as string[]) || []) {
+      layer.addExample(example);
+    }
+  }
+};
+
+const preferencesCodec: LayerStateCodec<UserPreferencesLayer> = {
+  capture: layer => ({ preferences: layer.getAllPreferences() }),
+  restore: (layer, state) => {
+    layer.setPreferences((state.preferences as UserPreferences) || {});
+  }
+};
+
+const memoryCodec: LayerStateCodec<MemoryLayer> = {
+  capture: layer => ({
+    entries: layer.getEntries().map(entry => ({
+      ...entry,
+      timestamp: entry.timestamp?.toISOString()
+    })),
+    ...(layer.getRetrieval() && { retrieval: layer.getRetrieval() }),
+    metadata: {
+      ...layer.metadata,
+      created: layer.metadata.created.toISOString(),
+      lastModified: layer.metadata.lastModified.toISOString()
+    }
+  }),
+  restore: (layer, state) => {
+    const entries = (state.entries as Array<Omit<MemoryEntry, 'timestamp'> & { timestamp?: string }>) || [];
+    for (const entry of entries) {
+      layer.addEntry({
+        ...entry,
+        timestamp: entry.timestamp ? new Date(entry.timestamp) : undefined
+      });
+    }
+
+    if (state.retrieval) {
+      layer.setRetrieval(state.retrieval as MemoryRetrievalConfig);
+    }
+
+    const metadata = state.metadata as Record<string, unknown> | undefined;
+    if (metadata) {
+      layer.metadata = {
+        ...metadata,
+        created: new Date(metadata.created as string),
+        lastModified: new Date(metadata.lastModified as string)
+      };
+    }
+  }
+};
+
+/**
+ * Stores versioned prompt recipes and converts them to and from live layers
+ */
+export class PromptRecipeStore {
+  private recipes: Map<string, PromptRecipe[]> = new Map();
+  private layerTypes: Map<string, LayerTypeRegistration> = new Map();
+  private storage: StorageInterface;
+  private logger: Logger;
+  private loaded = false;
+
+  constructor(storage?: StorageInterface) {
+    this.storage = storage || getStorage();
+    this.logger = new Logger('PromptRecipeStore');
+
+    // Register built-in layer types
+    this.registerLayerType('system', new SystemPromptLayerFactory());
+    this.registerLayerType('task', new TaskInstructionLayerFactory(), taskCodec);
+    this.registerLayerType('memory', new MemoryLayerFactory(), memoryCodec);
+    this.registerLayerType('preferences', new UserPreferencesLayerFactory(), preferencesCodec);
+  }
+
+  /**
+   * Register a layer type so recipes containing it can be serialized and loaded
+   * @param type The layer type
+   * @param factory Factory that creates layers of this type
+   * @param codec Optional codec for state the factory can't recreate
+   */
+  registerLayerType<T extends PromptLayer>(type: string, factory: PromptLayerFactory, codec?: LayerStateCodec<T>): void {
+    this.layerTypes.set(type, { factory, codec: codec as LayerStateCodec | undefined });
+  }
+
+  /**
+   * Convert layers into their serialized form
+   * @param layers The layers to serialize
+   */
+  serializeLayers(layers: PromptLayer[]): SerializedLayer[] {
+    return layers.map(layer => {
+      const registration = this.requireLayerType(layer.type);
+      const state = registration.codec?.capture(layer);
+
+      return {
+        id: layer.id,
+        type: layer.type,
+        priority: layer.priority,
+        enabled: layer.enabled,
+        ...(layer.template && { template: true }),
+        content: layer instanceof BasePromptLayer ? layer.getRawContent() : layer.getContent(),
+        ...(state && { state })
+      };
+    });
+  }
+
+  /**
+   * Recreate live layers from their serialized form
+   * @param layers The serialized layers
+   */
+  deserializeLayers(layers: SerializedLayer[]): PromptLayer[] {
+    return layers.map(serialized => {
+      const registration = this.requireLayerType(serialized.type);
+      const layer = registration.factory.createLayer(serialized.id, serialized.content, serialized.priority);
+      layer.enabled = serialized.enabled;
+      layer.template = serialized.template === true;
+
+      if (serialized.state && registration.codec) {
+        registration.codec.restore(layer, serialized.state);
+      }
+
+      return layer;
+    });
+  }
+
+  /**
+   * Save layers as a new version of a recipe
+   * @param name The recipe name
+   * @param layers The layers to save
+   * @param options Description, author and tags for this version
+   * @returns The saved recipe version
+   */
+  save(name: string, layers: PromptLayer[], options: SaveRecipeOptions = {}): PromptRecipe {
+    if (!name.trim()) {
+      throw new ValidationError('Recipe name is required');
+    }
+
+    const versions = this.getVersions(name);
+    const previous = versions[versions.length - 1];
+
+    const recipe: PromptRecipe = {
+      formatVersion: PROMPT_RECIPE_FORMAT_VERSION,
+      name,
+      version: previous ? previous.version + 1 : 1,
+      description: options.description ?? previous?.description,
+      author: options.author,
+      tags: options.tags ?? previous?.tags,
+      createdAt: new Date().toISOString(),
+      layers: this.serializeLayers(layers)
+    };
+
+    this.recipes.set(name, [...versions, recipe]);
+    this.persist(name);
+
+    this.logger.info('Recipe saved', { name, version: recipe.version, layerCount: recipe.layers.length });
+    return recipe;
+  }
+
+  /**
+   * Get a recipe version
+   * @param name The recipe name
+   * @param version The version, or the latest if omitted
+   */
+  getRecipe(name: string, version?: number): PromptRecipe | undefined {
+    const versions = this.getVersions(name);
+    return version === undefined
+      ? versions[versions.length - 1]
+      : versions.find(recipe => recipe.version === version);
+  }
+
+  /**
+   * Load a recipe version as live layers
+   * @param name The recipe name
+   * @param version The version, or the latest if omitted
+   */
+  load(name: string, version?: number): PromptLayer[] {
+    return this.deserializeLayers(this.requireRecipe(name, version).layers);
+  }
+
+  /**
+   * List stored recipes
+   */
+  list(): PromptRecipeSummary[] {
+    this.ensureLoaded();
+
+    return Array.from(this.recipes.entries())
+      .filter(([, versions]) => versions.length > 0)
+      .map(([name, versions]) => {
+        const latest = versions[versions.length - 1];
+        return {
+          name,
+          description: latest.description,
+          latestVersion: latest.version,
+          versionCount: versions.length,
+          updatedAt: latest.createdAt
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get every stored version of a recipe, oldest first
+   * @param name The recipe name
+   */
+  getVersions(name: string): PromptRecipe[] {
+    this.ensureLoaded();
+    return [...(this.recipes.get(name) || [])];
+  }
+
+  /**
+   * Delete a recipe and all of its versions
+   * @param name The recipe name
+   */
+  delete(name: string): boolean {
+    this.ensureLoaded();
+    if (!this.recipes.delete(name)) {
+      return false;
+    }
+    this.storage.removeItem(`${STORAGE_PREFIX}${name}`);
+    return true;
+  }
+
+  /**
+   * Compare two versions of a recipe
+   * @param name The recipe name
+   * @param fromVersion The older version
+   * @param toVersion The newer version, or the latest if omitted
+   */
+  diff(name: string, fromVersion: number, toVersion?: number): RecipeDiff {
+    return diffRecipes(this.requireRecipe(name, fromVersion), this.requireRecipe(name, toVersion));
+  }
+
+  /**
+   * Export a recipe version as JSON, suitable for committing to a repository
+   * @param name The recipe name
+   * @param version The version, or the latest if omitted
+   */
+  exportRecipe(name: string, version?: number): string {
+    return JSON.stringify(this.requireRecipe(name, version), null, 2) + '\n';
+  }
+
+  /**
+   * Import a recipe from JSON.
+   * The recipe is stored as the next version of its name unless an identical version already exists.
+   * @param json The exported recipe
+   * @returns The stored recipe version
+   */
+  importRecipe(json: string): PromptRecipe {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new ValidationError('Recipe is not valid JSON', error as Error);
+    }
+
+    const recipe = this.validateRecipe(parsed);
+    const versions = this.getVersions(recipe.name);
+
+    const existing = versions.find(version => version.version === recipe.version);
+    if (existing && diffIsEmpty(diffRecipes(existing, recipe))) {
+      return existing;
+    }
+
+    const previous = versions[versions.length - 1];
+    const stored: PromptRecipe = {
+      ...recipe,
+      formatVersion: PROMPT_RECIPE_FORMAT_VERSION,
+      version: previous ? Math.max(previous.version + 1, recipe.version) : recipe.version
+    };
+
+    this.recipes.set(recipe.name, [...versions, stored]);
+    this.persist(recipe.name);
+
+    this.logger.info('Recipe imported', { name: stored.name, version: stored.version });
+    return stored;
+  }
+
+  private validateRecipe(value: unknown): PromptRecipe {
+    const recipe = value as PromptRecipe;
+
+    if (!recipe || typeof recipe !== 'object') {
+      throw new ValidationError('Recipe must be an object');
+    }
+    if (typeof recipe.formatVersion !== 'number' || recipe.formatVersion > PROMPT_RECIPE_FORMAT_VERSION) {
+      throw new ValidationError(`Unsupported recipe format version: ${recipe.formatVersion}`);
+    }
+    if (typeof recipe.name !== 'string' || !recipe.name.trim()) {
+      throw new ValidationError('Recipe name is required');
+    }
+    if (!Number.isInteger(recipe.version) || recipe.version < 1) {
+      throw new ValidationError(`Invalid recipe version: ${recipe.version}`);
+    }
+    if (!Array.isArray(recipe.layers)) {
+      throw new ValidationError('Recipe layers must be an array');
+    }
+
+    for (const layer of recipe.layers) {
+      if (!layer || typeof layer.id !== 'string' || typeof layer.type !== 'string') {
+        throw new ValidationError('Recipe layers require an id and type');
+      }
+      this.requireLayerType(layer.type);
+    }
+
+    return {
+      ...recipe,
+      createdAt: recipe.createdAt || new Date().toISOString(),
+      layers: recipe.layers.map(layer => ({
+        ...layer,
+        priority: Number(layer.priority),
+        enabled: layer.enabled !== false,
+        content: layer.content || ''
+      }))
+    };
+  }
+
+  private requireLayerType(type: string): LayerTypeRegistration {
+    const registration = this.layerTypes.get(type);
+    if (!registration) {
+      throw new ValidationError(`Unknown layer type: ${type}`);
+    }
+    return registration;
+  }
+
+  private requireRecipe(name: string, version?: number): PromptRecipe {
+    const recipe = this.getRecipe(name, version);
+    if (!recipe) {
+      throw new ValidationError(
+        version === undefined ? `Recipe not found: ${name}` : `Recipe version not found: ${name}@${version}`
+      );
+    }
+    return recipe;
+  }
+
+  private persist(name: string): void {
+    try {
+      this.storage.setItem(`${STORAGE_PREFIX}${name}`, JSON.stringify(this.recipes.get(name) || []));
+    } catch (error) {
+      this.logger.error('Failed to persist recipe', { name, error });
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    for (const key of this.storage.keys()) {
+      if (!key.startsWith(STORAGE_PREFIX)) continue;
+
+      try {
+        const versions = JSON.parse(this.storage.getItem(key) || '[]') as PromptRecipe[];
+        this.recipes.set(key.slice(STORAGE_PREFIX.length), versions);
+      } catch (error) {
+        this.logger.warn('Skipping unreadable recipe', { key, error });
+      }
+    }
+  }
+}
+
+/**
+ * Compare two recipes layer by layer, matching layers by id
+ * @param from The older recipe
+ * @param to The newer recipe
+ */
+export function diffRecipes(from: PromptRecipe, to: PromptRecipe): RecipeDiff {
+  const fromLayers = new Map(from.layers.map(layer => [layer.id, layer]));
+  const toLayers = new Map(to.layers.map(layer => [layer.id, layer]));
+  const fields: Array<keyof SerializedLayer> = ['type', 'priority', 'enabled', 'template', 'content', 'state'];
+
+  const changed: LayerChange[] = [];
+  for (const after of to.layers) {
+    const before = fromLayers.get(after.id);
+    if (!before) continue;
+
+    const differing = fields.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+    if (differing.length > 0) {
+      changed.push({ layerId: after.id, fields: differing, before, after });
+    }
+  }
+
+  const commonFrom = from.layers.filter(layer => toLayers.has(layer.id)).map(layer => layer.id);
+  const commonTo = to.layers.filter(layer => fromLayers.has(layer.id)).map(layer => layer.id);
+
+  return {
+    name: to.name,
+    fromVersion: from.version,
+    toVersion: to.version,
+    added: to.layers.filter(layer => !fromLayers.has(layer.id)),
+    removed: from.layers.filter(layer => !toLayers.has(layer.id)),
+    changed,
+    reordered: commonFrom.join('\n') !== commonTo.join('\n')
+  };
+}
+
+function diffIsEmpty(diff: RecipeDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && !diff.reordered;
+}
+
+// Create a singleton instance for use throughout the app
+export const promptRecipeStore = new PromptRecipeStore();
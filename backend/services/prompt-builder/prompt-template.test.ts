@@ -0,0 +1,86 @@
+import { renderTemplate, validateTemplate, TemplateError } from './prompt-template';
+import { TemplateIssueCode } from './interfaces/prompt-template';
+import { PromptComposer } from './prompt-composer';
+import { SystemPromptLayer } from './layers/system-prompt-layer';
+import { TaskInstructionLayer } from './layers/task-instruction-layer';
+
+describe('renderTemplate', () => {
+  it('substitutes variables, defaults, conditionals and loops', () => {
+    const template = [
+      'Write {{language | "TypeScript"}} for {{project.name}}.',
+      '{{#if tests}}Include tests.{{else}}Skip tests.{{/if}}',
+      '{{#each files}}{{@index}}: {{path}}{{#if @last}}.{{else}}, {{/if}}{{/each}}'
+    ].join('\n');
+
+    const result = renderTemplate(template, {
+      project: { name: 'cyber-prompt-builder' },
+      tests: false,
+      files: [{ path: 'a.ts' }, { path: 'b.ts' }]
+    });
+
+    expect(result.text).toBe('Write TypeScript for cyber-prompt-builder.\nSkip tests.\n0: a.ts, 1: b.ts.');
+    expect(result.issues).toEqual([]);
+  });
+
+  it('reports missing and unused variables', () => {
+    const result = renderTemplate('Review {{file}} in {{language}}.', { language: 'go', extra: 1 });
+
+    expect(result.text).toBe('Review  in go.');
+    expect(result.missing).toEqual(['file']);
+    expect(result.unused).toEqual(['extra']);
+    expect(result.issues.map(issue => issue.code))
+      .toEqual([TemplateIssueCode.MISSING_VARIABLE, TemplateIssueCode.UNUSED_VARIABLE]);
+  });
+
+  it('uses declared defaults and throws in strict mode', () => {
+    const declarations = [{ name: 'tone', description: 'Tone', default: 'friendly' }];
+
+    expect(renderTemplate('Be {{tone}}.', {}, { declarations }).text).toBe('Be friendly.');
+    expect(() => renderTemplate('Be {{tone}}.', {}, { strict: true })).toThrow(TemplateError);
+  });
+
+  it('rejects malformed templates and prototype access', () => {
+    expect(validateTemplate('{{#if a}}unclosed')[0].message).toContain('Unclosed');
+    expect(validateTemplate('{{#each a}}{{/if}}')[0].message).toContain('Expected');
+    expect(validateTemplate('{{constructor.name}}')).toHaveLength(1);
+  });
+
+  it('does not re-render template tags inside variable values', () => {
+    expect(renderTemplate('{{input}}', { input: '{{secret}}', secret: 'x' }).text).toBe('{{secret}}');
+  });
+});
+
+describe('PromptComposer templates', () => {
+  it('renders layer templates at compose time and reports issues per layer', () => {
+    const system = new SystemPromptLayer('system', 'You are an expert in {{language}}.');
+    const task = new TaskInstructionLayer('task', 'Fix the bug in {{file}}.');
+    system.template = true;
+    task.template = true;
+
+    const composed = new PromptComposer().compose([system, task], undefined, { language: 'Rust', unused: true });
+
+    expect(composed.text).toContain('You are an expert in Rust.');
+    expect(composed.metadata.templateIssues).toEqual([
+      expect.objectContaining({ code: TemplateIssueCode.MISSING_VARIABLE, variable: 'file', layerId: 'task' }),
+      expect.objectContaining({ code: TemplateIssueCode.UNUSED_VARIABLE, variable: 'unused' })
+    ]);
+  });
+
+  it('leaves layers that are not marked as templates untouched', () => {
+    const system = new SystemPromptLayer('system', 'You are an expert in {{language}}.');
+    const task = new TaskInstructionLayer('task', 'Fix this JSX: <div style={{ color: "red" }}>{{#if}}</div>');
+    system.template = true;
+
+    const composed = new PromptComposer().compose([system, task], undefined, { language: 'Rust', secret: 'x' });
+
+    expect(composed.text).toContain('You are an expert in Rust.');
+    expect(composed.text).toContain('<div style={{ color: "red" }}>{{#if}}</div>');
+  });
+
+  it('leaves templates untouched when no variables are given', () => {
+    const system = new SystemPromptLayer('system', 'You are an expert in {{language}}.');
+    system.template = true;
+
+    expect(new PromptComposer().compose([system]).text).toBe('You are an expert in {{language}}.');
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Prompt Templates
+ * A small, logic-less templating language for layer content.
+ *
+ * Supported syntax:
+ * - `{{name}}`, `{{user.name}}` - variable substitution
+ * - `{{name | "fallback"}}` - substitution with a default value
+ * - `{{#if flag}}...{{else}}...{{/if}}` - conditional blocks
+ * - `{{#each items}}...{{/each}}` - loops, with `{{this}}`, `{{@index}}`, `{{@first}}` and `{{@last}}`
+ *
+ * Templates can only read the variables they're given; there are no expressions or function calls.
+ */
+
+import { ValidationError } from '../error/error-handler';
+import {
+  TemplateIssue,
+  TemplateIssueCode,
+  TemplateRenderOptions,
+  TemplateRenderResult,
+  TemplateVariable,
+  TemplateVariables
+} from './interfaces/prompt-template';
+
+/**
+ * Thrown for template syntax errors, and for missing variables in strict mode
+ */
+export class TemplateError extends ValidationError {
+  issues: TemplateIssue[];
+
+  constructor(message: string, issues: TemplateIssue[]) {
+    super(message, undefined, { issues });
+    this.issues = issues;
+  }
+}
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; path: string[]; fallback?: string; position: number }
+  | { kind: 'if'; path: string[]; then: TemplateNode[]; otherwise: TemplateNode[]; position: number }
+  | { kind: 'each'; path: string[]; body: TemplateNode[]; position: number };
+
+interface OpenBlock {
+  kind: 'if' | 'each';
+  path: string[];
+  position: number;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+  inElse: boolean;
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(this|@index|@first|@last|[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*)$/;
+const BLOCKED_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Parsed templates, least recently used first. Bounded, since every edit of a template is a new source.
+const MAX_PARSED_TEMPLATES = 100;
+const parsedCache = new Map<string, TemplateNode[]>();
+
+/**
+ * Check whether a string contains template tags
+ * @param source The string to check
+ */
+export function isTemplate(source: string): boolean {
+  return /\{\{[\s\S]*?\}\}/.test(source);
+}
+
+function parsePath(raw: string, position: number, issues: TemplateIssue[]): string[] {
+  if (!PATH_PATTERN.test(raw)) {
+    issues.push({ code: TemplateIssueCode.SYNTAX_ERROR, message: `Invalid variable reference: "${raw}"`, position });
+    return [];
+  }
+  const path = raw.split('.');
+  if (path.some(segment => BLOCKED_SEGMENTS.has(segment))) {
+    issues.push({ code: TemplateIssueCode.SYNTAX_ERROR, message: `Variable reference not allowed: "${raw}"`, position });
+    return [];
+  }
+  return path;
+}
+
+function parseFallback(raw: string): string {
+  const quoted = raw.match(/^(["'])([\s\S]*)\1$/);
+  return quoted ? quoted[2] : raw;
+}
+
+/**
+ * Parse a template into nodes
+ * @param source The template source
+ * @throws TemplateError for syntax errors
+ */
+function parse(source: string): TemplateNode[] {
+  const cached = parsedCache.get(source);
+  if (cached) {
+    parsedCache.delete(source);
+    parsedCache.set(source, cached);
+    return cached;
+  }
+
+  const issues: TemplateIssue[] = [];
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.otherwise : block.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const position = match.index!;
+    const tag = match[1];
+
+    if (position > lastIndex) {
+      current().push({ kind: 'text', value: source.slice(lastIndex, position) });
+    }
+    lastIndex = position + match[0].length;
+
+    if (tag.startsWith('#')) {
+      const [keyword, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'each') {
+        issues.push({ code: TemplateIssueCode.SYNTAX_ERROR, message: `Unknown block: "#${keyword}"`, position });
+        continue;
+      }
+      stack.push({
+        kind: keyword,
+        path: parsePath(rest.join(' '), position, issues),
+        position,
+        then: [],
+        otherwise: [],
+        inElse: false
+      });
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const block = stack.pop();
+      if (!block) {
+        issues.push({ code: TemplateIssueCode.SYNTAX_ERROR, message: `Unexpected "{{/${keyword}}}"`, position });
+        continue;
+      }
+      if (block.kind !== keyword) {
+        issues.push({
+          code: TemplateIssueCode.SYNTAX_ERROR,
+          message: `Expected "{{/${block.kind}}}" but found "{{/${keyword}}}"`,
+          position
+        });
+      }
+      current().push(
+        block.kind === 'if'
+          ? { kind: 'if', path: block.path, then: block.then, otherwise: block.otherwise, position: block.position }
+          : { kind: 'each', path: block.path, body: block.then, position: block.position }
+      );
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.kind !== 'if' || block.inElse) {
+        issues.push({ code: TemplateIssueCode.SYNTAX_ERROR, message: 'Unexpected "{{else}}"', position });
+        continue;
+      }
+      block.inElse = true;
+    } else {
+      const separator = tag.indexOf('|');
+      const rawPath = (separator === -1 ? tag : tag.slice(0, separator)).trim();
+      const fallback = separator === -1 ? undefined : parseFallback(tag.slice(separator + 1).trim());
+      current().push({ kind: 'variable', path: parsePath(rawPath, position, issues), fallback, position });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ kind: 'text', value: source.slice(lastIndex) });
+  }
+
+  for (const block of stack) {
+    issues.push({
+      code: TemplateIssueCode.SYNTAX_ERROR,
+      message: `Unclosed "{{#${block.kind}}}" block`,
+      position: block.position
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new TemplateError(`Invalid template: ${issues[0].message}`, issues);
+  }
+
+  parsedCache.set(source, root);
+  if (parsedCache.size > MAX_PARSED_TEMPLATES) {
+    parsedCache.delete(parsedCache.keys().next().value!);
+  }
+  return root;
+}
+
+/**
+ * Validate template syntax without rendering it
+ * @param source The template source
+ * @returns Syntax issues, empty if the template is valid
+ */
+export function validateTemplate(source: string): TemplateIssue[] {
+  try {
+    parse(source);
+    return [];
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return error.issues;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fill in declared defaults for variables that weren't supplied
+ * @param declarations The declared variables
+ * @param variables The supplied variables
+ */
+export function applyVariableDefaults(
+  declarations: TemplateVariable[],
+  variables: TemplateVariables
+): TemplateVariables {
+  const resolved: TemplateVariables = { ...variables };
+  for (const declaration of declarations) {
+    if (resolved[declaration.name] === undefined && declaration.default !== undefined) {
+      resolved[declaration.name] = declaration.default;
+    }
+  }
+  return resolved;
+}
+
+function ownValue(target: unknown, key: string): unknown {
+  if (target !== null && typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, key)) {
+    return (target as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Renders templates against a variables map, tracking which variables were used or missing
+ */
+export class TemplateResolver {
+  private used = new Set<string>();
+  private missing = new Set<string>();
+
+  constructor(private variables: TemplateVariables) {}
+
+  /**
+   * Render a template
+   * @param source The template source
+   * @throws TemplateError for syntax errors
+   */
+  render(source: string): string {
+    return this.renderNodes(parse(source), [{ value: this.variables }]);
+  }
+
+  /**
+   * Top-level variables referenced so far
+   */
+  getUsed(): string[] {
+    return Array.from(this.used);
+  }
+
+  /**
+   * Top-level variables referenced so far that had no value
+   */
+  getMissing(): string[] {
+    return Array.from(this.missing);
+  }
+
+  /**
+   * Supplied variables that haven't been referenced
+   * @param supplied Names of the variables to check, defaults to all variables
+   */
+  getUnused(supplied: string[] = Object.keys(this.variables)): string[] {
+    return supplied.filter(name => !this.used.has(name));
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.kind) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'variable': {
+          const value = this.lookup(node.path, scopes);
+          if (value === undefined || value === null) {
+            if (node.fallback !== undefined) {
+              output += node.fallback;
+            } else {
+              this.markMissing(node.path, scopes);
+            }
+          } else {
+            output += stringify(value);
+          }
+          break;
+        }
+
+        case 'if':
+          output += this.renderNodes(isTruthy(this.lookup(node.path, scopes)) ? node.then : node.otherwise, scopes);
+          break;
+
+        case 'each': {
+          const value = this.lookup(node.path, scopes);
+          if (value === undefined || value === null) {
+            this.markMissing(node.path, scopes);
+            break;
+          }
+          const items = Array.isArray(value) ? value : [value];
+          items.forEach((item, index) => {
+            output += this.renderNodes(node.body, [...scopes, { value: item, index, length: items.length }]);
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private lookup(path: string[], scopes: Scope[]): unknown {
+    if (path.length === 0) {
+      return undefined;
+    }
+
+    const [head, ...rest] = path;
+    const scope = scopes[scopes.length - 1];
+
+    if (head === '@index') return scope.index;
+    if (head === '@first') return scope.index === undefined ? undefined : scope.index === 0;
+    if (head === '@last') return scope.index === undefined ? undefined : scope.index === scope.length! - 1;
+
+    let value: unknown;
+    if (head === 'this') {
+      value = scope.value;
+    } else {
+      // Innermost scope wins, falling back to the top-level variables
+      for (let i = scopes.length - 1; i >= 0; i--) {
+        value = ownValue(scopes[i].value, head);
+        if (value !== undefined) {
+          if (i === 0) this.used.add(head);
+          break;
+        }
+      }
+      if (value === undefined && Object.prototype.hasOwnProperty.call(this.variables, head)) {
+        this.used.add(head);
+      }
+    }
+
+    for (const segment of rest) {
+      value = ownValue(value, segment);
+    }
+    return value;
+  }
+
+  private markMissing(path: string[], scopes: Scope[]): void {
+    const [head] = path;
+    // Only top-level names can be supplied by the caller
+    const inLoop = scopes.length > 1 && scopes.slice(1).some(scope => ownValue(scope.value, head) !== undefined);
+    if (head && !head.startsWith('@') && head !== 'this' && !inLoop) {
+      this.missing.add(head);
+      this.used.add(head);
+    }
+  }
+}
+
+/**
+ * Render a template and report missing and unused variables
+ * @param source The template source
+ * @param variables The variables to substitute
+ * @param options Declarations and strictness
+ * @throws TemplateError for syntax errors, or missing variables in strict mode
+ */
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables,
+  options: TemplateRenderOptions = {}
+): TemplateRenderResult {
+  const resolver = new TemplateResolver(applyVariableDefaults(options.declarations || [], variables));
+  const text = resolver.render(source);
+
+  return buildRenderResult(text, resolver, Object.keys(variables), options.strict);
+}
+
+/**
+ * Build a render result from a resolver, throwing in strict mode if variables are missing
+ * @param text The rendered text
+ * @param resolver The resolver used to render
+ * @param supplied Names of the variables the caller supplied
+ * @param strict Throw when variables are missing
+ */
+export function buildRenderResult(
+  text: string,
+  resolver: TemplateResolver,
+  supplied: string[],
+  strict: boolean = false
+): TemplateRenderResult {
+  const missing = resolver.getMissing();
+  const unused = resolver.getUnused(supplied);
+
+  const issues: TemplateIssue[] = [
+    ...missing.map(variable => ({
+      code: TemplateIssueCode.MISSING_VARIABLE,
+      variable,
+      message: `Missing template variable: ${variable}`
+    })),
+    ...unused.map(variable => ({
+      code: TemplateIssueCode.UNUSED_VARIABLE,
+      variable,
+      message: `Unused template variable: ${variable}`
+    }))
+  ];
+
+  if (strict && missing.length > 0) {
+    throw new TemplateError(`Missing template variables: ${missing.join(', ')}`, issues);
+  }
+
+  return { text, missing, unused, issues };
+}
@@ -0,0 +1,179 @@
+/**
+ * Base Composition Strategy
+ * Shared ordering, formatting and metadata handling for composition strategies
+ */
+
+import { PromptLayer } from '../interfaces/prompt-layer';
+import {
+  ComposedPrompt,
+  CompositionContext,
+  CompositionStrategy,
+  ExclusionReason,
+  LayerExclusion,
+  TokenEstimator
+} from '../interfaces/prompt-composition';
+import { TemplateIssue, TemplateIssueCode, TemplateVariables } from '../interfaces/prompt-template';
+import { TemplateError, TemplateResolver, applyVariableDefaults, isTemplate } from '../prompt-template';
+
+/**
+ * A layer paired with its formatted content
+ */
+export interface FormattedLayer {
+  layer: PromptLayer;
+  content: string;
+}
+
+/**
+ * Output of a strategy's render step
+ */
+export interface RenderResult {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Default token estimator (~4 characters per token)
+ */
+export const defaultTokenEstimator: TokenEstimator = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Order layers by priority, highest first
+ * @param layers The layers to order
+ * @param deterministic Break ties by layer id rather than input order
+ * @returns A new, sorted array
+ */
+export function orderLayers(layers: PromptLayer[], deterministic: boolean = false): PromptLayer[] {
+  return [...layers].sort((a, b) => {
+    if (b.priority !== a.priority) {
+      return b.priority - a.priority;
+    }
+    return deterministic ? a.id.localeCompare(b.id) : 0;
+  });
+}
+
+/**
+ * Base class for strategies: subclasses only decide how formatted layers are rendered
+ */
+export abstract class BaseCompositionStrategy implements CompositionStrategy {
+  abstract name: string;
+
+  compose(layers: PromptLayer[], context: CompositionContext = {}): ComposedPrompt {
+    const startTime = Date.now();
+    const estimate = context.tokenEstimator || defaultTokenEstimator;
+
+    const excludedLayers: PromptLayer[] = [];
+    const exclusions: LayerExclusion[] = [];
+    const included: FormattedLayer[] = [];
+    const variables = context.variables &&
+      applyVariableDefaults(context.variableDeclarations || [], context.variables);
+    const usedVariables = new Set<string>();
+    const templateIssues: TemplateIssue[] = [];
+
+    for (const layer of orderLayers(layers, context.deterministicOrder)) {
+      if (!layer.enabled) {
+        excludedLayers.push(layer);
+        exclusions.push({ layerId: layer.id, layerType: layer.type, reason: ExclusionReason.DISABLED });
+        continue;
+      }
+
+      const formatter = context.formatters?.get(layer.type);
+      let content = formatter ? formatter(layer) : layer.getContent();
+      
+      // Only layers marked as templates are rendered; other content may hold braces of its own
+      if (variables && layer.template && isTemplate(content)) {
+        content = this.renderTemplate(layer, content, variables, usedVariables, templateIssues);
+      }
+      content = content.trim();
+
+      // Nothing to say - leave it out rather than emit an empty section
+      if (!content) {
+        excludedLayers.push(layer);
+        exclusions.push({ layerId: layer.id, layerType: layer.type, reason: ExclusionReason.EMPTY });
+        continue;
+      }
+
+      included.push({ layer, content });
+    }
+
+    if (context.variables) {
+      for (const name of Object.keys(context.variables)) {
+        if (!usedVariables.has(name)) {
+          templateIssues.push({
+            code: TemplateIssueCode.UNUSED_VARIABLE,
+            variable: name,
+            message: `Unused template variable: ${name}`
+          });
+        }
+      }
+      
+      const missing = templateIssues.filter(issue => issue.code === TemplateIssueCode.MISSING_VARIABLE);
+      if (context.strictVariables && missing.length > 0) {
+        throw new TemplateError(
+          `Missing template variables: ${Array.from(new Set(missing.map(issue => issue.variable))).join(', ')}`,
+          templateIssues
+        );
+      }
+    }
+
+    const rendered = this.render(included);
+
+    return {
+      text: rendered.text,
+      layers: included.map(item => item.layer),
+      tokenEstimate: estimate(rendered.text),
+      metadata: {
+        ...rendered.metadata,
+        strategy: this.name,
+        composedAt: new Date(),
+        compositionTimeMs: Date.now() - startTime,
+        excludedLayers,
+        exclusions,
+        ...(context.variables && { templateIssues })
+      }
+    };
+  }
+
+  /**
+   * Render a layer's content as a template, recording used and missing variables
+   */
+  private renderTemplate(
+    layer: PromptLayer,
+    content: string,
+    variables: TemplateVariables,
+    usedVariables: Set<string>,
+    templateIssues: TemplateIssue[]
+  ): string {
+    const resolver = new TemplateResolver(variables);
+    let text: string;
+
+    try {
+      text = resolver.render(content);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(
+          `Invalid template in layer ${layer.id}: ${error.issues[0]?.message}`,
+          error.issues.map(issue => ({ ...issue, layerId: layer.id }))
+        );
+      }
+      throw error;
+    }
+
+    resolver.getUsed().forEach(name => usedVariables.add(name));
+    for (const variable of resolver.getMissing()) {
+      templateIssues.push({
+        code: TemplateIssueCode.MISSING_VARIABLE,
+        variable,
+        layerId: layer.id,
+        message: `Missing template variable: ${variable}`
+      });
+    }
+
+    return text;
+  }
+
+  /**
+   * Render the formatted layers into the final prompt
+   * @param layers Enabled layers in composition order
+   */
+  protected abstract render(layers: FormattedLayer[]): RenderResult;
+}
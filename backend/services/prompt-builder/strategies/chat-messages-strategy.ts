@@ -0,0 +1,96 @@
+/**
+ * Chat Messages Strategy
+ * Splits layers into system and user messages for chat-style provider APIs
+ */
+
+import { AIPrompt } from '@shared/interfaces/ai-provider';
+import { ComposedPrompt } from '../interfaces/prompt-composition';
+import { BaseCompositionStrategy, FormattedLayer, RenderResult } from './base-strategy';
+
+/**
+ * Role of a composed chat message
+ */
+export type ChatMessageRole = 'system' | 'user';
+
+/**
+ * A single message produced by the chat strategy
+ */
+export interface ChatMessage {
+  role: ChatMessageRole;
+  content: string;
+  layerIds: string[];
+}
+
+/**
+ * Layer types routed to the system message by default
+ */
+export const DEFAULT_SYSTEM_LAYER_TYPES = ['system', 'preferences'];
+
+/**
+ * Convert a composed prompt into a provider prompt.
+ * Chat-message compositions map onto systemPrompt/content; anything else becomes content.
+ * @param composed The composed prompt
+ */
+export function toAIPrompt(composed: ComposedPrompt): AIPrompt {
+  const messages = composed.metadata.messages as ChatMessage[] | undefined;
+
+  if (!Array.isArray(messages)) {
+    return { content: composed.text };
+  }
+
+  const systemPrompt = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  return {
+    content: messages
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+      .join('\n\n'),
+    ...(systemPrompt && { systemPrompt })
+  };
+}
+
+/**
+ * Strategy that produces a system message followed by a user message.
+ * The messages are returned in `metadata.messages`; `text` holds a readable transcript.
+ */
+export class ChatMessagesStrategy extends BaseCompositionStrategy {
+  name = 'chat-messages';
+
+  /**
+   * @param systemLayerTypes Layer types that belong in the system message; all others go to the user message
+   */
+  constructor(private systemLayerTypes: string[] = DEFAULT_SYSTEM_LAYER_TYPES) {
+    super();
+  }
+
+  protected render(layers: FormattedLayer[]): RenderResult {
+    const system = layers.filter(item => this.systemLayerTypes.includes(item.layer.type));
+    const user = layers.filter(item => !this.systemLayerTypes.includes(item.layer.type));
+
+    const messages: ChatMessage[] = [];
+
+    if (system.length > 0) {
+      messages.push(this.toMessage('system', system));
+    }
+
+    if (user.length > 0) {
+      messages.push(this.toMessage('user', user));
+    }
+
+    return {
+      text: messages.map(message => `[${message.role.toUpperCase()}]\n${message.content}`).join('\n\n'),
+      metadata: { messages }
+    };
+  }
+
+  private toMessage(role: ChatMessageRole, layers: FormattedLayer[]): ChatMessage {
+    return {
+      role,
+      content: layers.map(item => item.content).join('\n\n'),
+      layerIds: layers.map(item => item.layer.id)
+    };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Priority Concatenation Strategy
+ * Joins layer content in priority order, highest priority first
+ */
+
+import { BaseCompositionStrategy, FormattedLayer, RenderResult } from './base-strategy';
+
+/**
+ * Plain-text strategy that concatenates layers with a separator
+ */
+export class PriorityConcatenationStrategy extends BaseCompositionStrategy {
+  name = 'priority-concatenation';
+
+  constructor(private separator: string = '\n\n') {
+    super();
+  }
+
+  protected render(layers: FormattedLayer[]): RenderResult {
+    return {
+      text: layers.map(item => item.content).join(this.separator)
+    };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * XML Sections Strategy
+ * Wraps each layer in an XML tag named after its type
+ */
+
+import { BaseCompositionStrategy, FormattedLayer, RenderResult } from './base-strategy';
+
+/**
+ * Strategy that emits each layer as a tagged section, e.g. <system id="base">...</system>
+ */
+export class XmlSectionsStrategy extends BaseCompositionStrategy {
+  name = 'xml-sections';
+
+  /**
+   * @param tagNames Optional overrides mapping layer types to tag names
+   */
+  constructor(private tagNames: Record<string, string> = {}) {
+    super();
+  }
+
+  protected render(layers: FormattedLayer[]): RenderResult {
+    const sections = layers.map(({ layer, content }) => {
+      const tag = this.getTagName(layer.type);
+      return `<${tag} id="${escapeAttribute(layer.id)}">\n${content}\n</${tag}>`;
+    });
+
+    return {
+      text: sections.join('\n\n')
+    };
+  }
+
+  /**
+   * Get a valid XML tag name for a layer type
+   */
+  private getTagName(type: string): string {
+    const tag = (this.tagNames[type] || type).replace(/[^A-Za-z0-9_.-]/g, '_');
+    return /^[A-Za-z_]/.test(tag) ? tag : `layer_${tag}`;
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,180 @@
+/**
+ * Token Budget Enforcement
+ * Evicts and truncates prompt layers until a composition fits a token budget
+ */
+
+import { LayerPriority, PromptLayer } from './interfaces/prompt-layer';
+import { ComposedPrompt, ExclusionReason, LayerExclusion } from './interfaces/prompt-composition';
+import { MemoryLayer } from './layers/memory-layer';
+import { StaticLayer } from './layers/static-layer';
+import { orderLayers } from './strategies/base-strategy';
+
+/**
+ * Marker appended to truncated layer content
+ */
+export const TRUNCATION_MARKER = '\n[...truncated]';
+
+/**
+ * Options for budget enforcement
+ */
+export interface TokenBudgetOptions {
+  /**
+   * Smallest useful size (in tokens) for a truncated layer; below this the layer is dropped instead
+   */
+  minTruncatedTokens?: number;
+  
+  /**
+   * Final content of a layer, used as the source for truncation (e.g. with templates rendered)
+   */
+  contentOf?: (layer: PromptLayer) => string;
+}
+
+/**
+ * Compose layers within a token budget.
+ *
+ * Layers are reduced in this order until the prompt fits:
+ * 1. LOW priority layers are dropped, lowest priority first
+ * 2. Memory layer entries are trimmed, oldest first
+ * 3. Remaining layers are truncated, or dropped if truncation can't help, lowest priority first
+ *
+ * CRITICAL layers are never modified. The input layers are not mutated; the composition is
+ * built from clones, and `metadata.excludedLayers` refers back to the original layers.
+ *
+ * @param layers The layers to compose
+ * @param maxTokens The token budget
+ * @param compose Composes a set of layers (typically a bound strategy)
+ * @param estimate Token estimator used to size truncated content
+ * @param options Enforcement options
+ * @returns The composed prompt, with every exclusion recorded in metadata
+ */
+export function composeWithinBudget(
+  layers: PromptLayer[],
+  maxTokens: number,
+  compose: (layers: PromptLayer[]) => ComposedPrompt,
+  estimate: (text: string) => number,
+  options: TokenBudgetOptions = {}
+): ComposedPrompt {
+  const minTruncatedTokens = options.minTruncatedTokens ?? 32;
+  const originals = new Map(layers.map(layer => [layer.id, layer]));
+  const budgetExclusions: LayerExclusion[] = [];
+  const droppedIds = new Set<string>();
+
+  let working = layers.map(layer => layer.clone());
+  let composed = compose(working);
+  const fits = () => composed.tokenEstimate <= maxTokens;
+
+  // Enabled, non-critical layers up to a priority, lowest priority first
+  const evictable = (maxPriority: number) =>
+    orderLayers(working, true)
+      .reverse()
+      .filter(layer => layer.enabled && layer.priority < LayerPriority.CRITICAL && layer.priority <= maxPriority);
+
+  const drop = (layer: PromptLayer) => {
+    const before = composed.tokenEstimate;
+    working = working.filter(item => item !== layer);
+    composed = compose(working);
+    droppedIds.add(layer.id);
+    budgetExclusions.push({
+      layerId: layer.id,
+      layerType: layer.type,
+      reason: ExclusionReason.OVER_BUDGET,
+      tokensFreed: before - composed.tokenEstimate
+    });
+  };
+
+  const truncate = (layer: PromptLayer): boolean => {
+    const others = working.filter(item => item !== layer);
+    if (compose(others).tokenEstimate > maxTokens) {
+      return false;
+    }
+
+    const content = options.contentOf ? options.contentOf(layer) : layer.getContent();
+    const withPrefix = (length: number) => working.map(item =>
+      item === layer ? new StaticLayer(layer, content.slice(0, length).trimEnd() + TRUNCATION_MARKER) : item
+    );
+
+    // Binary search for the longest prefix that still fits
+    let low = 0;
+    let high = content.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (compose(withPrefix(mid)).tokenEstimate <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (estimate(content.slice(0, low)) < minTruncatedTokens) {
+      return false;
+    }
+
+    const before = composed.tokenEstimate;
+    working = withPrefix(low);
+    composed = compose(working);
+    budgetExclusions.push({
+      layerId: layer.id,
+      layerType: layer.type,
+      reason: ExclusionReason.TRUNCATED,
+      tokensFreed: before - composed.tokenEstimate,
+      detail: `Kept ${low} of ${content.length} characters`
+    });
+    return true;
+  };
+
+  // 1. Drop LOW priority layers
+  for (const layer of evictable(LayerPriority.LOW)) {
+    if (fits()) break;
+    drop(layer);
+  }
+
+  // 2. Trim memory entries, oldest first
+  for (const layer of evictable(LayerPriority.CRITICAL)) {
+    if (fits()) break;
+    if (!(layer instanceof MemoryLayer)) continue;
+
+    const before = composed.tokenEstimate;
+    let trimmed = 0;
+    while (!fits() && layer.removeOldestEntry()) {
+      trimmed++;
+      composed = compose(working);
+    }
+
+    if (trimmed > 0) {
+      budgetExclusions.push({
+        layerId: layer.id,
+        layerType: layer.type,
+        reason: ExclusionReason.ENTRIES_TRIMMED,
+        tokensFreed: before - composed.tokenEstimate,
+        detail: `Removed ${trimmed} oldest ${trimmed === 1 ? 'entry' : 'entries'}`
+      });
+    }
+  }
+
+  // 3. Truncate or drop whatever non-critical layers remain
+  for (const layer of evictable(LayerPriority.CRITICAL)) {
+    if (fits()) break;
+    if (!truncate(layer)) {
+      drop(layer);
+    }
+  }
+
+  // Point exclusions back at the caller's layers rather than our clones
+  const excludedIds = new Set([
+    ...(composed.metadata.excludedLayers || []).map(layer => layer.id),
+    ...droppedIds
+  ]);
+
+  return {
+    ...composed,
+    metadata: {
+      ...composed.metadata,
+      excludedLayers: Array.from(excludedIds)
+        .map(id => originals.get(id))
+        .filter((layer): layer is PromptLayer => !!layer),
+      exclusions: [...(composed.metadata.exclusions || []), ...budgetExclusions],
+      maxTokens,
+      budgetExceeded: !fits()
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { AIProvider, AIPrompt, AIProviderOptions, AIResponse, AIProviderFactory, CostEstimate, PromptOptimizationResult } from './index';
 import { settingsManager } from '../settings-manager';
+import { tokenEstimatorRegistry } from '../tokenization/token-estimator-registry';
 
 /**
  * Anthropic Claude AI Provider
@@ -138,12 +139,12 @@ export class ClaudeProvider implements AIProvider {
       outputRate = 0.00125;
     }
     
-    // Estimate token count (rough approximation)
+    // Estimate token count with the calibrated Claude estimator
     const fullPrompt = prompt.context 
       ? `${prompt.context}\n\n${prompt.content}`
       : prompt.content;
     
-    const inputTokens = Math.ceil(fullPrompt.length / 4); // Rough estimate: 4 chars per token
+    const inputTokens = tokenEstimatorRegistry.countTokens(fullPrompt, 'claude', model);
     const outputTokens = options.maxTokens || 4000;
     
     // Calculate costs
@@ -1,5 +1,6 @@
 import { AIProvider, AIPrompt, AIProviderOptions, AIResponse, AIProviderFactory, CostEstimate, PromptOptimizationResult } from './index';
 import { settingsManager } from '../settings-manager';
+import { tokenEstimatorRegistry } from '../tokenization/token-estimator-registry';
 
 /**
  * OpenAI GPT Provider
@@ -144,15 +145,15 @@ export class OpenAIProvider implements AIProvider {
       }
     }
     
-    // Estimate token count (rough approximation)
+    // Estimate token count with the model's BPE encoding
     const fullPrompt = prompt.context 
       ? `${prompt.context}\n\n${prompt.content}`
       : prompt.content;
     
     // Add system message tokens
     const systemMessage = 'You are a skilled programmer tasked with generating high-quality code. Provide only the code without explanations unless specifically asked for comments.';
-    const systemTokens = Math.ceil(systemMessage.length / 4);
-    const inputTokens = Math.ceil(fullPrompt.length / 4) + systemTokens; // Rough estimate: 4 chars per token
+    const systemTokens = tokenEstimatorRegistry.countTokens(systemMessage, 'openai', model);
+    const inputTokens = tokenEstimatorRegistry.countTokens(fullPrompt, 'openai', model) + systemTokens;
     const outputTokens = options.maxTokens || 4000;
     
     // Calculate costs
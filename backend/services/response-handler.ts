@@ -6,6 +6,10 @@
 import { AIResponse } from './providers/index';
 import { Logger } from './logging/logger';
 import { errorHandler, ValidationError } from './error/error-handler';
+import { tokenEstimatorRegistry } from './tokenization/token-estimator-registry';
+import { extractPatches, isPatchBlock } from './patch/patch-parser';
+import { applyPatch } from './patch/patch-applier';
+import { HunkStatus, PatchReport } from './patch/patch-types';
 
 // Initialize logger
 const logger = new Logger('ResponseHandler');
@@ -28,6 +32,16 @@ const languageNormalization: Record<string, string> = {
   'md': 'markdown'
 };
 
+// Tags that name the same language, for matching patch targets to code blocks
+const languageAliases: string[][] = [
+  ['js', 'javascript', 'jsx'],
+  ['ts', 'typescript', 'tsx'],
+  ['python', 'py'],
+  ['c#', 'csharp', 'cs'],
+  ['bash', 'shell', 'sh'],
+  ['markdown', 'md']
+];
+
 // Metadata about the response
 export interface ResponseMeta {
   model: string;
@@ -48,6 +62,7 @@ export interface StructuredResponse {
   explanation?: string;
   meta: ResponseMeta;
   rawResponse?: string;
+  patches?: PatchReport[];          // How patches in a follow-up were applied, per code block
 }
 
 /**
@@ -199,12 +214,11 @@ export const extractExplanation = (response: StructuredResponse): string => {
 
 /**
  * Estimate token counts from response text
- * This is a rough approximation and will vary by model
+ * Uses the tokenizer registered for the provider, or cl100k_base when none is given
  */
-export const estimateTokenCount = (text: string): number => {
+export const estimateTokenCount = (text: string, provider?: string, model?: string): number => {
   try {
-    // Simple approximation: ~4 chars per token
-    return Math.ceil(text.length / 4);
+    return tokenEstimatorRegistry.countTokens(text, provider, model);
   } catch (error) {
     logger.error('Failed to estimate token count', { error });
     // Log the error but return a valid number
@@ -258,8 +272,29 @@ export const getPrimaryLanguage = (response: StructuredResponse): string => {
   }
 };
 
+/**
+ * Find the code block a patch target refers to
+ */
+const resolvePatchTarget = (
+  target: string | undefined,
+  languages: string[],
+  targetLanguage?: string
+): string | undefined => {
+  if (target) {
+    const lower = target.toLowerCase();
+    const names = languageAliases.find(group => group.includes(lower)) || [lower];
+    return languages.find(language => names.includes(language));
+  }
+  
+  if (targetLanguage && languages.includes(targetLanguage)) return targetLanguage;
+  return languages.length === 1 ? languages[0] : undefined;
+};
+
 /**
  * Apply an update to an existing response (for follow-up prompts)
+ * Patches in the update (unified diffs or search/replace blocks) edit the existing code in
+ * place. A block whose patch fails is replaced by the full code in the update if there is
+ * any, and left unchanged otherwise; either way the outcome is reported in `patches`.
  */
 export const updateResponseWithChanges = (
   original: StructuredResponse,
@@ -276,19 +311,63 @@ export const updateResponseWithChanges = (
     const result = { ...original };
     result.codeBlocks = { ...original.codeBlocks };
     
+    // Separate edits written as patches from full code
+    const fullBlocks: Record<string, string> = {};
+    for (const [language, code] of Object.entries(update.codeBlocks)) {
+      if (!isPatchBlock(language, code)) fullBlocks[language] = code;
+    }
+    const output = update.rawResponse ?? Object.entries(update.codeBlocks)
+      .map(([language, code]) => `\`\`\`${language}\n${code}\n\`\`\``)
+      .join('\n\n');
+    
+    const reports: PatchReport[] = [];
+    const patched = new Set<string>();
+    for (const patch of extractPatches(output)) {
+      const language = resolvePatchTarget(patch.target, Object.keys(original.codeBlocks), targetLanguage);
+      if (!language || (targetLanguage && language !== targetLanguage)) {
+        logger.warn('Skipping patch for unknown code block', { target: patch.target });
+        continue;
+      }
+      
+      const applied = applyPatch(result.codeBlocks[language], patch);
+      const report: PatchReport = { language, format: patch.format, hunks: applied.hunks, fallback: 'none' };
+      reports.push(report);
+      
+      if (applied.success) {
+        result.codeBlocks[language] = applied.code;
+        patched.add(language);
+        logger.debug(`Patched code block for language: ${language}`, { hunks: applied.hunks.length });
+      } else {
+        report.fallback = fullBlocks[language] !== undefined ? 'full_replacement' : 'unchanged';
+        logger.warn(`Patch failed for language: ${language}`, {
+          fallback: report.fallback,
+          failedHunks: applied.hunks.filter(hunk => hunk.status === HunkStatus.FAILED).map(hunk => hunk.hunkId)
+        });
+      }
+    }
+    
+    // A patched block keeps the patch; full code replaces the rest
+    for (const language of patched) {
+      delete fullBlocks[language];
+    }
+    
     // If a specific language was targeted, only update that language
-    if (targetLanguage && update.codeBlocks[targetLanguage]) {
-      result.codeBlocks[targetLanguage] = update.codeBlocks[targetLanguage];
+    if (targetLanguage && fullBlocks[targetLanguage]) {
+      result.codeBlocks[targetLanguage] = fullBlocks[targetLanguage];
       logger.debug(`Updated code block for language: ${targetLanguage}`);
-    } else {
-      // Otherwise update all code blocks
+    } else if (!targetLanguage || patched.size === 0) {
+      // Otherwise update all code blocks, unless the targeted block was patched
       result.codeBlocks = {
         ...result.codeBlocks,
-        ...update.codeBlocks
+        ...fullBlocks
       };
       logger.debug('Updated all code blocks');
     }
     
+    if (reports.length > 0) {
+      result.patches = reports;
+    }
+    
     // Add new explanation if provided
     if (update.explanation) {
       result.explanation = update.explanation;
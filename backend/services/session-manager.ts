@@ -6,6 +6,7 @@
 import { StructuredResponse } from './response-handler';
 import { AIPrompt } from './providers/index';
 import { getStorage } from '@shared/services/storage';
+import { SEARCH_REPLACE_INSTRUCTIONS } from './patch/patch-parser';
 
 // Simple internal function to generate IDs instead of relying on uuid package
 function generateId(): string {
@@ -42,6 +43,49 @@ export interface SessionIteration {
   model: string;
 }
 
+// Edits that change part of the code, which a patch can express
+const PATCH_ACTIONS: EditAction[] = ['refactor', 'optimize', 'add', 'remove', 'fix', 'modify'];
+
+// Code this long costs more to send back whole than as a patch
+const PATCH_MIN_LINES = 40;
+
+/**
+ * Whether to ask for an edit as a patch instead of the whole code
+ */
+export function shouldRequestPatch(action: EditAction, code: string[]): boolean {
+  return PATCH_ACTIONS.includes(action) && code.some(block => block.split('\n').length >= PATCH_MIN_LINES);
+}
+
+/**
+ * Describe an edit action as the opening of an instruction, e.g. "Refactor the css code to"
+ */
+export function describeEditAction(action: EditAction, target: EditTarget): string {
+  const targetStr = target === 'all' ? 'the entire codebase' : `the ${target} code`;
+  
+  switch(action) {
+    case 'refactor':
+      return `Refactor ${targetStr} to`;
+    case 'optimize':
+      return `Optimize ${targetStr} to`;
+    case 'add':
+      return `Add to ${targetStr}`;
+    case 'remove':
+      return `Remove from ${targetStr}`;
+    case 'fix':
+      return `Fix ${targetStr} to`;
+    case 'explain':
+      return `Explain ${targetStr}`;
+    case 'regenerate':
+      return `Regenerate ${targetStr}`;
+    case 'modify':
+      return `Modify ${targetStr} to`;
+    case 'convert':
+      return `Convert ${targetStr} to`;
+    default:
+      return `Update ${targetStr} to`;
+  }
+}
+
 /**
  * Session history for handling conversation context and code iterations
  */
@@ -249,9 +293,15 @@ export class SessionManager {
       }
     }
     
+    // Ask for large edits as patches rather than the whole code
+    const targetCode = editTarget === 'all' ? Object.values(codeBlocks) : [codeBlocks[editTarget]].filter(Boolean);
+    if (shouldRequestPatch(editAction, targetCode)) {
+      context += `\n\n${SEARCH_REPLACE_INSTRUCTIONS}`;
+    }
+    
     // Add action information
-    const actionDescription = this.getActionDescription(editAction, editTarget);
-    let enhancedPrompt = `${actionDescription}: ${userPrompt}`;
+    const actionDescription = describeEditAction(editAction, editTarget);
+    const enhancedPrompt = `${actionDescription}: ${userPrompt}`;
     
     return {
       content: enhancedPrompt,
@@ -259,36 +309,6 @@ export class SessionManager {
     };
   }
   
-  /**
-   * Get a description for an edit action
-   */
-  private getActionDescription(action: EditAction, target: EditTarget): string {
-    const targetStr = target === 'all' ? 'the entire codebase' : `the ${target} code`;
-    
-    switch(action) {
-      case 'refactor':
-        return `Refactor ${targetStr} to`;
-      case 'optimize':
-        return `Optimize ${targetStr} to`;
-      case 'add':
-        return `Add to ${targetStr}`;
-      case 'remove':
-        return `Remove from ${targetStr}`;
-      case 'fix':
-        return `Fix ${targetStr} to`;
-      case 'explain':
-        return `Explain ${targetStr}`;
-      case 'regenerate':
-        return `Regenerate ${targetStr}`;
-      case 'modify':
-        return `Modify ${targetStr} to`;
-      case 'convert':
-        return `Convert ${targetStr} to`;
-      default:
-        return `Update ${targetStr} to`;
-    }
-  }
-  
   /**
    * Determine the action and target from a user prompt
    */
@@ -376,15 +396,10 @@ export class SessionManager {
         this.currentSessionId = mostRecent.id;
       }
     } catch (error) {
-this.currentSessionId = mostRecent.id;
-      }
-    } catch (error) {
       // TODO: Implement a more robust logging system
       console.error('Error loading sessions:', error);
     }
   }
-    }
-  }
 }
 
 // Create a singleton instance for use throughout the app
@@ -7,10 +7,12 @@ import { TTSSettings } from './tts/tts-types';
 import { Logger } from './logging/logger';
 import { errorHandler, ValidationError } from './error/error-handler';
 import { configService } from './config/config-service';
+import { AgentRole, DEFAULT_AGENT_ROLES } from './agent/agent-roles';
 
 export interface AIProviderSettings {
   apiKey: string;
   preferredModel: string;
+  customEndpoint?: string; // Base URL for self-hosted or proxied endpoints
 }
 
 export interface AgentSettings {
@@ -18,6 +20,7 @@ export interface AgentSettings {
   enableIteration: boolean;
   enableContextMemory: boolean;
   maxIterations: number;
+  roles: AgentRole[];       // Agents available to multi-agent pipelines
 }
 
 export interface AppSettings {
@@ -26,12 +29,16 @@ export interface AppSettings {
     claude: AIProviderSettings;
     openai: AIProviderSettings;
     gemini: AIProviderSettings;
+    local: AIProviderSettings;
   };
   agent: AgentSettings;
   theme: 'light' | 'dark' | 'system';
   tts?: TTSSettings; // TTS settings
 }
 
+// Providers that can be selected as the active provider
+export const SUPPORTED_PROVIDERS = ['claude', 'openai', 'gemini', 'local'];
+
 // Default settings
 const defaultSettings: AppSettings = {
   activeProvider: 'claude',
@@ -47,13 +54,19 @@ const defaultSettings: AppSettings = {
     gemini: {
       apiKey: '',
       preferredModel: 'gemini-pro'
+    },
+    local: {
+      apiKey: '',
+      preferredModel: 'llama3',
+      customEndpoint: 'http://localhost:11434/v1'
     }
   },
   agent: {
     enableTaskBreakdown: true,
     enableIteration: true,
     enableContextMemory: true,
-    maxIterations: 3
+    maxIterations: 3,
+    roles: DEFAULT_AGENT_ROLES
   },
   theme: 'system',
   // TTS settings will be initialized by the TTS service
@@ -87,7 +100,17 @@ export class SettingsManager {
       const parsedSettings = JSON.parse(storedSettings);
       const mergedSettings = {
         ...defaultSettings,
-        ...parsedSettings
+        ...parsedSettings,
+        // Merge providers one level deeper so newly added providers get their defaults
+        providers: {
+          ...defaultSettings.providers,
+          ...parsedSettings.providers
+        },
+        // Settings saved before agent roles existed get the default roles
+        agent: {
+          ...defaultSettings.agent,
+          ...parsedSettings.agent
+        }
       };
       
       this.logger.debug('Settings loaded from localStorage');
@@ -137,11 +160,21 @@ export class SettingsManager {
       } catch (error) {
         this.logger.debug('Gemini API key not found in config');
       }
+
+      try {
+        const localBaseUrl = configService.get<string>('providers', 'local_base_url');
+        if (localBaseUrl) {
+          this.settings.providers.local.customEndpoint = localBaseUrl;
+          this.logger.debug('Loaded local provider endpoint from config');
+        }
+      } catch (error) {
+        this.logger.debug('Local provider endpoint not found in config');
+      }
       
       // Try to load default provider
       try {
         const defaultProvider = configService.get<string>('providers', 'default_provider');
-        if (defaultProvider && ['claude', 'openai', 'gemini'].includes(defaultProvider)) {
+        if (defaultProvider && SUPPORTED_PROVIDERS.includes(defaultProvider)) {
           this.settings.activeProvider = defaultProvider;
           this.logger.debug('Loaded default provider from config', { provider: defaultProvider });
         }
@@ -278,6 +311,38 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Get the custom endpoint (base URL) for a provider, if one is set
+   * @param provider Provider name
+   */
+  getCustomEndpoint(provider: string): string | undefined {
+    return this.settings.providers[provider as keyof typeof this.settings.providers]?.customEndpoint || undefined;
+  }
+
+  /**
+   * Set the custom endpoint (base URL) for a provider
+   * @param provider Provider name
+   * @param endpoint Base URL, or an empty string to use the provider default
+   */
+  setCustomEndpoint(provider: string, endpoint: string): void {
+    try {
+      if (!(provider in this.settings.providers)) {
+        throw new ValidationError(`Invalid provider: ${provider}`);
+      }
+      if (endpoint && !/^https?:\/\//.test(endpoint)) {
+        throw new ValidationError(`Invalid endpoint URL: ${endpoint}`);
+      }
+
+      this.settings.providers[provider as keyof typeof this.settings.providers].customEndpoint = endpoint || undefined;
+      this.saveSettings();
+
+      this.logger.info(`Custom endpoint for ${provider} set`, { provider, endpoint });
+    } catch (error) {
+      this.logger.error(`Failed to set custom endpoint for ${provider}`, { error, provider, endpoint });
+      throw errorHandler.handleError(error as Error, { provider, endpoint });
+    }
+  }
+
   /**
    * Get preferred model for a provider
    * @param provider Provider name
@@ -320,7 +385,7 @@ export class SettingsManager {
       // First try to get from config
       try {
         const configProvider = configService.get<string>('providers', 'default_provider');
-        if (configProvider && ['claude', 'openai', 'gemini'].includes(configProvider)) {
+        if (configProvider && SUPPORTED_PROVIDERS.includes(configProvider)) {
           return configProvider;
         }
       } catch (error) {
@@ -341,7 +406,7 @@ export class SettingsManager {
    */
   setActiveProvider(provider: string): void {
     try {
-      if (!['claude', 'openai', 'gemini'].includes(provider)) {
+      if (!SUPPORTED_PROVIDERS.includes(provider)) {
         throw new ValidationError(`Invalid provider: ${provider}`);
       }
       
@@ -435,6 +500,56 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * Get the agent roles available to multi-agent pipelines
+   */
+  getAgentRoles(): AgentRole[] {
+    return this.settings.agent.roles.map(role => ({ ...role }));
+  }
+
+  /**
+   * Add an agent role, or replace the role with the same ID
+   * @param role The role to save
+   */
+  saveAgentRole(role: AgentRole): void {
+    try {
+      if (!role.id || !role.name || !role.systemPrompt) {
+        throw new ValidationError('Agent roles need an ID, a name and a system prompt');
+      }
+      if (role.provider && !SUPPORTED_PROVIDERS.includes(role.provider)) {
+        throw new ValidationError(`Invalid provider: ${role.provider}`);
+      }
+
+      const roles = this.settings.agent.roles.filter(existing => existing.id !== role.id);
+      const index = this.settings.agent.roles.findIndex(existing => existing.id === role.id);
+      roles.splice(index === -1 ? roles.length : index, 0, { ...role });
+      this.settings.agent = { ...this.settings.agent, roles };
+      this.saveSettings();
+
+      this.logger.info(`Agent role ${role.id} saved`, { roleId: role.id });
+    } catch (error) {
+      this.logger.error(`Failed to save agent role ${role.id}`, { error, roleId: role.id });
+      throw errorHandler.handleError(error as Error, { roleId: role.id });
+    }
+  }
+
+  /**
+   * Remove an agent role
+   * @param id The role ID
+   * @returns True if the role existed
+   */
+  removeAgentRole(id: string): boolean {
+    const roles = this.settings.agent.roles.filter(role => role.id !== id);
+    if (roles.length === this.settings.agent.roles.length) {
+      return false;
+    }
+
+    this.settings.agent = { ...this.settings.agent, roles };
+    this.saveSettings();
+    this.logger.info(`Agent role ${id} removed`, { roleId: id });
+    return true;
+  }
+
   /**
    * Reset all settings to defaults
    */
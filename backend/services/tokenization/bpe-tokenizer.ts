@@ -0,0 +1,99 @@
+/**
+ * BPE Tokenizer
+ * Offline byte-pair encoding for OpenAI-style encodings
+ */
+
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { Logger } from '../logging/logger';
+
+/**
+ * Supported BPE encodings
+ */
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+// The rank tables are megabytes each, so they are fetched the first time an encoding is used
+// instead of being bundled with every page that counts tokens
+const RANKS: Record<BpeEncoding, () => Promise<{ default: TiktokenBPE }>> = {
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base'),
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base')
+};
+
+const logger = new Logger('BpeTokenizer');
+
+// Building an encoder parses the full rank table, so do it once per encoding
+const encoders = new Map<BpeEncoding, Tiktoken>();
+const loading = new Map<BpeEncoding, Promise<void>>();
+
+/**
+ * Fetch an encoding's rank table and build its encoder. Until this resolves,
+ * counts for the encoding are approximate.
+ * @param encoding The encoding to load
+ */
+export function loadEncoding(encoding: BpeEncoding = 'cl100k_base'): Promise<void> {
+  let pending = loading.get(encoding);
+  if (!pending) {
+    pending = RANKS[encoding]()
+      .then(ranks => {
+        encoders.set(encoding, new Tiktoken(ranks.default));
+      })
+      .catch(error => {
+        // Forget the failure so a later call can retry
+        loading.delete(encoding);
+        logger.warn('Failed to load BPE encoding; token counts stay approximate', { encoding, error: String(error) });
+      });
+    loading.set(encoding, pending);
+  }
+  return pending;
+}
+
+/**
+ * Check whether an encoding is loaded, so its counts are exact
+ * @param encoding The encoding to check
+ */
+export function isEncodingLoaded(encoding: BpeEncoding = 'cl100k_base'): boolean {
+  return encoders.has(encoding);
+}
+
+/**
+ * Pick the encoding an OpenAI model uses
+ * @param model The model name
+ */
+export function getEncodingForModel(model?: string): BpeEncoding {
+  const name = (model || '').toLowerCase();
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/.test(name)) {
+    return 'o200k_base';
+  }
+  return 'cl100k_base';
+}
+
+/**
+ * Encode text into BPE token ids.
+ * Special token markers in the text are encoded as plain text.
+ * @param text The text to encode
+ * @param encoding The encoding to use
+ * @throws Error if the encoding has not been loaded with loadEncoding
+ */
+export function encode(text: string, encoding: BpeEncoding = 'cl100k_base'): number[] {
+  const encoder = encoders.get(encoding);
+  if (!encoder) {
+    throw new Error(`BPE encoding ${encoding} is not loaded; call loadEncoding first`);
+  }
+  return encoder.encode(text, [], []);
+}
+
+/**
+ * Count BPE tokens in text. Before the encoding has loaded this starts loading it and
+ * returns an estimate of four characters per token.
+ * @param text The text to count
+ * @param encoding The encoding to use
+ */
+export function countTokens(text: string, encoding: BpeEncoding = 'cl100k_base'): number {
+  if (!text) {
+    return 0;
+  }
+  if (!encoders.has(encoding)) {
+    void loadEncoding(encoding);
+    return Math.ceil(text.length / 4);
+  }
+  return encode(text, encoding).length;
+}
@@ -0,0 +1,59 @@
+import { TokenEstimatorRegistry } from './token-estimator-registry';
+import { countTokens, getEncodingForModel, loadEncoding } from './bpe-tokenizer';
+import { splitCodeAndProse } from './calibrated-estimator';
+
+const CODE = '```ts\nexport const add = (a: number, b: number): number => a + b;\n```';
+
+describe('TokenEstimatorRegistry', () => {
+  beforeAll(() => Promise.all([loadEncoding('cl100k_base'), loadEncoding('o200k_base')]));
+
+  it('counts OpenAI tokens with real BPE encodings', () => {
+    const registry = new TokenEstimatorRegistry();
+
+    expect(registry.countTokens('hello world', 'openai', 'gpt-4')).toBe(2);
+    expect(getEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(getEncodingForModel('gpt-3.5-turbo')).toBe('cl100k_base');
+  });
+
+  it('approximates counts until the encoding has loaded', async () => {
+    vi.resetModules();
+    const tokenizer = await import('./bpe-tokenizer');
+    const { TokenEstimatorRegistry: FreshRegistry } = await import('./token-estimator-registry');
+    const registry = new FreshRegistry();
+
+    expect(tokenizer.isEncodingLoaded('o200k_base')).toBe(false);
+    expect(registry.countTokens('hello world', 'openai', 'gpt-4o')).toBe(3);
+    await registry.load('openai', 'gpt-4o');
+    expect(tokenizer.isEncodingLoaded('o200k_base')).toBe(true);
+    expect(registry.countTokens('hello world', 'openai', 'gpt-4o')).toBe(2);
+  });
+
+  it('does not choke on special token markers', () => {
+    expect(countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('scales calibrated estimates more heavily for code', () => {
+    const registry = new TokenEstimatorRegistry();
+    const prose = 'Please write a function that adds two numbers together.';
+
+    const reference = countTokens(CODE);
+    expect(registry.countTokens(CODE, 'claude')).toBe(Math.ceil(reference * 1.3));
+    expect(registry.countTokens(prose, 'Claude')).toBe(Math.ceil(countTokens(prose) * 1.15));
+  });
+
+  it('prefers model-specific registrations and falls back for unknown providers', () => {
+    const registry = new TokenEstimatorRegistry();
+    registry.register('claude', () => () => 42, /haiku/);
+
+    expect(registry.countTokens('anything', 'claude', 'claude-3-haiku-20240307')).toBe(42);
+    expect(registry.countTokens('anything', 'claude', 'claude-3-opus-20240229')).not.toBe(42);
+    expect(registry.countTokens('hello world', 'unknown')).toBe(2);
+  });
+
+  it('separates fenced and unfenced code from prose', () => {
+    const { code, prose } = splitCodeAndProse(`Fix this:\n\n${CODE}\n\nif (x) { y(); } else { z[0] = 1; }`);
+
+    expect(prose).toEqual(['Fix this:']);
+    expect(code).toHaveLength(2);
+  });
+});
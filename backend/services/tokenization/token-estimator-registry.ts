@@ -0,0 +1,108 @@
+/**
+ * Token Estimator Registry
+ * Resolves the token estimator to use for a provider and model
+ */
+
+import { Logger } from '../logging/logger';
+import { TokenEstimator } from '../prompt-builder/interfaces/prompt-composition';
+import { countTokens, getEncodingForModel, loadEncoding } from './bpe-tokenizer';
+import { CLAUDE_CALIBRATION, GEMINI_CALIBRATION, createCalibratedEstimator } from './calibrated-estimator';
+
+/**
+ * Creates an estimator for a specific model
+ */
+export type TokenEstimatorFactory = (model?: string) => TokenEstimator;
+
+interface EstimatorRegistration {
+  provider: string;
+  modelPattern?: RegExp;
+  factory: TokenEstimatorFactory;
+}
+
+/**
+ * Registry of token estimators keyed by provider and model.
+ * Model-specific registrations win over provider-wide ones; unknown providers fall back to cl100k_base.
+ */
+export class TokenEstimatorRegistry {
+  private registrations: EstimatorRegistration[] = [];
+  private fallback: TokenEstimator = text => countTokens(text, 'cl100k_base');
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('TokenEstimatorRegistry');
+    this.registerDefaults();
+  }
+
+  /**
+   * Register an estimator for a provider
+   * @param provider Provider name (case-insensitive)
+   * @param factory Creates the estimator for a model
+   * @param modelPattern Only use this registration for matching models
+   */
+  register(provider: string, factory: TokenEstimatorFactory, modelPattern?: RegExp): void {
+    // Newest registrations take precedence
+    this.registrations.unshift({ provider: provider.toLowerCase(), modelPattern, factory });
+    this.logger.debug('Token estimator registered', { provider, modelPattern: modelPattern?.source });
+  }
+
+  /**
+   * Set the estimator used for unknown providers
+   * @param estimator The fallback estimator
+   */
+  setFallback(estimator: TokenEstimator): void {
+    this.fallback = estimator;
+  }
+
+  /**
+   * Get the estimator for a provider and model
+   * @param provider Provider name (case-insensitive)
+   * @param model Optional model name
+   */
+  getEstimator(provider?: string, model?: string): TokenEstimator {
+    const name = (provider || '').toLowerCase();
+    const candidates = this.registrations.filter(registration => registration.provider === name);
+
+    const registration =
+      candidates.find(candidate => candidate.modelPattern && model && candidate.modelPattern.test(model)) ||
+      candidates.find(candidate => !candidate.modelPattern);
+
+    return registration ? registration.factory(model) : this.fallback;
+  }
+
+  /**
+   * Count tokens in text for a provider and model
+   * @param text The text to count
+   * @param provider Provider name (case-insensitive)
+   * @param model Optional model name
+   */
+  countTokens(text: string, provider?: string, model?: string): number {
+    return this.getEstimator(provider, model)(text || '');
+  }
+
+  /**
+   * Load the BPE encoding the built-in estimators use for a provider and model.
+   * Counts made before it resolves are approximate.
+   * @param provider Provider name (case-insensitive)
+   * @param model Optional model name
+   */
+  async load(provider?: string, model?: string): Promise<void> {
+    // OpenAI models pick their own encoding; the calibrated estimators and the fallback use cl100k_base
+    const encoding = (provider || '').toLowerCase() === 'openai' ? getEncodingForModel(model) : 'cl100k_base';
+    await loadEncoding(encoding);
+  }
+
+  private registerDefaults(): void {
+    const claude = createCalibratedEstimator(CLAUDE_CALIBRATION);
+    const gemini = createCalibratedEstimator(GEMINI_CALIBRATION);
+
+    this.register('openai', model => {
+      const encoding = getEncodingForModel(model);
+      return text => countTokens(text, encoding);
+    });
+    this.register('claude', () => claude);
+    this.register('gemini', () => gemini);
+  }
+}
+
+// Create a singleton instance for use throughout the app
+export const tokenEstimatorRegistry = new TokenEstimatorRegistry();
@@ -0,0 +1,52 @@
+/**
+ * Test Fixtures
+ * In-memory storage and a model router over mock providers, shared by the backend tests
+ */
+
+import { AIProvider } from '@shared/interfaces/ai-provider';
+import { SettingsManager } from '@shared/interfaces/settings-manager';
+import { StorageInterface } from '@shared/services/storage';
+import { ModelRouter, ModelRouterOptions } from '@backend/core/model-router';
+import { ServiceLocator } from '@backend/core/service-locator';
+
+/**
+ * Storage that keeps everything in a map
+ */
+export function createMemoryStorage(): StorageInterface {
+  const data = new Map<string, string>();
+  return {
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: key => { data.delete(key); },
+    keys: () => Array.from(data.keys())
+  };
+}
+
+/**
+ * Settings with no API keys or custom endpoints, enough for routing to mock providers
+ */
+export function createTestSettings(): SettingsManager {
+  return { getApiKey: () => null, getCustomEndpoint: () => undefined } as unknown as SettingsManager;
+}
+
+/**
+ * A model router over the given providers, registered by name. The first provider is active
+ * unless the options say otherwise.
+ * @param services Other services to register, e.g. a memory engine or conversation manager
+ */
+export function createTestRouter(
+  providers: Record<string, AIProvider>,
+  options: ModelRouterOptions = {},
+  services: Record<string, unknown> = {}
+): ModelRouter {
+  const locator = new ServiceLocator();
+  for (const [name, provider] of Object.entries(providers)) {
+    locator.register(`${name}Provider`, provider);
+  }
+  locator.register('settingsManager', createTestSettings());
+  for (const [name, service] of Object.entries(services)) {
+    locator.register(name, service);
+  }
+
+  return new ModelRouter(locator, { activeProvider: Object.keys(providers)[0], ...options });
+}
@@ -3,6 +3,76 @@
  * Defines the contract that all AI providers must implement
  */
 
+/**
+ * The subset of JSON Schema used to describe structured output
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+/**
+ * Asks for a response that is JSON matching a schema
+ */
+export interface ResponseFormat {
+  schema: JsonSchema;
+  name?: string;        // Identifies the schema to providers that require a name
+}
+
+/**
+ * A tool the model may call, described in provider-neutral form
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * A tool invocation requested by the model
+ */
+export interface ToolCall {
+  id: string;           // Provider's call ID, used to match the result to the call
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;      // Tool output, serialized for the model
+  isError?: boolean;
+}
+
+/**
+ * One round of tool use: the calls the model made and the results sent back
+ */
+export interface ToolExchange {
+  content?: string;     // Text the model sent along with its calls
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
 export interface AIProviderOptions {
   apiKey: string;
   model?: string;
@@ -10,24 +80,57 @@ export interface AIProviderOptions {
   maxTokens?: number;
   language?: string;
   streaming?: boolean;
+  signal?: AbortSignal; // Cancels the request, including an in-progress stream
+  baseUrl?: string;     // Overrides the provider's API base URL (proxies, local servers)
+  responseFormat?: ResponseFormat; // Constrains output to JSON, for providers that support JSON mode
+  tools?: ToolDefinition[]; // Tools the model may call, for providers that support tool calling
 }
 
 export interface AIPrompt {
   content: string;
   context?: string;
   systemPrompt?: string;
+  toolExchanges?: ToolExchange[]; // Earlier rounds of tool use, replayed after the content
 }
 
-export interface AIResponse {
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface SchemaValidationError {
+  path: string;         // JSON Pointer to the invalid value, '' for the root
+  message: string;
+}
+
+/**
+ * How structured output was obtained and whether it matched the schema
+ */
+export interface StructuredOutputReport {
+  valid: boolean;
+  errors: SchemaValidationError[]; // Errors in the final attempt
+  attempts: number;     // Requests made, including repairs
+  nativeJsonMode: boolean;
+}
+
+export interface AIResponse<T = unknown> {
   content: string;
   error?: string;
+  usage?: TokenUsage;
+  finishReason?: string;
   raw?: any; // Raw response from the provider for debugging
+  structured?: T;       // Parsed output, set when it matched the requested schema
+  validation?: StructuredOutputReport;
+  toolCalls?: ToolCall[]; // Tools the model asked to call; the content may be empty
 }
 
 export interface StreamingResponseChunk {
-  content: string;
+  content: string;      // Text added by this chunk (not the accumulated text)
   isComplete: boolean;
   error?: string;
+  usage?: TokenUsage;   // Set on the final chunk when the provider reports usage
+  finishReason?: string;
 }
 
 export interface CostEstimate {
@@ -56,9 +159,9 @@ export interface AIProvider {
                            onChunk: (chunk: StreamingResponseChunk) => void): Promise<AIResponse>;
   generateEmbedding(text: string, options: AIProviderOptions): Promise<EmbeddingResult>;
   
-  // Model information
-  listAvailableModels(): Promise<string[]>;
-  isApiKeyValid(apiKey: string): Promise<boolean>;
+  // Model information. The options carry the configured endpoint, for providers that ask a server.
+  listAvailableModels(options?: Partial<AIProviderOptions>): Promise<string[]>;
+  isApiKeyValid(apiKey: string, options?: Partial<AIProviderOptions>): Promise<boolean>;
   
   // Enhanced functionality
   isConfigured(): boolean;
@@ -71,4 +174,7 @@ export interface AIProvider {
   supportsEmbeddings(model?: string): boolean;
   supportsLanguage(language: string): boolean;
   getProviderSpecificPrompt(prompt: AIPrompt, language?: string): AIPrompt;
+  requiresApiKey?(): boolean; // Self-hosted providers may run without a key; defaults to true
+  supportsJsonMode?(model?: string): boolean; // Honors options.responseFormat natively; defaults to false
+  supportsTools?(model?: string): boolean;    // Honors options.tools natively; defaults to false
 }
\ No newline at end of file
@@ -72,6 +72,8 @@ export interface SettingsManager {
   setApiKey(provider: string, apiKey: string): void;
   getPreferredModel(provider: string): string;
   setPreferredModel(provider: string, model: string): void;
+  getCustomEndpoint(provider: string): string | undefined;
+  setCustomEndpoint(provider: string, endpoint: string): void;
   
   // Agent settings
   getAgentSettings(): AgentSettings;
@@ -5,14 +5,6 @@ export interface StorageInterface {
   keys(): string[];
 }
 
-class BrowserStorage implements StorageInterface {
-  getItem(key: string): string | null {
-    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
-  }
-  setItem(key: string, value: string): void {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem(key, value);
-    }
 class BrowserStorage implements StorageInterface {
   getItem(key: string): string | null {
     try {
@@ -54,26 +46,6 @@ class BrowserStorage implements StorageInterface {
       return [];
     }
   }
-}
-  removeItem(key: string): void {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.removeItem(key);
-    }
-  }
-  keys(): string[] {
-    if (typeof localStorage === 'undefined') return [];
-    const result: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const k = localStorage.key(i);
-      if (k) result.push(k);
-    }
-    return result;
-}
-  keys(): string[] {
-    if (typeof localStorage === 'undefined') return [];
-    return Object.keys(localStorage);
-  }
-}
 }
 
 import fs from 'fs';
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { ScrollArea } from './ui/scroll-area';
+import { toast } from '@/hooks/use-toast';
+import { ModelRouter } from '@backend/core/model-router';
+import { ServiceLocator } from '@backend/core/service-locator';
+import { settingsManager } from '@backend/services/settings-manager';
+import { AgentCoordinator, AgentMessage, USER } from '@backend/services/agent/agent-coordinator';
+
+interface AgentPipelinePanelProps {
+  coordinator?: AgentCoordinator;
+  onOutput?: (output: string) => void;
+}
+
+/**
+ * Build a coordinator on the model router, with the roles from settings
+ */
+function createCoordinator(): AgentCoordinator {
+  const locator = new ServiceLocator();
+  locator.register('settingsManager', settingsManager);
+  const router = new ModelRouter(locator, { activeProvider: settingsManager.getActiveProvider() });
+  return new AgentCoordinator(router, settingsManager.getAgentRoles());
+}
+
+/**
+ * Runs a request through the planner, coder and reviewer roles and shows every message between them
+ */
+const AgentPipelinePanel: React.FC<AgentPipelinePanelProps> = ({ coordinator, onOutput }) => {
+  const agents = useMemo(() => coordinator ?? createCoordinator(), [coordinator]);
+  const [request, setRequest] = useState('');
+  const [transcript, setTranscript] = useState<AgentMessage[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const nameOf = (id: string) => id === USER ? 'You' : agents.getRole(id)?.name ?? id;
+
+  const run = async () => {
+    if (!request.trim() || isRunning) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setTranscript([]);
+    setIsRunning(true);
+
+    try {
+      const result = await agents.run(request.trim(), {
+        signal: controller.signal,
+        onMessage: message => setTranscript(prev => [...prev, message])
+      });
+      onOutput?.(result.output);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast({
+          title: 'Agent Error',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-black/30 border-purple-500/10 space-y-4">
+      <Textarea
+        value={request}
+        onChange={event => setRequest(event.target.value)}
+        placeholder="Describe what the planner, coder and reviewer should build…"
+        className="min-h-[100px]"
+        disabled={isRunning}
+      />
+
+      <div className="flex space-x-2">
+        <Button onClick={run} disabled={isRunning || !request.trim()}>
+          {isRunning ? 'Running…' : 'Run pipeline'}
+        </Button>
+        {isRunning && (
+          <Button variant="outline" onClick={() => controllerRef.current?.abort()}>
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {transcript.length > 0 && (
+        <ScrollArea className="h-80 rounded border border-purple-500/10 p-2">
+          {transcript.map(message => (
+            <div key={message.id} className="mb-3">
+              <p className="text-xs text-purple-300">
+                {nameOf(message.from)} → {nameOf(message.to)}
+                {message.provider && <span className="ml-2 text-gray-500">{message.provider}{message.model && ` / ${message.model}`}</span>}
+              </p>
+              <pre className="whitespace-pre-wrap font-mono text-xs text-gray-300">{message.content}</pre>
+            </div>
+          ))}
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
+
+export default AgentPipelinePanel;
@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { ScrollArea } from './ui/scroll-area';
+import { toast } from '@/hooks/use-toast';
+import { ModelRouter } from '@backend/core/model-router';
+import { ServiceLocator } from '@backend/core/service-locator';
+import { settingsManager } from '@backend/services/settings-manager';
+import { AgentEvent, AgentEventType, AgentRunner, AgentRunResult } from '@backend/services/agent/agent-runner';
+import { Task, TaskStatus } from '@backend/services/agent/task-manager';
+
+type StepStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'skipped';
+
+interface StepView {
+  description: string;
+  status: StepStatus;
+  dependsOn?: number[];
+  attempt?: number;
+  feedback?: string;
+}
+
+interface AgentRunPanelProps {
+  runner?: AgentRunner;
+  onOutput?: (output: string) => void;
+}
+
+const STATUS_STYLES: Record<StepStatus, string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-400',
+  retrying: 'text-yellow-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-600'
+};
+
+/**
+ * Build a runner on the model router, using the provider chosen in settings
+ */
+function createRunner(): AgentRunner {
+  const locator = new ServiceLocator();
+  locator.register('settingsManager', settingsManager);
+  return new AgentRunner(new ModelRouter(locator, { activeProvider: settingsManager.getActiveProvider() }));
+}
+
+/**
+ * Show a stored task's steps as they stood when it stopped
+ */
+function toStepViews(task: Task): StepView[] {
+  return task.steps.map(step => ({
+    description: step.description,
+    dependsOn: (step.dependsOn || []).map(id => task.steps.findIndex(s => s.id === id)),
+    status: step.completed ? 'done' : step.error ? 'failed' : 'pending',
+    attempt: step.attempts,
+    feedback: step.verification?.feedback
+  }));
+}
+
+function describeEvent(event: AgentEvent): string {
+  const step = event.stepIndex !== undefined ? `Step ${event.stepIndex + 1}` : '';
+  switch (event.type) {
+    case AgentEventType.RUN_STARTED:
+      return 'Planning…';
+    case AgentEventType.RUN_RESUMED:
+      return 'Resumed';
+    case AgentEventType.PLAN_CREATED:
+      return `Planned ${event.steps?.length} steps`;
+    case AgentEventType.STEP_STARTED:
+      return `${step} started`;
+    case AgentEventType.TOOL_CALLED:
+      return `${step} called ${event.toolCall?.name}${event.toolResult?.isError ? ` (failed: ${event.toolResult.content})` : ''}`;
+    case AgentEventType.STEP_OUTPUT:
+      return `${step} attempt ${event.attempt} produced ${event.output?.length ?? 0} characters`;
+    case AgentEventType.STEP_VERIFIED:
+      return `${step} ${event.verification?.passed ? 'passed' : 'failed'} verification: ${event.verification?.feedback}`;
+    case AgentEventType.STEP_RETRYING:
+      return `${step} retrying (attempt ${event.attempt})`;
+    case AgentEventType.STEP_COMPLETED:
+      return `${step} completed`;
+    case AgentEventType.STEP_FAILED:
+      return `${step} failed: ${event.error}`;
+    case AgentEventType.STEP_SKIPPED:
+      return `${step} skipped: ${event.error}`;
+    case AgentEventType.RUN_COMPLETED:
+      return 'Run completed';
+    case AgentEventType.RUN_PAUSED:
+      return 'Paused';
+    case AgentEventType.RUN_CANCELLED:
+      return 'Cancelled';
+    case AgentEventType.RUN_FAILED:
+      return `Run failed${event.error ? `: ${event.error}` : ''}`;
+  }
+}
+
+/**
+ * Runs a prompt through the agent's plan-execute-verify loop and shows its progress
+ */
+const AgentRunPanel: React.FC<AgentRunPanelProps> = ({ runner, onOutput }) => {
+  const agent = useMemo(() => runner ?? createRunner(), [runner]);
+  const [prompt, setPrompt] = useState('');
+  const [steps, setSteps] = useState<StepView[]>([]);
+  const [log, setLog] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [task, setTask] = useState<Task | null>(null);
+  const [resumable, setResumable] = useState<Task[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setResumable(agent.getTaskManager().getResumableTasks());
+  }, [agent]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateStep = (index: number | undefined, update: Partial<StepView>) => {
+    if (index === undefined) return;
+    setSteps(prev => prev.map((step, i) => i === index ? { ...step, ...update } : step));
+  };
+
+  const handleEvent = (event: AgentEvent) => {
+    setLog(prev => [...prev, describeEvent(event)]);
+    setTask(agent.getTaskManager().getTask(event.taskId) ?? null);
+
+    switch (event.type) {
+      case AgentEventType.PLAN_CREATED:
+        setSteps((event.steps || []).map((description, index) => ({
+          description,
+          status: 'pending',
+          dependsOn: event.dependsOn?.[index]
+        })));
+        break;
+      case AgentEventType.STEP_STARTED:
+        updateStep(event.stepIndex, { status: 'running' });
+        break;
+      case AgentEventType.STEP_VERIFIED:
+        updateStep(event.stepIndex, { attempt: event.attempt, feedback: event.verification?.feedback });
+        break;
+      case AgentEventType.STEP_RETRYING:
+        updateStep(event.stepIndex, { status: 'retrying', attempt: event.attempt });
+        break;
+      case AgentEventType.STEP_COMPLETED:
+        updateStep(event.stepIndex, { status: 'done' });
+        break;
+      case AgentEventType.STEP_FAILED:
+        updateStep(event.stepIndex, { status: 'failed' });
+        break;
+      case AgentEventType.STEP_SKIPPED:
+        updateStep(event.stepIndex, { status: 'skipped' });
+        break;
+      case AgentEventType.RUN_COMPLETED:
+        if (event.output) onOutput?.(event.output);
+        break;
+    }
+  };
+
+  /**
+   * Start or continue a run, reporting errors other than a cancel
+   */
+  const execute = async (start: (options: Parameters<AgentRunner['run']>[1]) => Promise<AgentRunResult>) => {
+    if (isRunning) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLog([]);
+    setIsRunning(true);
+
+    try {
+      const result = await start({
+        provider: settingsManager.getActiveProvider(),
+        signal: controller.signal,
+        onEvent: handleEvent,
+        // Every enabled tool plugin, such as the CSS optimizer
+        tools: {}
+      });
+      setTask(result.task);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast({
+          title: 'Agent Error',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsRunning(false);
+      setResumable(agent.getTaskManager().getResumableTasks());
+      controllerRef.current = null;
+    }
+  };
+
+  const run = () => {
+    if (!prompt.trim()) return;
+    setSteps([]);
+    return execute(options => agent.run(prompt.trim(), options));
+  };
+
+  const resume = (stored: Task) => {
+    setTask(stored);
+    setSteps(toStepViews(stored));
+    return execute(options => agent.resume(stored.id, options));
+  };
+
+  const retry = (failed: Task) => {
+    setSteps(toStepViews(failed));
+    return execute(options => agent.retryStep(failed.id, options));
+  };
+
+  return (
+    <Card className="p-4 bg-black/30 border-purple-500/10 space-y-4">
+      <Textarea
+        value={prompt}
+        onChange={event => setPrompt(event.target.value)}
+        placeholder="Describe a task for the agent…"
+        className="min-h-[100px]"
+        disabled={isRunning}
+      />
+
+      <div className="flex space-x-2">
+        <Button onClick={run} disabled={isRunning || !prompt.trim()}>
+          {isRunning ? 'Running…' : 'Run agent'}
+        </Button>
+        {isRunning && task && (
+          <>
+            <Button variant="outline" onClick={() => agent.pause(task.id)}>
+              Pause
+            </Button>
+            <Button variant="outline" onClick={() => agent.cancel(task.id)}>
+              Cancel
+            </Button>
+          </>
+        )}
+        {!isRunning && task?.status === TaskStatus.FAILED && (
+          <Button variant="outline" onClick={() => retry(task)}>
+            Retry step
+          </Button>
+        )}
+      </div>
+
+      {!isRunning && resumable.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {resumable.map(stored => (
+            <li key={stored.id} className="flex items-center justify-between">
+              <span className="truncate text-gray-300">
+                [{stored.status}] {stored.prompt}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => resume(stored)}>
+                Resume
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {steps.length > 0 && (
+        <ol className="space-y-2 text-sm">
+          {steps.map((step, index) => (
+            <li key={index}>
+              <span className={STATUS_STYLES[step.status]}>[{step.status}]</span>{' '}
+              <span className="text-gray-200">{index + 1}. {step.description}</span>
+              {step.dependsOn && step.dependsOn.length > 0 && (
+                <span className="ml-2 text-gray-500">after {step.dependsOn.map(dependency => dependency + 1).join(', ')}</span>
+              )}
+              {step.attempt && step.attempt > 1 && <span className="ml-2 text-gray-500">attempt {step.attempt}</span>}
+              {step.feedback && step.status !== 'done' && <p className="ml-6 text-xs text-gray-400">{step.feedback}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {log.length > 0 && (
+        <ScrollArea className="h-40 rounded border border-purple-500/10 p-2">
+          {log.map((line, index) => (
+            <p key={index} className="font-mono text-xs text-gray-400">{line}</p>
+          ))}
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
+
+export default AgentRunPanel;
@@ -0,0 +1,40 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import ChatInterface from './ChatInterface';
+import { createMemoryStorage } from '@backend/test/fixtures';
+import { ConversationManager } from '@backend/services/conversation/conversation-manager';
+import { CodeBlockManager } from '@backend/services/conversation/code-block-manager';
+import { MemoryService } from '@backend/services/memory/memory-service';
+
+describe('ChatInterface', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('keeps the conversation across reloads', async () => {
+    const storage = createMemoryStorage();
+    const memory = { addMemory: vi.fn().mockResolvedValue({ id: 'memory-1' }) } as unknown as MemoryService;
+    const createConversation = () =>
+      new ConversationManager({ conversationId: 'chat', storage, codeBlocks: new CodeBlockManager(), memoryService: memory });
+    localStorage.setItem('gemini_api_key', 'key');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: 'Use `const`.' }] } }] })
+    }));
+
+    const first = render(<ChatInterface conversation={createConversation()} />);
+    fireEvent.change(screen.getByPlaceholderText('Ask AI anything...'), { target: { value: 'How do I declare a constant?' } });
+    fireEvent.click(screen.getByRole('button'));
+    await screen.findByText('Use `const`.');
+    await vi.waitFor(() => expect(storage.getItem('conversation_chat')).not.toBeNull());
+    first.unmount();
+
+    const reloaded = createConversation();
+    render(<ChatInterface conversation={reloaded} />);
+
+    expect(screen.getByText('How do I declare a constant?')).toBeTruthy();
+    expect(screen.getByText('Use `const`.')).toBeTruthy();
+    expect(reloaded.getActiveBranchTurns()[0]).toMatchObject({ provider: 'gemini', model: 'gemini-1.5-flash' });
+  });
+});
@@ -5,6 +5,9 @@ import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Send, Bot, User } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { ConversationManager, ConversationTurn } from '@/core/interfaces/conversation-manager';
+import { conversationManager } from '@backend/services/conversation/conversation-manager';
+import { parseResponse } from '@backend/services/response-handler';
 
 interface Message {
   id: string;
@@ -16,10 +19,28 @@ interface Message {
 
 interface ChatInterfaceProps {
   onCodeGenerated?: (code: string) => void;
+  /** Keeps the chat across reloads; the shared conversation by default */
+  conversation?: ConversationManager;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ onCodeGenerated }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+// Models the chat calls each provider with
+const PROVIDER_MODELS: Record<string, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-3.5-turbo',
+  claude: 'claude-3-opus-20240229'
+};
+
+/**
+ * The messages of the turns on the active branch, oldest first
+ */
+const toMessages = (turns: ConversationTurn[]): Message[] =>
+  turns.flatMap(turn => [
+    { id: `${turn.id}-prompt`, content: turn.prompt.content, role: 'user' as const, timestamp: new Date(turn.timestamp) },
+    { id: turn.id, content: turn.response.rawResponse ?? '', role: 'assistant' as const, timestamp: new Date(turn.timestamp) }
+  ]);
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ onCodeGenerated, conversation = conversationManager }) => {
+  const [messages, setMessages] = useState<Message[]>(() => toMessages(conversation.getActiveBranchTurns()));
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState('gemini');
@@ -101,6 +122,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onCodeGenerated }) => {
 
       setMessages(prev => [...prev, assistantMessage]);
 
+      const model = PROVIDER_MODELS[selectedProvider];
+      await conversation.addTurn(
+        { content: userMessage.content },
+        parseResponse({ code: response }, { provider: selectedProvider, model }),
+        selectedProvider,
+        model
+      );
+
       // Extract code blocks if any
       const codeBlocks = extractCodeBlocks(response);
       if (codeBlocks.length > 0 && onCodeGenerated) {
@@ -1,15 +1,27 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from './ui/card';
+import { Button } from './ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { diffLines, Change } from 'diff';
+import { Check, X } from 'lucide-react';
+import { applyHunks, CodeDiff, diffCode, DiffHunk, DiffLine } from '@backend/services/conversation/code-diff';
 
 interface DiffViewProps {
   original: string;
   updated: string;
   language: string;
   fileName?: string;
+  /**
+   * Hunks to show, e.g. from CodeBlockManager.diffVersions; computed from original and updated when omitted
+   */
+  diff?: CodeDiff;
+  /**
+   * Called with the original plus the accepted hunks; per-hunk accept/reject is shown when set
+   */
+  onApply?: (code: string) => void;
 }
 
+type HunkDecision = 'accepted' | 'rejected';
+
 /**
  * DiffView component to display differences between two code versions
  */
@@ -17,12 +29,16 @@ export const DiffView: React.FC<DiffViewProps> = ({
   original,
   updated,
   language,
-  fileName
+  fileName,
+  diff: providedDiff,
+  onApply
 }) => {
-  // Compute the diff between original and updated code
-  const changes: Change[] = useMemo(() => {
-    return diffLines(original, updated);
-  }, [original, updated]);
+  // Compute the diff between original and updated code unless the caller has it
+  const diff = useMemo(() => providedDiff ?? diffCode(original, updated), [providedDiff, original, updated]);
+  const [decisions, setDecisions] = useState<Record<string, HunkDecision>>({});
+
+  // Hunk ids are positional, so decisions only hold for the diff they were made on
+  useEffect(() => setDecisions({}), [diff]);
 
   // Get a display name for the language
   const getLanguageDisplayName = (lang: string): string => {
@@ -57,37 +73,92 @@ export const DiffView: React.FC<DiffViewProps> = ({
   const displayName = getLanguageDisplayName(language);
   const displayFileName = fileName || `${language === 'md' ? 'README.md' : `code.${language}`}`;
 
-  // Render the diff view with added/removed highlighting
+  const decide = (hunkId: string, decision: HunkDecision) => {
+    setDecisions(current => ({ ...current, [hunkId]: decision }));
+  };
+
+  // Undecided hunks count as accepted
+  const handleApply = () => {
+    onApply?.(applyHunks(original, diff, hunk => decisions[hunk.id] !== 'rejected'));
+  };
+
+  const renderLine = (line: DiffLine, key: string) => {
+    // Determine the styling based on whether text was added, removed, or unchanged
+    let className = "text-cyber-ice-blue";
+    let prefix = "  ";
+    
+    if (line.type === 'added') {
+      className = "text-cyber-bright-blue bg-cyber-bright-blue/20";
+      prefix = "+ ";
+    } else if (line.type === 'removed') {
+      className = "text-red-400 bg-red-900/30";
+      prefix = "- ";
+    }
+    
+    return (
+      <div key={key} className={className}>
+        <span className="select-none text-cyber-sky-blue w-8 inline-block">{prefix}</span>
+        {line.segments
+          ? line.segments.map((segment, index) => (
+              <span key={index} className={segment.type === 'equal' ? undefined : 'font-bold underline'}>
+                {segment.value}
+              </span>
+            ))
+          : line.content}
+      </div>
+    );
+  };
+
+  const renderHunk = (hunk: DiffHunk) => {
+    const decision = decisions[hunk.id];
+
+    return (
+      <div key={hunk.id} className={`mb-4 ${decision === 'rejected' ? 'opacity-50' : ''}`}>
+        <div className="flex items-center justify-between mb-1 text-xs text-cyber-sky-blue">
+          <span className="font-mono">
+            @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@ {hunk.header}
+          </span>
+          {onApply && (
+            <span className="flex space-x-1">
+              <Button
+                size="sm"
+                variant={decision === 'rejected' ? 'outline' : 'default'}
+                onClick={() => decide(hunk.id, 'accepted')}
+              >
+                <Check className="h-3 w-3" /> Accept
+              </Button>
+              <Button
+                size="sm"
+                variant={decision === 'rejected' ? 'default' : 'outline'}
+                onClick={() => decide(hunk.id, 'rejected')}
+              >
+                <X className="h-3 w-3" /> Reject
+              </Button>
+            </span>
+          )}
+        </div>
+        <pre className="p-4 overflow-auto text-sm font-mono whitespace-pre bg-cyber-black rounded-md cyberborder">
+          {hunk.lines.map((line, index) => renderLine(line, `${hunk.id}-${index}`))}
+        </pre>
+      </div>
+    );
+  };
+
+  // Render the diff hunks with added/removed highlighting
   const renderDiff = () => {
+    if (diff.hunks.length === 0) {
+      return <p className="text-sm text-gray-400">No changes.</p>;
+    }
+
     return (
-      <pre className="p-4 overflow-auto text-sm font-mono whitespace-pre bg-cyber-black rounded-md cyberborder">
-        {changes.map((change, index) => {
-          // Determine the styling based on whether text was added, removed, or unchanged
-          let className = "text-cyber-ice-blue";
-          let prefix = "  ";
-          
-          if (change.added) {
-            className = "text-cyber-bright-blue bg-cyber-bright-blue/20";
-            prefix = "+ ";
-          } else if (change.removed) {
-            className = "text-red-400 bg-red-900/30";
-            prefix = "- ";
-          }
-          
-          // Split the change into lines and add the appropriate prefix and styling
-          return change.value.split('\n').map((line, lineIndex, array) => {
-            // Skip the last empty line that often comes from string splitting
-            if (lineIndex === array.length - 1 && line === '') return null;
-            
-            return (
-              <div key={`${index}-${lineIndex}`} className={className}>
-                <span className="select-none text-cyber-sky-blue w-8 inline-block">{prefix}</span>
-                {line}
-              </div>
-            );
-          });
-        })}
-      </pre>
+      <div>
+        {diff.hunks.map(renderHunk)}
+        {onApply && (
+          <Button onClick={handleApply}>
+            Apply accepted changes
+          </Button>
+        )}
+      </div>
     );
   };
 
@@ -123,18 +194,7 @@ export const DiffView: React.FC<DiffViewProps> = ({
   };
 
   // Calculate a summary of changes
-  const changeSummary = useMemo(() => {
-    let additions = 0;
-    let deletions = 0;
-    
-    changes.forEach(change => {
-      const lines = change.value.split('\n').length - 1; // -1 for the last empty line
-      if (change.added) additions += lines;
-      if (change.removed) deletions += lines;
-    });
-    
-    return { additions, deletions };
-  }, [changes]);
+  const changeSummary = { additions: diff.additions, deletions: diff.deletions };
 
   return (
     <Card className="overflow-hidden shadow-lg bg-gray-900">
@@ -29,6 +29,8 @@ import AutomationPanel from '@/components/AutomationPanel';
 import TokenMetrics from '@/components/TokenMetrics';
 
 import { promptMemoryStore, PromptSession } from '@/services/memory/prompt-memory-store';
+import { codeBlockManager } from '@backend/services/conversation/code-block-manager';
+import { CodeBlockVersion } from '@backend/services/conversation/conversation-types';
 import { promptAnalyzer } from '@/services/analysis/prompt-analyzer';
 import { autoTagger } from '@/services/tagging/auto-tagger';
 import { Logger } from '@/services/logging/logger';
@@ -57,6 +59,9 @@ const PromptWorkspace: React.FC = () => {
   const [sessions, setSessions] = useState<PromptSession[]>([]);
   const [selectedSessionId, setSelectedSessionId] = useState<string | undefined>();
   
+  // Code block holding each session's generated code, one version per execution
+  const [codeBlockIds, setCodeBlockIds] = useState<Record<string, string>>({});
+  
   // State for analysis
   const [analysis, setAnalysis] = useState<{
     tokenEstimation: {
@@ -155,6 +160,17 @@ const PromptWorkspace: React.FC = () => {
     setOutputHistory(prev => [...prev, outputItem]);
     addSystemLog(`Execution completed: ${result.error ? 'Error' : 'Success'}`);
 
+    // Version the session's generated code so the history tab can compare executions
+    if (result.code && selectedSessionId) {
+      const blockId = codeBlockIds[selectedSessionId];
+      if (blockId) {
+        codeBlockManager.addVersion(blockId, result.code, outputItem.id, 'Executed prompt');
+      } else {
+        const block = codeBlockManager.createCodeBlock('text', result.code, outputItem.id);
+        setCodeBlockIds(prev => ({ ...prev, [selectedSessionId]: block.id }));
+      }
+    }
+
     // Analyze the prompt
     try {
       const promptAnalysis = promptAnalyzer.analyzePrompt(currentPrompt);
@@ -224,20 +240,9 @@ const PromptWorkspace: React.FC = () => {
     addSystemLog(`Deleted session: ${sessionId}`);
   };
   
-  // Handle rollback to a snapshot
-  const handleRollback = (snapshotId: string) => {
-    if (selectedSessionId) {
-      promptMemoryStore.rollbackToSnapshot(selectedSessionId, snapshotId);
-      
-      const session = promptMemoryStore.getSession(selectedSessionId);
-      if (session) {
-        const snapshot = session.snapshots.find(s => s.id === snapshotId);
-        if (snapshot) {
-          setCurrentPrompt(snapshot.content);
-          addSystemLog(`Rolled back to snapshot: ${snapshotId}`);
-        }
-      }
-    }
+  // Handle a version added from the history tab
+  const handleVersionChange = (version: CodeBlockVersion) => {
+    addSystemLog(`Saved code version: ${version.changeSummary ?? version.id}`);
   };
   
 // Handle clearing output history
@@ -456,14 +461,14 @@ const PromptWorkspace: React.FC = () => {
                 </TabsContent>
                 
                 <TabsContent value="history" className="flex-1">
-                  {selectedSessionId ? (
+                  {selectedSessionId && codeBlockIds[selectedSessionId] ? (
                     <VersionDiff
-                      sessionId={selectedSessionId}
-                      onRollback={handleRollback}
+                      blockId={codeBlockIds[selectedSessionId]}
+                      onVersionChange={handleVersionChange}
                     />
                   ) : (
                     <div className="flex items-center justify-center h-full">
-                      <p className="text-gray-400">Select a session to view version history</p>
+                      <p className="text-gray-400">Execute a prompt in a session to view its code history</p>
                     </div>
                   )}
                 </TabsContent>
@@ -716,7 +721,8 @@ const PromptWorkspace: React.FC = () => {
                 
                 <TabsContent value="metrics" className="flex-1 overflow-auto">
                   <TokenMetrics 
-                    tokenCount={analysis?.tokenEstimation.count ?? 0}
+                    text={currentPrompt}
+                    provider="openai"
                     confidenceScore={analysis?.confidenceScore ?? 0}
                     modelName="GPT-4"
                     isProcessing={isProcessing}
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from './ui/card';
 import { Progress } from './ui/progress';
 import { ScrollArea } from './ui/scroll-area';
@@ -12,9 +12,13 @@ import {
   Layers
 } from 'lucide-react';
 import { useCurrentTime } from '../hooks/use-current-time';
+import { tokenEstimatorRegistry } from '@backend/services/tokenization/token-estimator-registry';
 
 interface TokenMetricsProps {
   tokenCount?: number;
+  /** Text to count with the provider's tokenizer; overrides tokenCount when set */
+  text?: string;
+  provider?: string;
   confidenceScore?: number;
   modelName?: string;
   isProcessing?: boolean;
@@ -23,12 +27,28 @@ interface TokenMetricsProps {
 
 const TokenMetrics: React.FC<TokenMetricsProps> = ({
   tokenCount = 0,
+  text,
+  provider,
   confidenceScore = 0,
   modelName = 'GPT-4',
   isProcessing = false,
   logs = []
 }) => {
-const currentTime = useCurrentTime();
+  const currentTime = useCurrentTime();
+  // Counts are approximate until the tokenizer has loaded, so count again once it has
+  const [counted, setCounted] = useState(0);
+  useEffect(() => {
+    if (text === undefined) return;
+    let cancelled = false;
+    setCounted(tokenEstimatorRegistry.countTokens(text, provider, modelName));
+    tokenEstimatorRegistry.load(provider, modelName).then(() => {
+      if (!cancelled) setCounted(tokenEstimatorRegistry.countTokens(text, provider, modelName));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [text, provider, modelName]);
+  const tokens = text === undefined ? tokenCount : counted;
 
   return (
     <div className="space-y-4">
@@ -52,7 +72,7 @@ const currentTime = useCurrentTime();
               <Layers className="h-3 w-3 text-purple-400 mr-2" />
               <span className="text-xs text-gray-400">Tokens</span>
             </div>
-            <span className="text-xs font-medium">{tokenCount}</span>
+            <span className="text-xs font-medium">{tokens}</span>
           </div>
 
           <div className="flex items-center justify-between">
@@ -71,9 +91,6 @@ const currentTime = useCurrentTime();
               <Activity className={`h-3 w-3 ${isProcessing ? 'text-green-400' : 'text-gray-400'} mr-2`} />
               <span className="text-xs text-gray-400">Status</span>
             </div>
-<Activity className={`h-3 w-3 ${isProcessing ? 'text-green-400' : 'text-gray-400'} mr-2`} />
-              <span className="text-xs text-gray-400">Status</span>
-            </div>
             <span className={`text-xs font-medium ${isProcessing ? 'text-green-400' : 'text-gray-400'}`}>
               {isProcessing ? 'Processing' : 'Idle'}
             </span>
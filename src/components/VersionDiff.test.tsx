@@ -0,0 +1,43 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import VersionDiff from './VersionDiff';
+import { CodeBlockManager } from '@backend/services/conversation/code-block-manager';
+
+describe('VersionDiff', () => {
+  it('merges a diverged version, resolving conflicts as chosen', () => {
+    const codeBlocks = new CodeBlockManager();
+    const block = codeBlocks.createCodeBlock('ts', 'const a = 1;\nconst b = 2;', 'turn-1');
+    const base = block.currentVersionId;
+    const other = codeBlocks.addVersion(block.id, 'const a = 10;\nconst b = 2;', 'turn-2', 'Other branch', base)!;
+    codeBlocks.addVersion(block.id, 'const a = 100;\nconst b = 2;', 'turn-3', 'This branch', base);
+    const onVersionChange = vi.fn();
+
+    render(<VersionDiff blockId={block.id} codeBlocks={codeBlocks} onVersionChange={onVersionChange} />);
+    // Only the other branch diverged; the initial version is an ancestor of the current one
+    expect(screen.getAllByText('Merge')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Merge'));
+    expect(screen.getByText(/1 conflicting change/)).toBeTruthy();
+    fireEvent.click(screen.getByText('Take other'));
+    fireEvent.click(screen.getByText('Save merge'));
+
+    const merged = codeBlocks.getCodeBlockVersion(block.id, codeBlocks.getCodeBlock(block.id)!.currentVersionId)!;
+    expect(merged.code).toBe('const a = 10;\nconst b = 2;');
+    expect(merged.mergedFromVersionIds).toEqual([expect.any(String), other.id]);
+    expect(onVersionChange).toHaveBeenCalledWith(merged);
+  });
+
+  it('adds the accepted hunks of a compared version as a new version', () => {
+    const codeBlocks = new CodeBlockManager();
+    const block = codeBlocks.createCodeBlock('ts', 'const a = 1;', 'turn-1');
+    codeBlocks.addVersion(block.id, 'const a = 2;', 'turn-2');
+
+    render(<VersionDiff blockId={block.id} codeBlocks={codeBlocks} />);
+    fireEvent.click(screen.getByText('Compare'));
+    fireEvent.click(screen.getByText('Apply accepted changes'));
+
+    const history = codeBlocks.getVersionHistory(block.id);
+    expect(history).toHaveLength(3);
+    expect(history[2]).toMatchObject({ code: 'const a = 1;', changeSummary: 'Accepted changes from another version' });
+  });
+});
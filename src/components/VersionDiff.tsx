@@ -1,20 +1,189 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { DiffView } from './DiffView';
+import { CodeBlockManager, codeBlockManager } from '@backend/services/conversation/code-block-manager';
+import { CodeDiff, ConflictResolution, MergeResult, resolveMerge } from '@backend/services/conversation/code-diff';
+import { CodeBlockVersion } from '@backend/services/conversation/conversation-types';
 
 interface VersionDiffProps {
-  sessionId: string;
-  onRollback: (snapshotId: string) => void;
+  blockId: string;
+  /** Turn recorded on the versions added here; the current version's turn by default */
+  turnId?: string;
+  /** Manager holding the block; the shared one by default */
+  codeBlocks?: CodeBlockManager;
+  /** Called when accepting changes or merging adds a version */
+  onVersionChange?: (version: CodeBlockVersion) => void;
 }
 
-interface VersionDiffProps {
-  sessionId: string;
+interface Comparison {
+  versionId: string;
+  diff: CodeDiff;
+}
+
+interface PendingMerge {
+  versionId: string;
+  result: MergeResult;
+  resolutions: ConflictResolution[];
 }
 
-const VersionDiff: React.FC<VersionDiffProps> = ({ sessionId }) => {
+const RESOLUTION_LABELS: Partial<Record<ConflictResolution, string>> = {
+  ours: 'Keep current',
+  theirs: 'Take other',
+  both: 'Keep both'
+};
+
+/**
+ * Compares a code block's versions with the current one. Accepting some of a version's hunks
+ * adds them as a new version; a version that diverged from the current one can be merged
+ * into it, choosing a side for each conflict.
+ */
+const VersionDiff: React.FC<VersionDiffProps> = ({ blockId, turnId, codeBlocks = codeBlockManager, onVersionChange }) => {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [merge, setMerge] = useState<PendingMerge | null>(null);
+  // The manager changes the block in place, so re-render when a version is added
+  const [, setRevision] = useState(0);
+
+  const block = codeBlocks.getCodeBlock(blockId);
+  const versions = codeBlocks.getVersionHistory(blockId);
+  const current = versions.find(v => v.id === block?.currentVersionId);
+  if (!block || !current) {
+    return (
+      <Card className="p-4 bg-black/30 border-purple-500/10">
+        <p className="text-sm text-gray-400">No versions of this code yet.</p>
+      </Card>
+    );
+  }
+
+  const compared = versions.find(v => v.id === comparison?.versionId);
+
+  // A version diverged when neither it nor the current version derives from the other
+  const diverged = (version: CodeBlockVersion) => {
+    const ancestor = codeBlocks.findCommonAncestor(blockId, current.id, version.id);
+    return !!ancestor && ancestor.id !== version.id && ancestor.id !== current.id;
+  };
+
+  const versionAdded = (version: CodeBlockVersion) => {
+    setRevision(value => value + 1);
+    onVersionChange?.(version);
+  };
+
+  const compare = (versionId: string) => {
+    // Computed once per comparison; the view keeps hunk decisions only while the diff is the same
+    const diff = codeBlocks.diffVersions(blockId, current.id, versionId);
+    setComparison(diff && { versionId, diff });
+    setMerge(null);
+  };
+
+  const handleApply = (code: string) => {
+    if (code !== current.code) {
+      const version = codeBlocks.addVersion(blockId, code, turnId ?? current.turnId, 'Accepted changes from another version', current.id);
+      if (version) versionAdded(version);
+    }
+    setComparison(null);
+  };
+
+  const startMerge = (versionId: string) => {
+    setComparison(null);
+    const outcome = codeBlocks.mergeVersions(blockId, current.id, versionId, turnId ?? current.turnId, { oursLabel: 'current', theirsLabel: 'other' });
+    if (!outcome) return;
+
+    if (outcome.version) {
+      versionAdded(outcome.version);
+      setMerge(null);
+    } else {
+      setMerge({ versionId, result: outcome.result, resolutions: outcome.result.conflicts.map(() => 'ours') });
+    }
+  };
+
+  const resolve = (index: number, resolution: ConflictResolution) => {
+    setMerge(pending => pending && {
+      ...pending,
+      resolutions: pending.resolutions.map((value, i) => (i === index ? resolution : value))
+    });
+  };
+
+  const finishMerge = () => {
+    if (!merge) return;
+
+    const code = resolveMerge(merge.result, (_, index) => merge.resolutions[index]);
+    const version = codeBlocks.addVersion(blockId, code, turnId ?? current.turnId, 'Merged versions', current.id);
+    if (version) {
+      version.mergedFromVersionIds = [current.id, merge.versionId];
+      versionAdded(version);
+    }
+    setMerge(null);
+  };
+
   return (
-    <Card className="p-4 bg-black/30 border-purple-500/10">
-      <p className="text-sm text-gray-400">Version history for session {sessionId} is not available.</p>
-    </Card>
+    <div className="space-y-4">
+      <Card className="p-4 bg-black/30 border-purple-500/10">
+        <ul className="space-y-2">
+          {[...versions].reverse().map(version => (
+            <li key={version.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-300">
+                {new Date(version.createdAt).toLocaleString()}
+                {version.changeSummary && <span className="ml-2 text-gray-500">{version.changeSummary}</span>}
+                {version.id === current.id && <span className="ml-2 text-purple-400">(current)</span>}
+              </span>
+              {version.id !== current.id && (
+                <span className="flex space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => compare(version.id)}>
+                    Compare
+                  </Button>
+                  {diverged(version) && (
+                    <Button size="sm" variant="outline" onClick={() => startMerge(version.id)}>
+                      Merge
+                    </Button>
+                  )}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Card>
+
+      {comparison && compared && (
+        <DiffView
+          original={current.code}
+          updated={compared.code}
+          diff={comparison.diff}
+          language={block.language}
+          fileName={block.filename}
+          onApply={handleApply}
+        />
+      )}
+
+      {merge && (
+        <Card className="p-4 bg-black/30 border-purple-500/10 space-y-3">
+          <p className="text-sm text-gray-300">
+            {merge.result.conflicts.length} conflicting {merge.result.conflicts.length === 1 ? 'change' : 'changes'}.
+            Choose what to keep for each.
+          </p>
+          {merge.result.conflicts.map((conflict, index) => (
+            <div key={index} className="space-y-1">
+              <div className="grid grid-cols-2 gap-2">
+                <pre className="p-2 overflow-auto text-xs font-mono whitespace-pre bg-black/40 rounded">{conflict.ours.join('\n')}</pre>
+                <pre className="p-2 overflow-auto text-xs font-mono whitespace-pre bg-black/40 rounded">{conflict.theirs.join('\n')}</pre>
+              </div>
+              <span className="flex space-x-1">
+                {Object.entries(RESOLUTION_LABELS).map(([resolution, label]) => (
+                  <Button
+                    key={resolution}
+                    size="sm"
+                    variant={merge.resolutions[index] === resolution ? 'default' : 'outline'}
+                    onClick={() => resolve(index, resolution as ConflictResolution)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </span>
+            </div>
+          ))}
+          <Button onClick={finishMerge}>Save merge</Button>
+        </Card>
+      )}
+    </div>
   );
 };
 
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import ChatInterface from '@/components/ChatInterface';
 import CodeEditor from '@/components/CodeEditor';
+import AgentRunPanel from '@/components/AgentRunPanel';
+import AgentPipelinePanel from '@/components/AgentPipelinePanel';
 
 
 export default function AgentLab() {
@@ -10,7 +12,14 @@ export default function AgentLab() {
   return (
 <div className="container mx-auto px-4 py-8 space-y-6">
   <h1 className="text-2xl font-bold">Agent Lab</h1>
-  <p className="mb-4">Experimental tools for building and testing agents will live here.</p>
+  <p className="mb-4">Experimental tools for building and testing agents. The agent plans a task as steps, runs each one and checks its output before moving on.</p>
+
+  <AgentRunPanel onOutput={setCode} />
+
+  <h2 className="text-xl font-semibold">Planner, coder and reviewer</h2>
+  <p className="mb-4">A planner writes the plan, a coder implements it, a reviewer critiques the code and the coder revises it. Each role can use its own provider and model.</p>
+
+  <AgentPipelinePanel onOutput={setCode} />
 
   <div className="grid grid-cols-1 md:grid-cols-2 gap-6 min-h-[500px]">
     <ChatInterface onCodeGenerated={setCode} />
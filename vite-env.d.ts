@@ -6,6 +6,7 @@ interface ImportMetaEnv {
   readonly REACT_APP_PROVIDERS_OPENAI_API_KEY: string;
   readonly REACT_APP_PROVIDERS_CLAUDE_API_KEY: string;
   readonly REACT_APP_PROVIDERS_GEMINI_API_KEY: string;
+  readonly REACT_APP_PROVIDERS_LOCAL_BASE_URL: string;
   readonly REACT_APP_PROVIDERS_DEFAULT_PROVIDER: string;
   readonly REACT_APP_AGENT_MAX_ITERATIONS: string;
   readonly REACT_APP_AGENT_ENABLE_TASK_BREAKDOWN: string;
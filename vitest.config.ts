@@ -34,6 +34,9 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),
+      '@frontend': resolve(__dirname, './frontend'),
+      '@backend': resolve(__dirname, './backend'),
+      '@shared': resolve(__dirname, './shared'),
     },
   },
 });
\ No newline at end of file